@@ -59,18 +59,15 @@ async function createAdminUser() {
     
     await connection.query(
       `INSERT INTO users 
-        (id, username, email, password, isAdmin, progress, purchases, redeemCodes, createdAt, updatedAt) 
+        (id, username, email, password, isAdmin, createdAt, updatedAt) 
        VALUES 
-        (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        (?, ?, ?, ?, ?, ?, ?)`,
       [
         userId,
         'admin',
         'admin@example.com',
         hashedPassword,
         1, // isAdmin=true
-        '{}', // empty progress
-        '[]', // empty purchases
-        '[]', // empty redeemCodes
         now,
         now
       ]
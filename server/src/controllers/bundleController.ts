@@ -0,0 +1,292 @@
+import { Request, Response } from 'express';
+import { sequelize } from '../config/db';
+import Bundle from '../models/Bundle';
+import BundlePurchase from '../models/BundlePurchase';
+import BundleQuestionSet from '../models/BundleQuestionSet';
+import {
+  loadBundles,
+  loadBundle,
+  findBundleQuestionSetError,
+  setBundleQuestionSets
+} from '../services/bundle';
+
+interface BundleFields {
+  title?: string;
+  description?: string;
+  price?: number;
+  accessDays?: number | null;
+  isActive?: boolean;
+  sortOrder?: number;
+  questionSetIds?: string[];
+}
+
+/**
+ * 读取请求中的套餐字段，未提交的字段不返回；格式不正确时返回错误信息
+ */
+function readBundleFields(body: Record<string, unknown>): { fields: BundleFields; error?: string } {
+  const fields: BundleFields = {};
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (!title) {
+      return { fields, error: '套餐名称不能为空' };
+    }
+    if (title.length > 100) {
+      return { fields, error: '套餐名称不能超过 100 个字符' };
+    }
+    fields.title = title;
+  }
+
+  if (body.description !== undefined) {
+    fields.description = body.description ? String(body.description) : '';
+  }
+
+  if (body.price !== undefined) {
+    const price = Math.round(Number(body.price) * 100) / 100;
+    if (!Number.isFinite(price) || price <= 0) {
+      return { fields, error: '套餐价格应大于 0' };
+    }
+    fields.price = price;
+  }
+
+  // null、空字符串或 "lifetime" 表示永久有效
+  if (body.accessDays !== undefined) {
+    if (body.accessDays === null || body.accessDays === '' || body.accessDays === 'lifetime') {
+      fields.accessDays = null;
+    } else {
+      const accessDays = Number(body.accessDays);
+      if (!Number.isInteger(accessDays) || accessDays < 1) {
+        return { fields, error: '有效天数应为正整数，永久有效请留空' };
+      }
+      fields.accessDays = accessDays;
+    }
+  }
+
+  if (body.isActive !== undefined) {
+    fields.isActive = body.isActive === true || body.isActive === 'true';
+  }
+
+  if (body.sortOrder !== undefined) {
+    const sortOrder = Number(body.sortOrder);
+    if (!Number.isInteger(sortOrder)) {
+      return { fields, error: '排序必须是整数' };
+    }
+    fields.sortOrder = sortOrder;
+  }
+
+  if (body.questionSetIds !== undefined) {
+    if (!Array.isArray(body.questionSetIds)) {
+      return { fields, error: 'questionSetIds 应为题库ID数组' };
+    }
+    fields.questionSetIds = body.questionSetIds.map(String);
+  }
+
+  return { fields };
+}
+
+/**
+ * @desc    获取上架的套餐及其中已发布的题库，?questionSetId= 只返回包含该题库的套餐
+ *          管理员带 ?includeInactive=true 时返回全部套餐和题库
+ * @route   GET /api/bundles
+ * @access  Public
+ */
+export const getBundles = async (req: Request, res: Response) => {
+  try {
+    const includeInactive = !!(req.user && req.user.isAdmin) && req.query.includeInactive === 'true';
+    const questionSetId = typeof req.query.questionSetId === 'string' ? req.query.questionSetId : undefined;
+
+    res.status(200).json({
+      success: true,
+      data: await loadBundles({ includeInactive, questionSetId })
+    });
+  } catch (error: any) {
+    console.error('获取套餐列表失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取套餐列表失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    获取套餐详情，下架的套餐只有管理员可以查看
+ * @route   GET /api/bundles/:id
+ * @access  Public
+ */
+export const getBundle = async (req: Request, res: Response) => {
+  try {
+    const bundle = await loadBundle(req.params.id, !!(req.user && req.user.isAdmin));
+    if (!bundle) {
+      return res.status(404).json({
+        success: false,
+        message: '套餐不存在'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: bundle
+    });
+  } catch (error: any) {
+    console.error('获取套餐失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取套餐失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    创建套餐
+ * @route   POST /api/bundles
+ * @access  Admin
+ */
+export const createBundle = async (req: Request, res: Response) => {
+  try {
+    const { fields, error } = readBundleFields(req.body);
+    const missing = !fields.title ? '套餐名称不能为空' : fields.price === undefined ? '请设置套餐价格' : null;
+    if (error || missing) {
+      return res.status(400).json({
+        success: false,
+        message: error || missing
+      });
+    }
+
+    const questionSetIds = fields.questionSetIds || [];
+    const questionSetError = await findBundleQuestionSetError(questionSetIds);
+    if (questionSetError) {
+      return res.status(400).json({
+        success: false,
+        message: questionSetError
+      });
+    }
+
+    const bundle = await sequelize.transaction(async transaction => {
+      const created = await Bundle.create({
+        title: fields.title as string,
+        description: fields.description || '',
+        price: fields.price as number,
+        ...(fields.accessDays !== undefined ? { accessDays: fields.accessDays } : {}),
+        isActive: fields.isActive !== undefined ? fields.isActive : true,
+        sortOrder: fields.sortOrder || 0
+      }, { transaction });
+
+      await setBundleQuestionSets(created.id, questionSetIds, transaction);
+      return created;
+    });
+
+    res.status(201).json({
+      success: true,
+      data: await loadBundle(bundle.id, true),
+      message: '套餐创建成功'
+    });
+  } catch (error: any) {
+    console.error('创建套餐失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '创建套餐失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    更新套餐，已购买的套餐不受影响（购买时记录了当时包含的题库和有效期）
+ * @route   PUT /api/bundles/:id
+ * @access  Admin
+ */
+export const updateBundle = async (req: Request, res: Response) => {
+  try {
+    const bundle = await Bundle.findByPk(req.params.id);
+    if (!bundle) {
+      return res.status(404).json({
+        success: false,
+        message: '套餐不存在'
+      });
+    }
+
+    const { fields, error } = readBundleFields(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error
+      });
+    }
+
+    const { questionSetIds, ...bundleFields } = fields;
+    if (questionSetIds) {
+      const questionSetError = await findBundleQuestionSetError(questionSetIds);
+      if (questionSetError) {
+        return res.status(400).json({
+          success: false,
+          message: questionSetError
+        });
+      }
+    }
+
+    await sequelize.transaction(async transaction => {
+      await bundle.update(bundleFields, { transaction });
+
+      if (questionSetIds) {
+        await setBundleQuestionSets(bundle.id, questionSetIds, transaction);
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: await loadBundle(bundle.id, true),
+      message: '套餐更新成功'
+    });
+  } catch (error: any) {
+    console.error('更新套餐失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '更新套餐失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    删除套餐，已有购买记录的套餐只能下架
+ * @route   DELETE /api/bundles/:id
+ * @access  Admin
+ */
+export const deleteBundle = async (req: Request, res: Response) => {
+  try {
+    const bundle = await Bundle.findByPk(req.params.id);
+    if (!bundle) {
+      return res.status(404).json({
+        success: false,
+        message: '套餐不存在'
+      });
+    }
+
+    const purchaseCount = await BundlePurchase.count({ where: { bundleId: bundle.id } });
+    if (purchaseCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `该套餐已有 ${purchaseCount} 条购买记录，不能删除，请改为下架`
+      });
+    }
+
+    await sequelize.transaction(async transaction => {
+      await BundleQuestionSet.destroy({ where: { bundleId: bundle.id }, transaction });
+      await bundle.destroy({ transaction });
+    });
+
+    res.status(200).json({
+      success: true,
+      message: '套餐已删除'
+    });
+  } catch (error: any) {
+    console.error('删除套餐失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '删除套餐失败',
+      error: error.message
+    });
+  }
+};
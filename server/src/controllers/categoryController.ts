@@ -0,0 +1,424 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import { RowDataPacket } from 'mysql2';
+import db, { sequelize } from '../config/db';
+import Category from '../models/Category';
+import QuestionSet from '../models/QuestionSet';
+import HomepageSettings from '../models/HomepageSettings';
+import { PUBLISHED_QUESTION_SET_SQL } from '../services/questionSetAccess';
+import {
+  loadCategoryIndex,
+  getCategoryAncestors,
+  getDescendantIds,
+  toCategorySummary,
+  buildCategoryTree,
+  countQuestionSetsByCategory,
+  generateUniqueSlug,
+  slugify,
+  findCategoryByReference,
+  refreshQuestionSetCategoryPaths,
+  CategoryNode
+} from '../services/category';
+
+interface CategoryQuestionSetRow extends RowDataPacket {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  categoryId: string;
+  icon: string;
+  isPaid: boolean;
+  price: number | null;
+  trialQuestions: number | null;
+  questionCount: number;
+}
+
+interface CategoryFields {
+  name?: string;
+  slug?: string;
+  parentId?: string | null;
+  icon?: string | null;
+  sortOrder?: number;
+}
+
+/**
+ * 读取请求中的分类字段，未提交的字段不返回；格式不正确时返回错误信息
+ */
+function readCategoryFields(body: Record<string, unknown>): { fields: CategoryFields; error?: string } {
+  const fields: CategoryFields = {};
+
+  if (body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return { fields, error: '分类名称不能为空' };
+    }
+    if (name.length > 50 || name.includes('>')) {
+      return { fields, error: '分类名称不能超过 50 个字符，且不能包含 ">"' };
+    }
+    fields.name = name;
+  }
+
+  if (body.slug !== undefined && body.slug !== null && body.slug !== '') {
+    const slug = slugify(String(body.slug));
+    if (slug !== String(body.slug).trim().toLowerCase()) {
+      return { fields, error: 'slug 只能包含文字、数字和连字符' };
+    }
+    fields.slug = slug;
+  }
+
+  if (body.parentId !== undefined) {
+    fields.parentId = body.parentId ? String(body.parentId) : null;
+  }
+
+  if (body.icon !== undefined) {
+    fields.icon = body.icon ? String(body.icon) : null;
+  }
+
+  if (body.sortOrder !== undefined) {
+    const sortOrder = Number(body.sortOrder);
+    if (!Number.isInteger(sortOrder)) {
+      return { fields, error: '排序必须是整数' };
+    }
+    fields.sortOrder = sortOrder;
+  }
+
+  return { fields };
+}
+
+/**
+ * 同一级分类中是否已有同名分类
+ */
+const hasSiblingNamed = async (name: string, parentId: string | null, excludeId?: string) => {
+  const count = await Category.count({
+    where: {
+      name,
+      parentId,
+      ...(excludeId ? { id: { [Op.ne]: excludeId } } : {})
+    }
+  });
+  return count > 0;
+};
+
+/**
+ * @desc    获取分类树，节点上的 questionSetCount 包含子分类中的题库
+ *          ?flat=true 返回按树的顺序展开的列表，管理员带 ?includeUnpublished=true 时统计全部题库
+ * @route   GET /api/categories
+ * @access  Public
+ */
+export const getCategories = async (req: Request, res: Response) => {
+  try {
+    const includeUnpublished = !!(req.user && req.user.isAdmin) && req.query.includeUnpublished === 'true';
+    const index = await loadCategoryIndex();
+    const tree = buildCategoryTree(index, await countQuestionSetsByCategory(includeUnpublished));
+
+    if (req.query.flat === 'true') {
+      const flat: (Omit<CategoryNode, 'children'> & { depth: number })[] = [];
+      const walk = (nodes: CategoryNode[], depth: number) => {
+        nodes.forEach(({ children, ...node }) => {
+          flat.push({ ...node, depth });
+          walk(children, depth + 1);
+        });
+      };
+      walk(tree, 0);
+
+      return res.status(200).json({
+        success: true,
+        data: flat
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: tree
+    });
+  } catch (error: any) {
+    console.error('获取分类失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取分类失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    获取分类详情，包含上级分类、子分类和该分类及子分类中已发布的题库
+ * @route   GET /api/categories/:idOrSlug
+ * @access  Public
+ */
+export const getCategory = async (req: Request, res: Response) => {
+  try {
+    const category = await findCategoryByReference(req.params.idOrSlug);
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: '分类不存在'
+      });
+    }
+
+    const index = await loadCategoryIndex();
+    const tree = buildCategoryTree(index, await countQuestionSetsByCategory());
+    const findNode = (nodes: CategoryNode[]): CategoryNode | undefined => {
+      for (const node of nodes) {
+        const found = node.id === category.id ? node : findNode(node.children);
+        if (found) return found;
+      }
+      return undefined;
+    };
+    const node = findNode(tree);
+
+    const categoryIds = getDescendantIds(category.id, index);
+    const [questionSets] = await db.execute<CategoryQuestionSetRow[]>(`
+      SELECT
+        qs.id,
+        qs.title,
+        qs.description,
+        qs.category,
+        qs.categoryId,
+        qs.icon,
+        qs.isPaid,
+        qs.price,
+        qs.trialQuestions,
+        COUNT(l.id) AS questionCount
+      FROM
+        question_sets qs
+      LEFT JOIN
+        question_set_questions l ON qs.id = l.questionSetId
+      WHERE
+        qs.categoryId IN (${categoryIds.map(() => '?').join(', ')}) AND ${PUBLISHED_QUESTION_SET_SQL}
+      GROUP BY
+        qs.id
+      ORDER BY
+        qs.isFeatured DESC,
+        qs.createdAt DESC
+    `, categoryIds);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...toCategorySummary(category.get({ plain: true }), index),
+        questionSetCount: node ? node.questionSetCount : questionSets.length,
+        ancestors: getCategoryAncestors(category.id, index)
+          .slice(0, -1)
+          .map(ancestor => toCategorySummary(ancestor, index)),
+        // 子分类只返回自身的信息和题库数，不展开下级分类
+        children: node ? node.children.map(child => ({ ...child, children: undefined })) : [],
+        questionSets
+      }
+    });
+  } catch (error: any) {
+    console.error('获取分类详情失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取分类详情失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    创建分类，未提供 slug 时由名称生成
+ * @route   POST /api/categories
+ * @access  Admin
+ */
+export const createCategory = async (req: Request, res: Response) => {
+  try {
+    const { fields, error } = readCategoryFields(req.body);
+    if (error || !fields.name) {
+      return res.status(400).json({
+        success: false,
+        message: error || '分类名称不能为空'
+      });
+    }
+
+    const parentId = fields.parentId || null;
+    if (parentId && !(await Category.findByPk(parentId))) {
+      return res.status(400).json({
+        success: false,
+        message: '上级分类不存在'
+      });
+    }
+
+    if (await hasSiblingNamed(fields.name, parentId)) {
+      return res.status(400).json({
+        success: false,
+        message: '同一级中已有同名分类'
+      });
+    }
+
+    if (fields.slug && (await Category.count({ where: { slug: fields.slug } })) > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'slug 已被其他分类使用'
+      });
+    }
+
+    const category = await Category.create({
+      name: fields.name,
+      slug: fields.slug || await generateUniqueSlug(fields.name),
+      parentId,
+      icon: fields.icon || null,
+      sortOrder: fields.sortOrder || 0
+    });
+
+    const index = await loadCategoryIndex();
+
+    res.status(201).json({
+      success: true,
+      data: toCategorySummary(category.get({ plain: true }), index),
+      message: '分类创建成功'
+    });
+  } catch (error: any) {
+    console.error('创建分类失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '创建分类失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    更新分类，改名或移动后同步题库中保存的分类路径
+ * @route   PUT /api/categories/:id
+ * @access  Admin
+ */
+export const updateCategory = async (req: Request, res: Response) => {
+  try {
+    const category = await Category.findByPk(req.params.id);
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: '分类不存在'
+      });
+    }
+
+    const { fields, error } = readCategoryFields(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error
+      });
+    }
+
+    const index = await loadCategoryIndex();
+    const parentId = fields.parentId !== undefined ? fields.parentId : category.parentId || null;
+
+    if (parentId && !index.has(parentId)) {
+      return res.status(400).json({
+        success: false,
+        message: '上级分类不存在'
+      });
+    }
+
+    // 不能移动到自己或自己的子分类下
+    if (parentId && getDescendantIds(category.id, index).includes(parentId)) {
+      return res.status(400).json({
+        success: false,
+        message: '不能把分类移动到它自己或它的子分类下'
+      });
+    }
+
+    const name = fields.name || category.name;
+    if ((name !== category.name || parentId !== (category.parentId || null))
+      && await hasSiblingNamed(name, parentId, category.id)) {
+      return res.status(400).json({
+        success: false,
+        message: '同一级中已有同名分类'
+      });
+    }
+
+    if (fields.slug && fields.slug !== category.slug
+      && (await Category.count({ where: { slug: fields.slug, id: { [Op.ne]: category.id } } })) > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'slug 已被其他分类使用'
+      });
+    }
+
+    const pathChanged = name !== category.name || parentId !== (category.parentId || null);
+
+    await sequelize.transaction(async transaction => {
+      await category.update({ ...fields, name, parentId }, { transaction });
+
+      if (pathChanged) {
+        const updatedIndex = await loadCategoryIndex(transaction);
+        await refreshQuestionSetCategoryPaths(getDescendantIds(category.id, updatedIndex), transaction);
+      }
+    });
+
+    const updatedIndex = await loadCategoryIndex();
+
+    res.status(200).json({
+      success: true,
+      data: toCategorySummary(category.get({ plain: true }), updatedIndex),
+      message: '分类更新成功'
+    });
+  } catch (error: any) {
+    console.error('更新分类失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '更新分类失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    删除分类，有子分类或题库的分类不能删除；同时从首页精选分类中移除
+ * @route   DELETE /api/categories/:id
+ * @access  Admin
+ */
+export const deleteCategory = async (req: Request, res: Response) => {
+  try {
+    const category = await Category.findByPk(req.params.id);
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: '分类不存在'
+      });
+    }
+
+    const childCount = await Category.count({ where: { parentId: category.id } });
+    if (childCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `该分类下还有 ${childCount} 个子分类，请先移动或删除子分类`
+      });
+    }
+
+    const questionSetCount = await QuestionSet.count({
+      where: { [Op.or]: [{ categoryId: category.id }, { featuredCategoryId: category.id }] }
+    });
+    if (questionSetCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `还有 ${questionSetCount} 个题库使用该分类，请先修改这些题库的分类`
+      });
+    }
+
+    await sequelize.transaction(async transaction => {
+      const settings = await HomepageSettings.findByPk(1, { transaction });
+      const featured = settings ? settings.featured_categories || [] : [];
+      if (settings && featured.includes(category.id)) {
+        await settings.update({
+          featured_categories: featured.filter(id => id !== category.id)
+        }, { transaction });
+      }
+
+      await category.destroy({ transaction });
+    });
+
+    res.status(200).json({
+      success: true,
+      message: '分类已删除'
+    });
+  } catch (error: any) {
+    console.error('删除分类失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '删除分类失败',
+      error: error.message
+    });
+  }
+};
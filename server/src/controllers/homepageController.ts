@@ -1,17 +1,42 @@
 import { Request, Response } from 'express';
 import HomepageSettings from '../models/HomepageSettings';
 import QuestionSet from '../models/QuestionSet';
+import { publishedQuestionSetWhere } from '../services/questionSetAccess';
+import { loadFeaturedCategories, readCategoryReference, CategorySummary } from '../services/category';
 
 interface HomeContent {
   welcomeTitle: string;
   welcomeDescription: string;
-  featuredCategories: string[];
+  featuredCategories: CategorySummary[];
   announcements: string;
   footerText: string;
   bannerImage?: string | null;
   theme?: 'light' | 'dark' | 'auto';
 }
 
+/**
+ * 读取请求中的精选分类，每项可以是分类ID、slug 或分类路径，返回去重后的分类ID；
+ * 未提交时 ids 为 undefined
+ */
+const readFeaturedCategoryIds = async (value: unknown): Promise<{ ids?: string[]; error?: string }> => {
+  if (value === undefined) return {};
+  if (!Array.isArray(value)) {
+    return { error: '精选分类必须是一个数组' };
+  }
+
+  const ids: string[] = [];
+  for (const item of value) {
+    const reference = item && typeof item === 'object' ? (item as { id?: unknown }).id : item;
+    const { value: category, error } = await readCategoryReference(reference);
+    if (error || !category || !category.id) {
+      return { error: error || '精选分类不能为空' };
+    }
+    if (!ids.includes(category.id)) ids.push(category.id);
+  }
+
+  return { ids };
+};
+
 /**
  * @desc    获取首页配置
  * @route   GET /api/homepage/content
@@ -27,7 +52,7 @@ export const getHomepageContent = async (req: Request, res: Response) => {
       const defaultContent: HomeContent = {
         welcomeTitle: "ExamTopics 模拟练习",
         welcomeDescription: "选择以下任一题库开始练习，测试您的知识水平",
-        featuredCategories: ["网络协议", "编程语言", "计算机基础"],
+        featuredCategories: [],
         announcements: "欢迎使用在线题库系统，新增题库将定期更新，请持续关注！",
         footerText: "© 2023 ExamTopics 在线题库系统 保留所有权利",
         bannerImage: "/images/banner.jpg",
@@ -44,7 +69,7 @@ export const getHomepageContent = async (req: Request, res: Response) => {
     const content: HomeContent = {
       welcomeTitle: settings.welcome_title,
       welcomeDescription: settings.welcome_description,
-      featuredCategories: settings.featured_categories || [],
+      featuredCategories: await loadFeaturedCategories(settings.featured_categories || []),
       announcements: settings.announcements,
       footerText: settings.footer_text,
       bannerImage: settings.banner_image,
@@ -82,6 +107,14 @@ export const updateHomepageContent = async (req: Request, res: Response) => {
       theme
     } = req.body;
 
+    const featured = await readFeaturedCategoryIds(featuredCategories);
+    if (featured.error) {
+      return res.status(400).json({
+        success: false,
+        message: featured.error
+      });
+    }
+
     // 查找是否已存在配置
     let settings = await HomepageSettings.findByPk(1);
 
@@ -91,7 +124,7 @@ export const updateHomepageContent = async (req: Request, res: Response) => {
         id: 1,
         welcome_title: welcomeTitle,
         welcome_description: welcomeDescription,
-        featured_categories: featuredCategories,
+        featured_categories: featured.ids || [],
         announcements: announcements,
         footer_text: footerText,
         banner_image: bannerImage || null,
@@ -102,7 +135,7 @@ export const updateHomepageContent = async (req: Request, res: Response) => {
       await settings.update({
         welcome_title: welcomeTitle,
         welcome_description: welcomeDescription,
-        featured_categories: featuredCategories,
+        ...(featured.ids ? { featured_categories: featured.ids } : {}),
         announcements: announcements,
         footer_text: footerText,
         banner_image: bannerImage || null,
@@ -125,7 +158,7 @@ export const updateHomepageContent = async (req: Request, res: Response) => {
 };
 
 /**
- * @desc    获取精选分类
+ * @desc    获取精选分类，按首页显示顺序返回分类
  * @route   GET /api/homepage/featured-categories
  * @access  Public
  */
@@ -134,9 +167,9 @@ export const getFeaturedCategories = async (req: Request, res: Response) => {
     // 从首页配置中获取精选分类
     const settings = await HomepageSettings.findByPk(1);
 
-    let featuredCategories: string[] = [];
+    let featuredCategories: CategorySummary[] = [];
     if (settings && settings.featured_categories) {
-      featuredCategories = settings.featured_categories || [];
+      featuredCategories = await loadFeaturedCategories(settings.featured_categories);
     }
 
     res.status(200).json({
@@ -154,18 +187,18 @@ export const getFeaturedCategories = async (req: Request, res: Response) => {
 };
 
 /**
- * @desc    更新精选分类
+ * @desc    更新精选分类，featuredCategories 为分类ID数组，按数组顺序显示
  * @route   PUT /api/homepage/featured-categories
  * @access  Admin
  */
 export const updateFeaturedCategories = async (req: Request, res: Response) => {
   try {
-    const { featuredCategories } = req.body;
+    const featured = await readFeaturedCategoryIds(req.body.featuredCategories);
 
-    if (!Array.isArray(featuredCategories)) {
+    if (!featured.ids) {
       return res.status(400).json({
         success: false,
-        message: '精选分类必须是一个数组'
+        message: featured.error || '精选分类必须是一个数组'
       });
     }
 
@@ -178,7 +211,7 @@ export const updateFeaturedCategories = async (req: Request, res: Response) => {
         id: 1,
         welcome_title: 'ExamTopics 模拟练习',
         welcome_description: '选择以下任一题库开始练习，测试您的知识水平',
-        featured_categories: featuredCategories,
+        featured_categories: featured.ids,
         announcements: '欢迎使用在线题库系统，新增题库将定期更新，请持续关注！',
         footer_text: '© 2023 ExamTopics 在线题库系统 保留所有权利',
         banner_image: '/images/banner.jpg',
@@ -187,7 +220,7 @@ export const updateFeaturedCategories = async (req: Request, res: Response) => {
     } else {
       // 更新现有配置
       await settings.update({
-        featured_categories: featuredCategories
+        featured_categories: featured.ids
       });
     }
 
@@ -215,7 +248,8 @@ export const getFeaturedQuestionSets = async (req: Request, res: Response) => {
     // 查询所有标记为精选的题库
     const featuredSets = await QuestionSet.findAll({
       where: {
-        isFeatured: true
+        isFeatured: true,
+        ...publishedQuestionSetWhere()
       }
     });
 
@@ -241,7 +275,17 @@ export const getFeaturedQuestionSets = async (req: Request, res: Response) => {
 export const updateQuestionSetFeaturedStatus = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { isFeatured, featuredCategory } = req.body;
+    const { isFeatured, featuredCategory, featuredCategoryId } = req.body;
+
+    const featuredCategoryInput = await readCategoryReference(
+      featuredCategoryId !== undefined ? featuredCategoryId : featuredCategory
+    );
+    if (featuredCategoryInput.error) {
+      return res.status(400).json({
+        success: false,
+        message: featuredCategoryInput.error
+      });
+    }
 
     // 查找题库
     const questionSet = await QuestionSet.findByPk(id);
@@ -254,7 +298,7 @@ export const updateQuestionSetFeaturedStatus = async (req: Request, res: Respons
     }
 
     // 准备更新数据对象
-    const updateData: { isFeatured?: boolean, featuredCategory?: string | undefined } = {};
+    const updateData: { isFeatured?: boolean, featuredCategory?: string | null, featuredCategoryId?: string | null } = {};
     
     // 如果提供了 isFeatured 参数
     if (typeof isFeatured === 'boolean') {
@@ -262,20 +306,22 @@ export const updateQuestionSetFeaturedStatus = async (req: Request, res: Respons
       
       // 如果取消精选，同时清除精选分类
       if (isFeatured === false) {
-        updateData.featuredCategory = undefined;
+        updateData.featuredCategory = null;
+        updateData.featuredCategoryId = null;
       }
     }
     
-    // 如果提供了 featuredCategory 参数
-    if (featuredCategory !== undefined) {
-      updateData.featuredCategory = featuredCategory || undefined;
+    // 如果提供了精选分类参数
+    if (featuredCategoryInput.value) {
+      updateData.featuredCategory = featuredCategoryInput.value.path || null;
+      updateData.featuredCategoryId = featuredCategoryInput.value.id;
     }
     
     // 没有任何参数时返回错误
     if (Object.keys(updateData).length === 0) {
       return res.status(400).json({
         success: false,
-        message: '需要提供 isFeatured 或 featuredCategory 参数'
+        message: '需要提供 isFeatured 或 featuredCategoryId 参数'
       });
     }
 
@@ -286,7 +332,7 @@ export const updateQuestionSetFeaturedStatus = async (req: Request, res: Respons
     let message = '';
     if ('isFeatured' in updateData) {
       message = `题库${updateData.isFeatured ? '已添加到' : '已从'}精选列表${updateData.isFeatured ? '中' : '移除'}`;
-    } else if ('featuredCategory' in updateData) {
+    } else if ('featuredCategoryId' in updateData) {
       message = '题库精选分类已更新';
     }
 
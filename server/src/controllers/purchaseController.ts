@@ -1,7 +1,12 @@
 import { Request, Response } from 'express';
 import { Op } from 'sequelize';
-import { Purchase, User, QuestionSet, sequelize } from '../models';
-import { stripePaymentIntent } from '../services/stripe';
+import { Purchase, User, QuestionSet, Bundle, BundlePurchase } from '../models';
+import { getPaymentProvider, getPaymentProviderName, getPaymentCurrency, isMockPaymentEnabled, PaymentEvent } from '../services/paymentProvider';
+import { simulateMockPayment } from '../services/mockPayment';
+import { findActivePurchase, isQuestionSetPublished } from '../services/questionSetAccess';
+import { applyPaymentEvent, refundPurchaseByAdmin, refundBundlePurchaseByAdmin } from '../services/purchaseFulfillment';
+import { calculateExpiryDate, findPricingTier, getPricingTiers } from '../services/pricingTiers';
+import { loadBundle, loadBundles } from '../services/bundle';
 import { v4 as uuidv4 } from 'uuid';
 
 // @desc    Create a new purchase (payment intent)
@@ -9,12 +14,12 @@ import { v4 as uuidv4 } from 'uuid';
 // @access  Private
 export const createPurchase = async (req: Request, res: Response) => {
   try {
-    const { questionSetId } = req.body;
+    const { questionSetId, pricingTierId } = req.body;
     const userId = req.user.id;
 
-    // Validate the question set ID
+    // Validate the question set ID (unpublished sets cannot be purchased)
     const questionSet = await QuestionSet.findByPk(questionSetId);
-    if (!questionSet) {
+    if (!questionSet || !isQuestionSetPublished(questionSet)) {
       return res.status(404).json({
         success: false,
         message: 'Question set not found'
@@ -29,6 +34,15 @@ export const createPurchase = async (req: Request, res: Response) => {
       });
     }
 
+    // The chosen pricing tier decides the amount and how long access lasts (first tier by default)
+    const tier = findPricingTier(questionSet, pricingTierId);
+    if (!tier) {
+      return res.status(400).json({
+        success: false,
+        message: 'Pricing tier not found'
+      });
+    }
+
     // Check if user already has an active purchase for this question set
     const user = await User.findByPk(userId);
     if (!user) {
@@ -39,15 +53,7 @@ export const createPurchase = async (req: Request, res: Response) => {
     }
 
     // 查找现有购买记录
-    const existingPurchase = await Purchase.findOne({
-      where: {
-        userId,
-        questionSetId,
-        expiryDate: {
-          [Op.gt]: new Date()
-        }
-      }
-    });
+    const existingPurchase = await findActivePurchase(userId, questionSetId);
 
     if (existingPurchase) {
       return res.status(400).json({
@@ -59,22 +65,46 @@ export const createPurchase = async (req: Request, res: Response) => {
       });
     }
 
-    // Create a payment intent with Stripe
-    const paymentIntent = await stripePaymentIntent({
-      amount: questionSet.price ? Math.round(questionSet.price * 100) : 0, // Convert to cents
-      currency: 'usd',
+    // Create a payment intent with the configured provider (amount in yuan)
+    const provider = getPaymentProvider();
+    const amount = tier.price;
+    const currency = getPaymentCurrency();
+    const paymentIntent = await provider.createIntent({
+      amount,
+      currency,
       metadata: {
         userId: userId.toString(),
         questionSetId: questionSetId,
-        questionSetTitle: questionSet.title
+        questionSetTitle: questionSet.title,
+        pricingTierId: tier.id
       }
     });
 
+    // Record the purchase as pending; only a verified webhook event can complete it
+    const purchase = await Purchase.create({
+      id: uuidv4(),
+      userId,
+      questionSetId,
+      purchaseDate: new Date(),
+      expiryDate: calculateExpiryDate(tier.durationDays),
+      transactionId: paymentIntent.id,
+      amount,
+      paymentMethod: provider.name,
+      pricingTierId: tier.id,
+      accessDays: tier.durationDays,
+      status: 'pending'
+    });
+
     res.status(201).json({
       success: true,
       data: {
-        clientSecret: paymentIntent.client_secret,
-        amount: questionSet.price,
+        purchaseId: purchase.id,
+        paymentIntentId: paymentIntent.id,
+        clientSecret: paymentIntent.clientSecret,
+        provider: provider.name,
+        amount,
+        currency,
+        pricingTier: tier,
         questionSetId: questionSetId,
         questionSetTitle: questionSet.title
       }
@@ -88,67 +118,382 @@ export const createPurchase = async (req: Request, res: Response) => {
   }
 };
 
-// @desc    Complete purchase after successful payment
-// @route   POST /api/purchases/complete
+// @desc    Create a bundle purchase (one payment for every question set in the bundle)
+// @route   POST /api/purchases/bundle
 // @access  Private
-export const completePurchase = async (req: Request, res: Response) => {
-  const transaction = await sequelize.transaction();
-
+export const createBundlePurchase = async (req: Request, res: Response) => {
   try {
-    const { paymentIntentId, questionSetId, amount } = req.body;
+    const { bundleId } = req.body;
     const userId = req.user.id;
 
-    if (!paymentIntentId || !questionSetId || amount === undefined) {
-      return res.status(400).json({
+    // Only active bundles can be bought, and only their published question sets are granted
+    const bundle = bundleId ? await loadBundle(bundleId) : null;
+    if (!bundle) {
+      return res.status(404).json({
         success: false,
-        message: 'Please provide paymentIntentId, questionSetId, and amount'
+        message: 'Bundle not found'
       });
     }
 
-    // Verify the question set
-    const questionSet = await QuestionSet.findByPk(questionSetId, { transaction });
-    if (!questionSet) {
-      await transaction.rollback();
-      return res.status(404).json({
+    const questionSetIds = bundle.questionSets.map(questionSet => questionSet.id);
+    const activePurchases = await Promise.all(questionSetIds.map(id => findActivePurchase(userId, id)));
+    if (activePurchases.every(Boolean)) {
+      return res.status(400).json({
         success: false,
-        message: 'Question set not found'
+        message: 'You already have access to every question set in this bundle'
       });
     }
 
-    // Calculate expiry date (6 months from now)
-    const expiryDate = new Date();
-    expiryDate.setMonth(expiryDate.getMonth() + 6);
+    const provider = getPaymentProvider();
+    const amount = bundle.price;
+    const currency = getPaymentCurrency();
+    const paymentIntent = await provider.createIntent({
+      amount,
+      currency,
+      metadata: {
+        userId: userId.toString(),
+        bundleId: bundle.id,
+        bundleTitle: bundle.title
+      }
+    });
 
-    // Create a new purchase record
-    const purchase = await Purchase.create({
+    // The grants for each question set are created when a verified webhook confirms the payment
+    const bundlePurchase = await BundlePurchase.create({
       id: uuidv4(),
       userId,
-      questionSetId,
-      purchaseDate: new Date(),
-      expiryDate,
-      transactionId: paymentIntentId,
+      bundleId: bundle.id,
+      questionSetIds,
+      transactionId: paymentIntent.id,
       amount,
-      paymentMethod: 'card',
-      status: 'completed'
-    }, { transaction });
-
-    await transaction.commit();
+      paymentMethod: provider.name,
+      accessDays: bundle.accessDays,
+      status: 'pending'
+    });
 
     res.status(201).json({
       success: true,
-      message: 'Purchase completed successfully',
+      data: {
+        purchaseId: bundlePurchase.id,
+        paymentIntentId: paymentIntent.id,
+        clientSecret: paymentIntent.clientSecret,
+        provider: provider.name,
+        amount,
+        currency,
+        bundleId: bundle.id,
+        bundleTitle: bundle.title
+      }
+    });
+  } catch (error: any) {
+    console.error('Create bundle purchase error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Server error'
+    });
+  }
+};
+
+// Find the user's purchase or bundle purchase for a payment intent
+const findPaymentRecord = async (transactionId: string, userId: string) => {
+  const purchase = await Purchase.findOne({ where: { transactionId, userId } });
+  return purchase || BundlePurchase.findOne({ where: { transactionId, userId } });
+};
+
+// @desc    Get the status of a purchase by its payment intent
+// @route   GET /api/purchases/status/:paymentIntentId
+// @access  Private
+export const getPurchaseStatus = async (req: Request, res: Response) => {
+  try {
+    const purchase = await findPaymentRecord(req.params.paymentIntentId, req.user.id);
+
+    if (!purchase) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase not found'
+      });
+    }
+
+    // While the webhook has not arrived yet, ask the provider so the client can stop
+    // waiting on a failed payment. This never changes the purchase record itself.
+    let paymentStatus: string | null = null;
+    if (purchase.status === 'pending') {
+      try {
+        paymentStatus = (await getPaymentProvider().verify(purchase.transactionId)).status;
+      } catch {
+        paymentStatus = null;
+      }
+    }
+
+    res.json({
+      success: true,
       data: {
         purchase: {
           id: purchase.id,
-          questionSetId,
-          expiryDate
-        }
+          ...(purchase instanceof BundlePurchase
+            ? { bundleId: purchase.bundleId }
+            : { questionSetId: purchase.questionSetId }),
+          status: purchase.status,
+          expiryDate: purchase.expiryDate
+        },
+        paymentStatus
       }
     });
   } catch (error: any) {
-    await transaction.rollback();
-    
-    console.error('Complete purchase error:', error);
+    console.error('Get purchase status error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Server error'
+    });
+  }
+};
+
+// @desc    Get the configured payment provider for the payment form
+// @route   GET /api/purchases/config
+// @access  Public
+export const getPaymentConfig = async (req: Request, res: Response) => {
+  try {
+    const provider = getPaymentProviderName();
+
+    res.json({
+      success: true,
+      data: {
+        provider,
+        currency: getPaymentCurrency(),
+        publishableKey: provider === 'stripe' ? process.env.STRIPE_PUBLISHABLE_KEY || null : null
+      }
+    });
+  } catch (error: any) {
+    console.error('Get payment config error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Server error'
+    });
+  }
+};
+
+const logPaymentEvent = (event: PaymentEvent, result: string) => {
+  const target = event.type === 'ignored' ? event.providerType : `${event.type} ${event.transactionId}`;
+  console.log(`Payment event ${event.eventId} (${target}): ${result}`);
+};
+
+// @desc    Receive payment provider webhook events and update purchases
+// @route   POST /api/purchases/webhook
+// @access  Public (verified by the provider signature header, needs the raw request body)
+export const handlePaymentWebhook = async (req: Request, res: Response) => {
+  let event: PaymentEvent;
+
+  try {
+    event = getPaymentProvider().parseWebhook(req.body, req.headers);
+  } catch (error: any) {
+    return res.status(400).json({
+      success: false,
+      message: `Webhook signature verification failed: ${error.message}`
+    });
+  }
+
+  try {
+    const result = await applyPaymentEvent(event);
+    logPaymentEvent(event, result);
+    res.json({ received: true, result });
+  } catch (error: any) {
+    // A non-2xx response makes the provider retry the event later
+    console.error('Payment webhook error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Server error'
+    });
+  }
+};
+
+// @desc    Finish a payment with the mock provider (development only)
+// @route   POST /api/purchases/mock/:paymentIntentId/confirm
+// @access  Private
+export const confirmMockPayment = async (req: Request, res: Response) => {
+  try {
+    if (!isMockPaymentEnabled()) {
+      return res.status(404).json({
+        success: false,
+        message: 'Mock payments are not enabled'
+      });
+    }
+
+    const { paymentIntentId } = req.params;
+    const outcome = req.body.outcome === 'failed' ? 'failed' : 'succeeded';
+
+    const purchase = await findPaymentRecord(paymentIntentId, req.user.id);
+    if (!purchase) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase not found'
+      });
+    }
+
+    // The simulated result goes through the same signed webhook path as a real provider
+    let webhook;
+    try {
+      webhook = simulateMockPayment(paymentIntentId, outcome);
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    const event = getPaymentProvider().parseWebhook(webhook.payload, webhook.headers);
+    const result = await applyPaymentEvent(event);
+    logPaymentEvent(event, result);
+
+    res.json({
+      success: true,
+      data: { result }
+    });
+  } catch (error: any) {
+    console.error('Confirm mock payment error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Server error'
+    });
+  }
+};
+
+// Validate the admin's refund reason
+const readRefundReason = (body: { reason?: unknown }): { value?: string; error?: string } => {
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+  if (!reason) return { error: 'Please provide a refund reason' };
+  if (reason.length > 500) return { error: 'Refund reason must be at most 500 characters' };
+  return { value: reason };
+};
+
+// Validate the refund amount; without an amount the whole payment is refunded
+const readRefundAmount = (body: { amount?: unknown }, paidAmount: number): { value?: number; error?: string } => {
+  const amount = body.amount === undefined || body.amount === null || body.amount === ''
+    ? paidAmount
+    : Number(body.amount);
+  if (!Number.isFinite(amount) || amount < 0 || amount > paidAmount || (paidAmount > 0 && amount === 0)) {
+    return { error: `Refund amount must be between 0 and ${paidAmount}` };
+  }
+  return { value: Math.round(amount * 100) / 100 };
+};
+
+// @desc    Refund a purchase (full or partial) and revoke access
+// @route   POST /api/purchases/:id/refund
+// @access  Private/Admin
+export const refundPurchase = async (req: Request, res: Response) => {
+  try {
+    const reason = readRefundReason(req.body);
+    if (reason.error) {
+      return res.status(400).json({
+        success: false,
+        message: reason.error
+      });
+    }
+
+    const purchase = await Purchase.findByPk(req.params.id);
+    if (!purchase) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase not found'
+      });
+    }
+    // Grants from a bundle were paid for by the bundle purchase, which is refunded as a whole
+    if (purchase.bundlePurchaseId) {
+      return res.status(400).json({
+        success: false,
+        message: 'This purchase is part of a bundle, refund the bundle purchase instead'
+      });
+    }
+    if (purchase.status !== 'completed') {
+      return res.status(400).json({
+        success: false,
+        message: purchase.status === 'refunded' ? 'This purchase has already been refunded' : 'Only completed purchases can be refunded'
+      });
+    }
+
+    const amount = readRefundAmount(req.body, Number(purchase.amount));
+    if (amount.error) {
+      return res.status(400).json({
+        success: false,
+        message: amount.error
+      });
+    }
+
+    // The status is checked again under a row lock, so concurrent requests refund only once
+    const result = await refundPurchaseByAdmin(purchase, amount.value!, reason.value!);
+    if (result === 'ignored') {
+      return res.status(400).json({
+        success: false,
+        message: 'This purchase has already been refunded'
+      });
+    }
+
+    await purchase.reload();
+
+    res.json({
+      success: true,
+      message: 'Purchase refunded, access has been revoked',
+      data: purchase
+    });
+  } catch (error: any) {
+    console.error('Refund purchase error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Server error'
+    });
+  }
+};
+
+// @desc    Refund a bundle purchase (full or partial) and revoke access to every question set in it
+// @route   POST /api/purchases/bundle/:id/refund
+// @access  Private/Admin
+export const refundBundlePurchase = async (req: Request, res: Response) => {
+  try {
+    const reason = readRefundReason(req.body);
+    if (reason.error) {
+      return res.status(400).json({
+        success: false,
+        message: reason.error
+      });
+    }
+
+    const bundlePurchase = await BundlePurchase.findByPk(req.params.id);
+    if (!bundlePurchase) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bundle purchase not found'
+      });
+    }
+    if (bundlePurchase.status !== 'completed') {
+      return res.status(400).json({
+        success: false,
+        message: bundlePurchase.status === 'refunded' ? 'This bundle purchase has already been refunded' : 'Only completed bundle purchases can be refunded'
+      });
+    }
+
+    const amount = readRefundAmount(req.body, Number(bundlePurchase.amount));
+    if (amount.error) {
+      return res.status(400).json({
+        success: false,
+        message: amount.error
+      });
+    }
+
+    // The status is checked again under a row lock, so concurrent requests refund only once
+    const result = await refundBundlePurchaseByAdmin(bundlePurchase, amount.value!, reason.value!);
+    if (result === 'ignored') {
+      return res.status(400).json({
+        success: false,
+        message: 'This bundle purchase has already been refunded'
+      });
+    }
+
+    await bundlePurchase.reload();
+    const purchases = await Purchase.findAll({ where: { bundlePurchaseId: bundlePurchase.id } });
+
+    res.json({
+      success: true,
+      message: 'Bundle purchase refunded, access has been revoked',
+      data: { bundlePurchase, purchases }
+    });
+  } catch (error: any) {
+    console.error('Refund bundle purchase error:', error);
     res.status(500).json({
       success: false,
       message: error.message || 'Server error'
@@ -163,13 +508,18 @@ export const getUserPurchases = async (req: Request, res: Response) => {
   try {
     const userId = req.user.id;
 
-    // Get all purchases for the user
+    // Get all purchases for the user (unfinished payments are left out)
     const purchases = await Purchase.findAll({
-      where: { userId },
+      where: { userId, status: { [Op.in]: ['completed', 'refunded'] } },
       include: [{
         model: QuestionSet,
         as: 'questionSet',
         attributes: ['title', 'category', 'icon']
+      }, {
+        model: BundlePurchase,
+        as: 'bundlePurchase',
+        attributes: ['id', 'bundleId', 'amount', 'refundedAmount'],
+        include: [{ model: Bundle, as: 'bundle', attributes: ['id', 'title'] }]
       }],
       order: [['purchaseDate', 'DESC']]
     });
@@ -195,22 +545,24 @@ export const checkPurchaseAccess = async (req: Request, res: Response) => {
     const userId = req.user.id;
     const questionSetId = req.params.questionSetId;
 
-    // Check for an active purchase
-    const activePurchase = await Purchase.findOne({
-      where: {
-        userId,
-        questionSetId,
-        expiryDate: {
-          [Op.gt]: new Date()
-        }
-      }
-    });
+    // Check for an active purchase (completed and not expired; refunded purchases do not count)
+    const activePurchase = await findActivePurchase(userId, questionSetId);
 
     if (activePurchase) {
+      // Access granted through a bundle purchase names the bundle
+      const bundlePurchase = activePurchase.bundlePurchaseId
+        ? await BundlePurchase.findByPk(activePurchase.bundlePurchaseId, {
+          include: [{ model: Bundle, as: 'bundle', attributes: ['id', 'title'] }]
+        }) as (BundlePurchase & { bundle?: Bundle }) | null
+        : null;
+
       return res.json({
         success: true,
         data: {
           hasAccess: true,
+          bundle: bundlePurchase?.bundle
+            ? { id: bundlePurchase.bundle.id, title: bundlePurchase.bundle.title }
+            : undefined,
           expiryDate: activePurchase.expiryDate,
           remainingDays: Math.ceil(
             (new Date(activePurchase.expiryDate).getTime() - new Date().getTime()) / 
@@ -232,12 +584,21 @@ export const checkPurchaseAccess = async (req: Request, res: Response) => {
       });
     }
 
+    // Refunded purchases no longer grant access; tell the user why
+    const refundedPurchase = await Purchase.findOne({
+      where: { userId, questionSetId, status: 'refunded' },
+      order: [['refundedAt', 'DESC']]
+    });
+
     res.json({
       success: true,
       data: {
         hasAccess: false,
         price: questionSet?.price,
-        trialQuestions: questionSet?.trialQuestions
+        pricingTiers: questionSet ? getPricingTiers(questionSet) : [],
+        bundles: questionSet ? await loadBundles({ questionSetId }) : [],
+        trialQuestions: questionSet?.trialQuestions,
+        refundedAt: refundedPurchase ? refundedPurchase.refundedAt : undefined
       }
     });
   } catch (error: any) {
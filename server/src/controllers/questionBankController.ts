@@ -0,0 +1,156 @@
+import { Request, Response } from 'express';
+import { sequelize } from '../config/db';
+import QuestionSet from '../models/QuestionSet';
+import QuestionSetQuestion from '../models/QuestionSetQuestion';
+import {
+  searchQuestionBank,
+  appendQuestionsToSet,
+  unlinkQuestionsFromSet,
+  filterActiveQuestionIds
+} from '../services/questionBank';
+import { loadStoredQuestion, retireQuestions } from '../services/questionRevision';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const readString = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * @desc    搜索题目库中的题目，用于把已有题目加入其他题库
+ *          ?search= 按题干搜索，?fromSetId= 只看某个题库中的题目，?targetSetId= 标记题目是否已在目标题库中
+ * @route   GET /api/question-sets/bank
+ * @access  Admin
+ */
+export const getQuestionBank = async (req: Request, res: Response) => {
+  try {
+    const page = Math.max(parseInt(String(req.query.page), 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const { total, items } = await searchQuestionBank({
+      search: readString(req.query.search),
+      fromSetId: readString(req.query.fromSetId),
+      targetSetId: readString(req.query.targetSetId),
+      limit,
+      offset: (page - 1) * limit
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        items,
+        total,
+        page,
+        limit
+      }
+    });
+  } catch (error: any) {
+    console.error('搜索题目库失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '搜索题目库失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    把题目库中的题目加入题库，追加到题库末尾，已在题库中的题目跳过
+ * @route   POST /api/question-sets/:id/questions
+ * @access  Admin
+ */
+export const addQuestionsToSet = async (req: Request, res: Response) => {
+  try {
+    const { questionIds } = req.body as { questionIds?: unknown };
+    const ids = Array.isArray(questionIds)
+      ? questionIds.filter((id): id is string => typeof id === 'string' && !!id)
+      : [];
+
+    if (ids.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: '请选择要加入的题目'
+      });
+    }
+
+    const questionSet = await QuestionSet.findByPk(req.params.id);
+    if (!questionSet) {
+      return res.status(404).json({
+        success: false,
+        message: '题库不存在'
+      });
+    }
+
+    const activeIds = await filterActiveQuestionIds(ids);
+    if (activeIds.length !== ids.length) {
+      return res.status(400).json({
+        success: false,
+        message: '部分题目不存在或已下线'
+      });
+    }
+
+    const added = await sequelize.transaction(transaction =>
+      appendQuestionsToSet(questionSet.id, activeIds, transaction)
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        added,
+        skipped: activeIds.length - added
+      },
+      message: added > 0 ? `已加入 ${added} 道题目` : '所选题目都已在题库中'
+    });
+  } catch (error: any) {
+    console.error('加入题目失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '加入题目失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    把题目从题库中移除，题目不再属于任何题库时标记下线
+ * @route   DELETE /api/question-sets/:id/questions/:questionId
+ * @access  Admin
+ */
+export const removeQuestionFromSet = async (req: Request, res: Response) => {
+  try {
+    const { id, questionId } = req.params;
+
+    const result = await sequelize.transaction(async transaction => {
+      const linked = await QuestionSetQuestion.count({ where: { questionSetId: id, questionId }, transaction });
+      const question = linked > 0 ? await loadStoredQuestion(questionId, transaction) : null;
+      if (!question) return null;
+
+      const orphanedIds = await unlinkQuestionsFromSet(id, [questionId], transaction);
+      const retired = orphanedIds.includes(questionId);
+      if (retired) {
+        await retireQuestions([question], id, { userId: req.user?.id, source: 'editor' }, transaction);
+      }
+
+      return { retired };
+    });
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: '题库中没有这道题目'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: result.retired ? '题目已移除，且不再属于任何题库，已下线' : '题目已从题库中移除'
+    });
+  } catch (error: any) {
+    console.error('移除题目失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '移除题目失败',
+      error: error.message
+    });
+  }
+};
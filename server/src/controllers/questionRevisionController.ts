@@ -0,0 +1,145 @@
+import { Request, Response } from 'express';
+import QuestionRevision, { QuestionSnapshot } from '../models/QuestionRevision';
+import QuestionSetQuestion from '../models/QuestionSetQuestion';
+import {
+  listQuestionRevisions,
+  diffQuestionSnapshots,
+  loadStoredQuestion,
+  toQuestionSnapshot,
+  rollbackQuestionRevision
+} from '../services/questionRevision';
+
+const DEFAULT_REVISION_LIMIT = 100;
+const MAX_REVISION_LIMIT = 500;
+
+// 查找属于该题库的修订记录，包括题库中共用题目在其他题库中的修订
+const findRevision = async (questionSetId: string, revisionId: unknown) => {
+  if (typeof revisionId !== 'string' || !revisionId) return null;
+  const revision = await QuestionRevision.findByPk(revisionId);
+  if (!revision) return null;
+  if (revision.questionSetId === questionSetId) return revision;
+
+  const linked = await QuestionSetQuestion.count({ where: { questionSetId, questionId: revision.questionId } });
+  return linked > 0 ? revision : null;
+};
+
+/**
+ * @desc    获取题库的题目修订记录（可用 ?questionId= 只看某道题）
+ * @route   GET /api/question-sets/:id/revisions
+ * @access  Admin
+ */
+export const getQuestionRevisions = async (req: Request, res: Response) => {
+  try {
+    const questionId = typeof req.query.questionId === 'string' && req.query.questionId ? req.query.questionId : undefined;
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || DEFAULT_REVISION_LIMIT, 1), MAX_REVISION_LIMIT);
+
+    const revisions = await listQuestionRevisions(req.params.id, questionId, limit);
+
+    res.status(200).json({
+      success: true,
+      data: revisions
+    });
+  } catch (error: any) {
+    console.error('获取修订记录失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取修订记录失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    对比修订记录
+ *          只传 from 时对比该次修改前后；to=current 时对比 from 之后的内容与题目当前内容；
+ *          to 为另一条修订记录时对比两次修改之后的内容
+ * @route   GET /api/question-sets/:id/revisions/diff?from=&to=
+ * @access  Admin
+ */
+export const getQuestionRevisionDiff = async (req: Request, res: Response) => {
+  try {
+    const from = await findRevision(req.params.id, req.query.from);
+    if (!from) {
+      return res.status(404).json({
+        success: false,
+        message: '修订记录不存在'
+      });
+    }
+
+    let before: QuestionSnapshot | null = from.before;
+    let after: QuestionSnapshot | null = from.after;
+
+    if (req.query.to === 'current') {
+      const question = await loadStoredQuestion(from.questionId);
+      before = from.after;
+      after = question && !question.retiredAt ? toQuestionSnapshot(question) : null;
+    } else if (req.query.to) {
+      const to = await findRevision(req.params.id, req.query.to);
+      if (!to || to.questionId !== from.questionId) {
+        return res.status(404).json({
+          success: false,
+          message: '要对比的修订记录不存在或不属于同一道题'
+        });
+      }
+      before = from.after;
+      after = to.after;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        questionId: from.questionId,
+        before,
+        after,
+        diff: diffQuestionSnapshots(before, after)
+      }
+    });
+  } catch (error: any) {
+    console.error('对比修订记录失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '对比修订记录失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    把题目恢复到某条修订记录之后的内容
+ * @route   POST /api/question-sets/:id/revisions/:revisionId/rollback
+ * @access  Admin
+ */
+export const rollbackQuestionToRevision = async (req: Request, res: Response) => {
+  try {
+    const revision = await findRevision(req.params.id, req.params.revisionId);
+    if (!revision) {
+      return res.status(404).json({
+        success: false,
+        message: '修订记录不存在'
+      });
+    }
+
+    // 下线记录之后题目不存在，没有可恢复的内容
+    if (!revision.after) {
+      return res.status(400).json({
+        success: false,
+        message: '该记录是题目下线，请选择下线前的版本'
+      });
+    }
+
+    const rollback = await rollbackQuestionRevision(revision, req.user?.id || null);
+
+    res.status(200).json({
+      success: true,
+      data: rollback,
+      message: '题目已恢复到所选版本'
+    });
+  } catch (error: any) {
+    console.error('恢复题目版本失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '恢复题目版本失败',
+      error: error.message
+    });
+  }
+};
@@ -1,11 +1,36 @@
 import { Request, Response } from 'express';
-import QuestionSet from '../models/QuestionSet';
-import User from '../models/User';
+import QuestionSet, { QuestionSetStatus, PricingTier } from '../models/QuestionSet';
 import db from '../config/db';
-import Question from '../models/Question';
+import Question, { QuestionType } from '../models/Question';
 import { RowDataPacket, ResultSetHeader, OkPacket } from 'mysql2';
 import Option from '../models/Option';
 import { sequelize } from '../config/db';
+import { toPublicQuestion } from '../services/quizGrading';
+import {
+  resolveQuestionSetAccess,
+  canViewQuestionSet,
+  isQuestionSetPublished,
+  PUBLISHED_QUESTION_SET_SQL
+} from '../services/questionSetAccess';
+import {
+  normalizeUploadedQuestionSet,
+  buildImportReport,
+  importQuestionSets,
+  syncQuestions,
+  ImportedQuestion
+} from '../services/questionSetImport';
+import { loadSetQuestions, releaseOwnedQuestions } from '../services/questionBank';
+import QuestionSetQuestion from '../models/QuestionSetQuestion';
+import { normalizeTags, validateTags, setQuestionTags } from '../services/questionTags';
+import { parseContentFormat, parseQuestionType, resolveAnswerOptions, validateAnswerOptions } from '../services/questionTypes';
+import {
+  readCategoryReference,
+  findCategoryByReference,
+  loadCategoryIndex,
+  getDescendantIds
+} from '../services/category';
+import { readPricingTiers } from '../services/pricingTiers';
+import { QuestionRevisionEntry, toQuestionSnapshot, recordQuestionRevisions } from '../services/questionRevision';
 
 // 定义数据库查询结果的接口
 interface QuestionSetRow extends RowDataPacket {
@@ -13,13 +38,20 @@ interface QuestionSetRow extends RowDataPacket {
   title: string;
   description: string;
   category: string;
+  categoryId: string | null;
   icon: string;
   isPaid: boolean;
   price: number | null;
+  pricingTiers: PricingTier[] | null;
   trialQuestions: number | null;
   questionCount?: number;
   isFeatured: boolean;
   featuredCategory: string;
+  featuredCategoryId: string | null;
+  timeLimit: number | null;
+  passingScore: number | null;
+  status: QuestionSetStatus;
+  publishAt: Date | null;
 }
 
 interface QuestionRow extends RowDataPacket {
@@ -35,51 +67,6 @@ interface OptionRow extends RowDataPacket {
   isCorrect: boolean;
 }
 
-// 新增关联类型接口
-interface QuestionSetWithQuestions extends QuestionSet {
-  questions?: Array<{
-    id: string;
-    text: string;
-    explanation: string;
-    questionType: string;
-    orderIndex: number;
-    options: Array<{
-      id: string;
-      text: string;
-      isCorrect: boolean;
-      optionIndex: string;
-    }>;
-  }>;
-}
-
-// 定义上传请求的数据结构
-interface QuestionOption {
-  text: string;
-  isCorrect: boolean;
-}
-
-interface QuestionData {
-  id?: string;
-  text: string;
-  explanation: string;
-  questionType?: 'single' | 'multiple';
-  orderIndex?: number;
-  options: QuestionOption[];
-  questionSetId?: string;
-}
-
-interface QuestionSetUploadData {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  icon: string;
-  isPaid?: boolean;
-  price?: number;
-  trialQuestions?: number;
-  questions?: QuestionData[];
-}
-
 // 添加一个预处理函数来标准化前端传来的数据格式
 function normalizeQuestionData(questions: any[]) {
   if (!Array.isArray(questions)) {
@@ -128,16 +115,20 @@ function normalizeQuestionData(questions: any[]) {
       ? String(q.explanation) 
       : '暂无解析';
       
-    const questionType = q.questionType || 'single';
+    const questionType = parseQuestionType(q.questionType) || 'single';
     const orderIndex = q.orderIndex !== undefined ? q.orderIndex : index;
     
-    // 标准化问题数据
+    // 标准化问题数据，保留题目ID用于匹配现有题目；未提交标签时保留原有标签
     const normalizedQuestion = {
+      id: typeof q.id === 'string' && q.id ? q.id : undefined,
       text: questionText.trim(),
       explanation: explanation.trim(),
       questionType,
+      // 未提交格式时保留原有格式，新题目为纯文字
+      contentFormat: parseContentFormat(q.contentFormat),
       orderIndex,
-      options: [] as Array<{text: string, isCorrect: boolean, optionIndex: string}>
+      tags: q.tags !== undefined && q.tags !== null ? normalizeTags(q.tags) : undefined,
+      options: [] as Array<{text: string, isCorrect: boolean, optionIndex: string, matchText?: string | null}>
     };
     
     // 处理选项
@@ -194,18 +185,22 @@ function normalizeQuestionData(questions: any[]) {
           let isCorrect = false;
           if (opt.isCorrect === true) {
             isCorrect = true;
-          } else if (q.questionType === 'single' && q.correctAnswer === optionIndex) {
+          } else if ((questionType === 'single' || questionType === 'truefalse') && q.correctAnswer === optionIndex) {
             isCorrect = true;
-          } else if (q.questionType === 'multiple' && Array.isArray(q.correctAnswer) && q.correctAnswer.includes(optionIndex)) {
+          } else if (questionType === 'multiple' && Array.isArray(q.correctAnswer) && q.correctAnswer.includes(optionIndex)) {
             isCorrect = true;
           }
           
           return {
             text: optionText.trim(),
             isCorrect,
-            optionIndex
+            optionIndex,
+            ...(opt.matchText ? { matchText: String(opt.matchText).trim() } : {})
           };
         });
+    } else if (questionType !== 'single' && questionType !== 'multiple') {
+      // 判断题、填空题可以只提交 correctAnswer
+      normalizedQuestion.options = [];
     } else {
       console.warn(`Question ${index+1} has no options array, creating default options`);
       // 创建默认选项
@@ -215,17 +210,123 @@ function normalizeQuestionData(questions: any[]) {
       ];
     }
     
+    normalizedQuestion.options = resolveAnswerOptions(questionType, normalizedQuestion.options, q.correctAnswer);
     return normalizedQuestion;
   }).filter(q => q !== null); // 移除null的问题
 }
 
 /**
- * @desc    获取所有题库
+ * 读取提交的选项并按题型整理，选项字母缺省时按顺序生成
+ */
+function readAnswerOptions(q: any, questionType: QuestionType) {
+  const rawOptions: any[] = Array.isArray(q.options) ? q.options : [];
+  const options = rawOptions
+    .filter(opt => opt)
+    .map((opt, j) => {
+      const optionIndex: string = opt.optionIndex || opt.id || String.fromCharCode(65 + j);
+      return {
+        optionIndex,
+        text: opt.text !== undefined && opt.text !== null ? String(opt.text) : '',
+        isCorrect: !!opt.isCorrect ||
+          ((questionType === 'single' || questionType === 'truefalse') && q.correctAnswer === optionIndex) ||
+          (questionType === 'multiple' && Array.isArray(q.correctAnswer) && q.correctAnswer.includes(optionIndex)),
+        matchText: opt.matchText ? String(opt.matchText) : null
+      };
+    });
+
+  return resolveAnswerOptions(questionType, options, q.correctAnswer);
+}
+
+/**
+ * 检查判断、填空、排序和匹配题的答案是否完整，返回第一个错误
+ */
+function findQuestionAnswerError(questions: unknown): string | undefined {
+  if (!Array.isArray(questions)) return undefined;
+
+  for (let i = 0; i < questions.length; i++) {
+    const q = questions[i];
+    const questionType = q ? parseQuestionType(q.questionType) : undefined;
+    if (!questionType || questionType === 'single' || questionType === 'multiple') continue;
+
+    const error = validateAnswerOptions(questionType, readAnswerOptions(q, questionType));
+    if (error) return `第 ${i + 1} 题：${error}`;
+  }
+  return undefined;
+}
+
+/**
+ * 检查提交的题目标签，返回第一个错误
+ */
+function findQuestionTagError(questions: unknown): string | undefined {
+  if (!Array.isArray(questions)) return undefined;
+
+  for (let i = 0; i < questions.length; i++) {
+    const tags = questions[i] && questions[i].tags;
+    const error = tags !== undefined && tags !== null ? validateTags(normalizeTags(tags)) : undefined;
+    if (error) return `第 ${i + 1} 题：${error}`;
+  }
+  return undefined;
+}
+
+const QUESTION_SET_STATUSES: QuestionSetStatus[] = ['draft', 'review', 'published'];
+
+/**
+ * 读取请求中的发布状态和定时发布时间，未提交的字段不返回；格式不正确时返回错误信息
+ */
+function readPublishFields(body: { status?: unknown; publishAt?: unknown }): {
+  fields: { status?: QuestionSetStatus; publishAt?: Date | null };
+  error?: string;
+} {
+  const fields: { status?: QuestionSetStatus; publishAt?: Date | null } = {};
+
+  if (body.status !== undefined) {
+    if (!QUESTION_SET_STATUSES.includes(body.status as QuestionSetStatus)) {
+      return { fields, error: '发布状态只能是 draft、review 或 published' };
+    }
+    fields.status = body.status as QuestionSetStatus;
+  }
+
+  if (body.publishAt !== undefined) {
+    if (body.publishAt === null || body.publishAt === '') {
+      fields.publishAt = null;
+    } else {
+      const publishAt = new Date(String(body.publishAt));
+      if (isNaN(publishAt.getTime())) {
+        return { fields, error: '定时发布时间格式不正确' };
+      }
+      fields.publishAt = publishAt;
+    }
+  }
+
+  return { fields };
+}
+
+/**
+ * @desc    获取所有题库，?categoryId= 按分类ID或 slug 筛选（包含子分类中的题库）
  * @route   GET /api/question-sets
  * @access  Public
  */
 export const getAllQuestionSets = async (req: Request, res: Response) => {
   try {
+    // 只返回已发布的题库，管理员带 ?includeUnpublished=true 时返回全部
+    const includeUnpublished = !!(req.user && req.user.isAdmin) && req.query.includeUnpublished === 'true';
+    const conditions: string[] = includeUnpublished ? [] : [PUBLISHED_QUESTION_SET_SQL];
+    const params: string[] = [];
+
+    if (typeof req.query.categoryId === 'string' && req.query.categoryId) {
+      const category = await findCategoryByReference(req.query.categoryId);
+      if (!category) {
+        return res.status(404).json({
+          success: false,
+          error: '分类不存在'
+        });
+      }
+
+      const categoryIds = getDescendantIds(category.id, await loadCategoryIndex());
+      conditions.push(`qs.categoryId IN (${categoryIds.map(() => '?').join(', ')})`);
+      params.push(...categoryIds);
+    }
+
     // 执行SQL查询，包含isFeatured和featuredCategory字段
     const [questionSets] = await db.execute<QuestionSetRow[]>(`
       SELECT 
@@ -233,23 +334,31 @@ export const getAllQuestionSets = async (req: Request, res: Response) => {
         qs.title, 
         qs.description, 
         qs.category, 
+        qs.categoryId,
         qs.icon, 
         qs.isPaid, 
         qs.price, 
+        qs.pricingTiers,
         qs.trialQuestions,
         qs.isFeatured,
         qs.featuredCategory,
-        COUNT(q.id) AS questionCount
+        qs.featuredCategoryId,
+        qs.timeLimit,
+        qs.passingScore,
+        qs.status,
+        qs.publishAt,
+        COUNT(l.id) AS questionCount
       FROM 
         question_sets qs
       LEFT JOIN 
-        questions q ON qs.id = q.questionSetId
+        question_set_questions l ON qs.id = l.questionSetId
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
       GROUP BY 
         qs.id
       ORDER BY 
         qs.isFeatured DESC,
         qs.createdAt DESC
-    `);
+    `, params);
 
     res.status(200).json({
       success: true,
@@ -273,46 +382,48 @@ export const getQuestionSetById = async (req: Request, res: Response) => {
   const { id } = req.params;
 
   try {
-    // 使用Sequelize的关联查询获取题库及其问题和选项
-    const questionSet = await QuestionSet.findByPk(id, {
-      include: [
-        {
-          model: Question,
-          as: 'questions',
-          include: [
-            {
-              model: Option,
-              as: 'options',
-            }
-          ]
-        }
-      ]
-    });
+    const questionSet = await QuestionSet.findByPk(id);
 
-    if (!questionSet) {
+    // 未发布的题库只有管理员可以查看，用于预览
+    if (!questionSet || !canViewQuestionSet(questionSet, req.user)) {
       return res.status(404).json({
         success: false,
         message: '题库不存在'
       });
     }
 
-    // 转换为前端期望的格式并使用类型断言
-    const plainData = questionSet.get({ plain: true }) as unknown as QuestionSetWithQuestions;
+    // 题目可能与其他题库共用，按题目在本题库中的顺序加载
+    const plainData = questionSet.get({ plain: true });
+    const allQuestions = await loadSetQuestions(questionSet.id);
+
+    // 付费题库未购买时只返回试用题，其余题目计入 lockedQuestions
+    const access = await resolveQuestionSetAccess(questionSet, req.user, allQuestions.length);
+
+    // 正确答案和解析只返回给管理员，答题时由 /api/quiz-attempts 在服务端判题
+    const isAdmin = !!(req.user && req.user.isAdmin);
     const result = {
       ...plainData,
-      questions: plainData.questions?.map(q => ({
+      isPublished: isQuestionSetPublished(questionSet),
+      totalQuestions: allQuestions.length,
+      hasFullAccess: access.hasFullAccess,
+      lockedQuestions: access.lockedQuestions,
+      accessExpiryDate: access.expiryDate,
+      questions: allQuestions.slice(0, access.accessibleQuestions).map(q => isAdmin ? {
         id: q.id,
         text: q.text,
         explanation: q.explanation,
         questionType: q.questionType,
+        contentFormat: q.contentFormat || 'text',
         orderIndex: q.orderIndex,
+        tags: q.tags,
         options: q.options.map(o => ({
           id: o.id,
           text: o.text,
           isCorrect: o.isCorrect,
-          optionIndex: o.optionIndex
+          optionIndex: o.optionIndex,
+          matchText: o.matchText
         }))
-      })) || []
+      } : toPublicQuestion(q))
     };
 
     res.status(200).json({
@@ -345,6 +456,8 @@ export const createQuestionSet = async (req: Request, res: Response) => {
       isPaid, 
       price, 
       trialQuestions,
+      timeLimit,
+      passingScore,
       questions
     } = req.body;
 
@@ -356,6 +469,41 @@ export const createQuestionSet = async (req: Request, res: Response) => {
       });
     }
 
+    const publish = readPublishFields(req.body);
+    if (publish.error) {
+      return res.status(400).json({
+        success: false,
+        message: publish.error
+      });
+    }
+
+    const tagError = findQuestionTagError(questions) || findQuestionAnswerError(questions);
+    if (tagError) {
+      return res.status(400).json({
+        success: false,
+        message: tagError
+      });
+    }
+
+    // categoryId 为分类ID；旧客户端提交的 category 可以是分类路径
+    const categoryInput = await readCategoryReference(
+      req.body.categoryId !== undefined ? req.body.categoryId : category
+    );
+    if (categoryInput.error) {
+      return res.status(400).json({
+        success: false,
+        message: categoryInput.error
+      });
+    }
+
+    const pricingTiers = readPricingTiers(req.body.pricingTiers);
+    if (pricingTiers.error) {
+      return res.status(400).json({
+        success: false,
+        message: pricingTiers.error
+      });
+    }
+
     console.log('接收到的创建题库请求:', JSON.stringify({
       id, title, description, category, icon, isPaid,
       questionsCount: Array.isArray(questions) ? questions.length : 0
@@ -368,14 +516,24 @@ export const createQuestionSet = async (req: Request, res: Response) => {
         id: id, // 使用前端提供的ID或生成新的
         title,
         description,
-        category,
+        category: categoryInput.value ? categoryInput.value.path : '',
+        categoryId: categoryInput.value ? categoryInput.value.id : null,
         icon: icon || 'book',
         isPaid: isPaid || false,
         price: isPaid ? price : null,
+        pricingTiers: isPaid ? pricingTiers.value || null : null,
         trialQuestions: isPaid ? trialQuestions : null,
-        isFeatured: false
+        timeLimit: timeLimit || null,
+        passingScore: passingScore !== undefined && passingScore !== '' ? passingScore : null,
+        isFeatured: false,
+        // 新建的题库默认为草稿，发布后才对学员公开
+        status: publish.fields.status || 'draft',
+        publishAt: publish.fields.publishAt || null
       }, { transaction: t });
 
+      // 创建时的题目内容作为修订历史的第一个版本
+      const revisions: QuestionRevisionEntry[] = [];
+
       // 如果有问题数据，则创建问题和选项
       if (Array.isArray(questions) && questions.length > 0) {
         console.log(`处理 ${questions.length} 个问题`);
@@ -392,39 +550,38 @@ export const createQuestionSet = async (req: Request, res: Response) => {
           
           console.log(`创建问题 ${i+1}: ${questionText.substring(0, 30)}...`);
           
-          // 创建问题
+          // 创建问题并加入题库
+          const questionType = parseQuestionType(q.questionType) || 'single';
           const questionRecord = await Question.create({
             text: questionText,
             explanation: q.explanation || '暂无解析',
             questionSetId: questionSet.id,
-            questionType: q.questionType || 'single',
+            questionType,
+            contentFormat: parseContentFormat(q.contentFormat) || 'text'
+          }, { transaction: t });
+          await QuestionSetQuestion.create({
+            questionSetId: questionSet.id,
+            questionId: questionRecord.id,
             orderIndex: q.orderIndex !== undefined ? q.orderIndex : i
           }, { transaction: t });
+          if (q.tags) {
+            await setQuestionTags(questionRecord.id, normalizeTags(q.tags), t);
+          }
           
           // 如果有选项数据，则创建选项
-          if (Array.isArray(q.options) && q.options.length > 0) {
-            console.log(`处理问题 ${i+1} 的 ${q.options.length} 个选项`);
+          const options = readAnswerOptions(q, questionType);
+          if (options.length > 0) {
+            console.log(`处理问题 ${i+1} 的 ${options.length} 个选项`);
             
-            const optionPromises = q.options.map((opt: any, j: number) => {
-              const optionIndex = opt.id || String.fromCharCode(65 + j); // 使用前端提供的ID或生成 A, B, C...
-              
-              // 处理正确答案标记
-              let isCorrect = false;
-              if (q.questionType === 'single' && q.correctAnswer === optionIndex) {
-                isCorrect = true;
-              } else if (q.questionType === 'multiple' && Array.isArray(q.correctAnswer) && q.correctAnswer.includes(optionIndex)) {
-                isCorrect = true;
-              } else if (opt.isCorrect) {
-                isCorrect = true;
-              }
-              
-              console.log(`- 选项 ${optionIndex}: ${opt.text.substring(0, 20)}... 正确: ${isCorrect}`);
+            const optionPromises = options.map(opt => {
+              console.log(`- 选项 ${opt.optionIndex}: ${opt.text.substring(0, 20)}... 正确: ${opt.isCorrect}`);
               
               return Option.create({
                 questionId: questionRecord.id,
                 text: opt.text,
-                isCorrect: isCorrect,
-                optionIndex: optionIndex
+                isCorrect: opt.isCorrect,
+                optionIndex: opt.optionIndex,
+                matchText: opt.matchText || null
               }, { transaction: t });
             });
             
@@ -432,8 +589,25 @@ export const createQuestionSet = async (req: Request, res: Response) => {
           } else {
             console.warn(`问题 ${i+1} 没有选项数据`);
           }
+
+          revisions.push({
+            questionId: questionRecord.id,
+            questionSetId: questionSet.id,
+            action: 'create',
+            before: null,
+            after: toQuestionSnapshot({
+              text: questionRecord.text,
+              explanation: questionRecord.explanation,
+              questionType: questionRecord.questionType,
+              contentFormat: questionRecord.contentFormat,
+              options,
+              tags: q.tags ? normalizeTags(q.tags) : []
+            })
+          });
         }
       }
+
+      await recordQuestionRevisions(revisions, { userId: req.user?.id, source: 'create' }, t);
       
       // 获取新创建的题库（包含问题和选项）
       const createdQuestionSet = await QuestionSet.findByPk(questionSet.id, {
@@ -480,6 +654,8 @@ export const updateQuestionSet = async (req: Request, res: Response) => {
     isPaid, 
     price, 
     trialQuestions,
+    timeLimit,
+    passingScore,
     questions,
     isFeatured,
     featuredCategory
@@ -513,6 +689,45 @@ export const updateQuestionSet = async (req: Request, res: Response) => {
       });
     }
     
+    const publish = readPublishFields(req.body);
+    if (publish.error) {
+      return res.status(400).json({
+        success: false,
+        message: publish.error
+      });
+    }
+
+    const tagError = findQuestionTagError(questions) || findQuestionAnswerError(questions);
+    if (tagError) {
+      return res.status(400).json({
+        success: false,
+        message: tagError
+      });
+    }
+
+    const categoryInput = await readCategoryReference(
+      req.body.categoryId !== undefined ? req.body.categoryId : category
+    );
+    const featuredCategoryInput = await readCategoryReference(
+      req.body.featuredCategoryId !== undefined ? req.body.featuredCategoryId : featuredCategory
+    );
+    const categoryError = categoryInput.error || featuredCategoryInput.error;
+    if (categoryError) {
+      return res.status(400).json({
+        success: false,
+        message: categoryError
+      });
+    }
+
+    // 未提交 pricingTiers 时保持原有档位
+    const pricingTiers = readPricingTiers(req.body.pricingTiers);
+    if (pricingTiers.error) {
+      return res.status(400).json({
+        success: false,
+        message: pricingTiers.error
+      });
+    }
+
     // 标准化问题数据，确保格式一致
     if (Array.isArray(questions) && questions.length > 0) {
       questions = normalizeQuestionData(questions);
@@ -535,13 +750,23 @@ export const updateQuestionSet = async (req: Request, res: Response) => {
       await questionSet.update({
         title: title !== undefined ? title : questionSet.title,
         description: description !== undefined ? description : questionSet.description,
-        category: category !== undefined ? category : questionSet.category,
+        ...(categoryInput.value ? {
+          category: categoryInput.value.path,
+          categoryId: categoryInput.value.id
+        } : {}),
         icon: icon !== undefined ? icon : questionSet.icon,
         isPaid: isPaid !== undefined ? isPaid : questionSet.isPaid,
         price: isPaid && price !== undefined ? price : questionSet.price,
+        ...(pricingTiers.value !== undefined ? { pricingTiers: pricingTiers.value } : {}),
         trialQuestions: isPaid && trialQuestions !== undefined ? trialQuestions : questionSet.trialQuestions,
+        timeLimit: timeLimit !== undefined ? timeLimit || null : questionSet.timeLimit,
+        passingScore: passingScore !== undefined && passingScore !== '' ? passingScore : questionSet.passingScore,
         isFeatured: isFeatured !== undefined ? isFeatured : questionSet.isFeatured,
-        featuredCategory: featuredCategory !== undefined ? featuredCategory : questionSet.featuredCategory
+        ...(featuredCategoryInput.value ? {
+          featuredCategory: featuredCategoryInput.value.path || null,
+          featuredCategoryId: featuredCategoryInput.value.id
+        } : {}),
+        ...publish.fields
       }, { transaction: t });
       
       // 如果提供了问题数据，则更新问题
@@ -557,86 +782,12 @@ export const updateQuestionSet = async (req: Request, res: Response) => {
           }
         }
         
-        try {
-          // 先删除该题库下的所有问题和选项
-          await Question.destroy({
-            where: { questionSetId: id },
-            transaction: t
-          });
-          
-          // 重新创建问题和选项
-          for (let i = 0; i < questions.length; i++) {
-            const q = questions[i];
-            
-            // 详细诊断日志 - 使用最简单的方式输出
-            console.log("=============================================");
-            console.log("问题创建前调试信息 - 问题 #" + (i+1));
-            console.log("q.text = " + q.text);
-            console.log("q.question = " + (q as any).question);
-            console.log("JSON: " + JSON.stringify(q));
-            console.log("=============================================");
-            
-            // 确保创建的数据绝对不会有null
-            const createData = {
-              text: String(q.text || '').trim() || `问题 ${i+1}`,
-              explanation: String(q.explanation || '暂无解析').trim(),
-              questionSetId: id,
-              questionType: q.questionType || 'single',
-              orderIndex: q.orderIndex !== undefined ? q.orderIndex : i
-            };
-            
-            // 再次验证 text 不为 null
-            if (!createData.text) {
-              console.error(`警告: 在 create 前 text 为空，强制设置默认值`);
-              createData.text = `问题 ${i+1} [自动修复]`;
-            }
-            
-            console.log(`最终创建数据:`, JSON.stringify(createData));
-            const question = await Question.create(createData, { transaction: t });
-            
-            // 创建问题的选项
-            if (Array.isArray(q.options) && q.options.length > 0) {
-              console.log(`Creating ${q.options.length} options for question ${i+1}`);
-              try {
-                for (const opt of q.options) {
-                  if (!opt) {
-                    console.log('跳过空选项');
-                    continue;
-                  }
-                  
-                  // 确保选项文本不为空
-                  let optionText = opt.text;
-                  if (!optionText && opt.id) {
-                    // 尝试从ID为键的属性中获取文本
-                    const idKey = opt.id;
-                    optionText = opt[idKey] || '';
-                  }
-                  
-                  // 如果仍然为空，使用默认值
-                  if (!optionText) {
-                    optionText = `选项 ${opt.optionIndex || opt.id || ''}`;
-                  }
-                  
-                  // 使用单独创建而不是批量创建，以避免批量操作的潜在问题
-                  await Option.create({
-                    questionId: question.id,
-                    text: String(optionText).trim() || '默认选项文本',
-                    isCorrect: !!opt.isCorrect,
-                    optionIndex: opt.optionIndex || opt.id || ''
-                  }, { transaction: t });
-                }
-              } catch (optionError) {
-                console.error(`Error creating options for question ${i+1}:`, optionError);
-                throw optionError;
-              }
-            } else {
-              console.warn(`Question ${i+1} has no options`);
-            }
-          }
-        } catch (questionError) {
-          console.error('Error updating questions:', questionError);
-          throw questionError;
-        }
+        // 按ID或题干匹配现有题目并原地更新，保留题目ID和修改记录
+        const summary = await syncQuestions(id, questions as ImportedQuestion[], t, {
+          userId: req.user?.id,
+          source: 'editor'
+        });
+        console.log(`Synced questions for set ${id}:`, JSON.stringify(summary));
       }
       
       // 获取更新后的题库ID - 不返回完整对象避免循环引用
@@ -646,15 +797,7 @@ export const updateQuestionSet = async (req: Request, res: Response) => {
     console.log(`Transaction completed successfully, fetching updated data for ${result}`);
     
     // 事务完成后，单独查询题库，避免循环引用
-    const updatedQuestionSet = await QuestionSet.findByPk(result, {
-      include: [
-        {
-          model: Question,
-          as: 'questions',
-          include: [{ model: Option, as: 'options' }]
-        }
-      ]
-    }) as unknown as QuestionSetWithQuestions;
+    const updatedQuestionSet = await QuestionSet.findByPk(result);
     
     if (!updatedQuestionSet) {
       return res.status(404).json({
@@ -663,7 +806,9 @@ export const updateQuestionSet = async (req: Request, res: Response) => {
       });
     }
 
-    console.log(`Building safe response for question set ${result} with ${updatedQuestionSet.questions?.length || 0} questions`);
+    const updatedQuestions = await loadSetQuestions(result);
+
+    console.log(`Building safe response for question set ${result} with ${updatedQuestions.length} questions`);
 
     // 手动构建安全的响应对象，避免可能的循环引用
     const safeResponse = {
@@ -671,23 +816,33 @@ export const updateQuestionSet = async (req: Request, res: Response) => {
       title: updatedQuestionSet.title,
       description: updatedQuestionSet.description,
       category: updatedQuestionSet.category,
+      categoryId: updatedQuestionSet.categoryId,
       icon: updatedQuestionSet.icon,
       isPaid: updatedQuestionSet.isPaid,
       price: updatedQuestionSet.price,
+      pricingTiers: updatedQuestionSet.pricingTiers,
       trialQuestions: updatedQuestionSet.trialQuestions,
+      timeLimit: updatedQuestionSet.timeLimit,
+      passingScore: updatedQuestionSet.passingScore,
       isFeatured: updatedQuestionSet.isFeatured,
       featuredCategory: updatedQuestionSet.featuredCategory,
-      questions: updatedQuestionSet.questions?.map((q: any) => ({
+      featuredCategoryId: updatedQuestionSet.featuredCategoryId,
+      status: updatedQuestionSet.status,
+      publishAt: updatedQuestionSet.publishAt,
+      questions: updatedQuestions.map(q => ({
         id: q.id,
         text: q.text,
         explanation: q.explanation,
         questionType: q.questionType,
+        contentFormat: q.contentFormat || 'text',
         orderIndex: q.orderIndex,
-        options: q.options?.map((o: any) => ({
+        tags: q.tags,
+        options: q.options.map(o => ({
           id: o.id,
           text: o.text,
           isCorrect: o.isCorrect,
-          optionIndex: o.optionIndex
+          optionIndex: o.optionIndex,
+          matchText: o.matchText
         }))
       }))
     };
@@ -734,7 +889,11 @@ export const deleteQuestionSet = async (req: Request, res: Response) => {
     const questionSet = await QuestionSet.findByPk(req.params.id);
 
     if (questionSet) {
-      await questionSet.destroy();
+      await sequelize.transaction(async (t) => {
+        // 其他题库仍在使用的题目不随题库删除
+        await releaseOwnedQuestions(questionSet.id, t);
+        await questionSet.destroy({ transaction: t });
+      });
       
       // TODO: Also clean up any redeem codes or purchases referencing this question set
 
@@ -757,58 +916,14 @@ export const deleteQuestionSet = async (req: Request, res: Response) => {
   }
 };
 
-// @desc    Save user progress on a question set
-// @route   POST /api/question-sets/:id/progress
-// @access  Private
-export const saveProgress = async (req: Request, res: Response) => {
-  try {
-    const { completedQuestions, totalQuestions, correctAnswers } = req.body;
-    const user = await User.findByPk(req.user.id);
-    const questionSetId = req.params.id;
-
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        message: 'User not found'
-      });
-    }
-
-    // Update or create progress record
-    if (!user.progress) {
-      user.progress = {};
-    }
-
-    user.progress[questionSetId] = {
-      completedQuestions,
-      totalQuestions,
-      correctAnswers,
-      lastAccessed: new Date()
-    };
-
-    await user.save();
-
-    res.json({
-      success: true,
-      message: 'Progress saved',
-      data: user.progress[questionSetId]
-    });
-  } catch (error: any) {
-    console.error('Save progress error:', error);
-    res.status(500).json({
-      success: false,
-      message: error.message || 'Server error'
-    });
-  }
-};
-
 /**
- * @desc    批量上传题库和题目
+ * @desc    批量上传题库和题目，带 ?dryRun=true 时只校验并返回导入报告
  * @route   POST /api/question-sets/upload
  * @access  Private/Admin
  */
 export const uploadQuestionSets = async (req: Request, res: Response) => {
   try {
-    const { questionSets } = req.body as { questionSets: QuestionSetUploadData[] };
+    const { questionSets } = req.body as { questionSets: unknown[] };
     
     if (!questionSets || !Array.isArray(questionSets) || questionSets.length === 0) {
       return res.status(400).json({
@@ -816,117 +931,35 @@ export const uploadQuestionSets = async (req: Request, res: Response) => {
         message: '请提供有效的题库数据'
       });
     }
-    
-    const results: Array<{id: string, status: string, message: string}> = [];
-    
-    // 使用事务处理批量上传
-    for (const setData of questionSets) {
-      // 检查题库ID是否已存在
-      const existingSet = await QuestionSet.findByPk(setData.id);
-      
-      if (existingSet) {
-        // 如果存在则更新
-        await existingSet.update({
-          title: setData.title || existingSet.title,
-          description: setData.description || existingSet.description,
-          category: setData.category || existingSet.category,
-          icon: setData.icon || existingSet.icon,
-          isPaid: setData.isPaid !== undefined ? setData.isPaid : existingSet.isPaid,
-          price: setData.isPaid && setData.price !== undefined ? setData.price : undefined,
-          trialQuestions: setData.isPaid && setData.trialQuestions !== undefined ? setData.trialQuestions : undefined
-        });
-        
-        // 如果提供了题目，并且题目数组不为空，则更新题目
-        if (Array.isArray(setData.questions) && setData.questions.length > 0) {
-          console.log(`更新题库 ${setData.id} 的题目，数量: ${setData.questions.length}`);
-          
-          // 先删除所有旧题目
-          await Question.destroy({
-            where: { questionSetId: setData.id }
-          });
-          
-          // 添加新题目
-          for (let i = 0; i < setData.questions.length; i++) {
-            const q = setData.questions[i];
-            // 创建问题
-            const question = await Question.create({
-              id: q.id || undefined, // 如果未提供ID，让Sequelize生成
-              text: q.text,
-              explanation: q.explanation,
-              questionSetId: setData.id,
-              questionType: q.questionType || 'single',
-              orderIndex: q.orderIndex !== undefined ? q.orderIndex : i
-            });
-            
-            // 创建问题的选项
-            if (q.options && q.options.length > 0) {
-              // 这里需要定义Option模型，或者使用原生SQL
-              // 示例: 使用原生SQL插入选项
-              for (const option of q.options) {
-                await db.execute(`
-                  INSERT INTO options (id, question_id, text, is_correct)
-                  VALUES (UUID(), ?, ?, ?)
-                `, [question.id, option.text, option.isCorrect ? 1 : 0]);
-              }
-            }
-          }
-        } else {
-          // 如果没有提供题目或提供了空数组，不做任何修改
-          console.log(`题库 ${setData.id} 的题目未提供或为空，保留原题目`);
-        }
-        
-        results.push({
-          id: setData.id,
-          status: 'updated',
-          message: '题库更新成功'
-        });
-      } else {
-        // 如果不存在则创建
-        const newQuestionSet = await QuestionSet.create({
-          id: setData.id,
-          title: setData.title,
-          description: setData.description,
-          category: setData.category,
-          icon: setData.icon,
-          isPaid: setData.isPaid || false,
-          price: setData.isPaid && setData.price !== undefined ? setData.price : 0,
-          trialQuestions: setData.isPaid && setData.trialQuestions !== undefined ? setData.trialQuestions : 0
-        });
-        
-        // 如果提供了题目，则创建题目
-        if (setData.questions && setData.questions.length > 0) {
-          for (let i = 0; i < setData.questions.length; i++) {
-            const q = setData.questions[i];
-            // 创建问题
-            const question = await Question.create({
-              id: q.id || undefined, // 如果未提供ID，让Sequelize生成
-              text: q.text,
-              explanation: q.explanation,
-              questionSetId: setData.id,
-              questionType: q.questionType || 'single',
-              orderIndex: q.orderIndex !== undefined ? q.orderIndex : i
-            });
-            
-            // 创建问题的选项
-            if (q.options && q.options.length > 0) {
-              // 这里需要定义Option模型，或者使用原生SQL
-              // 示例: 使用原生SQL插入选项
-              for (const option of q.options) {
-                await db.execute(`
-                  INSERT INTO options (id, question_id, text, is_correct)
-                  VALUES (UUID(), ?, ?, ?)
-                `, [question.id, option.text, option.isCorrect ? 1 : 0]);
-              }
-            }
-          }
-        }
-        
-        results.push({
-          id: setData.id,
-          status: 'created',
-          message: '题库创建成功'
-        });
-      }
+
+    const normalizedSets = questionSets.map(normalizeUploadedQuestionSet);
+    const report = await buildImportReport(normalizedSets);
+
+    if (req.query.dryRun === 'true') {
+      return res.status(200).json({
+        success: true,
+        data: report
+      });
+    }
+
+    if (!report.valid) {
+      return res.status(400).json({
+        success: false,
+        message: `题库数据中有 ${report.errorCount} 处错误，请修改后重新上传`,
+        data: report
+      });
+    }
+
+    const results = await importQuestionSets(normalizedSets, { userId: req.user?.id, source: 'import' });
+    const failedCount = results.filter(result => result.status === 'failed').length;
+
+    // 每个题库单独提交，失败的题库保持导入前的状态
+    if (failedCount > 0) {
+      return res.status(500).json({
+        success: false,
+        message: `${failedCount} 个题库导入失败，其余题库已导入`,
+        data: results
+      });
     }
     
     res.status(201).json({
@@ -957,19 +990,26 @@ export const getFeaturedQuestionSets = async (req: Request, res: Response) => {
         qs.title, 
         qs.description, 
         qs.category, 
+        qs.categoryId,
         qs.icon, 
         qs.isPaid, 
         qs.price, 
+        qs.pricingTiers,
         qs.trialQuestions,
         qs.isFeatured,
         qs.featuredCategory,
-        COUNT(q.id) AS questionCount
+        qs.featuredCategoryId,
+        qs.timeLimit,
+        qs.passingScore,
+        qs.status,
+        qs.publishAt,
+        COUNT(l.id) AS questionCount
       FROM 
         question_sets qs
       LEFT JOIN 
-        questions q ON qs.id = q.questionSetId
+        question_set_questions l ON qs.id = l.questionSetId
       WHERE
-        qs.isFeatured = true
+        qs.isFeatured = true AND ${PUBLISHED_QUESTION_SET_SQL}
       GROUP BY 
         qs.id
       ORDER BY 
@@ -1000,6 +1040,17 @@ export const updateFeaturedStatus = async (req: Request, res: Response) => {
   const { isFeatured, featuredCategory } = req.body;
   
   try {
+    // featuredCategoryId 为分类ID；旧客户端提交的 featuredCategory 可以是分类路径
+    const featuredCategoryInput = await readCategoryReference(
+      req.body.featuredCategoryId !== undefined ? req.body.featuredCategoryId : featuredCategory
+    );
+    if (featuredCategoryInput.error) {
+      return res.status(400).json({
+        success: false,
+        error: featuredCategoryInput.error
+      });
+    }
+
     // 开始事务
     await sequelize.transaction(async (t) => {
       const questionSet = await QuestionSet.findByPk(id, { transaction: t });
@@ -1017,8 +1068,9 @@ export const updateFeaturedStatus = async (req: Request, res: Response) => {
       }
       
       // 更新精选分类
-      if (featuredCategory !== undefined) {
-        questionSet.featuredCategory = featuredCategory;
+      if (featuredCategoryInput.value) {
+        questionSet.featuredCategory = featuredCategoryInput.value.path || null;
+        questionSet.featuredCategoryId = featuredCategoryInput.value.id;
       }
       
       await questionSet.save({ transaction: t });
@@ -1035,4 +1087,53 @@ export const updateFeaturedStatus = async (req: Request, res: Response) => {
       error: '服务器错误，无法更新题库精选状态'
     });
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * @desc    更新题库发布状态，publishAt 为定时发布时间（为空表示立即生效）
+ * @route   PUT /api/question-sets/:id/status
+ * @access  Admin
+ */
+export const updateQuestionSetStatus = async (req: Request, res: Response) => {
+  try {
+    const publish = readPublishFields(req.body);
+    if (publish.error || !publish.fields.status) {
+      return res.status(400).json({
+        success: false,
+        message: publish.error || '请提供发布状态'
+      });
+    }
+
+    const questionSet = await QuestionSet.findByPk(req.params.id);
+    if (!questionSet) {
+      return res.status(404).json({
+        success: false,
+        message: '题库不存在'
+      });
+    }
+
+    await questionSet.update({
+      status: publish.fields.status,
+      // 修改状态时未提交定时发布时间则清除原来的设置
+      publishAt: publish.fields.publishAt !== undefined ? publish.fields.publishAt : null
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        id: questionSet.id,
+        status: questionSet.status,
+        publishAt: questionSet.publishAt,
+        isPublished: isQuestionSetPublished(questionSet)
+      },
+      message: '发布状态已更新'
+    });
+  } catch (error: any) {
+    console.error('更新题库发布状态失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '更新题库发布状态失败',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,83 @@
+import { Request, Response } from 'express';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  loadExportQuestionSet,
+  exportQuestionSetFile,
+  exportAllQuestionSetsZip
+} from '../services/questionSetExport';
+
+// 未指定格式时导出 JSON，格式不支持时返回 null
+const readExportFormat = (req: Request): ExportFormat | null => {
+  const format = typeof req.query.format === 'string' ? req.query.format.toLowerCase() : 'json';
+  return EXPORT_FORMATS.includes(format as ExportFormat) ? format as ExportFormat : null;
+};
+
+/**
+ * @desc    导出题库（?format=json|csv|xlsx），格式与上传接口一致
+ * @route   GET /api/question-sets/:id/export
+ * @access  Admin
+ */
+export const exportQuestionSet = async (req: Request, res: Response) => {
+  try {
+    const format = readExportFormat(req);
+    if (!format) {
+      return res.status(400).json({
+        success: false,
+        message: `不支持的导出格式，可选：${EXPORT_FORMATS.join('、')}`
+      });
+    }
+
+    const questionSet = await loadExportQuestionSet(req.params.id);
+    if (!questionSet) {
+      return res.status(404).json({
+        success: false,
+        message: '题库不存在'
+      });
+    }
+
+    const file = await exportQuestionSetFile(questionSet, format);
+
+    res.attachment(file.filename);
+    res.type(file.contentType);
+    res.send(file.content);
+  } catch (error: any) {
+    console.error('导出题库失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '导出题库失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    导出全部题库，按指定格式每个题库一个文件，打包为 zip
+ * @route   GET /api/question-sets/export
+ * @access  Admin
+ */
+export const exportAllQuestionSets = async (req: Request, res: Response) => {
+  try {
+    const format = readExportFormat(req);
+    if (!format) {
+      return res.status(400).json({
+        success: false,
+        message: `不支持的导出格式，可选：${EXPORT_FORMATS.join('、')}`
+      });
+    }
+
+    const content = await exportAllQuestionSetsZip(format);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.attachment(`question-sets-${format}-${date}.zip`);
+    res.type('application/zip');
+    res.send(content);
+  } catch (error: any) {
+    console.error('导出全部题库失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '导出全部题库失败',
+      error: error.message
+    });
+  }
+};
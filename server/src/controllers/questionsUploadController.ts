@@ -3,10 +3,17 @@ import fs from 'fs';
 import path from 'path';
 import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
-import QuestionSet from '../models/QuestionSet';
-import Question from '../models/Question';
-import Option from '../models/Option';
-import db from '../config/db';
+import {
+  importQuestionSets,
+  rowsToQuestions,
+  unescapeCsvFormulas,
+  normalizeUploadedQuestionSet,
+  buildImportReport,
+  ImportedQuestionSet,
+  ImportIssue
+} from '../services/questionSetImport';
+import { parseCsv } from '../services/csvParser';
+import { readWorkbookSheets, workbookToQuestionSets } from '../services/workbookImport';
 
 // Use the Express Request with multer typings
 import { Request as ExpressRequest } from 'express';
@@ -16,6 +23,8 @@ interface MulterRequest extends ExpressRequest {
   file?: Express.Multer.File;
 }
 
+const ALLOWED_EXTENSIONS = ['.json', '.csv', '.xlsx', '.xls'];
+
 // Configure multer for file upload
 const storage = multer.diskStorage({
   destination: function (req: any, file: any, cb: any) {
@@ -34,7 +43,9 @@ const storage = multer.diskStorage({
 export const upload = multer({
   storage: storage,
   fileFilter: (req: any, file: any, cb: any) => {
-    if (file.mimetype === 'application/json' || 
+    // 浏览器上报的CSV类型并不统一（Windows下常为 application/vnd.ms-excel），同时按扩展名判断
+    if (ALLOWED_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase()) ||
+        file.mimetype === 'application/json' || 
         file.mimetype === 'text/csv' || 
         file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
         file.mimetype === 'application/vnd.ms-excel') {
@@ -48,9 +59,28 @@ export const upload = multer({
   }
 });
 
+// 未提交或留空的是/否字段为 undefined，重新上传已有题库时保留原有的设置
+const readBooleanField = (value: string | undefined) =>
+  value !== undefined && value !== '' ? value === 'true' : undefined;
+
+/**
+ * 读取随文件一起提交的题库信息表单字段，CSV和Excel中没有的题库信息从这里获取
+ */
+const readQuestionSetFields = (body: Record<string, string | undefined>): Partial<Omit<ImportedQuestionSet, 'questions'>> => ({
+  id: body.id || undefined,
+  title: body.title || undefined,
+  description: body.description,
+  category: body.category,
+  icon: body.icon,
+  isPaid: readBooleanField(body.isPaid),
+  price: body.price !== undefined && body.price !== '' ? Number(body.price) : undefined,
+  trialQuestions: body.trialQuestions !== undefined && body.trialQuestions !== '' ? Number(body.trialQuestions) : undefined,
+  isFeatured: readBooleanField(body.isFeatured)
+});
+
 /**
- * @desc    上传题库文件（支持JSON、CSV、Excel）
- * @route   POST /api/question-sets/upload
+ * @desc    上传题库文件（支持JSON、CSV、Excel），带 ?dryRun=true 时只校验并返回导入报告
+ * @route   POST /api/question-sets/upload/file
  * @access  Admin
  */
 export const uploadQuestionSetFile = async (req: MulterRequest, res: Response) => {
@@ -62,170 +92,100 @@ export const uploadQuestionSetFile = async (req: MulterRequest, res: Response) =
       });
     }
 
+    const dryRun = req.query.dryRun === 'true';
     const filePath = req.file.path;
     const fileExt = path.extname(req.file.originalname).toLowerCase();
+    const fileTitle = path.basename(req.file.originalname, fileExt);
+
+    let questionSets: ImportedQuestionSet[] = [];
+    let parseIssues: ImportIssue[] = [];
+
+    try {
+      // 根据文件类型处理数据
+      if (fileExt === '.json') {
+        const fileContent = fs.readFileSync(filePath, 'utf8');
+        let parsed;
+        try {
+          parsed = JSON.parse(fileContent);
+        } catch {
+          return res.status(400).json({
+            success: false,
+            message: 'JSON文件格式不正确'
+          });
+        }
+        questionSets = [normalizeUploadedQuestionSet(parsed)];
+      } else if (fileExt === '.csv') {
+        const fileContent = fs.readFileSync(filePath, 'utf8');
+        const result = rowsToQuestions(unescapeCsvFormulas(parseCsv(fileContent)));
+        const fields = readQuestionSetFields(req.body);
+
+        parseIssues = result.errors;
+        if (result.questions.length > 0) {
+          questionSets = [{
+            ...fields,
+            id: fields.id || uuidv4(),
+            title: fields.title || fileTitle,
+            questions: result.questions
+          }];
+        }
+      } else if (fileExt === '.xlsx') {
+        const sheets = await readWorkbookSheets(filePath);
+        const result = workbookToQuestionSets(sheets, readQuestionSetFields(req.body), fileTitle);
+
+        parseIssues = result.errors;
+        questionSets = result.questionSets;
+      } else if (fileExt === '.xls') {
+        return res.status(400).json({
+          success: false,
+          message: '不支持旧版Excel（.xls）文件，请另存为 .xlsx 后上传'
+        });
+      } else {
+        return res.status(400).json({
+          success: false,
+          message: '不支持的文件类型'
+        });
+      }
+    } finally {
+      // 删除临时文件
+      fs.unlinkSync(filePath);
+    }
 
-    let questionSetData: any = null;
+    const report = await buildImportReport(questionSets, parseIssues);
 
-    // 根据文件类型处理数据
-    if (fileExt === '.json') {
-      const fileContent = fs.readFileSync(filePath, 'utf8');
-      questionSetData = JSON.parse(fileContent);
-    } else if (fileExt === '.csv') {
-      // CSV处理逻辑
+    if (dryRun) {
       return res.status(200).json({
         success: true,
-        message: 'CSV文件解析功能开发中，请使用JSON格式'
-      });
-    } else if (fileExt === '.xlsx' || fileExt === '.xls') {
-      // Excel处理逻辑
-      return res.status(200).json({
-        success: true,
-        message: 'Excel文件解析功能开发中，请使用JSON格式'
-      });
-    } else {
-      return res.status(400).json({
-        success: false,
-        message: '不支持的文件类型'
+        data: report
       });
     }
 
-    // 验证数据格式
-    if (!questionSetData || !questionSetData.id || !questionSetData.title) {
+    // 有任何错误时整个文件都不导入
+    if (!report.valid) {
       return res.status(400).json({
         success: false,
-        message: '题库数据格式不正确，必须包含id和title字段'
+        message: report.errorCount > 0
+          ? `文件中有 ${report.errorCount} 处错误，请修改后重新上传`
+          : '文件中没有题目',
+        data: report
       });
     }
 
-    // 检查题库ID是否已存在
-    const existingSet = await QuestionSet.findByPk(questionSetData.id);
-    let response;
-
-    if (existingSet) {
-      // 如果存在则更新
-      await existingSet.update({
-        title: questionSetData.title || existingSet.title,
-        description: questionSetData.description || existingSet.description,
-        category: questionSetData.category || existingSet.category,
-        icon: questionSetData.icon || existingSet.icon,
-        isPaid: questionSetData.isPaid !== undefined ? questionSetData.isPaid : existingSet.isPaid,
-        price: questionSetData.isPaid && questionSetData.price !== undefined ? questionSetData.price : undefined,
-        trialQuestions: questionSetData.isPaid && questionSetData.trialQuestions !== undefined ? questionSetData.trialQuestions : undefined,
-        isFeatured: questionSetData.isFeatured !== undefined ? questionSetData.isFeatured : existingSet.isFeatured
-      });
-
-      // 如果提供了题目，则更新题目
-      if (questionSetData.questions && questionSetData.questions.length > 0) {
-        // 先删除所有旧题目
-        await Question.destroy({
-          where: { questionSetId: questionSetData.id }
-        });
-
-        // 添加新题目
-        for (let i = 0; i < questionSetData.questions.length; i++) {
-          const q = questionSetData.questions[i];
-          // 创建问题
-          const question = await Question.create({
-            id: q.id || undefined,
-            text: q.text,
-            explanation: q.explanation || '暂无解析',
-            questionSetId: questionSetData.id,
-            questionType: q.questionType || 'single',
-            orderIndex: q.orderIndex !== undefined ? q.orderIndex : i
-          });
-
-          // 创建问题的选项
-          if (q.options && q.options.length > 0) {
-            // 定义选项索引字母数组
-            const optionIndices = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'];
-            
-            for (let j = 0; j < q.options.length; j++) {
-              const option = q.options[j];
-              const optionIndex = option.optionIndex || optionIndices[j] || String.fromCharCode(65 + j); // A, B, C...
-              
-              // 使用Sequelize模型创建选项
-              await Option.create({
-                questionId: question.id,
-                text: option.text,
-                isCorrect: option.isCorrect ? true : false,
-                optionIndex: optionIndex
-              });
-            }
-          }
-        }
-      }
+    const results = await importQuestionSets(questionSets, { userId: req.user?.id, source: 'import' });
+    const failedCount = results.filter(result => result.status === 'failed').length;
 
-      response = {
-        id: questionSetData.id,
-        status: 'updated',
-        message: '题库更新成功',
-        questionCount: questionSetData.questions ? questionSetData.questions.length : 0
-      };
-    } else {
-      // 如果不存在则创建
-      const newQuestionSet = await QuestionSet.create({
-        id: questionSetData.id,
-        title: questionSetData.title,
-        description: questionSetData.description,
-        category: questionSetData.category,
-        icon: questionSetData.icon || 'book',
-        isPaid: questionSetData.isPaid || false,
-        price: questionSetData.isPaid && questionSetData.price !== undefined ? questionSetData.price : 0,
-        trialQuestions: questionSetData.isPaid && questionSetData.trialQuestions !== undefined ? questionSetData.trialQuestions : 0,
-        isFeatured: questionSetData.isFeatured || false
+    // 每个题库单独提交，失败的题库保持导入前的状态
+    if (failedCount > 0) {
+      return res.status(500).json({
+        success: false,
+        message: `${failedCount} 个题库导入失败，其余题库已导入`,
+        data: results
       });
-
-      // 如果提供了题目，则创建题目
-      if (questionSetData.questions && questionSetData.questions.length > 0) {
-        for (let i = 0; i < questionSetData.questions.length; i++) {
-          const q = questionSetData.questions[i];
-          // 创建问题
-          const question = await Question.create({
-            id: q.id || undefined,
-            text: q.text,
-            explanation: q.explanation || '暂无解析',
-            questionSetId: questionSetData.id,
-            questionType: q.questionType || 'single',
-            orderIndex: q.orderIndex !== undefined ? q.orderIndex : i
-          });
-
-          // 创建问题的选项
-          if (q.options && q.options.length > 0) {
-            // 定义选项索引字母数组
-            const optionIndices = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'];
-            
-            for (let j = 0; j < q.options.length; j++) {
-              const option = q.options[j];
-              const optionIndex = option.optionIndex || optionIndices[j] || String.fromCharCode(65 + j); // A, B, C...
-              
-              // 使用Sequelize模型创建选项
-              await Option.create({
-                questionId: question.id,
-                text: option.text,
-                isCorrect: option.isCorrect ? true : false,
-                optionIndex: optionIndex
-              });
-            }
-          }
-        }
-      }
-
-      response = {
-        id: questionSetData.id,
-        status: 'created',
-        message: '题库创建成功',
-        questionCount: questionSetData.questions ? questionSetData.questions.length : 0
-      };
     }
 
-    // 删除临时文件
-    fs.unlinkSync(filePath);
-
     res.status(201).json({
       success: true,
-      data: response,
-      message: '题库上传成功'
+      data: results,
+      message: results.length > 1 ? `已上传 ${results.length} 个题库` : '题库上传成功'
     });
   } catch (error: any) {
     console.error('上传题库文件错误:', error);
@@ -234,4 +194,4 @@ export const uploadQuestionSetFile = async (req: MulterRequest, res: Response) =
       message: error.message || '服务器错误'
     });
   }
-}; 
\ No newline at end of file
+};
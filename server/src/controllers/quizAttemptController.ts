@@ -0,0 +1,734 @@
+import { Request, Response } from 'express';
+import { QuestionSet, QuizAttempt, AttemptAnswer } from '../models';
+import { AttemptQuestionRef } from '../models/QuizAttempt';
+import {
+  GradableQuestion,
+  GradingResult,
+  gradeAnswer,
+  toPublicQuestion,
+  calculateScore,
+  loadGradableQuestionsByIds
+} from '../services/quizGrading';
+import {
+  resolveQuestionSetAccess,
+  canViewQuestionSet,
+  filterAccessibleQuestions
+} from '../services/questionSetAccess';
+import { loadSetQuestions, countSetQuestions } from '../services/questionBank';
+import { normalizeTags, findTaggedQuestionRefs, summarizeTagAccuracy } from '../services/questionTags';
+import { trackAnswer } from '../services/mistakeNotebook';
+import { scheduleReview, resolveQuality } from '../services/spacedRepetition';
+
+interface SubmittedAnswer {
+  questionId: string;
+  selectedOptions: string | string[];
+}
+
+// 考试截止后仍接受答案的宽限时间，用于抵消网络延迟
+const EXAM_GRACE_PERIOD_MS = 5000;
+
+const DEFAULT_HISTORY_SIZE = 100;
+const MAX_HISTORY_SIZE = 500;
+
+const DEFAULT_TAG_PRACTICE_SIZE = 20;
+const MAX_TAG_PRACTICE_SIZE = 100;
+
+// 加载题库下的全部题目（含正确答案，仅供服务端判题使用）
+const loadGradableQuestions = (questionSetId: string): Promise<GradableQuestion[]> =>
+  loadSetQuestions(questionSetId);
+
+// 本次答题可作答的题目，开始答题时按访问权限确定了题目数量（试用只含前几题）
+// 按标签练习的题目在开始答题时已选定，按选定的顺序加载
+const loadAttemptQuestions = async (attempt: QuizAttempt): Promise<GradableQuestion[]> => {
+  if (attempt.questionRefs) {
+    const questions = await loadGradableQuestionsByIds(attempt.questionRefs.map(ref => ref.questionId));
+    return attempt.questionRefs
+      .map(ref => questions.find(q => q.id === ref.questionId))
+      .filter((q): q is GradableQuestion => !!q);
+  }
+
+  const questions = await loadGradableQuestions(attempt.questionSetId as string);
+  return questions.slice(0, attempt.totalQuestions);
+};
+
+// 题目所在的题库，按标签练习时取开始答题时记录的题库
+const resolveQuestionSetId = (attempt: QuizAttempt, questionId: string) => {
+  const ref = (attempt.questionRefs || []).find(r => r.questionId === questionId);
+  return ref ? ref.questionSetId : attempt.questionSetId as string;
+};
+
+// 登录用户的作答同时计入错题本和复习计划
+const trackLearning = async (
+  attempt: QuizAttempt,
+  result: Pick<GradingResult, 'questionId' | 'isCorrect' | 'selectedOptions'>
+) => {
+  if (!attempt.userId) return;
+
+  const questionSetId = resolveQuestionSetId(attempt, result.questionId);
+  await trackAnswer(attempt.userId, questionSetId, result);
+  await scheduleReview(attempt.userId, questionSetId, result.questionId, resolveQuality(result.isCorrect));
+};
+
+// 随机打乱顺序（Fisher-Yates），返回新数组
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const isExamInProgress = (attempt: QuizAttempt) =>
+  attempt.mode === 'exam' && attempt.status === 'in_progress';
+
+const isPastDeadline = (attempt: QuizAttempt) =>
+  !!attempt.deadline && Date.now() > new Date(attempt.deadline).getTime() + EXAM_GRACE_PERIOD_MS;
+
+// 结束答题：根据已保存的作答计算得分和是否及格
+const finalizeAttempt = async (attempt: QuizAttempt) => {
+  if (attempt.status === 'completed') return;
+
+  const [questionSet, correctCount] = await Promise.all([
+    attempt.questionSetId ? QuestionSet.findByPk(attempt.questionSetId) : null,
+    AttemptAnswer.count({ where: { attemptId: attempt.id, isCorrect: true } })
+  ]);
+
+  const score = calculateScore(correctCount, attempt.totalQuestions);
+  const passingScore = questionSet ? questionSet.passingScore : null;
+
+  // 超时自动交卷的考试按截止时间计算用时
+  const completedAt = new Date();
+  const endedAt = attempt.deadline
+    ? Math.min(completedAt.getTime(), new Date(attempt.deadline).getTime())
+    : completedAt.getTime();
+  const durationSeconds = Math.max(0, Math.round((endedAt - new Date(attempt.startedAt).getTime()) / 1000));
+
+  // 考试交卷前可以改答案，交卷时才把最终作答计入错题本和复习计划
+  if (attempt.mode === 'exam' && attempt.userId) {
+    const answers = await AttemptAnswer.findAll({ where: { attemptId: attempt.id } });
+    for (const answer of answers) {
+      await trackLearning(attempt, answer);
+    }
+  }
+
+  await attempt.update({
+    status: 'completed',
+    correctCount,
+    score,
+    passed: passingScore !== null && passingScore !== undefined ? score >= passingScore : null,
+    completedAt,
+    durationSeconds
+  });
+};
+
+// 查找答题记录并校验归属，校验失败时直接返回响应并返回null
+// 已超过截止时间的考试会在这里自动交卷
+const findAttemptForRequest = async (req: Request, res: Response) => {
+  const attempt = await QuizAttempt.findByPk(req.params.id);
+
+  if (!attempt) {
+    res.status(404).json({
+      success: false,
+      message: '答题记录不存在'
+    });
+    return null;
+  }
+
+  if (attempt.userId && (!req.user || req.user.id !== attempt.userId)) {
+    res.status(403).json({
+      success: false,
+      message: '无权访问此答题记录'
+    });
+    return null;
+  }
+
+  if (isExamInProgress(attempt) && isPastDeadline(attempt)) {
+    await finalizeAttempt(attempt);
+  }
+
+  return attempt;
+};
+
+/**
+ * 已保存作答的结果：对错和所选答案以作答时的判分为准，题目之后被修改也不会改变历史记录；
+ * 正确答案和解析取题目当前的内容，仅用于展示
+ */
+const toStoredResult = (question: GradableQuestion, answer: AttemptAnswer): GradingResult => ({
+  ...gradeAnswer(question, answer.selectedOptions),
+  selectedOptions: answer.selectedOptions,
+  isCorrect: answer.isCorrect
+});
+
+// 保存一道题的作答。练习模式以第一次作答为准，考试模式交卷前可以修改答案
+const recordAnswer = async (
+  attempt: QuizAttempt,
+  question: GradableQuestion,
+  selectedOptions: unknown
+): Promise<GradingResult> => {
+  const existing = await AttemptAnswer.findOne({
+    where: { attemptId: attempt.id, questionId: question.id }
+  });
+
+  if (existing && attempt.mode === 'exam') {
+    const result = gradeAnswer(question, selectedOptions);
+    await existing.update({
+      selectedOptions: result.selectedOptions,
+      isCorrect: result.isCorrect
+    });
+    return result;
+  }
+
+  if (existing) {
+    return toStoredResult(question, existing);
+  }
+
+  const result = gradeAnswer(question, selectedOptions);
+
+  await AttemptAnswer.create({
+    attemptId: attempt.id,
+    questionId: question.id,
+    selectedOptions: result.selectedOptions,
+    isCorrect: result.isCorrect
+  });
+
+  if (attempt.mode === 'practice') {
+    await trackLearning(attempt, result);
+  }
+
+  return result;
+};
+
+// 考试交卷前只返回考生自己的选择，不返回对错和解析
+const presentResult = (attempt: QuizAttempt, result: GradingResult) =>
+  isExamInProgress(attempt)
+    ? { questionId: result.questionId, selectedOptions: result.selectedOptions }
+    : result;
+
+// 附带服务器当前时间，前端据此校正倒计时，不依赖本地时钟
+const formatAttempt = (attempt: QuizAttempt) => ({
+  id: attempt.id,
+  questionSetId: attempt.questionSetId,
+  tags: attempt.tags || null,
+  mode: attempt.mode,
+  status: attempt.status,
+  totalQuestions: attempt.totalQuestions,
+  correctCount: isExamInProgress(attempt) ? 0 : attempt.correctCount,
+  score: attempt.score,
+  passed: attempt.passed,
+  startedAt: attempt.startedAt,
+  deadline: attempt.deadline,
+  completedAt: attempt.completedAt,
+  durationSeconds: attempt.durationSeconds,
+  serverTime: new Date()
+});
+
+// 汇总已作答题目的结果
+const buildResults = async (attempt: QuizAttempt, questions: GradableQuestion[]) => {
+  const answers = await AttemptAnswer.findAll({ where: { attemptId: attempt.id } });
+
+  return answers
+    .map(a => {
+      const question = questions.find(q => q.id === a.questionId);
+      return question ? presentResult(attempt, toStoredResult(question, a)) : null;
+    })
+    .filter(r => r !== null);
+};
+
+// 按题库汇总历史成绩，趋势按完成时间从早到晚排列；按标签练习的记录不属于某个题库，不参与汇总
+const summarizeHistory = (attempts: QuizAttempt[]) => {
+  const sets = new Map<string, QuizAttempt[]>();
+  for (const attempt of attempts) {
+    if (!attempt.questionSetId) continue;
+    const list = sets.get(attempt.questionSetId) || [];
+    list.push(attempt);
+    sets.set(attempt.questionSetId, list);
+  }
+
+  return Array.from(sets.values()).map(list => {
+    const questionSet = list[0].get('questionSet') as QuestionSet | undefined;
+    const trend = [...list].sort(
+      (a, b) => new Date(a.completedAt as Date).getTime() - new Date(b.completedAt as Date).getTime()
+    );
+    const scores = trend.map(a => a.score || 0);
+
+    return {
+      questionSetId: list[0].questionSetId,
+      questionSetTitle: questionSet ? questionSet.title : '',
+      questionSetIcon: questionSet ? questionSet.icon : '',
+      attemptCount: trend.length,
+      bestScore: Math.max(...scores),
+      averageScore: Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+      lastScore: scores[scores.length - 1],
+      trend: trend.map(a => ({
+        attemptId: a.id,
+        mode: a.mode,
+        score: a.score,
+        passed: a.passed,
+        completedAt: a.completedAt
+      }))
+    };
+  });
+};
+
+/**
+ * @desc    开始一次答题
+ * @route   POST /api/quiz-attempts
+ * @access  Public（登录后答题记录归属当前用户）
+ */
+export const startAttempt = async (req: Request, res: Response) => {
+  try {
+    const { questionSetId } = req.body;
+    const mode = req.body.mode === 'exam' ? 'exam' : 'practice';
+
+    if (!questionSetId) {
+      return res.status(400).json({
+        success: false,
+        message: '题库ID不能为空'
+      });
+    }
+
+    if (mode === 'exam' && !req.user) {
+      return res.status(401).json({
+        success: false,
+        message: '请登录后参加考试'
+      });
+    }
+
+    // 未发布的题库只有管理员可以预览作答
+    const questionSet = await QuestionSet.findByPk(questionSetId);
+    if (!questionSet || !canViewQuestionSet(questionSet, req.user)) {
+      return res.status(404).json({
+        success: false,
+        message: '题库不存在'
+      });
+    }
+
+    // 未交卷的考试继续作答，刷新页面不会重新计时
+    if (mode === 'exam') {
+      const ongoing = await QuizAttempt.findOne({
+        where: { userId: req.user.id, questionSetId, mode: 'exam', status: 'in_progress' },
+        order: [['startedAt', 'DESC']]
+      });
+
+      if (ongoing && isPastDeadline(ongoing)) {
+        await finalizeAttempt(ongoing);
+      } else if (ongoing) {
+        const questions = await loadAttemptQuestions(ongoing);
+        return res.status(200).json({
+          success: true,
+          data: {
+            ...formatAttempt(ongoing),
+            resumed: true,
+            results: await buildResults(ongoing, questions)
+          }
+        });
+      }
+    }
+
+    const questionCount = await countSetQuestions(questionSetId);
+    if (questionCount === 0) {
+      return res.status(400).json({
+        success: false,
+        message: '此题库不包含任何题目'
+      });
+    }
+
+    const access = await resolveQuestionSetAccess(questionSet, req.user, questionCount);
+    if (access.accessibleQuestions === 0) {
+      return res.status(403).json({
+        success: false,
+        message: '请购买后访问此题库',
+        data: {
+          lockedQuestions: access.lockedQuestions
+        }
+      });
+    }
+
+    const attempt = await QuizAttempt.create({
+      userId: req.user ? req.user.id : null,
+      questionSetId,
+      mode,
+      totalQuestions: access.accessibleQuestions,
+      deadline: mode === 'exam' && questionSet.timeLimit
+        ? new Date(Date.now() + questionSet.timeLimit * 60 * 1000)
+        : null
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...formatAttempt(attempt),
+        hasFullAccess: access.hasFullAccess,
+        lockedQuestions: access.lockedQuestions
+      }
+    });
+  } catch (error: any) {
+    console.error('开始答题失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '开始答题失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    按标签开始一次练习，从用户可以访问的所有题库中随机选出带有任一所选标签的题目
+ *          付费题库未购买时只从试用题中选题，共用的题目只出现一次
+ * @route   POST /api/quiz-attempts/tags
+ * @access  Public（登录后答题记录归属当前用户）
+ */
+export const startTagAttempt = async (req: Request, res: Response) => {
+  try {
+    const tags = normalizeTags(req.body.tags);
+    if (tags.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: '请至少选择一个标签'
+      });
+    }
+
+    const limit = Math.min(MAX_TAG_PRACTICE_SIZE, parseInt(String(req.body.limit), 10) || DEFAULT_TAG_PRACTICE_SIZE);
+
+    // 未发布的题库只有管理员可以预览作答
+    const isAdmin = !!(req.user && req.user.isAdmin);
+    const refs = await filterAccessibleQuestions(await findTaggedQuestionRefs(tags, isAdmin), req.user);
+
+    const available = new Map<string, AttemptQuestionRef>();
+    refs.forEach(ref => {
+      if (!available.has(ref.questionId)) {
+        available.set(ref.questionId, { questionId: ref.questionId, questionSetId: ref.questionSetId });
+      }
+    });
+
+    if (available.size === 0) {
+      return res.status(404).json({
+        success: false,
+        message: '所选标签下没有可以练习的题目'
+      });
+    }
+
+    const questionRefs = shuffle(Array.from(available.values())).slice(0, limit);
+
+    const attempt = await QuizAttempt.create({
+      userId: req.user ? req.user.id : null,
+      questionSetId: null,
+      tags,
+      questionRefs,
+      mode: 'practice',
+      totalQuestions: questionRefs.length
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...formatAttempt(attempt),
+        availableQuestions: available.size
+      }
+    });
+  } catch (error: any) {
+    console.error('开始标签练习失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '开始标签练习失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    获取当前用户的历史答题记录及各题库成绩趋势
+ * @route   GET /api/quiz-attempts/history
+ * @access  Private
+ */
+export const getAttemptHistory = async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(MAX_HISTORY_SIZE, parseInt(String(req.query.limit), 10) || DEFAULT_HISTORY_SIZE);
+    const where: { userId: string; status: 'completed'; questionSetId?: string } = {
+      userId: req.user.id,
+      status: 'completed'
+    };
+    if (typeof req.query.questionSetId === 'string' && req.query.questionSetId) {
+      where.questionSetId = req.query.questionSetId;
+    }
+
+    const attempts = await QuizAttempt.findAll({
+      where,
+      include: [{ model: QuestionSet, as: 'questionSet', attributes: ['id', 'title', 'icon'] }],
+      order: [['completedAt', 'DESC']],
+      limit
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        attempts: attempts.map(attempt => {
+          const questionSet = attempt.get('questionSet') as QuestionSet | undefined;
+          return {
+            ...formatAttempt(attempt),
+            questionSetTitle: questionSet ? questionSet.title : '',
+            questionSetIcon: questionSet ? questionSet.icon : ''
+          };
+        }),
+        sets: summarizeHistory(attempts)
+      }
+    });
+  } catch (error: any) {
+    console.error('获取答题历史失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取答题历史失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    获取已完成答题的逐题详情（含题目、作答、正确答案和解析）
+ * @route   GET /api/quiz-attempts/:id/details
+ * @access  Public（仅限答题人）
+ */
+export const getAttemptDetails = async (req: Request, res: Response) => {
+  try {
+    const attempt = await findAttemptForRequest(req, res);
+    if (!attempt) return;
+
+    if (attempt.status !== 'completed') {
+      return res.status(400).json({
+        success: false,
+        message: '答题尚未结束'
+      });
+    }
+
+    const [questions, answers, questionSet] = await Promise.all([
+      loadAttemptQuestions(attempt),
+      AttemptAnswer.findAll({ where: { attemptId: attempt.id } }),
+      attempt.questionSetId
+        ? QuestionSet.findByPk(attempt.questionSetId, { attributes: ['id', 'title', 'icon'] })
+        : null
+    ]);
+
+    const items = questions.map(question => {
+      const answer = answers.find(a => a.questionId === question.id);
+      return {
+        ...(answer ? toStoredResult(question, answer) : gradeAnswer(question, [])),
+        answered: !!answer,
+        question: toPublicQuestion(question)
+      };
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...formatAttempt(attempt),
+        questionSetTitle: questionSet ? questionSet.title : '',
+        questionSetIcon: questionSet ? questionSet.icon : '',
+        tagStats: summarizeTagAccuracy(questions, answers),
+        items
+      }
+    });
+  } catch (error: any) {
+    console.error('获取答题详情失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取答题详情失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    获取答题记录及已判分的题目
+ * @route   GET /api/quiz-attempts/:id
+ * @access  Public（仅限答题人）
+ */
+export const getAttempt = async (req: Request, res: Response) => {
+  try {
+    const attempt = await findAttemptForRequest(req, res);
+    if (!attempt) return;
+
+    const questions = await loadAttemptQuestions(attempt);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...formatAttempt(attempt),
+        results: await buildResults(attempt, questions)
+      }
+    });
+  } catch (error: any) {
+    console.error('获取答题记录失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取答题记录失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    获取答题用的题目（不含正确答案）
+ * @route   GET /api/quiz-attempts/:id/questions
+ * @access  Public（仅限答题人）
+ */
+export const getAttemptQuestions = async (req: Request, res: Response) => {
+  try {
+    const attempt = await findAttemptForRequest(req, res);
+    if (!attempt) return;
+
+    const questions = await loadAttemptQuestions(attempt);
+
+    res.status(200).json({
+      success: true,
+      data: questions.map(toPublicQuestion)
+    });
+  } catch (error: any) {
+    console.error('获取答题题目失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取答题题目失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    提交单道题的答案并返回判题结果和解析
+ * @route   POST /api/quiz-attempts/:id/answers
+ * @access  Public（仅限答题人）
+ */
+export const submitAnswer = async (req: Request, res: Response) => {
+  try {
+    const { questionId, selectedOptions } = req.body as SubmittedAnswer;
+
+    if (!questionId) {
+      return res.status(400).json({
+        success: false,
+        message: '题目ID不能为空'
+      });
+    }
+
+    const attempt = await findAttemptForRequest(req, res);
+    if (!attempt) return;
+
+    if (attempt.status === 'completed') {
+      return res.status(400).json({
+        success: false,
+        message: attempt.mode === 'exam' && isPastDeadline(attempt) ? '考试时间已结束' : '本次答题已结束'
+      });
+    }
+
+    const questions = await loadAttemptQuestions(attempt);
+    const question = questions.find(q => q.id === questionId);
+    if (!question) {
+      return res.status(404).json({
+        success: false,
+        message: '题目不存在'
+      });
+    }
+
+    const result = await recordAnswer(attempt, question, selectedOptions);
+
+    res.status(200).json({
+      success: true,
+      data: presentResult(attempt, result)
+    });
+  } catch (error: any) {
+    console.error('提交答案失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '提交答案失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    批量提交答案
+ * @route   POST /api/quiz-attempts/:id/answers/bulk
+ * @access  Public（仅限答题人）
+ */
+export const submitAnswers = async (req: Request, res: Response) => {
+  try {
+    const { answers } = req.body as { answers: SubmittedAnswer[] };
+
+    if (!Array.isArray(answers) || answers.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: '请提供有效的答案数据'
+      });
+    }
+
+    const attempt = await findAttemptForRequest(req, res);
+    if (!attempt) return;
+
+    if (attempt.status === 'completed') {
+      return res.status(400).json({
+        success: false,
+        message: attempt.mode === 'exam' && isPastDeadline(attempt) ? '考试时间已结束' : '本次答题已结束'
+      });
+    }
+
+    const questions = await loadAttemptQuestions(attempt);
+    const results = [];
+
+    for (const answer of answers) {
+      const question = questions.find(q => q.id === answer.questionId);
+      if (!question) {
+        console.warn(`跳过不属于该题库的题目: ${answer.questionId}`);
+        continue;
+      }
+      results.push(presentResult(attempt, await recordAnswer(attempt, question, answer.selectedOptions)));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: results
+    });
+  } catch (error: any) {
+    console.error('批量提交答案失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '批量提交答案失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    结束答题并计算得分
+ * @route   POST /api/quiz-attempts/:id/complete
+ * @access  Public（仅限答题人）
+ */
+export const completeAttempt = async (req: Request, res: Response) => {
+  try {
+    const attempt = await findAttemptForRequest(req, res);
+    if (!attempt) return;
+
+    await finalizeAttempt(attempt);
+
+    const questions = await loadAttemptQuestions(attempt);
+    const [results, answers] = await Promise.all([
+      buildResults(attempt, questions),
+      AttemptAnswer.findAll({ where: { attemptId: attempt.id } })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...formatAttempt(attempt),
+        answeredQuestions: results.length,
+        tagStats: summarizeTagAccuracy(questions, answers),
+        results
+      }
+    });
+  } catch (error: any) {
+    console.error('结束答题失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '结束答题失败',
+      error: error.message
+    });
+  }
+};
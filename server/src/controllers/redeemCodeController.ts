@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { sequelize, RedeemCode, QuestionSet, User, Purchase } from '../models';
-import { Transaction, Op } from 'sequelize';
 import { v4 as uuidv4 } from 'uuid';
+import { findActivePurchase } from '../services/questionSetAccess';
 
 // @desc    Generate redeem codes
 // @route   POST /api/redeem-codes/generate
@@ -184,16 +184,7 @@ export const redeemCode = async (req: Request, res: Response) => {
     }
 
     // Check if user already has access to this question set
-    const existingPurchase = await Purchase.findOne({
-      where: {
-        userId,
-        questionSetId: redeemCode.questionSetId,
-        expiryDate: {
-          [Op.gt]: new Date()
-        }
-      },
-      transaction
-    });
+    const existingPurchase = await findActivePurchase(userId, redeemCode.questionSetId, transaction);
 
     if (existingPurchase) {
       // Extend the existing purchase if new expiry date is later
@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import { QuestionSet, ReviewSchedule } from '../models';
+import { gradeAnswer, toPublicQuestion, loadGradableQuestionsByIds } from '../services/quizGrading';
+import { filterAccessibleQuestions } from '../services/questionSetAccess';
+import { scheduleReview, resolveQuality } from '../services/spacedRepetition';
+import { trackAnswer } from '../services/mistakeNotebook';
+
+const DEFAULT_QUEUE_SIZE = 50;
+const MAX_QUEUE_SIZE = 200;
+
+const formatSchedule = (schedule: ReviewSchedule) => ({
+  easeFactor: schedule.easeFactor,
+  interval: schedule.interval,
+  repetitions: schedule.repetitions,
+  lapses: schedule.lapses,
+  dueDate: schedule.dueDate,
+  lastReviewedAt: schedule.lastReviewedAt
+});
+
+/**
+ * @desc    获取今日待复习题目（跨所有有权访问的题库）
+ * @route   GET /api/reviews/due
+ * @access  Private
+ */
+export const getDueReviews = async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(MAX_QUEUE_SIZE, parseInt(String(req.query.limit), 10) || DEFAULT_QUEUE_SIZE);
+
+    // 截止到今天结束前到期的都算今日待复习
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 999);
+
+    const dueSchedules = await ReviewSchedule.findAll({
+      where: {
+        userId: req.user.id,
+        dueDate: { [Op.lte]: endOfToday }
+      },
+      include: [{ model: QuestionSet, as: 'questionSet', attributes: ['id', 'title', 'icon'] }],
+      order: [['dueDate', 'ASC']]
+    });
+
+    const accessible = await filterAccessibleQuestions(dueSchedules, req.user);
+    const queue = accessible.slice(0, limit);
+    const questions = await loadGradableQuestionsByIds(queue.map(s => s.questionId));
+
+    const [scheduledCount, nextSchedule] = await Promise.all([
+      ReviewSchedule.count({ where: { userId: req.user.id } }),
+      ReviewSchedule.findOne({
+        where: { userId: req.user.id, dueDate: { [Op.gt]: endOfToday } },
+        order: [['dueDate', 'ASC']]
+      })
+    ]);
+
+    const items = queue
+      .map(schedule => {
+        const question = questions.find(q => q.id === schedule.questionId);
+        const questionSet = schedule.get('questionSet') as QuestionSet | undefined;
+        return question ? {
+          questionId: schedule.questionId,
+          questionSetId: schedule.questionSetId,
+          questionSetTitle: questionSet ? questionSet.title : '',
+          questionSetIcon: questionSet ? questionSet.icon : '',
+          schedule: formatSchedule(schedule),
+          question: toPublicQuestion(question)
+        } : null;
+      })
+      .filter(item => item !== null);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        dueCount: accessible.length,
+        scheduledCount,
+        nextDueDate: nextSchedule ? nextSchedule.dueDate : null,
+        items
+      }
+    });
+  } catch (error: any) {
+    console.error('获取复习队列失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取复习队列失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    提交复习答案并更新复习计划
+ * @route   POST /api/reviews/:questionId/answer
+ * @access  Private
+ */
+export const submitReviewAnswer = async (req: Request, res: Response) => {
+  try {
+    const { selectedOptions, quality } = req.body;
+
+    const schedule = await ReviewSchedule.findOne({
+      where: { userId: req.user.id, questionId: req.params.questionId }
+    });
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: '复习计划不存在'
+      });
+    }
+
+    const [accessible] = await filterAccessibleQuestions([schedule], req.user);
+    if (!accessible) {
+      return res.status(403).json({
+        success: false,
+        message: '无权访问此题目'
+      });
+    }
+
+    const [question] = await loadGradableQuestionsByIds([schedule.questionId]);
+    if (!question) {
+      return res.status(404).json({
+        success: false,
+        message: '题目不存在'
+      });
+    }
+
+    const result = gradeAnswer(question, selectedOptions);
+    const updated = await scheduleReview(
+      req.user.id,
+      schedule.questionSetId,
+      schedule.questionId,
+      resolveQuality(result.isCorrect, quality)
+    );
+    await trackAnswer(req.user.id, schedule.questionSetId, result);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...result,
+        schedule: formatSchedule(updated)
+      }
+    });
+  } catch (error: any) {
+    console.error('提交复习答案失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '提交复习答案失败',
+      error: error.message
+    });
+  }
+};
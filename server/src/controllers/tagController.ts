@@ -0,0 +1,26 @@
+import { Request, Response } from 'express';
+import { listTags } from '../services/questionTags';
+
+/**
+ * @desc    获取题目标签及使用该标签的题目数，用于选择按标签练习的主题
+ *          管理员带 ?includeUnpublished=true 时统计全部题库
+ * @route   GET /api/tags
+ * @access  Public
+ */
+export const getTags = async (req: Request, res: Response) => {
+  try {
+    const includeUnpublished = !!(req.user && req.user.isAdmin) && req.query.includeUnpublished === 'true';
+
+    res.status(200).json({
+      success: true,
+      data: await listTags(includeUnpublished)
+    });
+  } catch (error: any) {
+    console.error('获取标签失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取标签失败',
+      error: error.message
+    });
+  }
+};
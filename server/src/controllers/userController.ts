@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import User from '../models/User';
 import { generateToken } from '../middleware/authMiddleware';
+import { buildUserProfiles } from '../services/userAccount';
 
 // @desc    Register a new user
 // @route   POST /api/users
@@ -30,10 +31,7 @@ export const registerUser = async (req: Request, res: Response) => {
       username,
       email,
       password,
-      isAdmin: false,
-      progress: {},
-      purchases: [],
-      redeemCodes: []
+      isAdmin: false
     });
 
     if (user) {
@@ -125,9 +123,10 @@ export const getUserProfile = async (req: Request, res: Response) => {
     });
 
     if (user) {
+      const [profile] = await buildUserProfiles([user]);
       res.json({
         success: true,
-        data: user
+        data: profile
       });
     } else {
       res.status(404).json({
@@ -197,7 +196,7 @@ export const getUsers = async (req: Request, res: Response) => {
     
     res.json({
       success: true,
-      data: users
+      data: await buildUserProfiles(users)
     });
   } catch (error: any) {
     console.error('Get users error:', error);
@@ -246,9 +245,10 @@ export const getUserById = async (req: Request, res: Response) => {
     });
 
     if (user) {
+      const [profile] = await buildUserProfiles([user]);
       res.json({
         success: true,
-        data: user
+        data: profile
       });
     } else {
       res.status(404).json({
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
-import db from '../config/db';
-import { v4 as uuidv4 } from 'uuid';
+import { QuestionSet, QuizAttempt, AttemptAnswer, UserProgress } from '../models';
+import { formatProgress } from '../services/userAccount';
 
 /**
  * @desc    获取用户进度
@@ -9,29 +9,24 @@ import { v4 as uuidv4 } from 'uuid';
  */
 export const getUserProgress = async (req: Request, res: Response) => {
   try {
-    const userId = req.user.id;
-
-    // 查询用户的所有进度记录
-    const [progressRecords] = await db.execute(`
-      SELECT 
-        up.id,
-        up.question_set_id as questionSetId,
-        up.completed_questions as completedQuestions,
-        up.total_questions as totalQuestions,
-        up.correct_answers as correctAnswers,
-        up.last_accessed as lastAccessed,
-        qs.title as questionSetTitle
-      FROM 
-        user_progress up
-      JOIN
-        question_sets qs ON up.question_set_id = qs.id
-      WHERE 
-        up.user_id = ?
-    `, [userId]);
+    const progressRecords = await UserProgress.findAll({
+      where: { userId: req.user.id },
+      include: [{ model: QuestionSet, as: 'questionSet', attributes: ['id', 'title', 'icon'] }],
+      order: [['lastAccessed', 'DESC']]
+    });
 
     res.status(200).json({
       success: true,
-      data: progressRecords
+      data: progressRecords.map(record => {
+        const questionSet = record.get('questionSet') as QuestionSet | undefined;
+        return {
+          id: record.id,
+          questionSetId: record.questionSetId,
+          questionSetTitle: questionSet ? questionSet.title : '',
+          questionSetIcon: questionSet ? questionSet.icon : '',
+          ...formatProgress(record)
+        };
+      })
     });
   } catch (error: any) {
     console.error('获取用户进度失败:', error);
@@ -44,80 +39,55 @@ export const getUserProgress = async (req: Request, res: Response) => {
 };
 
 /**
- * @desc    更新用户进度
+ * @desc    根据已完成的答题记录更新用户进度
  * @route   POST /api/progress
  * @access  Private
  */
 export const updateUserProgress = async (req: Request, res: Response) => {
   try {
     const userId = req.user.id;
-    const { 
-      questionSetId, 
-      completedQuestions, 
-      totalQuestions, 
-      correctAnswers 
-    } = req.body;
+    const { questionSetId, attemptId } = req.body;
 
-    if (!questionSetId) {
+    if (!questionSetId || !attemptId) {
       return res.status(400).json({
         success: false,
-        message: '题库ID不能为空'
+        message: '题库ID和答题记录ID不能为空'
       });
     }
 
-    // 检查题库是否存在
-    const [questionSets] = await db.execute('SELECT id FROM question_sets WHERE id = ?', [questionSetId]);
-    if (Array.isArray(questionSets) && questionSets.length === 0) {
+    // 成绩以服务端判分的答题记录为准，不接受客户端上报的数字
+    const attempt = await QuizAttempt.findByPk(attemptId);
+    if (!attempt || attempt.userId !== userId || attempt.questionSetId !== questionSetId) {
       return res.status(404).json({
         success: false,
-        message: '题库不存在'
+        message: '答题记录不存在'
       });
     }
 
-    // 检查用户是否已有该题库的进度记录
-    const [existingProgress] = await db.execute(
-      'SELECT id FROM user_progress WHERE user_id = ? AND question_set_id = ?',
-      [userId, questionSetId]
-    ) as [any[], any];
+    if (attempt.status !== 'completed') {
+      return res.status(400).json({
+        success: false,
+        message: '答题尚未结束'
+      });
+    }
 
-    const now = new Date().toISOString().slice(0, 19).replace('T', ' ');
+    const completedQuestions = await AttemptAnswer.count({ where: { attemptId: attempt.id } });
+    const values = {
+      completedQuestions,
+      totalQuestions: attempt.totalQuestions,
+      correctAnswers: attempt.correctCount,
+      lastAccessed: new Date()
+    };
 
-    let progressId;
-    if (Array.isArray(existingProgress) && existingProgress.length > 0) {
-      // 更新现有记录
-      progressId = existingProgress[0].id;
-      await db.execute(`
-        UPDATE user_progress 
-        SET 
-          completed_questions = ?,
-          total_questions = ?,
-          correct_answers = ?,
-          last_accessed = ?
-        WHERE 
-          id = ?
-      `, [completedQuestions, totalQuestions, correctAnswers, now, progressId]);
-    } else {
-      // 创建新记录
-      progressId = uuidv4();
-      await db.execute(`
-        INSERT INTO user_progress 
-          (id, user_id, question_set_id, completed_questions, total_questions, correct_answers, last_accessed) 
-        VALUES 
-          (?, ?, ?, ?, ?, ?, ?)
-      `, [progressId, userId, questionSetId, completedQuestions, totalQuestions, correctAnswers, now]);
-    }
+    const existing = await UserProgress.findOne({ where: { userId, questionSetId } });
+    const progress = existing
+      ? await existing.update(values)
+      : await UserProgress.create({ userId, questionSetId, ...values });
 
     res.status(200).json({
       success: true,
       message: '进度更新成功',
-      data: {
-        id: progressId,
-        questionSetId,
-        completedQuestions,
-        totalQuestions,
-        correctAnswers,
-        lastAccessed: now
-      }
+      data: formatProgress(progress)
     });
   } catch (error: any) {
     console.error('更新用户进度失败:', error);
@@ -127,4 +97,4 @@ export const updateUserProgress = async (req: Request, res: Response) => {
       error: error.message
     });
   }
-}; 
\ No newline at end of file
+};
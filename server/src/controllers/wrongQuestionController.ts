@@ -0,0 +1,188 @@
+import { Request, Response } from 'express';
+import { QuestionSet, WrongQuestion } from '../models';
+import {
+  GradableQuestion,
+  gradeAnswer,
+  toPublicQuestion,
+  loadGradableQuestionsByIds
+} from '../services/quizGrading';
+import { filterAccessibleQuestions } from '../services/questionSetAccess';
+import { MASTERY_STREAK, trackAnswer } from '../services/mistakeNotebook';
+import { scheduleReview, resolveQuality } from '../services/spacedRepetition';
+
+// 查询当前用户的错题，可按题库筛选
+const findEntries = (req: Request) => {
+  const where: { userId: string; questionSetId?: string } = { userId: req.user.id };
+  if (typeof req.query.questionSetId === 'string' && req.query.questionSetId) {
+    where.questionSetId = req.query.questionSetId;
+  }
+
+  return WrongQuestion.findAll({
+    where,
+    include: [{ model: QuestionSet, as: 'questionSet', attributes: ['id', 'title', 'icon'] }],
+    order: [['lastWrongAt', 'DESC']]
+  });
+};
+
+const formatEntry = (entry: WrongQuestion, question?: GradableQuestion) => {
+  const questionSet = entry.get('questionSet') as QuestionSet | undefined;
+
+  return {
+    id: entry.id,
+    questionId: entry.questionId,
+    questionSetId: entry.questionSetId,
+    questionSetTitle: questionSet ? questionSet.title : '',
+    questionSetIcon: questionSet ? questionSet.icon : '',
+    selectedOptions: entry.selectedOptions,
+    wrongCount: entry.wrongCount,
+    correctStreak: entry.correctStreak,
+    lastWrongAt: entry.lastWrongAt,
+    question: question ? toPublicQuestion(question) : null
+  };
+};
+
+/**
+ * @desc    获取错题本
+ * @route   GET /api/wrong-questions
+ * @access  Private
+ */
+export const getWrongQuestions = async (req: Request, res: Response) => {
+  try {
+    const entries = await findEntries(req);
+    const questions = await loadGradableQuestionsByIds(entries.map(e => e.questionId));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        masteryStreak: MASTERY_STREAK,
+        items: entries.map(e => formatEntry(e, questions.find(q => q.id === e.questionId)))
+      }
+    });
+  } catch (error: any) {
+    console.error('获取错题本失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取错题本失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    获取错题练习题目（不含正确答案），跨所有题库
+ * @route   GET /api/wrong-questions/practice
+ * @access  Private
+ */
+export const getPracticeQuestions = async (req: Request, res: Response) => {
+  try {
+    const entries = await filterAccessibleQuestions(await findEntries(req), req.user);
+    const questions = await loadGradableQuestionsByIds(entries.map(e => e.questionId));
+
+    const items = entries
+      .map(e => formatEntry(e, questions.find(q => q.id === e.questionId)))
+      .filter(item => item.question !== null);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        masteryStreak: MASTERY_STREAK,
+        items
+      }
+    });
+  } catch (error: any) {
+    console.error('获取错题练习失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '获取错题练习失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    提交错题练习答案
+ * @route   POST /api/wrong-questions/:questionId/answer
+ * @access  Private
+ */
+export const submitPracticeAnswer = async (req: Request, res: Response) => {
+  try {
+    const entry = await WrongQuestion.findOne({
+      where: { userId: req.user.id, questionId: req.params.questionId }
+    });
+
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: '错题不存在'
+      });
+    }
+
+    const [accessible] = await filterAccessibleQuestions([entry], req.user);
+    if (!accessible) {
+      return res.status(403).json({
+        success: false,
+        message: '无权访问此题目'
+      });
+    }
+
+    const [question] = await loadGradableQuestionsByIds([entry.questionId]);
+    if (!question) {
+      return res.status(404).json({
+        success: false,
+        message: '题目不存在'
+      });
+    }
+
+    const result = gradeAnswer(question, req.body.selectedOptions);
+    const notebook = await trackAnswer(req.user.id, entry.questionSetId, result);
+    await scheduleReview(req.user.id, entry.questionSetId, entry.questionId, resolveQuality(result.isCorrect));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...result,
+        ...notebook,
+        masteryStreak: MASTERY_STREAK
+      }
+    });
+  } catch (error: any) {
+    console.error('提交错题答案失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '提交错题答案失败',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    从错题本移除题目
+ * @route   DELETE /api/wrong-questions/:questionId
+ * @access  Private
+ */
+export const removeWrongQuestion = async (req: Request, res: Response) => {
+  try {
+    const deleted = await WrongQuestion.destroy({
+      where: { userId: req.user.id, questionId: req.params.questionId }
+    });
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: '错题不存在'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: '已从错题本移除'
+    });
+  } catch (error: any) {
+    console.error('移除错题失败:', error);
+    res.status(500).json({
+      success: false,
+      message: '移除错题失败',
+      error: error.message
+    });
+  }
+};
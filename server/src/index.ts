@@ -21,8 +21,16 @@ import './models/HomepageSettings';
 import userRoutes from './routes/userRoutes';
 import questionSetRoutes from './routes/questionSetRoutes';
 import purchaseRoutes from './routes/purchaseRoutes';
+import { handlePaymentWebhook } from './controllers/purchaseController';
 import redeemCodeRoutes from './routes/redeemCodeRoutes';
 import homepageRoutes from './routes/homepageRoutes';
+import quizAttemptRoutes from './routes/quizAttemptRoutes';
+import wrongQuestionRoutes from './routes/wrongQuestionRoutes';
+import reviewRoutes from './routes/reviewRoutes';
+import userProgressRoutes from './routes/userProgressRoutes';
+import categoryRoutes from './routes/categoryRoutes';
+import tagRoutes from './routes/tagRoutes';
+import bundleRoutes from './routes/bundleRoutes';
 
 // Initialize express app
 const app = express();
@@ -31,6 +39,9 @@ const PORT = process.env.PORT || 5000;
 // 信任代理，解决X-Forwarded-For头问题
 app.set('trust proxy', true);
 
+// 支付 webhook 需要原始请求体校验签名，必须在 JSON 解析之前注册
+app.post('/api/purchases/webhook', express.raw({ type: 'application/json' }), handlePaymentWebhook);
+
 // Body parsing middleware
 // 确保最先配置body解析中间件，防止请求体解析问题
 app.use(express.json({ 
@@ -115,6 +126,13 @@ app.use('/api/question-sets', questionSetRoutes);
 app.use('/api/purchases', purchaseRoutes);
 app.use('/api/redeem-codes', redeemCodeRoutes);
 app.use('/api/homepage', homepageRoutes);
+app.use('/api/quiz-attempts', quizAttemptRoutes);
+app.use('/api/wrong-questions', wrongQuestionRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/progress', userProgressRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/bundles', bundleRoutes);
 
 console.log('=========== API路由注册结束 ===========');
 
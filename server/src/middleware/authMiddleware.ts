@@ -60,6 +60,33 @@ export const protect = async (req: Request, res: Response, next: NextFunction) =
   }
 };
 
+// Middleware that attaches the user when a valid token is present,
+// but lets anonymous requests through (used by public routes whose
+// response depends on who is asking)
+export const optionalAuth = async (req: Request, res: Response, next: NextFunction) => {
+  if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
+    try {
+      const token = req.headers.authorization.split(' ')[1];
+
+      // @ts-ignore - JWT verify type issues
+      const decoded = jwt.verify(token, process.env.JWT_SECRET || '') as JwtPayload;
+
+      const user = await User.findByPk(decoded.id, {
+        attributes: { exclude: ['password'] }
+      });
+
+      if (user) {
+        req.user = user;
+      }
+    } catch (error) {
+      // 令牌无效时按匿名用户处理
+      console.warn('Optional authentication failed, continuing as guest');
+    }
+  }
+
+  next();
+};
+
 // Middleware to check if user is admin
 export const admin = (req: Request, res: Response, next: NextFunction) => {
   if (req.user && req.user.isAdmin) {
@@ -0,0 +1,76 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+
+// 作答记录接口
+export interface AttemptAnswerAttributes {
+  id: string;
+  attemptId: string;
+  questionId: string;
+  selectedOptions: string[]; // 选中的选项ID；填空题为填写的文字，匹配题为按选项顺序选择的右侧项
+  isCorrect: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface AttemptAnswerCreationAttributes extends Optional<AttemptAnswerAttributes, 'id'> {}
+
+// 作答记录模型类
+class AttemptAnswer extends Model<AttemptAnswerAttributes, AttemptAnswerCreationAttributes> implements AttemptAnswerAttributes {
+  public id!: string;
+  public attemptId!: string;
+  public questionId!: string;
+  public selectedOptions!: string[];
+  public isCorrect!: boolean;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+AttemptAnswer.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    attemptId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'quiz_attempts',
+        key: 'id'
+      }
+    },
+    questionId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'questions',
+        key: 'id'
+      }
+    },
+    selectedOptions: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    isCorrect: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    }
+  },
+  {
+    sequelize,
+    tableName: 'attempt_answers',
+    indexes: [
+      { unique: true, fields: ['attemptId', 'questionId'] },
+      { fields: ['questionId'] }
+    ]
+  }
+);
+
+export default AttemptAnswer;
@@ -0,0 +1,91 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+
+// 题库套餐接口，包含的题库见 BundleQuestionSet
+export interface BundleAttributes {
+  id: string;
+  title: string;
+  description: string;
+  price: number;
+  accessDays: number | null;
+  isActive: boolean;
+  sortOrder: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface BundleCreationAttributes extends Optional<BundleAttributes, 'id' | 'description' | 'accessDays' | 'isActive' | 'sortOrder'> {}
+
+// 题库套餐模型类
+class Bundle extends Model<BundleAttributes, BundleCreationAttributes> implements BundleAttributes {
+  public id!: string;
+  public title!: string;
+  public description!: string;
+  public price!: number;
+  public accessDays!: number | null;
+  public isActive!: boolean;
+  public sortOrder!: number;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+Bundle.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    title: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        notEmpty: true
+      }
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: ''
+    },
+    // 套餐价格（元），购买后套餐中的每个题库都获得访问权限
+    price: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0.01
+      }
+    },
+    // 购买后的有效天数，null 为永久
+    accessDays: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      defaultValue: 180
+    },
+    // 下架的套餐不在首页显示，也不能购买，已购买的访问权限不受影响
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    },
+    // 首页的显示顺序，越小越靠前
+    sortOrder: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    }
+  },
+  {
+    sequelize,
+    tableName: 'bundles',
+    indexes: [
+      { fields: ['isActive', 'sortOrder'] }
+    ]
+  }
+);
+
+export default Bundle;
@@ -0,0 +1,142 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+
+// 套餐购买记录接口：一笔支付，支付成功后为套餐中的每个题库生成一条购买记录（Purchase.bundlePurchaseId）
+export interface BundlePurchaseAttributes {
+  id: string;
+  userId: string;
+  bundleId: string;
+  questionSetIds: string[];
+  transactionId: string;
+  amount: number;
+  paymentMethod: string;
+  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  accessDays: number | null;
+  purchaseDate: Date;
+  expiryDate?: Date | null;
+  refundedAmount: number;
+  refundReason?: string | null;
+  refundedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface BundlePurchaseCreationAttributes extends Optional<BundlePurchaseAttributes, 'id' | 'paymentMethod' | 'status' | 'purchaseDate' | 'expiryDate' | 'refundedAmount' | 'refundReason' | 'refundedAt'> {}
+
+// 套餐购买记录模型类
+class BundlePurchase extends Model<BundlePurchaseAttributes, BundlePurchaseCreationAttributes> implements BundlePurchaseAttributes {
+  public id!: string;
+  public userId!: string;
+  public bundleId!: string;
+  public questionSetIds!: string[];
+  public transactionId!: string;
+  public amount!: number;
+  public paymentMethod!: string;
+  public status!: 'pending' | 'completed' | 'failed' | 'refunded';
+  public accessDays!: number | null;
+  public purchaseDate!: Date;
+  public expiryDate!: Date | null;
+  public refundedAmount!: number;
+  public refundReason!: string | null;
+  public refundedAt!: Date | null;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+BundlePurchase.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    bundleId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'bundles',
+        key: 'id'
+      }
+    },
+    // 下单时套餐包含的题库，之后修改套餐不影响这笔购买
+    questionSetIds: {
+      type: DataTypes.JSON,
+      allowNull: false
+    },
+    transactionId: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0
+      }
+    },
+    paymentMethod: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: 'card'
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'completed', 'failed', 'refunded'),
+      allowNull: false,
+      defaultValue: 'pending'
+    },
+    // 下单时套餐的有效天数，null 为永久
+    accessDays: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    purchaseDate: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    // 支付成功时计算
+    expiryDate: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    refundedAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0
+    },
+    // 管理员退款时填写的原因，同时写入套餐中各题库的购买记录
+    refundReason: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+    refundedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  },
+  {
+    sequelize,
+    tableName: 'bundle_purchases',
+    indexes: [
+      { fields: ['userId'] },
+      { fields: ['bundleId'] },
+      { unique: true, fields: ['transactionId'] },
+      { fields: ['status'] }
+    ]
+  }
+);
+
+export default BundlePurchase;
@@ -0,0 +1,69 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+
+// 套餐与题库的关联接口，同一个题库可以出现在多个套餐中
+export interface BundleQuestionSetAttributes {
+  id: string;
+  bundleId: string;
+  questionSetId: string;
+  orderIndex: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface BundleQuestionSetCreationAttributes extends Optional<BundleQuestionSetAttributes, 'id' | 'orderIndex'> {}
+
+// 套餐题库关联模型类
+class BundleQuestionSet extends Model<BundleQuestionSetAttributes, BundleQuestionSetCreationAttributes> implements BundleQuestionSetAttributes {
+  public id!: string;
+  public bundleId!: string;
+  public questionSetId!: string;
+  public orderIndex!: number;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+BundleQuestionSet.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    bundleId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'bundles',
+        key: 'id'
+      }
+    },
+    questionSetId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'question_sets',
+        key: 'id'
+      }
+    },
+    orderIndex: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    }
+  },
+  {
+    sequelize,
+    tableName: 'bundle_question_sets',
+    indexes: [
+      { unique: true, fields: ['bundleId', 'questionSetId'] },
+      { fields: ['questionSetId'] }
+    ]
+  }
+);
+
+export default BundleQuestionSet;
@@ -0,0 +1,82 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+
+// 题库分类接口，parentId 为空表示顶级分类
+export interface CategoryAttributes {
+  id: string;
+  name: string;
+  slug: string;
+  parentId?: string | null;
+  icon?: string | null;
+  sortOrder: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface CategoryCreationAttributes extends Optional<CategoryAttributes, 'id' | 'sortOrder'> {}
+
+// 分类模型类
+class Category extends Model<CategoryAttributes, CategoryCreationAttributes> implements CategoryAttributes {
+  public id!: string;
+  public name!: string;
+  public slug!: string;
+  public parentId?: string | null;
+  public icon?: string | null;
+  public sortOrder!: number;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+Category.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      validate: {
+        notEmpty: true
+      }
+    },
+    // 用于地址的唯一标识，如 /categories/networking
+    slug: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true
+    },
+    parentId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'categories',
+        key: 'id'
+      }
+    },
+    icon: {
+      type: DataTypes.STRING(50),
+      allowNull: true
+    },
+    // 同级分类的显示顺序，越小越靠前
+    sortOrder: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    }
+  },
+  {
+    sequelize,
+    tableName: 'categories',
+    indexes: [
+      { fields: ['parentId', 'sortOrder'] }
+    ]
+  }
+);
+
+export default Category;
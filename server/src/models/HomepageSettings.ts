@@ -29,6 +29,7 @@ HomepageSettings.init(
       type: DataTypes.TEXT,
       allowNull: false
     },
+    // 首页精选分类的分类ID，按显示顺序保存为 JSON 数组
     featured_categories: {
       type: DataTypes.TEXT,
       allowNull: true,
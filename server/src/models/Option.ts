@@ -8,6 +8,7 @@ export interface OptionAttributes {
   text: string;
   isCorrect: boolean;
   optionIndex: string; // 例如 "A", "B", "C", "D"
+  matchText?: string | null; // 匹配题中与该选项配对的右侧项，其他题型为空
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -22,6 +23,7 @@ class Option extends Model<OptionAttributes, OptionCreationAttributes> implement
   public text!: string;
   public isCorrect!: boolean;
   public optionIndex!: string;
+  public matchText?: string | null;
   
   // 时间戳
   public readonly createdAt!: Date;
@@ -56,6 +58,11 @@ Option.init(
     optionIndex: {
       type: DataTypes.STRING(5),
       allowNull: false
+    },
+    matchText: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      defaultValue: null
     }
   },
   {
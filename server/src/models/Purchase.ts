@@ -14,12 +14,18 @@ export interface PurchaseAttributes {
   amount: number;
   paymentMethod: string;
   status: 'pending' | 'completed' | 'failed' | 'refunded';
+  pricingTierId?: string | null;
+  accessDays?: number | null;
+  bundlePurchaseId?: string | null;
+  refundedAmount: number;
+  refundReason?: string | null;
+  refundedAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
 // 创建时可选的属性
-interface PurchaseCreationAttributes extends Optional<PurchaseAttributes, 'id' | 'purchaseDate' | 'paymentMethod' | 'status'> {}
+interface PurchaseCreationAttributes extends Optional<PurchaseAttributes, 'id' | 'purchaseDate' | 'paymentMethod' | 'status' | 'pricingTierId' | 'accessDays' | 'bundlePurchaseId' | 'refundedAmount' | 'refundReason' | 'refundedAt'> {}
 
 // 购买记录模型类
 class Purchase extends Model<PurchaseAttributes, PurchaseCreationAttributes> implements PurchaseAttributes {
@@ -32,6 +38,12 @@ class Purchase extends Model<PurchaseAttributes, PurchaseCreationAttributes> imp
   public amount!: number;
   public paymentMethod!: string;
   public status!: 'pending' | 'completed' | 'failed' | 'refunded';
+  public pricingTierId!: string | null;
+  public accessDays!: number | null;
+  public bundlePurchaseId!: string | null;
+  public refundedAmount!: number;
+  public refundReason!: string | null;
+  public refundedAt!: Date | null;
   
   // 时间戳
   public readonly createdAt!: Date;
@@ -92,6 +104,39 @@ Purchase.init(
       type: DataTypes.ENUM('pending', 'completed', 'failed', 'refunded'),
       allowNull: false,
       defaultValue: 'pending'
+    },
+    // 购买的价格档位，支付成功时按 accessDays 计算到期时间（null 为永久）
+    pricingTierId: {
+      type: DataTypes.STRING(50),
+      allowNull: true
+    },
+    accessDays: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    // 通过套餐获得的访问权限，金额为 0，付款记录在套餐购买记录中
+    bundlePurchaseId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'bundle_purchases',
+        key: 'id'
+      }
+    },
+    // 已退款金额（元），部分退款时小于 amount
+    refundedAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0
+    },
+    // 管理员退款时填写的原因，支付平台后台直接退款时为空
+    refundReason: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+    refundedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
     }
   },
   {
@@ -100,6 +145,7 @@ Purchase.init(
     indexes: [
       { fields: ['userId'] },
       { fields: ['questionSetId'] },
+      { fields: ['bundlePurchaseId'] },
       { unique: true, fields: ['transactionId'] },
       { fields: ['status'] }
     ]
@@ -1,14 +1,21 @@
 import { Model, DataTypes, Optional } from 'sequelize';
 import { sequelize } from '../config/db';
 
+// 题型：单选、多选、判断、填空、排序、匹配，各题型答案的保存方式见 services/questionTypes
+export type QuestionType = 'single' | 'multiple' | 'truefalse' | 'fill' | 'ordering' | 'matching';
+
+// 题干、选项和解析的格式：text 按原文显示，markdown 按 Markdown 渲染
+export type QuestionContentFormat = 'text' | 'markdown';
+
 // 问题接口
 export interface QuestionAttributes {
   id: string;
-  questionSetId: string;
+  questionSetId: string; // 创建题目的题库，题目出现在哪些题库中以 question_set_questions 为准
   text: string;
-  questionType: 'single' | 'multiple';
+  questionType: QuestionType;
   explanation: string;
-  orderIndex: number;
+  contentFormat?: QuestionContentFormat; // 增加格式之前的题目都是纯文字，默认为 text
+  retiredAt?: Date | null; // 重新上传题库时被移除的题目只标记下线，保留答题记录的关联
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -21,9 +28,10 @@ class Question extends Model<QuestionAttributes, QuestionCreationAttributes> imp
   public id!: string;
   public questionSetId!: string;
   public text!: string;
-  public questionType!: 'single' | 'multiple';
+  public questionType!: QuestionType;
   public explanation!: string;
-  public orderIndex!: number;
+  public contentFormat!: QuestionContentFormat;
+  public retiredAt?: Date | null;
   
   // 时间戳
   public readonly createdAt!: Date;
@@ -67,7 +75,7 @@ Question.init(
       }
     },
     questionType: {
-      type: DataTypes.ENUM('single', 'multiple'),
+      type: DataTypes.ENUM('single', 'multiple', 'truefalse', 'fill', 'ordering', 'matching'),
       allowNull: false,
       defaultValue: 'single'
     },
@@ -75,18 +83,26 @@ Question.init(
       type: DataTypes.TEXT,
       allowNull: false
     },
-    orderIndex: {
-      type: DataTypes.INTEGER,
+    contentFormat: {
+      type: DataTypes.ENUM('text', 'markdown'),
       allowNull: false,
-      defaultValue: 0
+      defaultValue: 'text'
+    },
+    retiredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      defaultValue: null
     }
   },
   {
     sequelize,
     tableName: 'questions',
+    // 默认只查询未下线的题目，需要包含已下线题目时使用 Question.unscoped()
+    defaultScope: {
+      where: { retiredAt: null }
+    },
     indexes: [
-      { fields: ['questionSetId'] },
-      { fields: ['questionSetId', 'orderIndex'] }
+      { fields: ['questionSetId'] }
     ]
   }
 );
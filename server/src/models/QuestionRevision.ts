@@ -0,0 +1,126 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+import { QuestionType, QuestionContentFormat } from './Question';
+
+// 题目内容快照，记录修改前后的题干、解析、题型、内容格式、选项和标签
+export interface QuestionSnapshot {
+  text: string;
+  explanation: string;
+  questionType: QuestionType;
+  contentFormat?: QuestionContentFormat; // 增加内容格式之前的修订记录没有此字段，按 text 处理
+  options: Array<{
+    optionIndex: string;
+    text: string;
+    isCorrect: boolean;
+    matchText?: string; // 只有匹配题的选项有
+  }>;
+  tags?: string[]; // 增加标签之前的修订记录没有此字段
+}
+
+export type QuestionRevisionAction = 'create' | 'update' | 'retire' | 'restore' | 'rollback';
+
+export type QuestionRevisionSource = 'create' | 'editor' | 'import' | 'rollback';
+
+// 题目修订记录接口
+export interface QuestionRevisionAttributes {
+  id: string;
+  questionId: string;
+  questionSetId: string;
+  userId: string | null; // 修改人，系统操作时为空
+  action: QuestionRevisionAction;
+  source: QuestionRevisionSource;
+  before: QuestionSnapshot | null; // 新建题目时为空
+  after: QuestionSnapshot | null; // 下线题目时为空
+  rolledBackFrom?: string | null; // 回滚时恢复的修订记录ID
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface QuestionRevisionCreationAttributes extends Optional<QuestionRevisionAttributes, 'id' | 'userId' | 'before' | 'after'> {}
+
+// 题目修订记录模型类
+class QuestionRevision extends Model<QuestionRevisionAttributes, QuestionRevisionCreationAttributes> implements QuestionRevisionAttributes {
+  public id!: string;
+  public questionId!: string;
+  public questionSetId!: string;
+  public userId!: string | null;
+  public action!: QuestionRevisionAction;
+  public source!: QuestionRevisionSource;
+  public before!: QuestionSnapshot | null;
+  public after!: QuestionSnapshot | null;
+  public rolledBackFrom?: string | null;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+QuestionRevision.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    questionId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'questions',
+        key: 'id'
+      }
+    },
+    questionSetId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'question_sets',
+        key: 'id'
+      }
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      defaultValue: null,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    action: {
+      type: DataTypes.ENUM('create', 'update', 'retire', 'restore', 'rollback'),
+      allowNull: false
+    },
+    source: {
+      type: DataTypes.ENUM('create', 'editor', 'import', 'rollback'),
+      allowNull: false
+    },
+    before: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      defaultValue: null
+    },
+    after: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      defaultValue: null
+    },
+    rolledBackFrom: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      defaultValue: null
+    }
+  },
+  {
+    sequelize,
+    tableName: 'question_revisions',
+    indexes: [
+      { fields: ['questionId', 'createdAt'] },
+      { fields: ['questionSetId', 'createdAt'] }
+    ]
+  }
+);
+
+export default QuestionRevision;
@@ -2,18 +2,36 @@ import { Model, DataTypes, Optional } from 'sequelize';
 import db from '../config/db';
 import { sequelize } from '../config/db';
 
+// 发布状态：草稿、审核中、已发布
+export type QuestionSetStatus = 'draft' | 'review' | 'published';
+
+// 价格档位：有效天数为 null 表示永久，见 services/pricingTiers
+export interface PricingTier {
+  id: string;
+  label: string;
+  durationDays: number | null;
+  price: number;
+}
+
 // 题集接口
 export interface QuestionSetAttributes {
   id: string;
   title: string;
   description: string;
-  category: string;
+  category: string; // 分类路径，如 "网络 > CCNA"，随 categoryId 同步
+  categoryId?: string | null;
   icon: string;
   isPaid: boolean;
   price?: number;
+  pricingTiers?: PricingTier[] | null;
   trialQuestions?: number;
   isFeatured?: boolean;
-  featuredCategory?: string;
+  featuredCategory?: string | null;
+  featuredCategoryId?: string | null;
+  timeLimit?: number | null;
+  passingScore?: number | null;
+  status?: QuestionSetStatus;
+  publishAt?: Date | null; // 定时发布时间，状态为已发布且到达该时间后才对学员公开
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -27,12 +45,19 @@ class QuestionSet extends Model<QuestionSetAttributes, QuestionSetCreationAttrib
   public title!: string;
   public description!: string;
   public category!: string;
+  public categoryId?: string | null;
   public icon!: string;
   public isPaid!: boolean;
   public price?: number;
+  public pricingTiers?: PricingTier[] | null;
   public trialQuestions?: number;
   public isFeatured?: boolean;
-  public featuredCategory?: string;
+  public featuredCategory?: string | null;
+  public featuredCategoryId?: string | null;
+  public timeLimit?: number | null;
+  public passingScore?: number | null;
+  public status!: QuestionSetStatus;
+  public publishAt?: Date | null;
   
   // 时间戳
   public readonly createdAt!: Date;
@@ -58,9 +83,19 @@ QuestionSet.init(
       type: DataTypes.TEXT,
       allowNull: false
     },
+    // 分类路径，冗余保存便于列表显示和导出，以 categoryId 为准
     category: {
-      type: DataTypes.STRING(50),
-      allowNull: false
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      defaultValue: ''
+    },
+    categoryId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'categories',
+        key: 'id'
+      }
     },
     icon: {
       type: DataTypes.STRING(50),
@@ -78,6 +113,12 @@ QuestionSet.init(
         min: 0
       }
     },
+    // 价格档位，为空时按 price 购买 6 个月
+    pricingTiers: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      defaultValue: null
+    },
     trialQuestions: {
       type: DataTypes.INTEGER,
       allowNull: true,
@@ -91,9 +132,46 @@ QuestionSet.init(
       allowNull: false,
       defaultValue: false
     },
+    // 首页精选分类路径，随 featuredCategoryId 同步
     featuredCategory: {
-      type: DataTypes.STRING(50),
+      type: DataTypes.STRING(255),
       allowNull: true
+    },
+    featuredCategoryId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'categories',
+        key: 'id'
+      }
+    },
+    // 考试模式时间限制（分钟），为空表示不限时
+    timeLimit: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1
+      }
+    },
+    // 考试及格分（百分制），为空表示不判定是否及格
+    passingScore: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 0,
+        max: 100
+      }
+    },
+    // 发布状态，已有题库默认为已发布
+    status: {
+      type: DataTypes.ENUM('draft', 'review', 'published'),
+      allowNull: false,
+      defaultValue: 'published'
+    },
+    publishAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      defaultValue: null
     }
   },
   {
@@ -101,10 +179,17 @@ QuestionSet.init(
     tableName: 'question_sets',
     indexes: [
       { fields: ['category'] },
-      { fields: ['isFeatured'] }
+      { fields: ['categoryId'] },
+      { fields: ['isFeatured'] },
+      { fields: ['status', 'publishAt'] }
     ],
     hooks: {
       beforeValidate: (questionSet: QuestionSet) => {
+        // 设置了价格档位时，价格为最低的档位价格
+        if (Array.isArray(questionSet.pricingTiers) && questionSet.pricingTiers.length > 0) {
+          questionSet.price = Math.min(...questionSet.pricingTiers.map(tier => tier.price));
+        }
+
         // 如果是付费题集，价格必须大于0
         if (questionSet.isPaid && (!questionSet.price || questionSet.price <= 0)) {
           throw new Error('Paid question sets must have a price greater than 0');
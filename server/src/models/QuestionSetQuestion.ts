@@ -0,0 +1,70 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+
+// 题库与题目的关联接口，同一道题可以出现在多个题库中，各自有自己的顺序
+export interface QuestionSetQuestionAttributes {
+  id: string;
+  questionSetId: string;
+  questionId: string;
+  orderIndex: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface QuestionSetQuestionCreationAttributes extends Optional<QuestionSetQuestionAttributes, 'id' | 'orderIndex'> {}
+
+// 题库题目关联模型类
+class QuestionSetQuestion extends Model<QuestionSetQuestionAttributes, QuestionSetQuestionCreationAttributes> implements QuestionSetQuestionAttributes {
+  public id!: string;
+  public questionSetId!: string;
+  public questionId!: string;
+  public orderIndex!: number;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+QuestionSetQuestion.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    questionSetId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'question_sets',
+        key: 'id'
+      }
+    },
+    questionId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'questions',
+        key: 'id'
+      }
+    },
+    orderIndex: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    }
+  },
+  {
+    sequelize,
+    tableName: 'question_set_questions',
+    indexes: [
+      { unique: true, fields: ['questionSetId', 'questionId'] },
+      { fields: ['questionSetId', 'orderIndex'] },
+      { fields: ['questionId'] }
+    ]
+  }
+);
+
+export default QuestionSetQuestion;
@@ -0,0 +1,61 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+
+// 题目标签接口，一道题可以有多个标签，标签跨题库通用
+export interface QuestionTagAttributes {
+  id: string;
+  questionId: string;
+  tag: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface QuestionTagCreationAttributes extends Optional<QuestionTagAttributes, 'id'> {}
+
+// 题目标签模型类
+class QuestionTag extends Model<QuestionTagAttributes, QuestionTagCreationAttributes> implements QuestionTagAttributes {
+  public id!: string;
+  public questionId!: string;
+  public tag!: string;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+QuestionTag.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    questionId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'questions',
+        key: 'id'
+      }
+    },
+    tag: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      validate: {
+        notEmpty: true
+      }
+    }
+  },
+  {
+    sequelize,
+    tableName: 'question_tags',
+    indexes: [
+      { unique: true, fields: ['questionId', 'tag'] },
+      { fields: ['tag'] }
+    ]
+  }
+);
+
+export default QuestionTag;
@@ -0,0 +1,151 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+
+// 按标签练习时选出的题目及其所在题库
+export interface AttemptQuestionRef {
+  questionId: string;
+  questionSetId: string;
+}
+
+// 答题记录接口，按标签练习的记录不属于某个题库，questionSetId 为空
+export interface QuizAttemptAttributes {
+  id: string;
+  userId?: string | null;
+  questionSetId: string | null;
+  tags?: string[] | null;
+  questionRefs?: AttemptQuestionRef[] | null;
+  mode: 'practice' | 'exam';
+  status: 'in_progress' | 'completed';
+  totalQuestions: number;
+  correctCount: number;
+  score?: number | null;
+  passed?: boolean | null;
+  startedAt: Date;
+  deadline?: Date | null;
+  completedAt?: Date | null;
+  durationSeconds?: number | null; // 答题用时（秒）
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface QuizAttemptCreationAttributes extends Optional<QuizAttemptAttributes, 'id' | 'questionSetId' | 'mode' | 'status' | 'correctCount' | 'startedAt'> {}
+
+// 答题记录模型类
+class QuizAttempt extends Model<QuizAttemptAttributes, QuizAttemptCreationAttributes> implements QuizAttemptAttributes {
+  public id!: string;
+  public userId?: string | null;
+  public questionSetId!: string | null;
+  public tags?: string[] | null;
+  public questionRefs?: AttemptQuestionRef[] | null;
+  public mode!: 'practice' | 'exam';
+  public status!: 'in_progress' | 'completed';
+  public totalQuestions!: number;
+  public correctCount!: number;
+  public score?: number | null;
+  public passed?: boolean | null;
+  public startedAt!: Date;
+  public deadline?: Date | null;
+  public completedAt?: Date | null;
+  public durationSeconds?: number | null;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+QuizAttempt.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    questionSetId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'question_sets',
+        key: 'id'
+      }
+    },
+    // 按标签练习时选择的标签
+    tags: {
+      type: DataTypes.JSON,
+      allowNull: true
+    },
+    // 按标签练习时开始答题选出的题目，按作答顺序排列
+    questionRefs: {
+      type: DataTypes.JSON,
+      allowNull: true
+    },
+    // 练习模式每题即时判题；考试模式交卷后才公布答案
+    mode: {
+      type: DataTypes.ENUM('practice', 'exam'),
+      allowNull: false,
+      defaultValue: 'practice'
+    },
+    status: {
+      type: DataTypes.ENUM('in_progress', 'completed'),
+      allowNull: false,
+      defaultValue: 'in_progress'
+    },
+    totalQuestions: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    correctCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    score: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    passed: {
+      type: DataTypes.BOOLEAN,
+      allowNull: true
+    },
+    startedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    // 考试截止时间，由服务端在开始考试时写入
+    deadline: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    durationSeconds: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    }
+  },
+  {
+    sequelize,
+    tableName: 'quiz_attempts',
+    indexes: [
+      { fields: ['userId'] },
+      { fields: ['questionSetId'] },
+      { fields: ['status'] },
+      { fields: ['userId', 'questionSetId', 'completedAt'] }
+    ]
+  }
+);
+
+export default QuizAttempt;
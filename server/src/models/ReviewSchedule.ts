@@ -0,0 +1,112 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+
+// 复习计划接口（SM-2 算法）
+export interface ReviewScheduleAttributes {
+  id: string;
+  userId: string;
+  questionId: string;
+  questionSetId: string;
+  easeFactor: number; // 难度系数，最小1.3
+  interval: number; // 复习间隔（天）
+  repetitions: number; // 连续记住的次数
+  lapses: number; // 遗忘次数
+  dueDate: Date;
+  lastReviewedAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface ReviewScheduleCreationAttributes extends Optional<ReviewScheduleAttributes, 'id' | 'easeFactor' | 'interval' | 'repetitions' | 'lapses'> {}
+
+// 复习计划模型类
+class ReviewSchedule extends Model<ReviewScheduleAttributes, ReviewScheduleCreationAttributes> implements ReviewScheduleAttributes {
+  public id!: string;
+  public userId!: string;
+  public questionId!: string;
+  public questionSetId!: string;
+  public easeFactor!: number;
+  public interval!: number;
+  public repetitions!: number;
+  public lapses!: number;
+  public dueDate!: Date;
+  public lastReviewedAt!: Date;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+ReviewSchedule.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    questionId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'questions',
+        key: 'id'
+      }
+    },
+    questionSetId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'question_sets',
+        key: 'id'
+      }
+    },
+    easeFactor: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 2.5
+    },
+    interval: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    repetitions: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    lapses: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    dueDate: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    lastReviewedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    tableName: 'review_schedules',
+    indexes: [
+      { unique: true, fields: ['userId', 'questionId'] },
+      { fields: ['userId', 'dueDate'] }
+    ]
+  }
+);
+
+export default ReviewSchedule;
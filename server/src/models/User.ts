@@ -2,33 +2,6 @@ import { Model, DataTypes, Optional } from 'sequelize';
 import bcrypt from 'bcryptjs';
 import { sequelize } from '../config/db';
 
-// User progress interface
-interface IUserProgress {
-  completedQuestions: number;
-  totalQuestions: number;
-  correctAnswers: number;
-  lastAccessed: Date;
-}
-
-// Purchase interface
-interface IPurchase {
-  quizId: string;
-  purchaseDate: Date;
-  expiryDate: Date;
-  transactionId: string;
-  amount: number;
-}
-
-// Redeem code interface
-interface IRedeemCode {
-  code: string;
-  questionSetId: string;
-  validityDays: number;
-  createdAt: Date;
-  usedBy?: string;
-  usedAt?: Date;
-}
-
 // User interface extending Document
 export interface UserAttributes {
   id: string;
@@ -36,9 +9,6 @@ export interface UserAttributes {
   email: string;
   password: string;
   isAdmin: boolean;
-  progress: Record<string, IUserProgress>;
-  purchases: IPurchase[];
-  redeemCodes: IRedeemCode[];
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -53,9 +23,6 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
   public email!: string;
   public password!: string;
   public isAdmin!: boolean;
-  public progress!: Record<string, IUserProgress>;
-  public purchases!: IPurchase[];
-  public redeemCodes!: IRedeemCode[];
   
   // Time stamps
   public readonly createdAt!: Date;
@@ -103,21 +70,6 @@ User.init(
       type: DataTypes.BOOLEAN,
       allowNull: false,
       defaultValue: false
-    },
-    progress: {
-      type: DataTypes.JSON,
-      allowNull: false,
-      defaultValue: {}
-    },
-    purchases: {
-      type: DataTypes.JSON,
-      allowNull: false,
-      defaultValue: []
-    },
-    redeemCodes: {
-      type: DataTypes.JSON,
-      allowNull: false,
-      defaultValue: []
     }
   },
   {
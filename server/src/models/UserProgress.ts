@@ -0,0 +1,91 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+
+// 用户学习进度接口（每个用户每个题库一条，记录最近一次完成的答题）
+export interface UserProgressAttributes {
+  id: string;
+  userId: string;
+  questionSetId: string;
+  completedQuestions: number;
+  totalQuestions: number;
+  correctAnswers: number;
+  lastAccessed: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface UserProgressCreationAttributes extends Optional<UserProgressAttributes, 'id' | 'completedQuestions' | 'totalQuestions' | 'correctAnswers' | 'lastAccessed'> {}
+
+// 用户学习进度模型类
+class UserProgress extends Model<UserProgressAttributes, UserProgressCreationAttributes> implements UserProgressAttributes {
+  public id!: string;
+  public userId!: string;
+  public questionSetId!: string;
+  public completedQuestions!: number;
+  public totalQuestions!: number;
+  public correctAnswers!: number;
+  public lastAccessed!: Date;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+UserProgress.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    questionSetId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'question_sets',
+        key: 'id'
+      }
+    },
+    completedQuestions: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    totalQuestions: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    correctAnswers: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    lastAccessed: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  },
+  {
+    sequelize,
+    // 沿用 create-tables.sql 中 user_progress 表的下划线列名
+    tableName: 'user_progress',
+    underscored: true,
+    indexes: [
+      { unique: true, fields: ['user_id', 'question_set_id'] }
+    ]
+  }
+);
+
+export default UserProgress;
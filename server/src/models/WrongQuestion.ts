@@ -0,0 +1,100 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config/db';
+
+// 错题本记录接口
+export interface WrongQuestionAttributes {
+  id: string;
+  userId: string;
+  questionId: string;
+  questionSetId: string;
+  selectedOptions: string[]; // 最近一次答错时选中的选项ID
+  wrongCount: number;
+  correctStreak: number; // 连续答对次数，达到阈值后移出错题本
+  lastWrongAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 创建时可选的属性
+interface WrongQuestionCreationAttributes extends Optional<WrongQuestionAttributes, 'id' | 'wrongCount' | 'correctStreak' | 'lastWrongAt'> {}
+
+// 错题本模型类
+class WrongQuestion extends Model<WrongQuestionAttributes, WrongQuestionCreationAttributes> implements WrongQuestionAttributes {
+  public id!: string;
+  public userId!: string;
+  public questionId!: string;
+  public questionSetId!: string;
+  public selectedOptions!: string[];
+  public wrongCount!: number;
+  public correctStreak!: number;
+  public lastWrongAt!: Date;
+
+  // 时间戳
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// 初始化模型
+WrongQuestion.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    questionId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'questions',
+        key: 'id'
+      }
+    },
+    questionSetId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'question_sets',
+        key: 'id'
+      }
+    },
+    selectedOptions: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    wrongCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1
+    },
+    correctStreak: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    lastWrongAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  },
+  {
+    sequelize,
+    tableName: 'wrong_questions',
+    indexes: [
+      { unique: true, fields: ['userId', 'questionId'] },
+      { fields: ['questionSetId'] }
+    ]
+  }
+);
+
+export default WrongQuestion;
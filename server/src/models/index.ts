@@ -8,6 +8,21 @@ import Purchase from './Purchase';
 import RedeemCode from './RedeemCode';
 import Option from './Option';
 import HomepageSettings from './HomepageSettings';
+import QuizAttempt from './QuizAttempt';
+import AttemptAnswer from './AttemptAnswer';
+import WrongQuestion from './WrongQuestion';
+import ReviewSchedule from './ReviewSchedule';
+import UserProgress from './UserProgress';
+import QuestionRevision from './QuestionRevision';
+import QuestionSetQuestion from './QuestionSetQuestion';
+import Category from './Category';
+import QuestionTag from './QuestionTag';
+import Bundle from './Bundle';
+import BundleQuestionSet from './BundleQuestionSet';
+import BundlePurchase from './BundlePurchase';
+import { migrateLegacyUserData } from '../services/legacyUserData';
+import { migrateQuestionSetLinks } from '../services/questionBank';
+import { migrateCategoryStrings } from '../services/category';
 
 // 设置模型关联
 User.hasMany(Purchase, {
@@ -15,15 +30,63 @@ User.hasMany(Purchase, {
   as: 'userPurchases'
 });
 
+// 分类树，题库归属一个分类，也可以在首页某个精选分类下展示
+Category.hasMany(Category, {
+  foreignKey: 'parentId',
+  as: 'children'
+});
+Category.belongsTo(Category, {
+  foreignKey: 'parentId',
+  as: 'parent'
+});
+Category.hasMany(QuestionSet, {
+  foreignKey: 'categoryId',
+  as: 'questionSets'
+});
+Category.hasMany(QuestionSet, {
+  foreignKey: 'featuredCategoryId',
+  as: 'featuredQuestionSets'
+});
+
+// 题目的 questionSetId 是创建题目的题库，题库包含哪些题目通过 question_set_questions 关联
 QuestionSet.hasMany(Question, {
   foreignKey: 'questionSetId',
-  as: 'questions'
+  as: 'ownedQuestions'
 });
 Question.belongsTo(QuestionSet, {
   foreignKey: 'questionSetId',
   as: 'questionSet'
 });
 
+QuestionSet.belongsToMany(Question, {
+  through: QuestionSetQuestion,
+  foreignKey: 'questionSetId',
+  otherKey: 'questionId',
+  as: 'questions'
+});
+Question.belongsToMany(QuestionSet, {
+  through: QuestionSetQuestion,
+  foreignKey: 'questionId',
+  otherKey: 'questionSetId',
+  as: 'questionSets'
+});
+QuestionSet.hasMany(QuestionSetQuestion, {
+  foreignKey: 'questionSetId',
+  as: 'questionLinks'
+});
+Question.hasMany(QuestionSetQuestion, {
+  foreignKey: 'questionId',
+  as: 'setLinks'
+});
+QuestionSetQuestion.belongsTo(QuestionSet, {
+  foreignKey: 'questionSetId',
+  as: 'questionSet'
+});
+QuestionSetQuestion.belongsTo(Question, {
+  foreignKey: 'questionId',
+  as: 'question'
+});
+
 Question.hasMany(Option, {
   foreignKey: 'questionId',
   as: 'options'
@@ -33,15 +96,67 @@ Option.belongsTo(Question, {
   as: 'question'
 });
 
+// 标签跟随题目，共用的题目在所有题库中标签相同
+Question.hasMany(QuestionTag, {
+  foreignKey: 'questionId',
+  as: 'tagLinks'
+});
+QuestionTag.belongsTo(Question, {
+  foreignKey: 'questionId',
+  as: 'question'
+});
+
 QuestionSet.hasMany(Purchase, {
-  foreignKey: 'quizId',
+  foreignKey: 'questionSetId',
   as: 'purchases'
 });
 Purchase.belongsTo(QuestionSet, {
-  foreignKey: 'quizId',
+  foreignKey: 'questionSetId',
   as: 'questionSet'
 });
 
+// 套餐包含多个题库，购买套餐后为每个题库生成一条购买记录
+Bundle.belongsToMany(QuestionSet, {
+  through: BundleQuestionSet,
+  foreignKey: 'bundleId',
+  otherKey: 'questionSetId',
+  as: 'questionSets'
+});
+QuestionSet.belongsToMany(Bundle, {
+  through: BundleQuestionSet,
+  foreignKey: 'questionSetId',
+  otherKey: 'bundleId',
+  as: 'bundles'
+});
+Bundle.hasMany(BundleQuestionSet, {
+  foreignKey: 'bundleId',
+  as: 'questionSetLinks'
+});
+BundleQuestionSet.belongsTo(QuestionSet, {
+  foreignKey: 'questionSetId',
+  as: 'questionSet'
+});
+Bundle.hasMany(BundlePurchase, {
+  foreignKey: 'bundleId',
+  as: 'purchases'
+});
+BundlePurchase.belongsTo(Bundle, {
+  foreignKey: 'bundleId',
+  as: 'bundle'
+});
+BundlePurchase.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user'
+});
+BundlePurchase.hasMany(Purchase, {
+  foreignKey: 'bundlePurchaseId',
+  as: 'grants'
+});
+Purchase.belongsTo(BundlePurchase, {
+  foreignKey: 'bundlePurchaseId',
+  as: 'bundlePurchase'
+});
+
 QuestionSet.hasMany(RedeemCode, {
   foreignKey: 'questionSetId',
   as: 'redeemCodes'
@@ -50,27 +165,162 @@ RedeemCode.belongsTo(QuestionSet, {
   foreignKey: 'questionSetId',
   as: 'questionSet'
 });
+RedeemCode.belongsTo(User, {
+  foreignKey: 'usedBy',
+  as: 'user'
+});
+RedeemCode.belongsTo(User, {
+  foreignKey: 'createdBy',
+  as: 'creator'
+});
 
 Purchase.belongsTo(User, {
   foreignKey: 'userId',
   as: 'user'
 });
 
+QuizAttempt.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user'
+});
+QuizAttempt.belongsTo(QuestionSet, {
+  foreignKey: 'questionSetId',
+  as: 'questionSet'
+});
+
+QuizAttempt.hasMany(AttemptAnswer, {
+  foreignKey: 'attemptId',
+  as: 'answers'
+});
+AttemptAnswer.belongsTo(QuizAttempt, {
+  foreignKey: 'attemptId',
+  as: 'attempt'
+});
+AttemptAnswer.belongsTo(Question, {
+  foreignKey: 'questionId',
+  as: 'question'
+});
+
+User.hasMany(WrongQuestion, {
+  foreignKey: 'userId',
+  as: 'wrongQuestions'
+});
+WrongQuestion.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user'
+});
+WrongQuestion.belongsTo(Question, {
+  foreignKey: 'questionId',
+  as: 'question'
+});
+WrongQuestion.belongsTo(QuestionSet, {
+  foreignKey: 'questionSetId',
+  as: 'questionSet'
+});
+
+User.hasMany(ReviewSchedule, {
+  foreignKey: 'userId',
+  as: 'reviewSchedules'
+});
+ReviewSchedule.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user'
+});
+ReviewSchedule.belongsTo(Question, {
+  foreignKey: 'questionId',
+  as: 'question'
+});
+ReviewSchedule.belongsTo(QuestionSet, {
+  foreignKey: 'questionSetId',
+  as: 'questionSet'
+});
+
+User.hasMany(UserProgress, {
+  foreignKey: 'userId',
+  as: 'progressRecords'
+});
+UserProgress.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user'
+});
+UserProgress.belongsTo(QuestionSet, {
+  foreignKey: 'questionSetId',
+  as: 'questionSet'
+});
+
+// 删除题目或题库时一并删除修订记录
+Question.hasMany(QuestionRevision, {
+  foreignKey: 'questionId',
+  as: 'revisions'
+});
+QuestionRevision.belongsTo(Question, {
+  foreignKey: 'questionId',
+  as: 'question'
+});
+QuestionSet.hasMany(QuestionRevision, {
+  foreignKey: 'questionSetId',
+  as: 'questionRevisions'
+});
+QuestionRevision.belongsTo(QuestionSet, {
+  foreignKey: 'questionSetId',
+  as: 'questionSet'
+});
+QuestionRevision.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user'
+});
+
 // 数据库同步函数
 const syncModels = async () => {
+  // 旧数据迁移失败时不能走下面的强制同步：重建表会把还没迁移完的旧数据一起删除
+  let migrationError: unknown = null;
+  const runDataMigration = async (migrate: () => Promise<void>) => {
+    try {
+      await migrate();
+    } catch (error) {
+      migrationError = error;
+      throw error;
+    }
+  };
+
   try {
     console.log('开始同步数据库模型...');
+
+    // 同步 User 会删掉旧的 JSON 列，必须先把其中的数据迁移到独立的表
+    await runDataMigration(migrateLegacyUserData);
+
     console.log('同步 User 模型...');
     await User.sync({ alter: true });
+
+    console.log('同步 Category 模型...');
+    await Category.sync({ alter: true });
     
     console.log('同步 QuestionSet 模型...');
     await QuestionSet.sync({ alter: true });
     
+    // 同步 Question 会删掉 orderIndex 列，必须先把题目和题库的关系写入关联表
+    await runDataMigration(migrateQuestionSetLinks);
+
     console.log('同步 Question 模型...');
     await Question.sync({ alter: true });
+
+    console.log('同步 QuestionSetQuestion 模型...');
+    await QuestionSetQuestion.sync({ alter: true });
     
     console.log('同步 Option 模型...');
     await Option.sync({ alter: true });
+
+    console.log('同步 QuestionTag 模型...');
+    await QuestionTag.sync({ alter: true });
+
+    console.log('同步 Bundle 模型...');
+    await Bundle.sync({ alter: true });
+
+    console.log('同步 BundleQuestionSet 模型...');
+    await BundleQuestionSet.sync({ alter: true });
+
+    console.log('同步 BundlePurchase 模型...');
+    await BundlePurchase.sync({ alter: true });
     
     console.log('同步 Purchase 模型...');
     await Purchase.sync({ alter: true });
@@ -81,6 +331,27 @@ const syncModels = async () => {
     console.log('同步 HomepageSettings 模型...');
     await HomepageSettings.sync({ alter: true });
     
+    console.log('同步 QuizAttempt 模型...');
+    await QuizAttempt.sync({ alter: true });
+    
+    console.log('同步 AttemptAnswer 模型...');
+    await AttemptAnswer.sync({ alter: true });
+    
+    console.log('同步 WrongQuestion 模型...');
+    await WrongQuestion.sync({ alter: true });
+    
+    console.log('同步 ReviewSchedule 模型...');
+    await ReviewSchedule.sync({ alter: true });
+    
+    console.log('同步 UserProgress 模型...');
+    await UserProgress.sync({ alter: true });
+    
+    console.log('同步 QuestionRevision 模型...');
+    await QuestionRevision.sync({ alter: true });
+    
+    // 把自由填写的分类文字迁移到分类表，需要 QuestionSet 和 HomepageSettings 已同步
+    await runDataMigration(migrateCategoryStrings);
+
     console.log('所有模型同步完成');
     
     // 确保 HomepageSettings 表有初始数据
@@ -91,7 +362,7 @@ const syncModels = async () => {
         id: 1,
         welcome_title: "ExamTopics 模拟练习",
         welcome_description: "选择以下任一题库开始练习，测试您的知识水平",
-        featured_categories: ["网络协议", "编程语言", "计算机基础"],
+        featured_categories: [],
         announcements: "欢迎使用在线题库系统，新增题库将定期更新，请持续关注！",
         footer_text: "© 2023 ExamTopics 在线题库系统 保留所有权利",
         banner_image: "/images/banner.jpg",
@@ -102,6 +373,11 @@ const syncModels = async () => {
     
     return true;
   } catch (error) {
+    if (migrationError) {
+      console.error('旧数据迁移失败，已停止同步，未迁移的数据仍保留在原来的表和列中:', error);
+      throw error;
+    }
+
     console.error('数据库模型同步错误:', error);
     
     // 尝试强制同步（谨慎使用，会重建表结构）
@@ -113,15 +389,33 @@ const syncModels = async () => {
       
       console.log('同步 User 模型...');
       await User.sync({ force: true });
+
+      console.log('同步 Category 模型...');
+      await Category.sync({ force: true });
       
       console.log('同步 QuestionSet 模型...');
       await QuestionSet.sync({ force: true });
       
       console.log('同步 Question 模型...');
       await Question.sync({ force: true });
+
+      console.log('同步 QuestionSetQuestion 模型...');
+      await QuestionSetQuestion.sync({ force: true });
       
       console.log('同步 Option 模型...');
       await Option.sync({ force: true });
+
+      console.log('同步 QuestionTag 模型...');
+      await QuestionTag.sync({ force: true });
+
+      console.log('同步 Bundle 模型...');
+      await Bundle.sync({ force: true });
+
+      console.log('同步 BundleQuestionSet 模型...');
+      await BundleQuestionSet.sync({ force: true });
+
+      console.log('同步 BundlePurchase 模型...');
+      await BundlePurchase.sync({ force: true });
       
       console.log('同步 Purchase 模型...');
       await Purchase.sync({ force: true });
@@ -129,12 +423,30 @@ const syncModels = async () => {
       console.log('同步 RedeemCode 模型...');
       await RedeemCode.sync({ force: true });
       
+      console.log('同步 QuizAttempt 模型...');
+      await QuizAttempt.sync({ force: true });
+      
+      console.log('同步 AttemptAnswer 模型...');
+      await AttemptAnswer.sync({ force: true });
+      
+      console.log('同步 WrongQuestion 模型...');
+      await WrongQuestion.sync({ force: true });
+      
+      console.log('同步 ReviewSchedule 模型...');
+      await ReviewSchedule.sync({ force: true });
+      
+      console.log('同步 UserProgress 模型...');
+      await UserProgress.sync({ force: true });
+      
+      console.log('同步 QuestionRevision 模型...');
+      await QuestionRevision.sync({ force: true });
+      
       console.log('创建 HomepageSettings 初始数据...');
       await HomepageSettings.create({
         id: 1,
         welcome_title: "ExamTopics 模拟练习",
         welcome_description: "选择以下任一题库开始练习，测试您的知识水平",
-        featured_categories: ["网络协议", "编程语言", "计算机基础"],
+        featured_categories: [],
         announcements: "欢迎使用在线题库系统，新增题库将定期更新，请持续关注！",
         footer_text: "© 2023 ExamTopics 在线题库系统 保留所有权利",
         banner_image: "/images/banner.jpg",
@@ -160,5 +472,17 @@ export {
   RedeemCode,
   Option,
   HomepageSettings,
+  QuizAttempt,
+  AttemptAnswer,
+  WrongQuestion,
+  ReviewSchedule,
+  UserProgress,
+  QuestionRevision,
+  QuestionSetQuestion,
+  Category,
+  QuestionTag,
+  Bundle,
+  BundleQuestionSet,
+  BundlePurchase,
   syncModels
 }; 
\ No newline at end of file
@@ -0,0 +1,22 @@
+import express from 'express';
+import {
+  getBundles,
+  getBundle,
+  createBundle,
+  updateBundle,
+  deleteBundle
+} from '../controllers/bundleController';
+import { protect, admin, optionalAuth } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// 公共路由，管理员登录后可以查看下架的套餐
+router.get('/', optionalAuth, getBundles);
+router.get('/:id', optionalAuth, getBundle);
+
+// 管理员路由
+router.post('/', protect, admin, createBundle);
+router.put('/:id', protect, admin, updateBundle);
+router.delete('/:id', protect, admin, deleteBundle);
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import {
+  getCategories,
+  getCategory,
+  createCategory,
+  updateCategory,
+  deleteCategory
+} from '../controllers/categoryController';
+import { protect, admin, optionalAuth } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// 公共路由
+router.get('/', optionalAuth, getCategories);
+router.get('/:idOrSlug', getCategory);
+
+// 管理员路由
+router.post('/', protect, admin, createCategory);
+router.put('/:id', protect, admin, updateCategory);
+router.delete('/:id', protect, admin, deleteCategory);
+
+export default router;
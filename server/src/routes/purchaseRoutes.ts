@@ -1,20 +1,35 @@
 import express from 'express';
 import {
   createPurchase,
-  completePurchase,
+  createBundlePurchase,
+  getPurchaseStatus,
   getUserPurchases,
-  checkPurchaseAccess
+  checkPurchaseAccess,
+  getPaymentConfig,
+  confirmMockPayment,
+  refundPurchase,
+  refundBundlePurchase
 } from '../controllers/purchaseController';
-import { protect } from '../middleware/authMiddleware';
+import { protect, admin } from '../middleware/authMiddleware';
 
 const router = express.Router();
 
-// All purchase routes require authentication
+// The payment webhook (POST /api/purchases/webhook) is registered in index.ts
+// before the JSON body parser, since signature verification needs the raw body
+
+// Payment form settings are public
+router.get('/config', getPaymentConfig);
+
+// All other purchase routes require authentication
 router.use(protect);
 
 router.post('/', createPurchase);
-router.post('/complete', completePurchase);
+router.post('/bundle', createBundlePurchase);
+router.get('/status/:paymentIntentId', getPurchaseStatus);
 router.get('/user', getUserPurchases);
 router.get('/check/:questionSetId', checkPurchaseAccess);
+router.post('/mock/:paymentIntentId/confirm', confirmMockPayment);
+router.post('/:id/refund', admin, refundPurchase);
+router.post('/bundle/:id/refund', admin, refundBundlePurchase);
 
 export default router; 
\ No newline at end of file
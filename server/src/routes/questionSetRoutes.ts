@@ -5,13 +5,20 @@ import {
   createQuestionSet,
   updateQuestionSet,
   deleteQuestionSet,
-  saveProgress,
   uploadQuestionSets,
   getFeaturedQuestionSets,
-  updateFeaturedStatus
+  updateFeaturedStatus,
+  updateQuestionSetStatus
 } from '../controllers/questionSetController';
 import { upload, uploadQuestionSetFile } from '../controllers/questionsUploadController';
-import { protect, admin } from '../middleware/authMiddleware';
+import { exportQuestionSet, exportAllQuestionSets } from '../controllers/questionSetExportController';
+import {
+  getQuestionRevisions,
+  getQuestionRevisionDiff,
+  rollbackQuestionToRevision
+} from '../controllers/questionRevisionController';
+import { getQuestionBank, addQuestionsToSet, removeQuestionFromSet } from '../controllers/questionBankController';
+import { protect, admin, optionalAuth } from '../middleware/authMiddleware';
 
 const router = express.Router();
 
@@ -26,7 +33,7 @@ router.use((req, res, next) => {
 });
 
 // Public routes
-router.get('/', getAllQuestionSets);
+router.get('/', optionalAuth, getAllQuestionSets);
 router.get('/featured', getFeaturedQuestionSets);
 
 // Admin routes
@@ -35,19 +42,35 @@ router.post('/upload', protect, admin, uploadQuestionSets);
 // File upload route
 router.post('/upload/file', protect, admin, upload.single('file'), uploadQuestionSetFile);
 
+// Export routes
+router.get('/export', protect, admin, exportAllQuestionSets);
+router.get('/:id/export', protect, admin, exportQuestionSet);
+
+// Shared question bank routes
+router.get('/bank', protect, admin, getQuestionBank);
+router.post('/:id/questions', protect, admin, addQuestionsToSet);
+router.delete('/:id/questions/:questionId', protect, admin, removeQuestionFromSet);
+
+// Question revision routes
+router.get('/:id/revisions', protect, admin, getQuestionRevisions);
+router.get('/:id/revisions/diff', protect, admin, getQuestionRevisionDiff);
+router.post('/:id/revisions/:revisionId/rollback', protect, admin, rollbackQuestionToRevision);
+
 // Protected routes that use ID parameters
-router.post('/:id/progress', protect, saveProgress);
 
 // Featured status update route
 router.put('/:id/featured', protect, admin, updateFeaturedStatus);
 
+// Publish status route
+router.put('/:id/status', protect, admin, updateQuestionSetStatus);
+
 // Admin routes with ID parameters
 router.put('/:id', protect, admin, updateQuestionSet);
 router.delete('/:id', protect, admin, deleteQuestionSet);
 
 // Base routes
 router.post('/', protect, admin, createQuestionSet);
-router.get('/:id', getQuestionSetById);
+router.get('/:id', optionalAuth, getQuestionSetById);
 
 // 添加测试路由，确认POST请求能够正常工作
 router.post('/test', (req, res) => {
@@ -0,0 +1,30 @@
+import express from 'express';
+import {
+  startAttempt,
+  startTagAttempt,
+  getAttempt,
+  getAttemptQuestions,
+  submitAnswer,
+  submitAnswers,
+  completeAttempt,
+  getAttemptHistory,
+  getAttemptDetails
+} from '../controllers/quizAttemptController';
+import { optionalAuth, protect } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// 游客也可以答题，登录用户的答题记录会归属到其账号
+router.use(optionalAuth);
+
+router.post('/', startAttempt);
+router.post('/tags', startTagAttempt);
+router.get('/history', protect, getAttemptHistory);
+router.get('/:id', getAttempt);
+router.get('/:id/details', getAttemptDetails);
+router.get('/:id/questions', getAttemptQuestions);
+router.post('/:id/answers', submitAnswer);
+router.post('/:id/answers/bulk', submitAnswers);
+router.post('/:id/complete', completeAttempt);
+
+export default router;
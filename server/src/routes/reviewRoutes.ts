@@ -0,0 +1,13 @@
+import express from 'express';
+import { getDueReviews, submitReviewAnswer } from '../controllers/reviewController';
+import { protect } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// 复习计划只对登录用户开放
+router.use(protect);
+
+router.get('/due', getDueReviews);
+router.post('/:questionId/answer', submitReviewAnswer);
+
+export default router;
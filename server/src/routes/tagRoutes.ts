@@ -0,0 +1,10 @@
+import express from 'express';
+import { getTags } from '../controllers/tagController';
+import { optionalAuth } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// 公共路由
+router.get('/', optionalAuth, getTags);
+
+export default router;
@@ -0,0 +1,12 @@
+import express from 'express';
+import { getUserProgress, updateUserProgress } from '../controllers/userProgressController';
+import { protect } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+router.use(protect);
+
+router.get('/', getUserProgress);
+router.post('/', updateUserProgress);
+
+export default router;
@@ -0,0 +1,20 @@
+import express from 'express';
+import {
+  getWrongQuestions,
+  getPracticeQuestions,
+  submitPracticeAnswer,
+  removeWrongQuestion
+} from '../controllers/wrongQuestionController';
+import { protect } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// 错题本只对登录用户开放
+router.use(protect);
+
+router.get('/', getWrongQuestions);
+router.get('/practice', getPracticeQuestions);
+router.post('/:questionId/answer', submitPracticeAnswer);
+router.delete('/:questionId', removeWrongQuestion);
+
+export default router;
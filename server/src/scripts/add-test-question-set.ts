@@ -2,6 +2,7 @@ import { sequelize } from '../config/db';
 import QuestionSet from '../models/QuestionSet';
 import Question from '../models/Question';
 import Option from '../models/Option';
+import QuestionSetQuestion from '../models/QuestionSetQuestion';
 import { v4 as uuidv4 } from 'uuid';
 
 async function addTestQuestionSet() {
@@ -30,7 +31,11 @@ async function addTestQuestionSet() {
         questionSetId: questionSet.id,
         text: `测试题目 ${i}`,
         explanation: `这是测试题目 ${i} 的解析`,
-        questionType: 'single',
+        questionType: 'single'
+      });
+      await QuestionSetQuestion.create({
+        questionSetId: questionSet.id,
+        questionId: question.id,
         orderIndex: i - 1
       });
       
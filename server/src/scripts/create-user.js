@@ -33,10 +33,7 @@ async function createTestUser() {
       username: 'testuser',
       email: 'test@example.com',
       password: hashedPassword,
-      isAdmin: true,
-      progress: {},
-      purchases: [],
-      redeemCodes: []
+      isAdmin: true
     });
 
     console.log('测试用户创建成功!');
@@ -39,10 +39,7 @@ async function initDatabase() {
           username: 'testuser',
           email: 'test@example.com',
           password: '$2a$10$TmvyH1AoyDqRmQ4uOtJnJODQe.7VrIk3JO8q2RLmEgpLKd/6NcYyO', // 明文是: Password123
-          isAdmin: false,
-          progress: {},
-          purchases: [],
-          redeemCodes: []
+          isAdmin: false
         });
         log.success('测试用户创建成功！用户名: testuser, 密码: Password123');
       } else {
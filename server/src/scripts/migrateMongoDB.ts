@@ -9,7 +9,7 @@ import dotenv from 'dotenv';
 import { MongoClient } from 'mongodb';
 import { v4 as uuidv4 } from 'uuid';
 import { sequelize } from '../config/db';
-import { User, QuestionSet, Question, Option, Purchase, RedeemCode } from '../models';
+import { User, QuestionSet, Question, Option, Purchase, RedeemCode, UserProgress, QuestionSetQuestion } from '../models';
 
 dotenv.config();
 
@@ -68,10 +68,7 @@ async function migrateData() {
         username: mongoUser.username,
         email: mongoUser.email,
         password: mongoUser.password, // 已经加密的密码
-        isAdmin: mongoUser.isAdmin || false,
-        progress: mongoUser.progress || {},
-        purchases: mongoUser.purchases || [],
-        redeemCodes: mongoUser.redeemCodes || []
+        isAdmin: mongoUser.isAdmin || false
       });
     }
     console.log(`已迁移 ${mongoUsers.length} 个用户`);
@@ -108,7 +105,11 @@ async function migrateData() {
             questionSetId: newId,
             text: mongoQuestion.question || mongoQuestion.text,
             questionType: mongoQuestion.questionType || 'single',
-            explanation: mongoQuestion.explanation || '',
+            explanation: mongoQuestion.explanation || ''
+          });
+          await QuestionSetQuestion.create({
+            questionSetId: newId,
+            questionId: newQuestionId,
             orderIndex: i
           });
           
@@ -140,6 +141,31 @@ async function migrateData() {
     }
     console.log(`已迁移 ${mongoQuestionSets.length} 个题库`);
     
+    // 迁移学习进度（用户文档中的 progress 以旧题库ID为键，需在题库迁移之后进行）
+    console.log('开始迁移学习进度...');
+    let progressCount = 0;
+    
+    for (const mongoUser of mongoUsers) {
+      const userId = idMappings.users[mongoUser._id.toString()];
+      
+      for (const [mongoQuizId, progress] of Object.entries(mongoUser.progress || {})) {
+        const questionSetId = idMappings.questionSets[mongoQuizId];
+        if (!questionSetId) continue;
+        
+        const item = progress as { completedQuestions?: number; totalQuestions?: number; correctAnswers?: number; lastAccessed?: string };
+        await UserProgress.create({
+          userId,
+          questionSetId,
+          completedQuestions: item.completedQuestions || 0,
+          totalQuestions: item.totalQuestions || 0,
+          correctAnswers: item.correctAnswers || 0,
+          lastAccessed: item.lastAccessed ? new Date(item.lastAccessed) : new Date()
+        });
+        progressCount++;
+      }
+    }
+    console.log(`已迁移 ${progressCount} 条学习进度`);
+    
     // 3. 迁移购买记录
     console.log('开始迁移购买记录...');
     const mongoPurchases = await db.collection('purchases').find({}).toArray();
@@ -0,0 +1,107 @@
+/**
+ * 本地 Stripe webhook 测试工具
+ *
+ * 用 STRIPE_WEBHOOK_SECRET 给示例事件签名后发送到本地服务，不需要连接 Stripe（服务端需配置 PAYMENT_PROVIDER=stripe）。
+ * 先在页面上发起一次购买（生成 pending 记录），再用它的 PaymentIntent ID 发送事件：
+ *
+ *   npm run test:webhook -- succeeded pi_xxx 29.9
+ *   npm run test:webhook -- failed pi_xxx
+ *   npm run test:webhook -- refunded pi_xxx
+ *
+ * 加上 --bad-signature 可以检查签名错误时返回 400
+ */
+import http from 'http';
+import dotenv from 'dotenv';
+import stripe from '../services/stripe';
+
+dotenv.config();
+
+const [kind, paymentIntentId, amountArg] = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+const badSignature = process.argv.includes('--bad-signature');
+
+// 各类事件的示例数据，只包含服务端用到的字段
+const buildFixtureEvent = () => {
+  const amount = Math.round(Number(amountArg || 0) * 100);
+  const paymentIntent = {
+    id: paymentIntentId,
+    object: 'payment_intent',
+    amount,
+    amount_received: kind === 'succeeded' ? amount : 0,
+    currency: 'cny',
+    status: kind === 'succeeded' ? 'succeeded' : 'requires_payment_method'
+  };
+
+  const fixtures: Record<string, { type: string; object: Record<string, unknown> }> = {
+    succeeded: { type: 'payment_intent.succeeded', object: paymentIntent },
+    failed: { type: 'payment_intent.payment_failed', object: paymentIntent },
+    canceled: { type: 'payment_intent.canceled', object: { ...paymentIntent, status: 'canceled' } },
+    refunded: {
+      type: 'charge.refunded',
+      object: {
+        id: `ch_test_${Date.now()}`,
+        object: 'charge',
+        payment_intent: paymentIntentId,
+        amount,
+        amount_refunded: amount,
+        refunded: true
+      }
+    }
+  };
+
+  const fixture = fixtures[kind];
+  if (!fixture) return null;
+
+  return {
+    id: `evt_test_${Date.now()}`,
+    object: 'event',
+    type: fixture.type,
+    created: Math.floor(Date.now() / 1000),
+    data: { object: fixture.object }
+  };
+};
+
+const sendWebhook = () => {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  const event = paymentIntentId ? buildFixtureEvent() : null;
+
+  if (!secret || !event) {
+    console.error('用法: npm run test:webhook -- <succeeded|failed|canceled|refunded> <PaymentIntent ID> [金额] [--bad-signature]');
+    console.error('需要在 .env 中配置 STRIPE_WEBHOOK_SECRET');
+    process.exit(1);
+  }
+
+  const payload = JSON.stringify(event);
+  const signature = stripe.webhooks.generateTestHeaderString({
+    payload,
+    secret: badSignature ? `${secret}_invalid` : secret
+  });
+
+  const req = http.request({
+    hostname: 'localhost',
+    port: process.env.PORT || 5000,
+    path: '/api/purchases/webhook',
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(payload),
+      'Stripe-Signature': signature
+    }
+  }, res => {
+    let body = '';
+    res.on('data', chunk => { body += chunk; });
+    res.on('end', () => {
+      console.log(`${event.type} → ${res.statusCode}`);
+      console.log(body);
+    });
+  });
+
+  req.on('error', error => {
+    console.error('请求失败，请确认服务已启动:', error.message);
+    process.exit(1);
+  });
+
+  req.write(payload);
+  req.end();
+};
+
+sendWebhook();
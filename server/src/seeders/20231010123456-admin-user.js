@@ -25,9 +25,6 @@ module.exports = {
       email: 'admin@example.com',
       password: hashedPassword,
       isAdmin: true,
-      progress: JSON.stringify({}),
-      purchases: JSON.stringify([]),
-      redeemCodes: JSON.stringify([]),
       createdAt: new Date(),
       updatedAt: new Date()
     }]);
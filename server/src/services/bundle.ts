@@ -0,0 +1,144 @@
+/**
+ * 题库套餐
+ *
+ * 套餐包含多个付费题库，有自己的价格和有效期。购买套餐是一笔支付（BundlePurchase），
+ * 支付成功后在同一个事务中为每个题库生成一条购买记录，之后的访问判断与单独购买相同，见 services/purchaseFulfillment。
+ * 学员只能看到上架的套餐和其中已发布的题库
+ */
+import { Op, Transaction } from 'sequelize';
+import Bundle from '../models/Bundle';
+import BundleQuestionSet from '../models/BundleQuestionSet';
+import QuestionSet from '../models/QuestionSet';
+import { isQuestionSetPublished } from './questionSetAccess';
+
+export const MIN_BUNDLE_QUESTION_SETS = 2;
+export const MAX_BUNDLE_QUESTION_SETS = 20;
+
+export interface BundleQuestionSetSummary {
+  id: string;
+  title: string;
+  icon: string;
+  price: number;
+}
+
+export interface BundleSummary {
+  id: string;
+  title: string;
+  description: string;
+  price: number;
+  accessDays: number | null;
+  isActive: boolean;
+  sortOrder: number;
+  questionSets: BundleQuestionSetSummary[];
+  // 套餐中的题库单独购买的价格合计（按各题库的起价）
+  originalPrice: number;
+}
+
+type BundleWithLinks = Bundle & { questionSetLinks?: (BundleQuestionSet & { questionSet?: QuestionSet })[] };
+
+const toBundleSummary = (bundle: BundleWithLinks, includeUnpublished: boolean): BundleSummary => {
+  const questionSets = (bundle.questionSetLinks || [])
+    .map(link => link.questionSet)
+    .filter((questionSet): questionSet is QuestionSet =>
+      !!questionSet && (includeUnpublished || isQuestionSetPublished(questionSet)));
+
+  return {
+    id: bundle.id,
+    title: bundle.title,
+    description: bundle.description,
+    price: Number(bundle.price),
+    accessDays: bundle.accessDays,
+    isActive: bundle.isActive,
+    sortOrder: bundle.sortOrder,
+    questionSets: questionSets.map(questionSet => ({
+      id: questionSet.id,
+      title: questionSet.title,
+      icon: questionSet.icon,
+      price: Number(questionSet.price) || 0
+    })),
+    originalPrice: Math.round(questionSets.reduce((sum, questionSet) => sum + (Number(questionSet.price) || 0), 0) * 100) / 100
+  };
+};
+
+const bundleInclude = [{
+  model: BundleQuestionSet,
+  as: 'questionSetLinks',
+  include: [{
+    model: QuestionSet,
+    as: 'questionSet',
+    attributes: ['id', 'title', 'icon', 'price', 'status', 'publishAt']
+  }]
+}];
+
+/**
+ * 加载套餐及其包含的题库（按套餐中的顺序）
+ *
+ * @param options.includeInactive 包含下架的套餐和未发布的题库，供管理员使用
+ * @param options.questionSetId 只返回包含该题库的套餐
+ */
+export const loadBundles = async (options: { includeInactive?: boolean; questionSetId?: string } = {}) => {
+  const { includeInactive = false, questionSetId } = options;
+
+  const bundles = await Bundle.findAll({
+    where: includeInactive ? {} : { isActive: true },
+    include: bundleInclude,
+    order: [
+      ['sortOrder', 'ASC'],
+      ['createdAt', 'DESC'],
+      [{ model: BundleQuestionSet, as: 'questionSetLinks' }, 'orderIndex', 'ASC']
+    ]
+  }) as BundleWithLinks[];
+
+  return bundles
+    .map(bundle => toBundleSummary(bundle, includeInactive))
+    // 学员看不到没有已发布题库的套餐
+    .filter(bundle => includeInactive || bundle.questionSets.length > 0)
+    .filter(bundle => !questionSetId || bundle.questionSets.some(questionSet => questionSet.id === questionSetId));
+};
+
+/**
+ * 加载单个套餐，不存在时返回 null
+ */
+export const loadBundle = async (id: string, includeInactive = false) => {
+  const bundle = await Bundle.findByPk(id, {
+    include: bundleInclude,
+    order: [[{ model: BundleQuestionSet, as: 'questionSetLinks' }, 'orderIndex', 'ASC']]
+  }) as BundleWithLinks | null;
+
+  if (!bundle || (!includeInactive && !bundle.isActive)) return null;
+  return toBundleSummary(bundle, includeInactive);
+};
+
+/**
+ * 检查套餐中的题库：数量在范围内、不重复，且都是已存在的付费题库；返回错误信息
+ */
+export const findBundleQuestionSetError = async (questionSetIds: string[]) => {
+  if (questionSetIds.length < MIN_BUNDLE_QUESTION_SETS || questionSetIds.length > MAX_BUNDLE_QUESTION_SETS) {
+    return `套餐需要包含 ${MIN_BUNDLE_QUESTION_SETS} 到 ${MAX_BUNDLE_QUESTION_SETS} 个题库`;
+  }
+  if (new Set(questionSetIds).size !== questionSetIds.length) {
+    return '套餐中的题库不能重复';
+  }
+
+  const questionSets = await QuestionSet.findAll({
+    where: { id: { [Op.in]: questionSetIds } },
+    attributes: ['id', 'title', 'isPaid']
+  });
+  if (questionSets.length !== questionSetIds.length) {
+    return '套餐中有题库不存在';
+  }
+
+  const freeSet = questionSets.find(questionSet => !questionSet.isPaid);
+  return freeSet ? `免费题库“${freeSet.title}”不需要加入套餐` : null;
+};
+
+/**
+ * 替换套餐中的题库，按数组顺序保存
+ */
+export const setBundleQuestionSets = async (bundleId: string, questionSetIds: string[], transaction: Transaction) => {
+  await BundleQuestionSet.destroy({ where: { bundleId }, transaction });
+  await BundleQuestionSet.bulkCreate(
+    questionSetIds.map((questionSetId, orderIndex) => ({ bundleId, questionSetId, orderIndex })),
+    { transaction }
+  );
+};
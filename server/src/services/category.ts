@@ -0,0 +1,324 @@
+/**
+ * 题库分类
+ *
+ * 分类是一棵树，题库通过 categoryId 归属一个分类，首页精选分类保存分类ID。
+ * 题库表中的 category / featuredCategory 冗余保存分类路径（如 "网络 > CCNA"），
+ * 分类改名或移动后由 refreshQuestionSetCategoryPaths 同步
+ */
+import { Op, QueryTypes, Transaction } from 'sequelize';
+import { sequelize } from '../config/db';
+import Category, { CategoryAttributes } from '../models/Category';
+import QuestionSet from '../models/QuestionSet';
+import HomepageSettings from '../models/HomepageSettings';
+import { PUBLISHED_QUESTION_SET_SQL } from './questionSetAccess';
+
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+
+export interface CategorySummary {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  icon: string | null;
+  sortOrder: number;
+  path: string;
+}
+
+export interface CategoryNode extends CategorySummary {
+  // 分类及其子分类中的题库数
+  questionSetCount: number;
+  children: CategoryNode[];
+}
+
+// 请求中提交的分类，id 为空表示清除分类
+export interface CategoryInput {
+  id: string | null;
+  path: string;
+}
+
+// 按显示顺序排列的全部分类
+export type CategoryIndex = Map<string, CategoryAttributes>;
+
+/**
+ * 加载全部分类，按 sortOrder、名称排序
+ */
+export const loadCategoryIndex = async (transaction?: Transaction): Promise<CategoryIndex> => {
+  const categories = await Category.findAll({
+    order: [['sortOrder', 'ASC'], ['name', 'ASC']],
+    transaction
+  });
+
+  return new Map(categories.map(category => [category.id, category.get({ plain: true }) as CategoryAttributes]));
+};
+
+/**
+ * 从顶级分类到该分类的路径上的所有分类
+ */
+export const getCategoryAncestors = (categoryId: string, index: CategoryIndex): CategoryAttributes[] => {
+  const ancestors: CategoryAttributes[] = [];
+  const seen = new Set<string>();
+  let current = index.get(categoryId);
+
+  while (current && !seen.has(current.id)) {
+    ancestors.unshift(current);
+    seen.add(current.id);
+    current = current.parentId ? index.get(current.parentId) : undefined;
+  }
+
+  return ancestors;
+};
+
+export const getCategoryPath = (categoryId: string, index: CategoryIndex) =>
+  getCategoryAncestors(categoryId, index).map(category => category.name).join(CATEGORY_PATH_SEPARATOR);
+
+/**
+ * 分类及其所有子孙分类的ID
+ */
+export const getDescendantIds = (categoryId: string, index: CategoryIndex): string[] => {
+  const ids = [categoryId];
+
+  for (let i = 0; i < ids.length; i++) {
+    index.forEach(category => {
+      if (category.parentId === ids[i]) ids.push(category.id);
+    });
+  }
+
+  return ids;
+};
+
+export const toCategorySummary = (category: CategoryAttributes, index: CategoryIndex): CategorySummary => ({
+  id: category.id,
+  name: category.name,
+  slug: category.slug,
+  parentId: category.parentId || null,
+  icon: category.icon || null,
+  sortOrder: category.sortOrder,
+  path: getCategoryPath(category.id, index)
+});
+
+/**
+ * 构建分类树，counts 为每个分类直接包含的题库数，节点上的数量会累加子分类
+ */
+export const buildCategoryTree = (index: CategoryIndex, counts: Map<string, number>): CategoryNode[] => {
+  const nodes = new Map<string, CategoryNode>();
+  index.forEach(category => {
+    nodes.set(category.id, {
+      ...toCategorySummary(category, index),
+      questionSetCount: counts.get(category.id) || 0,
+      children: []
+    });
+  });
+
+  const roots: CategoryNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const sumCounts = (node: CategoryNode): number => {
+    node.questionSetCount += node.children.reduce((sum, child) => sum + sumCounts(child), 0);
+    return node.questionSetCount;
+  };
+  roots.forEach(sumCounts);
+
+  return roots;
+};
+
+/**
+ * 每个分类直接包含的题库数，默认只统计已发布的题库
+ */
+export const countQuestionSetsByCategory = async (includeUnpublished = false): Promise<Map<string, number>> => {
+  const rows = await sequelize.query<{ categoryId: string; total: number }>(`
+    SELECT qs.categoryId, COUNT(*) AS total
+    FROM question_sets qs
+    WHERE qs.categoryId IS NOT NULL${includeUnpublished ? '' : ` AND ${PUBLISHED_QUESTION_SET_SQL}`}
+    GROUP BY qs.categoryId
+  `, { type: QueryTypes.SELECT });
+
+  return new Map(rows.map(row => [row.categoryId, Number(row.total)]));
+};
+
+/**
+ * 由名称生成 slug，保留中文等文字，其他字符替换为连字符
+ */
+export const slugify = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'category';
+
+/**
+ * 生成未被其他分类使用的 slug，重复时追加序号
+ */
+export const generateUniqueSlug = async (source: string, transaction?: Transaction, excludeId?: string) => {
+  const base = slugify(source);
+  // base 只包含文字、数字和连字符，不需要转义 LIKE 通配符
+  const existing = await Category.findAll({
+    where: { slug: { [Op.like]: `${base}%` } },
+    attributes: ['id', 'slug'],
+    transaction
+  });
+  const taken = new Set(existing.filter(category => category.id !== excludeId).map(category => category.slug));
+
+  if (!taken.has(base)) return base;
+
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) suffix++;
+  return `${base}-${suffix}`;
+};
+
+export const findCategoryByReference = (reference: string, transaction?: Transaction) =>
+  Category.findOne({
+    where: { [Op.or]: [{ id: reference }, { slug: reference }] },
+    transaction
+  });
+
+export const splitCategoryPath = (path: string) =>
+  path.split('>').map(name => name.trim()).filter(Boolean);
+
+/**
+ * 按路径（如 "网络 > CCNA"）查找分类，create 为 true 时逐级创建不存在的分类
+ */
+export const resolveCategoryPath = async (
+  path: string,
+  options: { create?: boolean; transaction?: Transaction } = {}
+): Promise<Category | null> => {
+  const { create = false, transaction } = options;
+  let parent: Category | null = null;
+
+  for (const name of splitCategoryPath(path)) {
+    const parentId: string | null = parent ? parent.id : null;
+    let category: Category | null = await Category.findOne({ where: { name, parentId }, transaction });
+
+    if (!category) {
+      if (!create) return null;
+      category = await Category.create({
+        name,
+        slug: await generateUniqueSlug(name, transaction),
+        parentId
+      }, { transaction });
+    }
+
+    parent = category;
+  }
+
+  return parent;
+};
+
+/**
+ * 解析请求中提交的分类，可以是分类ID、slug 或分类路径（兼容按名称提交分类的旧客户端）
+ *
+ * 未提交时 value 为 undefined；空值表示清除分类；分类不存在时返回错误信息，不会自动创建
+ */
+export const readCategoryReference = async (
+  reference: unknown,
+  transaction?: Transaction
+): Promise<{ value?: CategoryInput; error?: string }> => {
+  if (reference === undefined) return {};
+  if (reference === null || reference === '') return { value: { id: null, path: '' } };
+  if (typeof reference !== 'string') return { error: '分类格式不正确' };
+
+  const category = await findCategoryByReference(reference, transaction)
+    || await resolveCategoryPath(reference, { transaction });
+  if (!category) {
+    return { error: `分类 "${reference}" 不存在，请先在分类管理中创建` };
+  }
+
+  const index = await loadCategoryIndex(transaction);
+  return { value: { id: category.id, path: getCategoryPath(category.id, index) } };
+};
+
+/**
+ * 分类改名或移动后，更新这些分类下题库冗余保存的分类路径
+ */
+export const refreshQuestionSetCategoryPaths = async (categoryIds: string[], transaction?: Transaction) => {
+  const index = await loadCategoryIndex(transaction);
+
+  for (const categoryId of categoryIds) {
+    const path = getCategoryPath(categoryId, index);
+    await QuestionSet.update({ category: path }, { where: { categoryId }, transaction });
+    await QuestionSet.update({ featuredCategory: path }, { where: { featuredCategoryId: categoryId }, transaction });
+  }
+};
+
+/**
+ * 首页精选分类，按保存的顺序返回，已删除的分类跳过
+ */
+export const loadFeaturedCategories = async (categoryIds: string[]): Promise<CategorySummary[]> => {
+  const index = await loadCategoryIndex();
+
+  return categoryIds
+    .map(id => index.get(id))
+    .filter((category): category is CategoryAttributes => !!category)
+    .map(category => toCategorySummary(category, index));
+};
+
+/**
+ * 早期版本的题库分类、精选分类和首页精选分类都是自由填写的文字，
+ * 启动同步时按名称（"父分类 > 子分类" 表示层级）创建对应的分类并写入分类ID
+ */
+export const migrateCategoryStrings = async () => {
+  const questionSets = await QuestionSet.findAll({
+    where: {
+      [Op.or]: [
+        { categoryId: null, category: { [Op.ne]: '' } },
+        { featuredCategoryId: null, featuredCategory: { [Op.ne]: '' } }
+      ]
+    },
+    attributes: ['id', 'category', 'categoryId', 'featuredCategory', 'featuredCategoryId']
+  });
+
+  const settings = await HomepageSettings.findByPk(1);
+  const featuredCategories: string[] = settings ? settings.featured_categories || [] : [];
+  const index = await loadCategoryIndex();
+  const legacyFeatured = featuredCategories.some(value => !index.has(value));
+
+  if (questionSets.length === 0 && !legacyFeatured) return;
+
+  console.log('把题库分类迁移到分类表...');
+
+  await sequelize.transaction(async transaction => {
+    const touched = new Set<string>();
+
+    for (const questionSet of questionSets) {
+      const updates: { categoryId?: string; featuredCategoryId?: string } = {};
+
+      if (!questionSet.categoryId && questionSet.category) {
+        const category = await resolveCategoryPath(questionSet.category, { create: true, transaction });
+        if (category) updates.categoryId = category.id;
+      }
+      if (!questionSet.featuredCategoryId && questionSet.featuredCategory) {
+        const category = await resolveCategoryPath(questionSet.featuredCategory, { create: true, transaction });
+        if (category) updates.featuredCategoryId = category.id;
+      }
+
+      if (Object.keys(updates).length > 0) {
+        // 使用批量更新，避免触发付费题库的价格校验
+        await QuestionSet.update(updates, { where: { id: questionSet.id }, transaction });
+        Object.values(updates).forEach(id => touched.add(id as string));
+      }
+    }
+
+    if (settings && legacyFeatured) {
+      const ids: string[] = [];
+      for (const value of featuredCategories) {
+        const category = index.has(value)
+          ? index.get(value)
+          : await resolveCategoryPath(value, { create: true, transaction });
+        if (category && !ids.includes(category.id)) ids.push(category.id);
+      }
+      await settings.update({ featured_categories: ids }, { transaction });
+    }
+
+    // 统一路径格式，如 "网络>CCNA" 改为 "网络 > CCNA"
+    await refreshQuestionSetCategoryPaths([...touched], transaction);
+  });
+
+  console.log('题库分类迁移完成');
+};
@@ -0,0 +1,68 @@
+/**
+ * CSV 解析
+ *
+ * 按 RFC 4180 处理逗号分隔、双引号转义（""）以及引号内的换行，
+ * 兼容 Excel 另存为"CSV UTF-8"时带上的 BOM
+ */
+
+const BOM = 0xfeff;
+
+/**
+ * 把 CSV 文本解析为二维数组，空行也会保留，保证行号和表格中看到的一致
+ */
+export const parseCsv = (content: string): string[][] => {
+  const text = content.charCodeAt(0) === BOM ? content.slice(1) : content;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else if (ch === '\r' && text[i + 1] === '\n') {
+        // 单元格内的换行统一为 \n
+        field += '\n';
+        i++;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV格式错误：存在未闭合的引号');
+  }
+
+  // 文件末尾没有换行时补上最后一行
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
@@ -0,0 +1,211 @@
+/**
+ * 旧版用户 JSON 数据迁移
+ *
+ * 早期版本把学习进度、购买记录和兑换码以 JSON 形式存在 users 表里，
+ * 与 purchases / redeem_codes 表中的数据相互重复且容易不一致。
+ * 启动同步时把这些 JSON 数据写入对应的表，然后删除 users 表中的旧列。
+ */
+import { QueryTypes } from 'sequelize';
+import { sequelize } from '../config/db';
+import Purchase, { PurchaseAttributes } from '../models/Purchase';
+import RedeemCode from '../models/RedeemCode';
+import UserProgress from '../models/UserProgress';
+
+const LEGACY_COLUMNS = ['progress', 'purchases', 'redeemCodes'];
+
+// 迁移在同步 Purchase 之前运行，已有的 purchases 表还没有后来新增的列（退款、价格档位、套餐等），只读写最初就有的列
+const LEGACY_PURCHASE_FIELDS: (keyof PurchaseAttributes)[] = [
+  'id', 'userId', 'questionSetId', 'purchaseDate', 'expiryDate', 'transactionId', 'amount', 'paymentMethod', 'status'
+];
+
+interface LegacyProgress {
+  completedQuestions?: number;
+  totalQuestions?: number;
+  correctAnswers?: number;
+  lastAccessed?: string;
+}
+
+interface LegacyPurchase {
+  quizId?: string;
+  questionSetId?: string;
+  purchaseDate?: string;
+  expiryDate?: string;
+  transactionId?: string;
+  amount?: number;
+}
+
+interface LegacyRedeemCode {
+  code?: string;
+  questionSetId?: string;
+  validityDays?: number;
+  createdAt?: string;
+  usedBy?: string;
+  usedAt?: string;
+}
+
+interface LegacyUserRow {
+  id: string;
+  progress?: unknown;
+  purchases?: unknown;
+  redeemCodes?: unknown;
+}
+
+// MySQL 返回已解析的对象，MariaDB 等把 JSON 存成字符串
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+/**
+ * 迁移 users 表中的旧 JSON 列，没有旧列时直接返回
+ */
+export const migrateLegacyUserData = async () => {
+  const queryInterface = sequelize.getQueryInterface();
+
+  let columns: Record<string, unknown>;
+  try {
+    columns = await queryInterface.describeTable('users');
+  } catch {
+    // 新数据库还没有 users 表，无需迁移
+    return;
+  }
+
+  const legacyColumns = LEGACY_COLUMNS.filter(column => columns[column]);
+  if (legacyColumns.length === 0) return;
+
+  console.log(`迁移 users 表中的旧数据列: ${legacyColumns.join(', ')}`);
+
+  await UserProgress.sync();
+  await Purchase.sync();
+  await RedeemCode.sync();
+
+  const rows = await sequelize.query<LegacyUserRow>(
+    `SELECT id, ${legacyColumns.map(column => `\`${column}\``).join(', ')} FROM users`,
+    { type: QueryTypes.SELECT }
+  );
+  const questionSetRows = await sequelize.query<{ id: string }>(
+    'SELECT id FROM question_sets',
+    { type: QueryTypes.SELECT }
+  );
+  const questionSetIds = new Set(questionSetRows.map(row => row.id));
+
+  const transaction = await sequelize.transaction();
+  try {
+    for (const row of rows) {
+      const progress = parseJson<Record<string, LegacyProgress>>(row.progress, {});
+      for (const [questionSetId, item] of Object.entries(progress)) {
+        if (!questionSetIds.has(questionSetId)) continue;
+
+        const existing = await UserProgress.findOne({
+          where: { userId: row.id, questionSetId },
+          transaction
+        });
+        if (existing) continue;
+
+        await UserProgress.create({
+          userId: row.id,
+          questionSetId,
+          completedQuestions: item.completedQuestions || 0,
+          totalQuestions: item.totalQuestions || 0,
+          correctAnswers: item.correctAnswers || 0,
+          lastAccessed: item.lastAccessed ? new Date(item.lastAccessed) : new Date()
+        }, { transaction });
+      }
+
+      const purchases = parseJson<LegacyPurchase[]>(row.purchases, []);
+      for (const item of purchases) {
+        const questionSetId = item.questionSetId || item.quizId;
+        if (!questionSetId || !questionSetIds.has(questionSetId)) continue;
+
+        const purchaseDate = item.purchaseDate ? new Date(item.purchaseDate) : new Date();
+        const transactionId = item.transactionId || `legacy_${row.id}_${questionSetId}_${purchaseDate.getTime()}`;
+        const existing = await Purchase.findOne({ where: { transactionId }, attributes: ['id'], transaction });
+        if (existing) continue;
+
+        await Purchase.create({
+          userId: row.id,
+          questionSetId,
+          purchaseDate,
+          // 旧数据没有有效期的按标准的6个月计算
+          expiryDate: item.expiryDate ? new Date(item.expiryDate) : addMonths(purchaseDate, 6),
+          transactionId,
+          amount: Number(item.amount) || 0,
+          paymentMethod: 'legacy',
+          status: 'completed'
+        }, { fields: LEGACY_PURCHASE_FIELDS, transaction });
+      }
+
+      const redeemCodes = parseJson<LegacyRedeemCode[]>(row.redeemCodes, []);
+      for (const item of redeemCodes) {
+        if (!item.code || !item.questionSetId || !questionSetIds.has(item.questionSetId)) continue;
+
+        const validityDays = Math.max(1, item.validityDays || 1);
+        const usedAt = item.usedAt ? new Date(item.usedAt) : undefined;
+        const existing = await RedeemCode.findOne({ where: { code: item.code }, transaction });
+
+        if (!existing) {
+          const createdAt = item.createdAt ? new Date(item.createdAt) : new Date();
+          await RedeemCode.create({
+            code: item.code,
+            questionSetId: item.questionSetId,
+            validityDays,
+            expiryDate: addDays(createdAt, validityDays),
+            isUsed: !!item.usedBy,
+            usedBy: item.usedBy,
+            usedAt,
+            createdBy: row.id
+          }, { transaction });
+        } else if (!existing.isUsed && item.usedBy) {
+          await existing.update({ isUsed: true, usedBy: item.usedBy, usedAt }, { transaction });
+        }
+
+        // 已使用的兑换码需要有对应的购买记录，访问权限统一从 purchases 表判断
+        if (item.usedBy) {
+          const transactionId = `redeem_${item.code}`;
+          const purchase = await Purchase.findOne({ where: { transactionId }, attributes: ['id'], transaction });
+          if (!purchase) {
+            const redeemedAt = usedAt || new Date();
+            await Purchase.create({
+              userId: item.usedBy,
+              questionSetId: item.questionSetId,
+              purchaseDate: redeemedAt,
+              expiryDate: addDays(redeemedAt, validityDays),
+              transactionId,
+              amount: 0,
+              paymentMethod: 'redeem_code',
+              status: 'completed'
+            }, { fields: LEGACY_PURCHASE_FIELDS, transaction });
+          }
+        }
+      }
+    }
+
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+
+  for (const column of legacyColumns) {
+    await queryInterface.removeColumn('users', column);
+  }
+
+  console.log(`已迁移 ${rows.length} 个用户的旧数据`);
+};
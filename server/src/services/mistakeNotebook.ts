@@ -0,0 +1,62 @@
+/**
+ * 错题本
+ *
+ * 登录用户答错的题目自动加入错题本，之后连续答对 MASTERY_STREAK 次即移出
+ */
+import WrongQuestion from '../models/WrongQuestion';
+import { GradingResult } from './quizGrading';
+
+// 移出错题本需要的连续答对次数，可通过环境变量调整
+export const MASTERY_STREAK = parseInt(process.env.WRONG_QUESTION_MASTERY_STREAK || '', 10) || 3;
+
+export interface NotebookUpdate {
+  inNotebook: boolean;
+  correctStreak: number;
+  removed: boolean;
+}
+
+/**
+ * 根据一次作答结果更新错题本
+ */
+export const trackAnswer = async (
+  userId: string,
+  questionSetId: string,
+  result: Pick<GradingResult, 'questionId' | 'isCorrect' | 'selectedOptions'>
+): Promise<NotebookUpdate> => {
+  const entry = await WrongQuestion.findOne({
+    where: { userId, questionId: result.questionId }
+  });
+
+  if (!result.isCorrect) {
+    if (entry) {
+      await entry.update({
+        selectedOptions: result.selectedOptions,
+        wrongCount: entry.wrongCount + 1,
+        correctStreak: 0,
+        lastWrongAt: new Date()
+      });
+    } else {
+      await WrongQuestion.create({
+        userId,
+        questionId: result.questionId,
+        questionSetId,
+        selectedOptions: result.selectedOptions
+      });
+    }
+
+    return { inNotebook: true, correctStreak: 0, removed: false };
+  }
+
+  if (!entry) {
+    return { inNotebook: false, correctStreak: 0, removed: false };
+  }
+
+  const correctStreak = entry.correctStreak + 1;
+  if (correctStreak >= MASTERY_STREAK) {
+    await entry.destroy();
+    return { inNotebook: false, correctStreak, removed: true };
+  }
+
+  await entry.update({ correctStreak });
+  return { inNotebook: true, correctStreak, removed: false };
+};
@@ -0,0 +1,106 @@
+/**
+ * 本地模拟支付
+ *
+ * 不访问网络，支付意向保存在内存中（服务重启后清空）。模拟的支付结果同样以签名的 webhook 事件送达，
+ * 与真实支付平台走同一套处理流程：签名为 MOCK_PAYMENT_SECRET 对原始请求体的 HMAC-SHA256，放在 X-Mock-Signature 请求头中。
+ * 只用于开发和测试，生产环境必须配置真实的支付渠道
+ */
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { PaymentProvider, PaymentEvent } from './paymentProvider';
+
+export type MockPaymentOutcome = 'succeeded' | 'failed';
+
+interface MockIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  amountRefunded: number;
+}
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+const intents = new Map<string, MockIntent>();
+
+// 没有内置的默认密钥，否则任何人都可以伪造签名的支付事件
+const getSecret = () => {
+  const secret = process.env.MOCK_PAYMENT_SECRET;
+  if (!secret) throw new Error('未配置 MOCK_PAYMENT_SECRET');
+  return secret;
+};
+
+const sign = (payload: string | Buffer) =>
+  crypto.createHmac('sha256', getSecret()).update(payload).digest('hex');
+
+const findIntent = (transactionId: string) => {
+  const intent = intents.get(transactionId);
+  if (!intent) throw new Error(`模拟支付不存在: ${transactionId}`);
+  return intent;
+};
+
+/**
+ * 生成一个签名的 webhook 请求，内容为事件本身
+ */
+const buildWebhook = (event: PaymentEvent) => {
+  const payload = JSON.stringify(event);
+  return { payload, headers: { [MOCK_SIGNATURE_HEADER]: sign(payload) } };
+};
+
+/**
+ * 模拟用户完成或放弃支付，返回支付平台会推送的 webhook 请求
+ */
+export const simulateMockPayment = (transactionId: string, outcome: MockPaymentOutcome) => {
+  const intent = findIntent(transactionId);
+  if (intent.status !== 'pending') {
+    throw new Error('该支付已处理');
+  }
+
+  intent.status = outcome;
+  return buildWebhook(outcome === 'succeeded'
+    ? { type: 'succeeded', eventId: `mock_evt_${uuidv4()}`, transactionId, amountReceived: intent.amount }
+    : { type: 'failed', eventId: `mock_evt_${uuidv4()}`, transactionId });
+};
+
+export const mockProvider: PaymentProvider = {
+  name: 'mock',
+
+  createIntent: async ({ amount, currency }) => {
+    const id = `mock_pi_${uuidv4()}`;
+    intents.set(id, { id, amount, currency, status: 'pending', amountRefunded: 0 });
+    return { id, clientSecret: `${id}_secret` };
+  },
+
+  verify: async (transactionId) => {
+    const intent = findIntent(transactionId);
+    return {
+      status: intent.status,
+      amountReceived: intent.status === 'succeeded' ? intent.amount : 0
+    };
+  },
+
+  refund: async (transactionId, amount) => {
+    const intent = findIntent(transactionId);
+    const refundable = Math.round((intent.amount - intent.amountRefunded) * 100) / 100;
+    const refundAmount = amount === undefined ? refundable : amount;
+
+    if (intent.status !== 'succeeded' || refundAmount <= 0 || refundAmount > refundable) {
+      throw new Error('退款金额无效');
+    }
+
+    intent.amountRefunded = Math.round((intent.amountRefunded + refundAmount) * 100) / 100;
+    return { id: `mock_re_${uuidv4()}`, amount: refundAmount };
+  },
+
+  parseWebhook: (payload, headers) => {
+    const signature = String(headers[MOCK_SIGNATURE_HEADER] || '');
+    const expected = sign(payload);
+
+    if (signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new Error('模拟支付签名错误');
+    }
+
+    return JSON.parse(payload.toString()) as PaymentEvent;
+  }
+};
@@ -0,0 +1,99 @@
+/**
+ * 支付渠道
+ *
+ * 购买流程只依赖这里的 PaymentProvider 接口，由环境变量 PAYMENT_PROVIDER 选择实现：
+ * - stripe：Stripe（支持银行卡、支付宝、微信支付，取决于 Stripe 后台开通的支付方式）
+ * - mock：本地模拟，不访问网络，用于开发和测试；必须显式配置，且不能在生产环境（NODE_ENV=production）使用
+ * 没有配置时，有 STRIPE_SECRET_KEY 则使用 stripe，否则无法创建支付。
+ *
+ * 金额在接口中一律以元为单位，币种由 PAYMENT_CURRENCY 配置（默认 cny，与页面上的 ¥ 一致），换算成分由各实现负责
+ */
+import dotenv from 'dotenv';
+import { stripeProvider } from './stripe';
+import { mockProvider } from './mockPayment';
+
+dotenv.config();
+
+export type PaymentProviderName = 'stripe' | 'mock';
+
+export interface CreateIntentParams {
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentIntentResult {
+  id: string;
+  clientSecret: string | null;
+}
+
+export interface PaymentVerification {
+  status: 'pending' | 'succeeded' | 'failed';
+  amountReceived: number;
+}
+
+export interface RefundResult {
+  id: string;
+  amount: number;
+}
+
+/**
+ * 从 webhook 解析出的事件，与支付平台的事件类型无关
+ * refunded 事件的 fullyRefunded 表示该笔支付是否已全额退款
+ */
+export type PaymentEvent =
+  | { type: 'succeeded'; eventId: string; transactionId: string; amountReceived: number }
+  | { type: 'failed'; eventId: string; transactionId: string }
+  | { type: 'refunded'; eventId: string; transactionId: string; amountRefunded: number; fullyRefunded: boolean }
+  | { type: 'ignored'; eventId: string; providerType: string };
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  // 创建支付意向，前端用 clientSecret 完成支付
+  createIntent: (params: CreateIntentParams) => Promise<PaymentIntentResult>;
+  // 向支付平台查询支付状态
+  verify: (transactionId: string) => Promise<PaymentVerification>;
+  // 退款，不传金额时全额退款
+  refund: (transactionId: string, amount?: number) => Promise<RefundResult>;
+  // 校验 webhook 签名并解析事件，签名错误时抛出异常；payload 必须是原始请求体
+  parseWebhook: (payload: string | Buffer, headers: Record<string, string | string[] | undefined>) => PaymentEvent;
+}
+
+export const getPaymentProviderName = (): PaymentProviderName => {
+  const configured = (process.env.PAYMENT_PROVIDER || '').trim().toLowerCase();
+  if (configured === 'stripe') return configured;
+  // 模拟支付任何登录用户都可以完成，只能在开发环境显式启用
+  if (configured === 'mock') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('生产环境不能使用模拟支付 PAYMENT_PROVIDER=mock');
+    }
+    return configured;
+  }
+  // 配置错误或缺失时不能退回 mock，否则任何人都可以模拟支付
+  if (configured) throw new Error(`未知的支付渠道 PAYMENT_PROVIDER=${configured}`);
+  if (process.env.STRIPE_SECRET_KEY) return 'stripe';
+  throw new Error('未配置支付渠道，请设置 PAYMENT_PROVIDER 或 STRIPE_SECRET_KEY');
+};
+
+// 是否启用了模拟支付，支付渠道配置错误时视为未启用
+export const isMockPaymentEnabled = () => {
+  try {
+    return getPaymentProviderName() === 'mock';
+  } catch {
+    return false;
+  }
+};
+
+export const getPaymentProvider = (): PaymentProvider =>
+  getPaymentProviderName() === 'stripe' ? stripeProvider : mockProvider;
+
+/**
+ * 购买记录使用的支付渠道（Purchase.paymentMethod），早期的 Stripe 记录为 card；兑换码等没有支付渠道时返回 null
+ */
+export const getPaymentProviderForMethod = (paymentMethod: string): PaymentProvider | null => {
+  if (paymentMethod === 'stripe' || paymentMethod === 'card') return stripeProvider;
+  if (paymentMethod === 'mock') return mockProvider;
+  return null;
+};
+
+export const getPaymentCurrency = () => (process.env.PAYMENT_CURRENCY || 'cny').trim().toLowerCase();
@@ -0,0 +1,110 @@
+/**
+ * 付费题库的价格档位
+ *
+ * 每个档位有自己的有效天数和价格，如 30 天、6 个月、永久；durationDays 为 null 表示永久有效。
+ * 题库没有设置档位时只有一个默认档位：price 价格、6 个月（180 天），与以前的购买方式一致。
+ * 设置了档位的题库，price 同步为最低的档位价格，用于列表中显示起价
+ */
+import { PricingTier } from '../models/QuestionSet';
+
+export const DEFAULT_TIER_ID = 'default';
+export const DEFAULT_ACCESS_DAYS = 180;
+export const MAX_PRICING_TIERS = 10;
+
+// 永久有效的购买记录的到期时间（expiryDate 不能为空）
+export const LIFETIME_EXPIRY_DATE = new Date('9999-12-31T00:00:00.000Z');
+
+/**
+ * 有效期的显示文字：永久、N年、N个月或N天
+ */
+export const formatAccessDuration = (durationDays: number | null) => {
+  if (durationDays === null) return '永久';
+  if (durationDays % 365 === 0) return `${durationDays / 365}年`;
+  if (durationDays >= 60 && durationDays % 30 === 0) return `${durationDays / 30}个月`;
+  return `${durationDays}天`;
+};
+
+/**
+ * 从开始时间计算到期时间，永久有效时为 LIFETIME_EXPIRY_DATE
+ */
+export const calculateExpiryDate = (durationDays: number | null, from = new Date()) => {
+  if (durationDays === null) return new Date(LIFETIME_EXPIRY_DATE);
+  const expiryDate = new Date(from);
+  expiryDate.setDate(expiryDate.getDate() + durationDays);
+  return expiryDate;
+};
+
+/**
+ * 题库可以购买的档位
+ */
+export const getPricingTiers = (questionSet: { price?: number | null; pricingTiers?: PricingTier[] | null }): PricingTier[] => {
+  if (Array.isArray(questionSet.pricingTiers) && questionSet.pricingTiers.length > 0) {
+    return questionSet.pricingTiers;
+  }
+
+  return [{
+    id: DEFAULT_TIER_ID,
+    label: formatAccessDuration(DEFAULT_ACCESS_DAYS),
+    durationDays: DEFAULT_ACCESS_DAYS,
+    price: Number(questionSet.price) || 0
+  }];
+};
+
+/**
+ * 按ID查找档位，不传ID时为第一个档位；找不到时返回 null
+ */
+export const findPricingTier = (
+  questionSet: { price?: number | null; pricingTiers?: PricingTier[] | null },
+  tierId?: string
+): PricingTier | null => {
+  const tiers = getPricingTiers(questionSet);
+  if (!tierId) return tiers[0];
+  return tiers.find(tier => tier.id === tierId) || null;
+};
+
+/**
+ * 读取管理员提交或文件导入的档位
+ *
+ * 每个档位需要价格（大于 0）和有效天数（正整数，null 或 "lifetime" 表示永久），名称留空时按有效期生成；
+ * ID 由有效期生成（如 d30、lifetime），同一题库中有效期不能重复。
+ * 未提交时返回空对象（保持不变），提交 null 或空数组时清除档位，恢复为默认档位
+ */
+export const readPricingTiers = (input: unknown): { value?: PricingTier[] | null; error?: string } => {
+  if (input === undefined) return {};
+  if (input === null || (Array.isArray(input) && input.length === 0)) return { value: null };
+  if (!Array.isArray(input)) return { error: '价格档位格式不正确' };
+  if (input.length > MAX_PRICING_TIERS) return { error: `价格档位不能超过 ${MAX_PRICING_TIERS} 个` };
+
+  const tiers: PricingTier[] = [];
+
+  for (let i = 0; i < input.length; i++) {
+    const raw = input[i] && typeof input[i] === 'object' ? input[i] as Record<string, unknown> : {};
+    const position = `第 ${i + 1} 个价格档位`;
+
+    const rawDuration = raw.durationDays;
+    const durationDays = rawDuration === null || rawDuration === '' || rawDuration === 'lifetime'
+      ? null
+      : Number(rawDuration);
+    if (durationDays !== null && (!Number.isInteger(durationDays) || durationDays < 1)) {
+      return { error: `${position}的有效天数应为正整数，永久有效请留空` };
+    }
+
+    const price = Math.round(Number(raw.price) * 100) / 100;
+    if (!Number.isFinite(price) || price <= 0) {
+      return { error: `${position}的价格应大于 0` };
+    }
+
+    const id = durationDays === null ? 'lifetime' : `d${durationDays}`;
+    if (tiers.some(tier => tier.id === id)) {
+      return { error: `有效期为${formatAccessDuration(durationDays)}的价格档位重复` };
+    }
+
+    const label = typeof raw.label === 'string' && raw.label.trim() !== ''
+      ? raw.label.trim().slice(0, 50)
+      : formatAccessDuration(durationDays);
+
+    tiers.push({ id, label, durationDays, price });
+  }
+
+  return { value: tiers };
+};
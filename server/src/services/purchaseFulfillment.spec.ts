@@ -0,0 +1,297 @@
+import stripe, { stripeProvider } from './stripe';
+import { mockProvider, simulateMockPayment, MOCK_SIGNATURE_HEADER } from './mockPayment';
+import { applyPaymentEvent, refundPurchaseByAdmin, refundBundlePurchaseByAdmin } from './purchaseFulfillment';
+import Purchase from '../models/Purchase';
+import BundlePurchase from '../models/BundlePurchase';
+
+type Row = Record<string, unknown>;
+
+/**
+ * 内存中的模型，只实现支付处理用到的查询（where 条件为字段相等）
+ */
+function mockModel() {
+  const rows: Row[] = [];
+  const matches = (row: Row, where: Row) => Object.entries(where).every(([key, value]) => row[key] === value);
+  const toInstance = (values: Row) => {
+    const row: Row = {
+      ...values,
+      update: async (changes: Row) => Object.assign(row, changes)
+    };
+    return row;
+  };
+
+  return {
+    rows,
+    seed: (values: Row) => {
+      const row = toInstance(values);
+      rows.push(row);
+      return row;
+    },
+    findOne: async ({ where }: { where: Row }) => rows.find(row => matches(row, where)) || null,
+    count: async ({ where }: { where: Row }) => rows.filter(row => matches(row, where)).length,
+    update: async (changes: Row, { where }: { where: Row }) => {
+      const matched = rows.filter(row => matches(row, where));
+      matched.forEach(row => Object.assign(row, changes));
+      return [matched.length];
+    },
+    bulkCreate: async (records: Row[]) => records.map(values => {
+      const row = toInstance(values);
+      rows.push(row);
+      return row;
+    })
+  };
+}
+
+jest.mock('../models/Purchase', () => ({ __esModule: true, default: mockModel() }));
+jest.mock('../models/BundlePurchase', () => ({ __esModule: true, default: mockModel() }));
+jest.mock('../config/db', () => ({
+  sequelize: {
+    transaction: async () => ({ commit: async () => undefined, rollback: async () => undefined, LOCK: { UPDATE: 'UPDATE' } })
+  }
+}));
+
+const purchases = Purchase as unknown as ReturnType<typeof mockModel>;
+const bundlePurchases = BundlePurchase as unknown as ReturnType<typeof mockModel>;
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+const DAY = 24 * 60 * 60 * 1000;
+
+// 按支付平台的格式生成签名的 Stripe 事件并解析，与 webhook 接口的处理相同
+const stripeEvent = (type: string, object: Record<string, unknown>) => {
+  const payload = JSON.stringify({ id: `evt_${Math.random()}`, object: 'event', type, data: { object } });
+  const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+  return stripeProvider.parseWebhook(payload, { 'stripe-signature': signature });
+};
+
+const paymentIntentEvent = (type: string, transactionId: string, amountReceived: number) =>
+  stripeEvent(type, { id: transactionId, object: 'payment_intent', amount_received: Math.round(amountReceived * 100) });
+
+const chargeRefundedEvent = (transactionId: string, amountRefunded: number, refunded: boolean) =>
+  stripeEvent('charge.refunded', {
+    id: `ch_${transactionId}`,
+    object: 'charge',
+    payment_intent: transactionId,
+    amount_refunded: Math.round(amountRefunded * 100),
+    refunded
+  });
+
+const seedPurchase = (values: Row = {}) => purchases.seed({
+  id: 'purchase-1',
+  userId: 'user-1',
+  questionSetId: 'set-1',
+  transactionId: 'pi_1',
+  amount: '29.90',
+  paymentMethod: 'stripe',
+  pricingTierId: 'tier-30',
+  accessDays: 30,
+  status: 'pending',
+  refundedAmount: '0.00',
+  ...values
+});
+
+const seedBundlePurchase = (values: Row = {}) => bundlePurchases.seed({
+  id: 'bundle-purchase-1',
+  userId: 'user-1',
+  bundleId: 'bundle-1',
+  questionSetIds: ['set-1', 'set-2'],
+  transactionId: 'pi_bundle',
+  amount: '99.00',
+  paymentMethod: 'stripe',
+  accessDays: 180,
+  status: 'pending',
+  refundedAmount: '0.00',
+  ...values
+});
+
+beforeAll(() => {
+  process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  process.env.MOCK_PAYMENT_SECRET = 'mock_test_secret';
+});
+
+beforeEach(() => {
+  purchases.rows.length = 0;
+  bundlePurchases.rows.length = 0;
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('applyPaymentEvent 单独购买', () => {
+  it('支付成功：pending 改为 completed，按价格档位计算到期时间', async () => {
+    const purchase = seedPurchase();
+
+    await expect(applyPaymentEvent(paymentIntentEvent('payment_intent.succeeded', 'pi_1', 29.9))).resolves.toBe('completed');
+    expect(purchase.status).toBe('completed');
+    const expiryDate = purchase.expiryDate as Date;
+    const purchaseDate = purchase.purchaseDate as Date;
+    expect(Math.round((expiryDate.getTime() - purchaseDate.getTime()) / DAY)).toBe(30);
+  });
+
+  it('付款被拒绝（payment_failed）不改变状态，之后重试成功仍可完成', async () => {
+    const purchase = seedPurchase();
+
+    await expect(applyPaymentEvent(paymentIntentEvent('payment_intent.payment_failed', 'pi_1', 0))).resolves.toBe('ignored');
+    expect(purchase.status).toBe('pending');
+
+    await expect(applyPaymentEvent(paymentIntentEvent('payment_intent.succeeded', 'pi_1', 29.9))).resolves.toBe('completed');
+  });
+
+  it('支付取消：pending 改为 failed，已失败的记录收到支付成功仍改为 completed', async () => {
+    const purchase = seedPurchase();
+
+    await expect(applyPaymentEvent(paymentIntentEvent('payment_intent.canceled', 'pi_1', 0))).resolves.toBe('failed');
+    expect(purchase.status).toBe('failed');
+
+    await expect(applyPaymentEvent(paymentIntentEvent('payment_intent.succeeded', 'pi_1', 29.9))).resolves.toBe('completed');
+  });
+
+  it('重复的支付成功事件被忽略，不会改变购买时间', async () => {
+    const purchase = seedPurchase();
+    const event = paymentIntentEvent('payment_intent.succeeded', 'pi_1', 29.9);
+
+    await applyPaymentEvent(event);
+    const purchaseDate = purchase.purchaseDate;
+
+    await expect(applyPaymentEvent(event)).resolves.toBe('ignored');
+    expect(purchase.purchaseDate).toBe(purchaseDate);
+  });
+
+  it('实收金额不足时改为 failed', async () => {
+    const purchase = seedPurchase();
+
+    await expect(applyPaymentEvent(paymentIntentEvent('payment_intent.succeeded', 'pi_1', 9.9))).resolves.toBe('failed');
+    expect(purchase.status).toBe('failed');
+  });
+
+  it('完成后收到取消事件不改变状态', async () => {
+    const purchase = seedPurchase({ status: 'completed' });
+
+    await expect(applyPaymentEvent(paymentIntentEvent('payment_intent.canceled', 'pi_1', 0))).resolves.toBe('ignored');
+    expect(purchase.status).toBe('completed');
+  });
+
+  it('部分退款不影响访问权限', async () => {
+    const purchase = seedPurchase({ status: 'completed' });
+
+    await expect(applyPaymentEvent(chargeRefundedEvent('pi_1', 10, false))).resolves.toBe('ignored');
+    expect(purchase.status).toBe('completed');
+  });
+
+  it('全额退款：completed 改为 refunded 并记录退款金额', async () => {
+    const purchase = seedPurchase({ status: 'completed' });
+
+    await expect(applyPaymentEvent(chargeRefundedEvent('pi_1', 29.9, true))).resolves.toBe('refunded');
+    expect(purchase).toMatchObject({ status: 'refunded', refundedAmount: 29.9 });
+    expect(purchase.refundedAt).toBeInstanceOf(Date);
+  });
+
+  it('已由管理员部分退款的记录只同步更大的退款金额', async () => {
+    const purchase = seedPurchase({ status: 'refunded', refundedAmount: '10.00', refundReason: '重复购买' });
+
+    await expect(applyPaymentEvent(chargeRefundedEvent('pi_1', 10, false))).resolves.toBe('ignored');
+    await expect(applyPaymentEvent(chargeRefundedEvent('pi_1', 29.9, true))).resolves.toBe('refunded');
+    expect(purchase).toMatchObject({ refundedAmount: 29.9, refundReason: '重复购买' });
+  });
+
+  it('没有对应购买记录的事件被忽略', async () => {
+    await expect(applyPaymentEvent(paymentIntentEvent('payment_intent.succeeded', 'pi_unknown', 29.9))).resolves.toBe('ignored');
+  });
+});
+
+describe('applyPaymentEvent 套餐', () => {
+  it('支付成功时为每个题库生成金额为 0 的购买记录', async () => {
+    const bundlePurchase = seedBundlePurchase();
+
+    await expect(applyPaymentEvent(paymentIntentEvent('payment_intent.succeeded', 'pi_bundle', 99))).resolves.toBe('completed');
+    expect(bundlePurchase.status).toBe('completed');
+    expect(purchases.rows).toHaveLength(2);
+    expect(purchases.rows.map(row => row.questionSetId)).toEqual(['set-1', 'set-2']);
+    purchases.rows.forEach(row => expect(row).toMatchObject({
+      amount: 0,
+      paymentMethod: 'bundle',
+      bundlePurchaseId: 'bundle-purchase-1',
+      status: 'completed',
+      expiryDate: bundlePurchase.expiryDate
+    }));
+  });
+
+  it('重复的支付成功事件不会再次生成购买记录', async () => {
+    seedBundlePurchase();
+    const event = paymentIntentEvent('payment_intent.succeeded', 'pi_bundle', 99);
+
+    await applyPaymentEvent(event);
+    await expect(applyPaymentEvent(event)).resolves.toBe('ignored');
+    expect(purchases.rows).toHaveLength(2);
+  });
+
+  it('实收金额不足时改为 failed，不生成购买记录', async () => {
+    const bundlePurchase = seedBundlePurchase();
+
+    await expect(applyPaymentEvent(paymentIntentEvent('payment_intent.succeeded', 'pi_bundle', 50))).resolves.toBe('failed');
+    expect(bundlePurchase.status).toBe('failed');
+    expect(purchases.rows).toHaveLength(0);
+  });
+
+  it('全额退款收回套餐中所有题库的访问权限，部分退款不影响', async () => {
+    const bundlePurchase = seedBundlePurchase();
+    await applyPaymentEvent(paymentIntentEvent('payment_intent.succeeded', 'pi_bundle', 99));
+
+    await expect(applyPaymentEvent(chargeRefundedEvent('pi_bundle', 20, false))).resolves.toBe('ignored');
+    expect(purchases.rows.every(row => row.status === 'completed')).toBe(true);
+
+    await expect(applyPaymentEvent(chargeRefundedEvent('pi_bundle', 99, true))).resolves.toBe('refunded');
+    expect(bundlePurchase).toMatchObject({ status: 'refunded', refundedAmount: 99 });
+    expect(purchases.rows.every(row => row.status === 'refunded')).toBe(true);
+  });
+});
+
+describe('模拟支付', () => {
+  it('模拟支付的签名事件与真实支付走同一套处理', async () => {
+    const intent = await mockProvider.createIntent({ amount: 29.9, currency: 'cny' });
+    const purchase = seedPurchase({ transactionId: intent.id, paymentMethod: 'mock' });
+
+    const { payload, headers } = simulateMockPayment(intent.id, 'succeeded');
+    await expect(applyPaymentEvent(mockProvider.parseWebhook(payload, headers))).resolves.toBe('completed');
+    expect(purchase.status).toBe('completed');
+  });
+
+  it('签名错误的模拟支付事件被拒绝', async () => {
+    const intent = await mockProvider.createIntent({ amount: 29.9, currency: 'cny' });
+    const { payload } = simulateMockPayment(intent.id, 'succeeded');
+
+    expect(() => mockProvider.parseWebhook(payload, { [MOCK_SIGNATURE_HEADER]: 'invalid' })).toThrow('模拟支付签名错误');
+  });
+
+  it('管理员退款：通过支付渠道退款并收回访问权限，重复退款被忽略', async () => {
+    const intent = await mockProvider.createIntent({ amount: 29.9, currency: 'cny' });
+    const purchase = seedPurchase({ transactionId: intent.id, paymentMethod: 'mock' });
+    const { payload, headers } = simulateMockPayment(intent.id, 'succeeded');
+    await applyPaymentEvent(mockProvider.parseWebhook(payload, headers));
+    const refund = jest.spyOn(mockProvider, 'refund');
+
+    await expect(refundPurchaseByAdmin(purchase as unknown as Purchase, 29.9, '误购')).resolves.toBe('refunded');
+    expect(refund).toHaveBeenCalledWith(intent.id, undefined);
+    expect(purchase).toMatchObject({ status: 'refunded', refundedAmount: 29.9, refundReason: '误购' });
+
+    await expect(refundPurchaseByAdmin(purchase as unknown as Purchase, 29.9, '误购')).resolves.toBe('ignored');
+    expect(refund).toHaveBeenCalledTimes(1);
+  });
+
+  it('管理员退款套餐：通过支付渠道退款并收回所有题库的访问权限，重复退款被忽略', async () => {
+    const intent = await mockProvider.createIntent({ amount: 99, currency: 'cny' });
+    const bundlePurchase = seedBundlePurchase({ transactionId: intent.id, paymentMethod: 'mock' });
+    const { payload, headers } = simulateMockPayment(intent.id, 'succeeded');
+    await applyPaymentEvent(mockProvider.parseWebhook(payload, headers));
+    const refund = jest.spyOn(mockProvider, 'refund');
+
+    await expect(refundBundlePurchaseByAdmin(bundlePurchase as unknown as BundlePurchase, 50, '重复购买')).resolves.toBe('refunded');
+    expect(refund).toHaveBeenCalledWith(intent.id, 50);
+    expect(bundlePurchase).toMatchObject({ status: 'refunded', refundedAmount: 50, refundReason: '重复购买' });
+    purchases.rows.forEach(row => expect(row).toMatchObject({ status: 'refunded', refundReason: '重复购买' }));
+
+    await expect(refundBundlePurchaseByAdmin(bundlePurchase as unknown as BundlePurchase, 50, '重复购买')).resolves.toBe('ignored');
+    expect(refund).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * 支付结果处理
+ *
+ * 创建支付时写入 pending 状态的购买记录（transactionId 为支付平台的 PaymentIntent ID，并记录所选价格档位的有效天数），
+ * 之后只有经过签名校验的 webhook 事件才能改变状态：支付成功 → completed，支付取消 → failed，全额退款 → refunded。
+ * 支付失败的记录收到支付成功的事件时同样改为 completed（支付平台已收款，如取消前的最后一次付款成功）。
+ * 支付平台可能重复或乱序推送事件，已处理过的记录不会被再次修改。事件的签名校验和解析由各支付渠道负责，见 services/paymentProvider
+ *
+ * 管理员退款（全额或部分）通过支付渠道退款后直接把记录改为 refunded，访问权限立即失效
+ *
+ * 套餐的支付记录在 bundle_purchases 中，状态变化相同；支付成功时在同一个事务中为套餐的每个题库生成购买记录，
+ * 全额退款时一并收回这些题库的访问权限。套餐中单个题库的购买记录不能单独退款，管理员只能退款整个套餐
+ */
+import { Transaction } from 'sequelize';
+import Purchase, { PurchaseAttributes } from '../models/Purchase';
+import BundlePurchase from '../models/BundlePurchase';
+import { sequelize } from '../config/db';
+import { PaymentEvent, getPaymentProviderForMethod } from './paymentProvider';
+import { calculateExpiryDate, DEFAULT_ACCESS_DAYS } from './pricingTiers';
+
+/**
+ * 购买的有效天数，null 为永久；没有价格档位的旧记录按默认的 6 个月
+ */
+const getAccessDays = (purchase: Purchase) =>
+  purchase.pricingTierId ? purchase.accessDays ?? null : DEFAULT_ACCESS_DAYS;
+
+// 处理后的购买记录状态，没有对应记录或无需处理时为 ignored
+export type PaymentEventResult = PurchaseAttributes['status'] | 'ignored';
+
+/**
+ * 锁定支付对应的购买记录并按 apply 的结果更新，记录不存在时返回 ignored
+ */
+const updatePurchaseByTransaction = async (
+  transactionId: string,
+  apply: (purchase: Purchase) => Partial<Purchase> | null | Promise<Partial<Purchase> | null>
+): Promise<PaymentEventResult> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const purchase = await Purchase.findOne({
+      where: { transactionId },
+      transaction,
+      lock: transaction.LOCK.UPDATE
+    });
+
+    const changes = purchase ? await apply(purchase) : null;
+    if (!purchase || !changes) {
+      await transaction.commit();
+      return 'ignored';
+    }
+
+    await purchase.update(changes, { transaction });
+    await transaction.commit();
+    return purchase.status;
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+};
+
+// 收到支付成功的事件时可以完成的记录状态
+const FULFILLABLE_STATUSES = ['pending', 'failed'];
+
+/**
+ * 支付成功：待支付或已失败的记录改为已完成，实收金额不足时改为失败
+ *
+ * @param amountReceived 实收金额（元）
+ */
+export const fulfillPurchase = (transactionId: string, amountReceived: number) =>
+  updatePurchaseByTransaction(transactionId, purchase => {
+    if (!FULFILLABLE_STATUSES.includes(purchase.status)) return null;
+
+    if (amountReceived < Number(purchase.amount)) {
+      console.error(`支付金额不足: ${transactionId}，应付 ${purchase.amount}，实收 ${amountReceived}`);
+      return purchase.status === 'pending' ? { status: 'failed' } : null;
+    }
+
+    const paidAt = new Date();
+    return {
+      status: 'completed',
+      purchaseDate: paidAt,
+      expiryDate: calculateExpiryDate(getAccessDays(purchase), paidAt)
+    };
+  });
+
+/**
+ * 支付被取消：只处理仍在等待支付的记录
+ */
+export const failPurchase = (transactionId: string) =>
+  updatePurchaseByTransaction(transactionId, purchase =>
+    purchase.status === 'pending' ? { status: 'failed' } : null
+  );
+
+/**
+ * 支付平台通知的退款：全额退款时已完成的记录改为已退款，访问权限随之失效；
+ * 已由管理员退款的记录只同步退款金额，支付平台后台的部分退款不影响访问权限
+ *
+ * @param amountRefunded 该笔支付累计退款金额（元）
+ */
+export const refundPurchase = (transactionId: string, amountRefunded: number, fullyRefunded: boolean) =>
+  updatePurchaseByTransaction(transactionId, purchase => {
+    if (purchase.status === 'refunded') {
+      return amountRefunded > Number(purchase.refundedAmount) ? { refundedAmount: amountRefunded } : null;
+    }
+    if (purchase.status !== 'completed' || !fullyRefunded) return null;
+
+    return { status: 'refunded', refundedAmount: amountRefunded, refundedAt: new Date() };
+  });
+
+/**
+ * 管理员退款：锁定购买记录后通过购买时的支付渠道退款，再把记录改为已退款
+ *
+ * 调用前需确认 0 <= amount <= 支付金额；兑换码等没有支付的记录（金额为 0）不经过支付渠道，只收回权限。
+ * 记录已不是 completed（如并发的退款请求已处理）时不退款，返回 ignored。
+ * 支付渠道退款成功后随后推送的退款事件会被忽略或只同步金额
+ */
+export const refundPurchaseByAdmin = (purchase: Purchase, amount: number, reason: string) =>
+  updatePurchaseByTransaction(purchase.transactionId, async locked => {
+    if (locked.status !== 'completed') return null;
+
+    if (amount > 0) {
+      const provider = getPaymentProviderForMethod(locked.paymentMethod);
+      if (!provider) {
+        throw new Error(`支付方式 ${locked.paymentMethod} 不支持退款`);
+      }
+      // 全额退款不传金额，避免与支付平台的金额换算误差
+      await provider.refund(locked.transactionId, amount >= Number(locked.amount) ? undefined : amount);
+    }
+
+    return { status: 'refunded', refundedAmount: amount, refundReason: reason, refundedAt: new Date() };
+  });
+
+/**
+ * 锁定支付对应的套餐购买记录并按 apply 的结果更新，apply 可以在同一个事务中修改题库的购买记录
+ */
+const updateBundlePurchaseByTransaction = async (
+  transactionId: string,
+  apply: (bundlePurchase: BundlePurchase, transaction: Transaction) => Promise<Partial<BundlePurchase> | null>
+): Promise<PaymentEventResult> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const bundlePurchase = await BundlePurchase.findOne({
+      where: { transactionId },
+      transaction,
+      lock: transaction.LOCK.UPDATE
+    });
+
+    const changes = bundlePurchase ? await apply(bundlePurchase, transaction) : null;
+    if (!bundlePurchase || !changes) {
+      await transaction.commit();
+      return 'ignored';
+    }
+
+    await bundlePurchase.update(changes, { transaction });
+    await transaction.commit();
+    return bundlePurchase.status;
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+};
+
+/**
+ * 套餐支付成功：为下单时套餐中的每个题库生成已完成的购买记录（金额为 0，付款记录在套餐购买记录中）
+ */
+export const fulfillBundlePurchase = (transactionId: string, amountReceived: number) =>
+  updateBundlePurchaseByTransaction(transactionId, async (bundlePurchase, transaction) => {
+    if (!FULFILLABLE_STATUSES.includes(bundlePurchase.status)) return null;
+
+    if (amountReceived < Number(bundlePurchase.amount)) {
+      console.error(`套餐支付金额不足: ${transactionId}，应付 ${bundlePurchase.amount}，实收 ${amountReceived}`);
+      return bundlePurchase.status === 'pending' ? { status: 'failed' } : null;
+    }
+
+    const paidAt = new Date();
+    const expiryDate = calculateExpiryDate(bundlePurchase.accessDays, paidAt);
+
+    await Purchase.bulkCreate(bundlePurchase.questionSetIds.map(questionSetId => ({
+      userId: bundlePurchase.userId,
+      questionSetId,
+      purchaseDate: paidAt,
+      expiryDate,
+      transactionId: `bundle_${bundlePurchase.id}_${questionSetId}`,
+      amount: 0,
+      paymentMethod: 'bundle',
+      accessDays: bundlePurchase.accessDays,
+      bundlePurchaseId: bundlePurchase.id,
+      status: 'completed' as const
+    })), { transaction });
+
+    return { status: 'completed', purchaseDate: paidAt, expiryDate };
+  });
+
+/**
+ * 套餐支付被取消
+ */
+export const failBundlePurchase = (transactionId: string) =>
+  updateBundlePurchaseByTransaction(transactionId, async bundlePurchase =>
+    bundlePurchase.status === 'pending' ? { status: 'failed' } : null
+  );
+
+/**
+ * 收回套餐中所有题库的访问权限，返回套餐购买记录需要修改的字段
+ */
+const revokeBundleGrants = async (
+  bundlePurchase: BundlePurchase,
+  refundedAmount: number,
+  transaction: Transaction,
+  refundReason: string | null = null
+): Promise<Partial<BundlePurchase>> => {
+  const refundedAt = new Date();
+  await Purchase.update(
+    { status: 'refunded', refundReason, refundedAt },
+    { where: { bundlePurchaseId: bundlePurchase.id, status: 'completed' }, transaction }
+  );
+
+  return { status: 'refunded', refundedAmount, refundReason, refundedAt };
+};
+
+/**
+ * 套餐全额退款：收回套餐中所有题库的访问权限，与单独购买一样，支付平台后台的部分退款不影响访问权限
+ */
+export const refundBundlePurchase = (transactionId: string, amountRefunded: number, fullyRefunded: boolean) =>
+  updateBundlePurchaseByTransaction(transactionId, async (bundlePurchase, transaction) => {
+    if (bundlePurchase.status === 'refunded') {
+      return amountRefunded > Number(bundlePurchase.refundedAmount) ? { refundedAmount: amountRefunded } : null;
+    }
+    if (bundlePurchase.status !== 'completed' || !fullyRefunded) return null;
+
+    return revokeBundleGrants(bundlePurchase, amountRefunded, transaction);
+  });
+
+/**
+ * 管理员退款套餐：锁定套餐购买记录后通过支付渠道退款，并在同一个事务中收回套餐中所有题库的访问权限
+ *
+ * 调用前需确认 0 < amount <= 支付金额；记录已不是 completed（如并发的退款请求已处理）时不退款，返回 ignored
+ */
+export const refundBundlePurchaseByAdmin = (bundlePurchase: BundlePurchase, amount: number, reason: string) =>
+  updateBundlePurchaseByTransaction(bundlePurchase.transactionId, async (locked, transaction) => {
+    if (locked.status !== 'completed') return null;
+
+    const provider = getPaymentProviderForMethod(locked.paymentMethod);
+    if (!provider) {
+      throw new Error(`支付方式 ${locked.paymentMethod} 不支持退款`);
+    }
+    await provider.refund(locked.transactionId, amount >= Number(locked.amount) ? undefined : amount);
+
+    return revokeBundleGrants(locked, amount, transaction, reason);
+  });
+
+/**
+ * 按解析后的支付事件更新购买记录，套餐的支付按套餐购买记录处理
+ */
+export const applyPaymentEvent = async (event: PaymentEvent): Promise<PaymentEventResult> => {
+  if (event.type !== 'ignored' && await BundlePurchase.count({ where: { transactionId: event.transactionId } }) > 0) {
+    switch (event.type) {
+      case 'succeeded':
+        return fulfillBundlePurchase(event.transactionId, event.amountReceived);
+      case 'failed':
+        return failBundlePurchase(event.transactionId);
+      case 'refunded':
+        return refundBundlePurchase(event.transactionId, event.amountRefunded, event.fullyRefunded);
+    }
+  }
+
+  switch (event.type) {
+    case 'succeeded':
+      return fulfillPurchase(event.transactionId, event.amountReceived);
+    case 'failed':
+      return failPurchase(event.transactionId);
+    case 'refunded':
+      return refundPurchase(event.transactionId, event.amountRefunded, event.fullyRefunded);
+    default:
+      return 'ignored';
+  }
+};
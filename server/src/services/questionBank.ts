@@ -0,0 +1,291 @@
+/**
+ * 题库共享题目（题目库）
+ *
+ * 一道题可以关联到多个题库，每个关联有自己的 orderIndex，修改题目后所有使用它的题库都会看到修改。
+ * 题目的 questionSetId 只表示创建题目的题库；题目从所有题库中移除后才标记下线，
+ * 因此 question_set_questions 中的题目都是未下线的题目
+ */
+import { Op, QueryTypes, Transaction } from 'sequelize';
+import { sequelize } from '../config/db';
+import Question from '../models/Question';
+import Option from '../models/Option';
+import QuestionSetQuestion from '../models/QuestionSetQuestion';
+import { StoredQuestion } from './questionRevision';
+import { attachQuestionTags } from './questionTags';
+
+// 题库中的题目，orderIndex 为题目在该题库中的顺序
+export type SetQuestion = StoredQuestion & { orderIndex: number };
+
+export interface QuestionOrderEntry {
+  questionId: string;
+  orderIndex: number;
+}
+
+export interface QuestionBankSearchOptions {
+  search?: string;
+  fromSetId?: string; // 只查某个题库中的题目
+  targetSetId?: string; // 标记题目是否已在目标题库中
+  limit: number;
+  offset: number;
+}
+
+export interface QuestionBankItem {
+  id: string;
+  text: string;
+  questionType: string;
+  questionSetId: string;
+  questionSetTitle: string;
+  setCount: number;
+  inTargetSet: boolean;
+}
+
+/**
+ * 加载题库中的题目及选项、标签，按题目在该题库中的顺序排列
+ */
+export const loadSetQuestions = async (questionSetId: string, transaction?: Transaction): Promise<SetQuestion[]> => {
+  const questions = await Question.findAll({
+    include: [
+      { model: QuestionSetQuestion, as: 'setLinks', where: { questionSetId }, attributes: ['orderIndex'] },
+      { model: Option, as: 'options' }
+    ],
+    order: [
+      [{ model: QuestionSetQuestion, as: 'setLinks' }, 'orderIndex', 'ASC'],
+      [{ model: Option, as: 'options' }, 'optionIndex', 'ASC']
+    ],
+    transaction
+  });
+
+  return attachQuestionTags(questions.map(q => {
+    const { setLinks, ...question } = q.get({ plain: true }) as Omit<StoredQuestion, 'tags'> & { setLinks: { orderIndex: number }[] };
+    return { ...question, orderIndex: setLinks[0].orderIndex };
+  }), transaction);
+};
+
+/**
+ * 题库中的题目ID，按题目在该题库中的顺序排列
+ */
+export const loadSetQuestionIds = async (questionSetId: string, transaction?: Transaction): Promise<string[]> => {
+  const links = await QuestionSetQuestion.findAll({
+    where: { questionSetId },
+    attributes: ['questionId'],
+    order: [['orderIndex', 'ASC']],
+    transaction
+  });
+
+  return links.map(link => link.questionId);
+};
+
+/**
+ * 题库中的题目数量
+ */
+export const countSetQuestions = (questionSetId: string) =>
+  QuestionSetQuestion.count({ where: { questionSetId } });
+
+/**
+ * 按给定顺序设置题库中的题目：已关联的题目更新顺序，未关联的题目加入题库
+ *
+ * 不在 entries 中的题目不会移除，移除使用 unlinkQuestionsFromSet
+ */
+export const setQuestionOrder = async (
+  questionSetId: string,
+  entries: QuestionOrderEntry[],
+  transaction: Transaction
+) => {
+  const links = await QuestionSetQuestion.findAll({ where: { questionSetId }, transaction });
+  const byQuestion = new Map(links.map(link => [link.questionId, link]));
+  const newLinks: { questionSetId: string; questionId: string; orderIndex: number }[] = [];
+
+  for (const entry of entries) {
+    const link = byQuestion.get(entry.questionId);
+    if (!link) {
+      newLinks.push({ questionSetId, ...entry });
+    } else if (link.orderIndex !== entry.orderIndex) {
+      await link.update({ orderIndex: entry.orderIndex }, { transaction });
+    }
+  }
+
+  if (newLinks.length > 0) {
+    await QuestionSetQuestion.bulkCreate(newLinks, { transaction });
+  }
+};
+
+/**
+ * 把题目追加到题库末尾，已在题库中的题目跳过，返回新加入的题目数
+ */
+export const appendQuestionsToSet = async (
+  questionSetId: string,
+  questionIds: string[],
+  transaction: Transaction
+): Promise<number> => {
+  const links = await QuestionSetQuestion.findAll({
+    where: { questionSetId },
+    attributes: ['questionId', 'orderIndex'],
+    transaction,
+    lock: transaction.LOCK.UPDATE
+  });
+  const linked = new Set(links.map(link => link.questionId));
+  let nextIndex = links.reduce((max, link) => Math.max(max, link.orderIndex + 1), 0);
+
+  const newLinks = [...new Set(questionIds)]
+    .filter(questionId => !linked.has(questionId))
+    .map(questionId => ({ questionSetId, questionId, orderIndex: nextIndex++ }));
+
+  if (newLinks.length > 0) {
+    await QuestionSetQuestion.bulkCreate(newLinks, { transaction });
+  }
+
+  return newLinks.length;
+};
+
+/**
+ * 把题目从题库中移除，返回已不在任何题库中的题目ID（由调用方标记下线）
+ */
+export const unlinkQuestionsFromSet = async (
+  questionSetId: string,
+  questionIds: string[],
+  transaction: Transaction
+): Promise<string[]> => {
+  if (questionIds.length === 0) return [];
+
+  await QuestionSetQuestion.destroy({ where: { questionSetId, questionId: questionIds }, transaction });
+
+  const remaining = await QuestionSetQuestion.findAll({
+    where: { questionId: questionIds },
+    attributes: ['questionId'],
+    transaction
+  });
+  const stillLinked = new Set(remaining.map(link => link.questionId));
+
+  return questionIds.filter(id => !stillLinked.has(id));
+};
+
+/**
+ * 删除题库前，把该题库创建的、仍被其他题库使用的题目及其修订记录转到其他题库名下，
+ * 避免删除题库时一并删除这些题目
+ */
+export const releaseOwnedQuestions = async (questionSetId: string, transaction: Transaction) => {
+  await sequelize.query(`
+    UPDATE questions q
+    JOIN (
+      SELECT l.questionId, MIN(l.questionSetId) AS questionSetId
+      FROM question_set_questions l
+      WHERE l.questionSetId <> :questionSetId
+      GROUP BY l.questionId
+    ) other ON other.questionId = q.id
+    SET q.questionSetId = other.questionSetId
+    WHERE q.questionSetId = :questionSetId
+  `, { replacements: { questionSetId }, transaction });
+
+  await sequelize.query(`
+    UPDATE question_revisions r
+    JOIN questions q ON q.id = r.questionId
+    SET r.questionSetId = q.questionSetId
+    WHERE r.questionSetId = :questionSetId AND q.questionSetId <> :questionSetId
+  `, { replacements: { questionSetId }, transaction });
+};
+
+/**
+ * 在题目库中搜索未下线的题目，按最近修改时间排序
+ */
+export const searchQuestionBank = async (
+  options: QuestionBankSearchOptions
+): Promise<{ total: number; items: QuestionBankItem[] }> => {
+  const conditions = ['q.retiredAt IS NULL'];
+  const replacements: Record<string, unknown> = {
+    targetSetId: options.targetSetId || '',
+    limit: options.limit,
+    offset: options.offset
+  };
+
+  if (options.search) {
+    conditions.push('q.text LIKE :search');
+    replacements.search = `%${options.search.replace(/[\\%_]/g, '\\$&')}%`;
+  }
+  if (options.fromSetId) {
+    conditions.push('EXISTS (SELECT 1 FROM question_set_questions f WHERE f.questionId = q.id AND f.questionSetId = :fromSetId)');
+    replacements.fromSetId = options.fromSetId;
+  }
+
+  const where = conditions.join(' AND ');
+
+  const [countRow] = await sequelize.query<{ total: number }>(
+    `SELECT COUNT(*) AS total FROM questions q WHERE ${where}`,
+    { replacements, type: QueryTypes.SELECT }
+  );
+
+  const rows = await sequelize.query<QuestionBankItem>(`
+    SELECT
+      q.id,
+      q.text,
+      q.questionType,
+      q.questionSetId,
+      qs.title AS questionSetTitle,
+      (SELECT COUNT(*) FROM question_set_questions l WHERE l.questionId = q.id) AS setCount,
+      EXISTS (SELECT 1 FROM question_set_questions t WHERE t.questionId = q.id AND t.questionSetId = :targetSetId) AS inTargetSet
+    FROM questions q
+    JOIN question_sets qs ON qs.id = q.questionSetId
+    WHERE ${where}
+    ORDER BY q.updatedAt DESC
+    LIMIT :limit OFFSET :offset
+  `, { replacements, type: QueryTypes.SELECT });
+
+  return {
+    total: Number(countRow ? countRow.total : 0),
+    items: rows.map(row => ({
+      ...row,
+      setCount: Number(row.setCount),
+      inTargetSet: !!Number(row.inTargetSet)
+    }))
+  };
+};
+
+/**
+ * 早期版本的题目通过 questionSetId 和 orderIndex 直接属于一个题库，
+ * 启动同步时把这些关系写入 question_set_questions，然后删除 questions 表中的 orderIndex 列
+ */
+export const migrateQuestionSetLinks = async () => {
+  const queryInterface = sequelize.getQueryInterface();
+
+  let columns: Record<string, unknown>;
+  try {
+    columns = await queryInterface.describeTable('questions');
+  } catch {
+    // 新数据库还没有 questions 表，无需迁移
+    return;
+  }
+
+  if (!columns.orderIndex) return;
+
+  console.log('把题目与题库的关系写入 question_set_questions...');
+
+  await QuestionSetQuestion.sync();
+
+  await sequelize.query(`
+    INSERT INTO question_set_questions (id, questionSetId, questionId, orderIndex, createdAt, updatedAt)
+    SELECT UUID(), q.questionSetId, q.id, q.orderIndex, UTC_TIMESTAMP(), UTC_TIMESTAMP()
+    FROM questions q
+    WHERE ${columns.retiredAt ? 'q.retiredAt IS NULL AND ' : ''}NOT EXISTS (
+      SELECT 1 FROM question_set_questions l WHERE l.questionId = q.id AND l.questionSetId = q.questionSetId
+    )
+  `);
+
+  await queryInterface.removeColumn('questions', 'orderIndex');
+
+  console.log('题目与题库的关系迁移完成');
+};
+
+/**
+ * 从给定的题目ID中筛选出存在且未下线的题目，顺序不变
+ */
+export const filterActiveQuestionIds = async (questionIds: string[], transaction?: Transaction): Promise<string[]> => {
+  if (questionIds.length === 0) return [];
+
+  const questions = await Question.findAll({
+    where: { id: { [Op.in]: questionIds } },
+    attributes: ['id'],
+    transaction
+  });
+  const active = new Set(questions.map(q => q.id));
+
+  return questionIds.filter(id => active.has(id));
+};
@@ -0,0 +1,321 @@
+/**
+ * 题目修订记录
+ *
+ * 后台编辑、文件导入和回滚修改题目时，都通过这里写入题目内容并记录修改前后的快照，
+ * 用于查看修改历史、对比两个版本以及恢复到旧版本
+ */
+import { Op, Transaction } from 'sequelize';
+import { sequelize } from '../config/db';
+import Question, { QuestionType, QuestionContentFormat } from '../models/Question';
+import Option from '../models/Option';
+import User from '../models/User';
+import { appendQuestionsToSet, loadSetQuestionIds } from './questionBank';
+import { loadQuestionTags, setQuestionTags, sortTags } from './questionTags';
+import { parseQuestionType } from './questionTypes';
+import QuestionRevision, {
+  QuestionSnapshot,
+  QuestionRevisionAction,
+  QuestionRevisionSource
+} from '../models/QuestionRevision';
+
+export interface RevisionContext {
+  userId?: string | null;
+  source: QuestionRevisionSource;
+}
+
+export interface QuestionRevisionEntry {
+  questionId: string;
+  questionSetId: string;
+  action: QuestionRevisionAction;
+  before: QuestionSnapshot | null;
+  after: QuestionSnapshot | null;
+}
+
+// 数据库中的题目（含选项ID），questionSetId 为创建题目的题库
+export interface StoredQuestion {
+  id: string;
+  questionSetId: string;
+  text: string;
+  questionType: QuestionType;
+  explanation: string;
+  contentFormat?: QuestionContentFormat;
+  retiredAt?: Date | null;
+  options: { id: string; optionIndex: string; text: string; isCorrect: boolean; matchText?: string | null }[];
+  tags: string[];
+}
+
+interface SnapshotSource {
+  text: string;
+  explanation?: string | null;
+  questionType?: string | null;
+  contentFormat?: string | null;
+  options?: { optionIndex: string; text: string; isCorrect: boolean; matchText?: string | null }[];
+  tags?: string[];
+}
+
+export interface FieldDiff {
+  before: string | null;
+  after: string | null;
+  changed: boolean;
+}
+
+export interface OptionDiff {
+  optionIndex: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  before: { text: string; isCorrect: boolean; matchText?: string } | null;
+  after: { text: string; isCorrect: boolean; matchText?: string } | null;
+}
+
+export interface QuestionSnapshotDiff {
+  changed: boolean;
+  text: FieldDiff;
+  explanation: FieldDiff;
+  questionType: FieldDiff;
+  contentFormat: FieldDiff;
+  tags: FieldDiff;
+  options: OptionDiff[];
+}
+
+/**
+ * 生成题目内容快照，选项按字母排序，标签按名称排序；没有提供标签时快照中不含标签，
+ * 只有匹配题的选项带有 matchText
+ */
+export const toQuestionSnapshot = (question: SnapshotSource): QuestionSnapshot => ({
+  text: question.text,
+  explanation: question.explanation || '',
+  questionType: parseQuestionType(question.questionType) || 'single',
+  contentFormat: question.contentFormat === 'markdown' ? 'markdown' : 'text',
+  options: [...(question.options || [])]
+    .sort((a, b) => a.optionIndex.localeCompare(b.optionIndex))
+    .map(option => ({
+      optionIndex: option.optionIndex,
+      text: option.text,
+      isCorrect: !!option.isCorrect,
+      ...(option.matchText ? { matchText: option.matchText } : {})
+    })),
+  ...(question.tags ? { tags: sortTags(question.tags) } : {})
+});
+
+/**
+ * 批量写入修订记录
+ */
+export const recordQuestionRevisions = async (
+  entries: QuestionRevisionEntry[],
+  context: RevisionContext,
+  transaction: Transaction
+) => {
+  if (entries.length === 0) return;
+
+  await QuestionRevision.bulkCreate(entries.map(entry => ({
+    ...entry,
+    userId: context.userId || null,
+    source: context.source
+  })), { transaction });
+};
+
+/**
+ * 加载题目及选项、标签，包括已下线的题目
+ */
+export const loadStoredQuestion = async (questionId: string, transaction?: Transaction): Promise<StoredQuestion | null> => {
+  const question = await Question.unscoped().findByPk(questionId, {
+    include: [{ model: Option, as: 'options' }],
+    transaction,
+    lock: transaction ? transaction.LOCK.UPDATE : undefined
+  });
+  if (!question) return null;
+
+  const tags = await loadQuestionTags([question.id], transaction);
+  return { ...question.get({ plain: true }), tags: tags.get(question.id) || [] } as unknown as StoredQuestion;
+};
+
+/**
+ * 把题目内容更新为快照中的内容，已下线的题目会恢复
+ *
+ * 选项按字母原地更新以保留选项ID，答题记录中保存的是选项ID；快照中没有标签时保留原有标签。
+ * 题目可能被多个题库共用，修改对所有题库生效
+ */
+export const applyQuestionSnapshot = async (
+  question: StoredQuestion,
+  snapshot: QuestionSnapshot,
+  transaction: Transaction
+) => {
+  await Question.unscoped().update({
+    text: snapshot.text,
+    explanation: snapshot.explanation || '暂无解析',
+    questionType: snapshot.questionType,
+    contentFormat: snapshot.contentFormat || 'text',
+    retiredAt: null
+  }, { where: { id: question.id }, transaction });
+
+  const newOptions = [];
+  for (const option of snapshot.options) {
+    const current = question.options.find(o => o.optionIndex === option.optionIndex);
+    if (!current) {
+      newOptions.push({ questionId: question.id, ...option });
+    } else if (
+      current.text !== option.text ||
+      !!current.isCorrect !== option.isCorrect ||
+      (current.matchText || null) !== (option.matchText || null)
+    ) {
+      await Option.update({
+        text: option.text,
+        isCorrect: option.isCorrect,
+        matchText: option.matchText || null
+      }, { where: { id: current.id }, transaction });
+    }
+  }
+
+  const staleOptionIds = question.options
+    .filter(o => !snapshot.options.some(option => option.optionIndex === o.optionIndex))
+    .map(o => o.id);
+
+  if (staleOptionIds.length > 0) {
+    await Option.destroy({ where: { id: staleOptionIds }, transaction });
+  }
+  if (newOptions.length > 0) {
+    await Option.bulkCreate(newOptions, { transaction, validate: true });
+  }
+
+  if (snapshot.tags) {
+    await setQuestionTags(question.id, snapshot.tags, transaction);
+  }
+};
+
+/**
+ * 把已不在任何题库中的题目标记下线，并记录下线修订
+ */
+export const retireQuestions = async (
+  questions: StoredQuestion[],
+  questionSetId: string,
+  context: RevisionContext,
+  transaction: Transaction
+) => {
+  if (questions.length === 0) return;
+
+  await Question.unscoped().update(
+    { retiredAt: new Date() },
+    { where: { id: questions.map(q => q.id) }, transaction }
+  );
+
+  await recordQuestionRevisions(questions.map(q => ({
+    questionId: q.id,
+    questionSetId,
+    action: 'retire' as const,
+    before: toQuestionSnapshot(q),
+    after: null
+  })), context, transaction);
+};
+
+const diffField = (before: string | null, after: string | null): FieldDiff => ({
+  before,
+  after,
+  changed: before !== after
+});
+
+const describeOption = (option: QuestionSnapshot['options'][number]) => ({
+  text: option.text,
+  isCorrect: option.isCorrect,
+  ...(option.matchText ? { matchText: option.matchText } : {})
+});
+
+/**
+ * 对比两个题目快照，快照为空表示题目不存在（新建前或下线后）
+ */
+export const diffQuestionSnapshots = (
+  before: QuestionSnapshot | null,
+  after: QuestionSnapshot | null
+): QuestionSnapshotDiff => {
+  const beforeOptions = before ? before.options : [];
+  const afterOptions = after ? after.options : [];
+  const letters = Array.from(new Set([...beforeOptions, ...afterOptions].map(o => o.optionIndex))).sort();
+
+  const options: OptionDiff[] = letters.map(optionIndex => {
+    const b = beforeOptions.find(o => o.optionIndex === optionIndex);
+    const a = afterOptions.find(o => o.optionIndex === optionIndex);
+    let change: OptionDiff['change'] = 'unchanged';
+    if (!b) change = 'added';
+    else if (!a) change = 'removed';
+    else if (b.text !== a.text || b.isCorrect !== a.isCorrect || (b.matchText || '') !== (a.matchText || '')) change = 'changed';
+
+    return {
+      optionIndex,
+      change,
+      before: b ? describeOption(b) : null,
+      after: a ? describeOption(a) : null
+    };
+  });
+
+  const text = diffField(before ? before.text : null, after ? after.text : null);
+  const explanation = diffField(before ? before.explanation : null, after ? after.explanation : null);
+  const questionType = diffField(before ? before.questionType : null, after ? after.questionType : null);
+  const contentFormat = diffField(
+    before ? before.contentFormat || 'text' : null,
+    after ? after.contentFormat || 'text' : null
+  );
+  // 增加标签之前的快照没有标签，按没有标签处理
+  const tags = diffField(
+    before ? (before.tags || []).join(', ') : null,
+    after ? (after.tags || []).join(', ') : null
+  );
+
+  return {
+    changed: text.changed || explanation.changed || questionType.changed || contentFormat.changed || tags.changed ||
+      options.some(o => o.change !== 'unchanged'),
+    text,
+    explanation,
+    questionType,
+    contentFormat,
+    tags,
+    options
+  };
+};
+
+/**
+ * 查询题库的修订记录，按时间倒序，可以只查某道题目
+ *
+ * 包括在该题库中做的修改，以及题库当前题目在其他题库中做的修改（共用的题目）
+ */
+export const listQuestionRevisions = async (questionSetId: string, questionId?: string, limit = 100) => {
+  const where = questionId
+    ? { questionId }
+    : { [Op.or]: [{ questionSetId }, { questionId: { [Op.in]: await loadSetQuestionIds(questionSetId) } }] };
+
+  return QuestionRevision.findAll({
+    where,
+    include: [{ model: User, as: 'user', attributes: ['id', 'username'] }],
+    order: [['createdAt', 'DESC']],
+    limit
+  });
+};
+
+/**
+ * 把题目恢复到某条修订记录之后的内容，回滚本身也会记录为一条修订
+ */
+export const rollbackQuestionRevision = (revision: QuestionRevision, userId: string | null) =>
+  sequelize.transaction(async transaction => {
+    const question = await loadStoredQuestion(revision.questionId, transaction);
+    if (!question) {
+      throw new Error('题目不存在');
+    }
+
+    const target = revision.after as QuestionSnapshot;
+    const before = toQuestionSnapshot(question);
+
+    await applyQuestionSnapshot(question, target, transaction);
+
+    // 已下线的题目不在任何题库中，恢复后放回修订记录所在题库的末尾
+    if (question.retiredAt) {
+      await appendQuestionsToSet(revision.questionSetId, [question.id], transaction);
+    }
+
+    return QuestionRevision.create({
+      questionId: question.id,
+      questionSetId: question.questionSetId,
+      userId,
+      action: 'rollback',
+      source: 'rollback',
+      before: question.retiredAt ? null : before,
+      after: target,
+      rolledBackFrom: revision.id
+    }, { transaction });
+  });
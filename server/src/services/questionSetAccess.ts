@@ -0,0 +1,143 @@
+/**
+ * 题库访问权限
+ *
+ * 未发布的题库只有管理员可以查看（用于预览）；付费题库在没有有效购买记录时只开放前 trialQuestions 道试用题，
+ * 题库详情和答题接口都通过这里判断可以下发多少道题
+ */
+import { Op, Transaction } from 'sequelize';
+import Purchase from '../models/Purchase';
+import QuestionSet from '../models/QuestionSet';
+import User from '../models/User';
+import { loadSetQuestionIds } from './questionBank';
+
+export interface QuestionSetAccess {
+  hasFullAccess: boolean;
+  isFree: boolean;
+  trialQuestions: number;
+  accessibleQuestions: number;
+  lockedQuestions: number;
+  expiryDate?: Date;
+}
+
+/**
+ * 题库是否已对学员公开：状态为已发布，且没有定时发布时间或已到发布时间
+ */
+export const isQuestionSetPublished = (
+  questionSet: Pick<QuestionSet, 'status' | 'publishAt'>,
+  now = new Date()
+) => questionSet.status === 'published' && (!questionSet.publishAt || new Date(questionSet.publishAt) <= now);
+
+/**
+ * 已公开题库的查询条件，与 isQuestionSetPublished 一致
+ */
+export const publishedQuestionSetWhere = () => ({
+  status: 'published',
+  [Op.or]: [
+    { publishAt: null },
+    { publishAt: { [Op.lte]: new Date() } }
+  ]
+});
+
+// 原生 SQL 中使用的同样条件，时间以 UTC 保存
+export const PUBLISHED_QUESTION_SET_SQL = "qs.status = 'published' AND (qs.publishAt IS NULL OR qs.publishAt <= UTC_TIMESTAMP())";
+
+/**
+ * 未发布的题库只有管理员可以查看
+ */
+export const canViewQuestionSet = (
+  questionSet: Pick<QuestionSet, 'status' | 'publishAt'>,
+  user: User | null | undefined
+) => isQuestionSetPublished(questionSet) || !!(user && user.isAdmin);
+
+/**
+ * 查找用户对题库的有效购买记录（已完成且未过期）
+ * 所有访问判断都以 purchases 表为准，兑换码兑换后同样会生成购买记录
+ */
+export const findActivePurchase = (userId: string, questionSetId: string, transaction?: Transaction) => {
+  return Purchase.findOne({
+    where: {
+      userId,
+      questionSetId,
+      status: 'completed',
+      expiryDate: {
+        [Op.gt]: new Date()
+      }
+    },
+    order: [['expiryDate', 'DESC']],
+    transaction
+  });
+};
+
+/**
+ * 计算用户对题库的访问范围，未登录用户传入 null
+ */
+export const resolveQuestionSetAccess = async (
+  questionSet: QuestionSet,
+  user: User | null | undefined,
+  totalQuestions: number
+): Promise<QuestionSetAccess> => {
+  const trialQuestions = Math.max(0, questionSet.trialQuestions || 0);
+  const fullAccess = (expiryDate?: Date): QuestionSetAccess => ({
+    hasFullAccess: true,
+    isFree: !questionSet.isPaid,
+    trialQuestions,
+    accessibleQuestions: totalQuestions,
+    lockedQuestions: 0,
+    expiryDate
+  });
+
+  if (!questionSet.isPaid || (user && user.isAdmin)) {
+    return fullAccess();
+  }
+
+  if (user) {
+    const activePurchase = await findActivePurchase(user.id, questionSet.id);
+    if (activePurchase) {
+      return fullAccess(activePurchase.expiryDate);
+    }
+  }
+
+  const accessibleQuestions = Math.min(trialQuestions, totalQuestions);
+
+  return {
+    hasFullAccess: false,
+    isFree: false,
+    trialQuestions,
+    accessibleQuestions,
+    lockedQuestions: totalQuestions - accessibleQuestions
+  };
+};
+
+/**
+ * 用户可以作答的题目ID（按题目顺序），题库不存在或未对该用户公开时返回空数组
+ */
+export const loadAccessibleQuestionIds = async (
+  questionSetId: string,
+  user: User | null | undefined
+): Promise<string[]> => {
+  const questionSet = await QuestionSet.findByPk(questionSetId);
+  if (!questionSet || !canViewQuestionSet(questionSet, user)) return [];
+
+  const questionIds = await loadSetQuestionIds(questionSetId);
+
+  const access = await resolveQuestionSetAccess(questionSet, user, questionIds.length);
+  return questionIds.slice(0, access.accessibleQuestions);
+};
+
+/**
+ * 过滤掉用户已无权作答的题目记录（例如购买已过期），可跨多个题库
+ */
+export const filterAccessibleQuestions = async <T extends { questionSetId: string; questionId: string }>(
+  entries: T[],
+  user: User | null | undefined
+): Promise<T[]> => {
+  const setIds = [...new Set(entries.map(e => e.questionSetId))];
+  const accessible = new Set<string>();
+
+  for (const setId of setIds) {
+    const ids = await loadAccessibleQuestionIds(setId, user);
+    ids.forEach(id => accessible.add(id));
+  }
+
+  return entries.filter(e => accessible.has(e.questionId));
+};
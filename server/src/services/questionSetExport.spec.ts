@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { questionSetToCsv, questionSetsToWorkbook } from './questionSetExport';
+import { ImportedQuestionSet, rowsToQuestions, unescapeCsvFormulas } from './questionSetImport';
+import { parseCsv } from './csvParser';
+import { readWorkbookSheets, workbookToQuestionSets } from './workbookImport';
+
+// 模型照常定义但不连接数据库
+jest.mock('../config/db', () => {
+  const { Sequelize } = jest.requireActual('sequelize');
+  return {
+    __esModule: true,
+    sequelize: new Sequelize('exam_practice_test', 'root', '', { dialect: 'mysql', logging: false }),
+    default: {}
+  };
+});
+
+const questionSet: ImportedQuestionSet = {
+  id: 'set-1',
+  title: '电子表格',
+  description: '公式与函数',
+  category: '办公软件',
+  icon: 'book',
+  isPaid: true,
+  price: 29.9,
+  pricingTiers: [
+    { id: 'd30', label: '30天', durationDays: 30, price: 19.9 },
+    { id: 'lifetime', label: '永久', durationDays: null, price: 59 }
+  ],
+  trialQuestions: 3,
+  isFeatured: true,
+  status: 'review',
+  questions: [
+    {
+      id: 'q-1',
+      text: '=SUM(A1:A3) 的作用是？',
+      explanation: '@求和',
+      questionType: 'single',
+      contentFormat: 'markdown',
+      options: [
+        { optionIndex: 'A', text: '-求和', isCorrect: true },
+        { optionIndex: 'B', text: "'+求平均", isCorrect: false }
+      ],
+      tags: ['公式']
+    },
+    {
+      id: 'q-2',
+      text: '单元格中的 *号* 原样显示',
+      questionType: 'truefalse',
+      contentFormat: 'text',
+      options: [
+        { optionIndex: 'A', text: '正确', isCorrect: true },
+        { optionIndex: 'B', text: '错误', isCorrect: false }
+      ],
+      tags: []
+    }
+  ]
+};
+
+describe('题库导出', () => {
+  it('CSV 中可能被当作公式的单元格前加 \'，重新导入后内容和格式不变', () => {
+    const csv = questionSetToCsv(questionSet);
+    const rows = parseCsv(csv);
+
+    expect(rows[0]).toContain('格式');
+    expect(rows[1]).toEqual(expect.arrayContaining(["'=SUM(A1:A3) 的作用是？", "'-求和", "''+求平均", "'@求和"]));
+    expect(rows.flat().some(value => /^[=+\-@]/.test(value))).toBe(false);
+
+    const { questions, errors } = rowsToQuestions(unescapeCsvFormulas(rows));
+    expect(errors).toEqual([]);
+    expect(questions[0]).toMatchObject({
+      id: 'q-1',
+      text: '=SUM(A1:A3) 的作用是？',
+      explanation: '@求和',
+      contentFormat: 'markdown',
+      options: [{ text: '-求和', isCorrect: true }, { text: "'+求平均", isCorrect: false }]
+    });
+    expect(questions[1]).toMatchObject({ id: 'q-2', questionType: 'truefalse', contentFormat: 'text' });
+  });
+
+  it('Excel 导出包含价格档位、是否推荐和状态，重新导入后题库信息不变', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'question-set-export-'));
+    const filePath = path.join(dir, 'export.xlsx');
+
+    try {
+      fs.writeFileSync(filePath, await questionSetsToWorkbook([questionSet]));
+      const { questionSets, errors } = workbookToQuestionSets(await readWorkbookSheets(filePath), {}, 'export');
+
+      expect(errors).toEqual([]);
+      expect(questionSets[0]).toMatchObject({
+        id: 'set-1',
+        isPaid: true,
+        price: 29.9,
+        pricingTiers: questionSet.pricingTiers,
+        trialQuestions: 3,
+        isFeatured: true,
+        status: 'review'
+      });
+      expect(questionSets[0].questions?.map(q => q.contentFormat)).toEqual(['markdown', 'text']);
+      expect(questionSets[0].questions?.[0].text).toBe('=SUM(A1:A3) 的作用是？');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * 题库导出
+ *
+ * 导出的 JSON、CSV 和 Excel 与上传接口接受的格式一致，导出后修改再上传即可完成批量编辑。
+ * 导出内容带有题目ID，重新上传时按ID匹配原有题目；已下线的题目不导出。
+ * CSV 只有题目，不含题库信息（付费设置、价格档位、发布状态等），完整备份请使用 JSON 或 Excel
+ */
+import { Workbook } from 'exceljs';
+import JSZip from 'jszip';
+import QuestionSet from '../models/QuestionSet';
+import { ImportedQuestionSet, ImportedQuestionType, OPTION_LETTERS } from './questionSetImport';
+import { loadSetQuestions } from './questionBank';
+import { FILL_ANSWER_SEPARATOR, MATCH_SEPARATOR } from './questionTypes';
+
+export type ExportFormat = 'json' | 'csv' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'xlsx'];
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const TYPE_LABELS: Record<ImportedQuestionType, string> = {
+  single: '单选',
+  multiple: '多选',
+  truefalse: '判断',
+  fill: '填空',
+  ordering: '排序',
+  matching: '匹配'
+};
+
+// Excel 工作表名最多31个字符，且不能包含 []:*?/\
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * 加载题库及其题目、选项，返回与 JSON 上传格式一致的数据；题库不存在时返回 null
+ */
+export const loadExportQuestionSet = async (id: string): Promise<ImportedQuestionSet | null> => {
+  const questionSet = await QuestionSet.findByPk(id);
+  if (!questionSet) return null;
+
+  const questions = await loadSetQuestions(id);
+
+  return {
+    id: questionSet.id,
+    title: questionSet.title,
+    description: questionSet.description,
+    category: questionSet.category,
+    icon: questionSet.icon,
+    isPaid: questionSet.isPaid,
+    price: questionSet.isPaid ? Number(questionSet.price) : undefined,
+    pricingTiers: questionSet.isPaid && questionSet.pricingTiers ? questionSet.pricingTiers : undefined,
+    trialQuestions: questionSet.isPaid ? questionSet.trialQuestions : undefined,
+    isFeatured: questionSet.isFeatured,
+    status: questionSet.status,
+    questions: questions.map(question => ({
+      id: question.id,
+      text: question.text,
+      explanation: question.explanation,
+      questionType: question.questionType,
+      contentFormat: question.contentFormat || 'text',
+      orderIndex: question.orderIndex,
+      options: question.options.map(option => ({
+        optionIndex: option.optionIndex,
+        text: option.text,
+        isCorrect: !!option.isCorrect,
+        ...(option.matchText ? { matchText: option.matchText } : {})
+      })),
+      tags: question.tags
+    }))
+  };
+};
+
+/**
+ * 题目表格（CSV 和 Excel 题目工作表共用），列与导入时相同；选项按顺序重新标为 A-J
+ *
+ * 填空题的可接受答案写在"正确答案"列中，匹配题的选项写成 "左侧项 => 右侧项"
+ */
+const toQuestionRows = (questionSet: ImportedQuestionSet): string[][] => {
+  const questions = questionSet.questions || [];
+  const optionCount = Math.max(2, ...questions.filter(q => q.questionType !== 'fill').map(q => (q.options || []).length));
+  const letters = OPTION_LETTERS.slice(0, Math.min(optionCount, OPTION_LETTERS.length));
+
+  const rows = [['id', '题目', ...letters, '正确答案', '解析', '题型', '格式', '标签']];
+  questions.forEach(question => {
+    const isFill = question.questionType === 'fill';
+    const options = isFill ? [] : (question.options || []).slice(0, letters.length);
+    const optionText = (option: { text: string; matchText?: string | null }) =>
+      question.questionType === 'matching' ? `${option.text} ${MATCH_SEPARATOR} ${option.matchText || ''}` : option.text;
+
+    rows.push([
+      question.id || '',
+      question.text,
+      ...letters.map((_, j) => (options[j] ? optionText(options[j]) : '')),
+      isFill
+        ? (question.options || []).map(option => option.text).join(` ${FILL_ANSWER_SEPARATOR} `)
+        : question.questionType === 'matching'
+          ? ''
+          : letters.filter((_, j) => options[j] && options[j].isCorrect).join(''),
+      question.explanation || '',
+      TYPE_LABELS[question.questionType || 'single'],
+      question.contentFormat || 'text',
+      (question.tags || []).join(', ')
+    ]);
+  });
+
+  return rows;
+};
+
+// 以 = + - @ 等开头的单元格会被 Excel 当作公式执行，前面加 ' 作为文本显示，导入时会去掉；
+// 本来就以 ' 加这些字符开头的内容同样再加一个 '，导入后保持原样
+const escapeFormula = (value: string) => (/^'*[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+const escapeCsvCell = (value: string) => {
+  const text = escapeFormula(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 生成 CSV，带 BOM 以便 Excel 直接打开时识别为 UTF-8
+ */
+export const questionSetToCsv = (questionSet: ImportedQuestionSet): string =>
+  '\uFEFF' + toQuestionRows(questionSet).map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+
+const toSheetName = (title: string, usedNames: Set<string>) => {
+  const base = (title.replace(/[[\]:*?/\\]/g, ' ').trim() || '题目').slice(0, MAX_SHEET_NAME_LENGTH);
+  let name = base;
+  for (let i = 2; usedNames.has(name.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    name = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+  }
+  usedNames.add(name.toLowerCase());
+  return name;
+};
+
+/**
+ * 生成 Excel 工作簿：第一个工作表为"题库信息"，每个题库的题目放在单独的工作表中
+ */
+export const questionSetsToWorkbook = async (questionSets: ImportedQuestionSet[]): Promise<Buffer> => {
+  const workbook = new Workbook();
+  const metadataSheet = workbook.addWorksheet('题库信息');
+  const usedNames = new Set(['题库信息', 'metadata']);
+
+  metadataSheet.addRow([
+    '工作表', '题库ID', '标题', '描述', '分类', '图标', '是否付费', '价格', '试用题数', '价格档位', '是否推荐', '状态'
+  ]);
+
+  questionSets.forEach(questionSet => {
+    const sheetName = toSheetName(questionSet.title, usedNames);
+
+    metadataSheet.addRow([
+      sheetName,
+      questionSet.id,
+      questionSet.title,
+      questionSet.description || '',
+      questionSet.category || '',
+      questionSet.icon || '',
+      questionSet.isPaid ? '是' : '否',
+      questionSet.isPaid && questionSet.price !== undefined ? String(questionSet.price) : '',
+      questionSet.isPaid && questionSet.trialQuestions !== undefined ? String(questionSet.trialQuestions) : '',
+      questionSet.pricingTiers && questionSet.pricingTiers.length > 0 ? JSON.stringify(questionSet.pricingTiers) : '',
+      questionSet.isFeatured ? '是' : '否',
+      questionSet.status || ''
+    ]);
+
+    const sheet = workbook.addWorksheet(sheetName);
+    toQuestionRows(questionSet).forEach(row => sheet.addRow(row));
+    sheet.getRow(1).font = { bold: true };
+  });
+
+  metadataSheet.getRow(1).font = { bold: true };
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+};
+
+// 文件名中去掉各系统不允许的字符
+const toFileName = (title: string) => title.replace(/[\\/:*?"<>|\r\n]/g, ' ').trim() || 'question-set';
+
+/**
+ * 按指定格式导出单个题库
+ */
+export const exportQuestionSetFile = async (
+  questionSet: ImportedQuestionSet,
+  format: ExportFormat,
+  baseName = toFileName(questionSet.title)
+): Promise<ExportFile> => {
+  let content: Buffer;
+  if (format === 'csv') {
+    content = Buffer.from(questionSetToCsv(questionSet), 'utf8');
+  } else if (format === 'xlsx') {
+    content = await questionSetsToWorkbook([questionSet]);
+  } else {
+    content = Buffer.from(JSON.stringify(questionSet, null, 2), 'utf8');
+  }
+
+  return {
+    filename: `${baseName}.${format}`,
+    contentType: CONTENT_TYPES[format],
+    content
+  };
+};
+
+/**
+ * 把所有题库按指定格式导出并打包为 zip，每个题库一个文件
+ */
+export const exportAllQuestionSetsZip = async (format: ExportFormat): Promise<Buffer> => {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  const questionSets = await QuestionSet.findAll({ attributes: ['id'], order: [['createdAt', 'ASC']] });
+
+  // 逐个题库加载，避免一次性加载全部题目
+  for (const { id } of questionSets) {
+    const questionSet = await loadExportQuestionSet(id);
+    if (!questionSet) continue;
+
+    // 标题重复时在文件名后加上题库ID
+    let baseName = toFileName(questionSet.title);
+    if (usedNames.has(baseName.toLowerCase())) {
+      baseName = `${baseName}_${questionSet.id}`;
+    }
+    usedNames.add(baseName.toLowerCase());
+
+    const file = await exportQuestionSetFile(questionSet, format, baseName);
+    zip.file(file.filename, file.content);
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
@@ -0,0 +1,73 @@
+import QuestionSet from '../models/QuestionSet';
+import { importQuestionSet } from './questionSetImport';
+import { workbookToQuestionSets } from './workbookImport';
+
+// 模型照常定义但不连接数据库，事务直接执行回调
+jest.mock('../config/db', () => {
+  const { Sequelize } = jest.requireActual('sequelize');
+  const sequelize = new Sequelize('exam_practice_test', 'root', '', { dialect: 'mysql', logging: false });
+  sequelize.transaction = async (callback: (transaction: unknown) => unknown) =>
+    callback({ LOCK: { UPDATE: 'UPDATE' } });
+  return { __esModule: true, sequelize, default: {} };
+});
+
+// 数据库中已有的付费、推荐题库
+const seedPaidSet = () => {
+  const questionSet = {
+    id: 'set-1',
+    title: '网络基础',
+    description: '子网划分与路由',
+    icon: 'book',
+    isPaid: true,
+    price: 29.9,
+    trialQuestions: 5,
+    isFeatured: true,
+    status: 'published',
+    update: async (changes: Record<string, unknown>) => Object.assign(questionSet, changes)
+  };
+  jest.spyOn(QuestionSet, 'findByPk').mockResolvedValue(questionSet as unknown as QuestionSet);
+  return questionSet;
+};
+
+describe('重新导入已有题库', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('上传时没有提交付费和推荐设置，题库保持付费、价格、试用题数和推荐不变', async () => {
+    const questionSet = seedPaidSet();
+
+    // 管理后台上传 CSV 时只提交 id、title 和 category
+    await expect(importQuestionSet({ id: 'set-1', title: '网络基础（第二版）', questions: [] }))
+      .resolves.toMatchObject({ status: 'updated' });
+    expect(questionSet).toMatchObject({
+      title: '网络基础（第二版）',
+      isPaid: true,
+      price: 29.9,
+      trialQuestions: 5,
+      isFeatured: true
+    });
+  });
+
+  it('Excel 题库信息表中"是否付费"留空时保持付费', async () => {
+    const questionSet = seedPaidSet();
+    const { questionSets, errors } = workbookToQuestionSets([
+      { name: '题库信息', rows: [['题库ID', '标题', '是否付费'], ['set-1', '网络基础', '']] },
+      { name: '题目', rows: [['题目', 'A', 'B', '正确答案'], ['255.255.255.0 对应的前缀长度是？', '/24', '/16', 'A']] }
+    ], {}, '网络基础');
+
+    expect(errors).toEqual([]);
+    expect(questionSets[0].isPaid).toBeUndefined();
+
+    // 只检查题库信息，题目同步不在这里测试
+    await importQuestionSet({ ...questionSets[0], questions: [] });
+    expect(questionSet).toMatchObject({ isPaid: true, price: 29.9, trialQuestions: 5 });
+  });
+
+  it('明确改为免费时不再付费', async () => {
+    const questionSet = seedPaidSet();
+
+    await importQuestionSet({ id: 'set-1', title: '网络基础', isPaid: false, isFeatured: false, questions: [] });
+    expect(questionSet).toMatchObject({ isPaid: false, isFeatured: false });
+  });
+});
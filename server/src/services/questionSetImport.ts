@@ -0,0 +1,865 @@
+/**
+ * 题库导入
+ *
+ * JSON、CSV、Excel 等上传格式先转换成同一种题库数据结构，经 buildImportReport 校验后
+ * 再统一由 importQuestionSet 创建或更新题库。校验不会用占位内容替换有问题的数据，而是在报告中列出
+ *
+ * 重新上传已有题库时按题目ID或题干内容哈希与现有题目匹配：修改的题目原地更新，新题目追加，
+ * 文件中没有的题目从题库中移除，不再属于任何题库的题目只标记下线（retiredAt），
+ * 答题记录、错题和复习计划仍关联原题目ID
+ *
+ * 分类按路径（"父分类 > 子分类"）匹配已有分类，不存在的分类在导入时自动创建
+ *
+ * 题目标签可选：文件中提供了标签（包括空标签）时按文件内容设置，没有提供时保留题目原有的标签
+ *
+ * 各题型的答案都用选项表示，见 services/questionTypes
+ */
+import crypto from 'crypto';
+import { Op, Optional, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { sequelize } from '../config/db';
+import QuestionSet, { QuestionSetStatus, PricingTier } from '../models/QuestionSet';
+import Question, { QuestionAttributes, QuestionType, QuestionContentFormat } from '../models/Question';
+import Option, { OptionAttributes } from '../models/Option';
+import QuestionTag, { QuestionTagAttributes } from '../models/QuestionTag';
+import {
+  RevisionContext,
+  QuestionRevisionEntry,
+  StoredQuestion,
+  toQuestionSnapshot,
+  applyQuestionSnapshot,
+  recordQuestionRevisions,
+  retireQuestions
+} from './questionRevision';
+import { QuestionOrderEntry, loadSetQuestions, setQuestionOrder, unlinkQuestionsFromSet } from './questionBank';
+import { resolveCategoryPath, loadCategoryIndex, getCategoryPath } from './category';
+import { normalizeTags, validateTags, isSameTags, attachQuestionTags } from './questionTags';
+import { readPricingTiers } from './pricingTiers';
+import {
+  FILL_ANSWER_SEPARATOR,
+  MATCH_SEPARATOR,
+  parseContentFormat,
+  parseQuestionType,
+  parseTrueFalse,
+  resolveAnswerOptions,
+  validateAnswerOptions
+} from './questionTypes';
+
+export type ImportedQuestionType = QuestionType;
+
+export interface ImportedOption {
+  optionIndex?: string;
+  text: string;
+  isCorrect: boolean;
+  matchText?: string | null; // 匹配题的右侧项
+}
+
+export interface ImportedQuestion {
+  id?: string;
+  text: string;
+  explanation?: string;
+  questionType?: ImportedQuestionType;
+  contentFormat?: QuestionContentFormat; // 未提供时保留原有格式，新题目为 text
+  orderIndex?: number;
+  options?: ImportedOption[];
+  tags?: string[]; // 未提供时保留原有标签
+  // 题目在上传文件中的位置，用于校验报告
+  source?: { sheet?: string; row?: number };
+}
+
+export interface ImportedQuestionSet {
+  id: string;
+  title: string;
+  description?: string;
+  category?: string;
+  icon?: string;
+  isPaid?: boolean;
+  price?: number;
+  pricingTiers?: PricingTier[] | null; // 未提供时保留原有档位，null 或空数组清除档位
+  trialQuestions?: number;
+  isFeatured?: boolean;
+  status?: QuestionSetStatus; // 新建题库时默认为草稿，更新时不提供则保持原状态
+  questions?: ImportedQuestion[];
+}
+
+export type QuestionChange = 'added' | 'changed' | 'unchanged';
+
+export interface QuestionDiffSummary {
+  added: number;
+  changed: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface ImportResult {
+  id: string;
+  status: 'created' | 'updated' | 'failed';
+  message: string;
+  questionCount: number;
+  summary?: QuestionDiffSummary;
+}
+
+export interface ImportIssue {
+  level: 'error' | 'warning';
+  message: string;
+  questionSetId?: string;
+  questionSetTitle?: string;
+  // 题目序号，从 1 开始
+  questionIndex?: number;
+  sheet?: string;
+  row?: number;
+}
+
+export interface ImportPreviewSet {
+  id: string;
+  title: string;
+  category?: string;
+  isPaid: boolean;
+  price?: number;
+  action: 'create' | 'update';
+  existingQuestionCount: number;
+  questionCount: number;
+  questions: ImportPreviewQuestion[];
+  summary: QuestionDiffSummary;
+  // 将被下线的现有题目
+  removedQuestions: { id: string; text: string }[];
+}
+
+export interface ImportPreviewQuestion extends ImportedQuestion {
+  change: QuestionChange;
+  matchedBy?: 'id' | 'hash';
+  // 匹配到的现有题目ID
+  existingId?: string;
+}
+
+export interface ImportReport {
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  questionSets: ImportPreviewSet[];
+  issues: ImportIssue[];
+}
+
+// 选项列 A-J，与题目编辑器支持的选项数量一致
+export const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'];
+
+// 每批插入的行数，避免单条 INSERT 超过 max_allowed_packet
+const BULK_INSERT_SIZE = 500;
+
+const bulkInsert = async <T>(rows: T[], insert: (batch: T[]) => Promise<unknown>) => {
+  for (let i = 0; i < rows.length; i += BULK_INSERT_SIZE) {
+    await insert(rows.slice(i, i + BULK_INSERT_SIZE));
+  }
+};
+
+interface QuestionMatch {
+  question: ImportedQuestion;
+  existing: StoredQuestion | null;
+  matchedBy?: 'id' | 'hash';
+  change: QuestionChange;
+}
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * 题干内容哈希，忽略空白差异
+ */
+export const questionContentHash = (text: string) =>
+  crypto.createHash('sha1').update(normalizeText(text)).digest('hex');
+
+// 未指定题型时按正确选项个数判断，与校验规则一致
+const resolveQuestionType = (question: ImportedQuestion): ImportedQuestionType =>
+  question.questionType || ((question.options || []).filter(o => o.isCorrect).length > 1 ? 'multiple' : 'single');
+
+const resolveOptions = (question: ImportedQuestion) =>
+  (question.options || []).map((option, j) => ({
+    optionIndex: option.optionIndex || OPTION_LETTERS[j] || String.fromCharCode(65 + j),
+    text: option.text,
+    isCorrect: option.isCorrect ? true : false,
+    ...(option.matchText ? { matchText: option.matchText } : {})
+  }));
+
+const isSameContent = (existing: StoredQuestion, question: ImportedQuestion) => {
+  const options = resolveOptions(question);
+
+  return normalizeText(existing.text) === normalizeText(question.text) &&
+    existing.questionType === resolveQuestionType(question) &&
+    (question.contentFormat === undefined || (existing.contentFormat || 'text') === question.contentFormat) &&
+    (existing.explanation || '').trim() === (question.explanation || '暂无解析').trim() &&
+    existing.options.length === options.length &&
+    options.every(option => existing.options.some(o =>
+      o.optionIndex === option.optionIndex && o.text === option.text && !!o.isCorrect === option.isCorrect &&
+      (o.matchText || '') === (option.matchText || '')
+    )) &&
+    (question.tags === undefined || isSameTags(existing.tags, question.tags));
+};
+
+/**
+ * 加载题库中的题目，以及该题库创建的已下线题目（重新上传时可以恢复），未下线的题目在前
+ */
+const loadExistingQuestions = async (questionSetId: string, transaction?: Transaction): Promise<StoredQuestion[]> => {
+  const linked = await loadSetQuestions(questionSetId, transaction);
+  const retired = await Question.unscoped().findAll({
+    where: { questionSetId, retiredAt: { [Op.ne]: null } },
+    include: [{ model: Option, as: 'options' }],
+    transaction
+  });
+
+  const retiredQuestions = await attachQuestionTags(
+    retired.map(q => q.get({ plain: true }) as unknown as Omit<StoredQuestion, 'tags'>),
+    transaction
+  );
+
+  return [...linked, ...retiredQuestions];
+};
+
+/**
+ * 把上传的题目与现有题目匹配：先按题目ID，再按题干内容哈希（优先匹配未下线的题目）
+ *
+ * 没有匹配上的现有题目（未下线的）即为本次移除的题目
+ */
+const matchQuestions = (existing: StoredQuestion[], incoming: ImportedQuestion[]) => {
+  const used = new Set<string>();
+  const byId = new Map(existing.map(q => [q.id, q]));
+  const byHash = new Map<string, StoredQuestion[]>();
+
+  // existing 中未下线的题目在前，哈希相同时优先匹配
+  existing.forEach(q => {
+    const hash = questionContentHash(q.text);
+    byHash.set(hash, [...(byHash.get(hash) || []), q]);
+  });
+
+  const matches: QuestionMatch[] = incoming.map(question => {
+    const match = question.id ? byId.get(question.id) : undefined;
+    if (match && !used.has(match.id)) {
+      used.add(match.id);
+      return { question, existing: match, matchedBy: 'id', change: 'changed' };
+    }
+    return { question, existing: null, change: 'added' };
+  });
+
+  matches.forEach(match => {
+    if (match.existing) return;
+    const candidate = (byHash.get(questionContentHash(match.question.text)) || []).find(q => !used.has(q.id));
+    if (candidate) {
+      used.add(candidate.id);
+      match.existing = candidate;
+      match.matchedBy = 'hash';
+    }
+  });
+
+  matches.forEach(match => {
+    if (match.existing) {
+      // 恢复已下线的题目也算作修改
+      match.change = !match.existing.retiredAt && isSameContent(match.existing, match.question) ? 'unchanged' : 'changed';
+    }
+  });
+
+  return {
+    matches,
+    removed: existing.filter(q => !q.retiredAt && !used.has(q.id))
+  };
+};
+
+const summarizeMatches = (matches: QuestionMatch[], removed: StoredQuestion[]): QuestionDiffSummary => ({
+  added: matches.filter(m => m.change === 'added').length,
+  changed: matches.filter(m => m.change === 'changed').length,
+  unchanged: matches.filter(m => m.change === 'unchanged').length,
+  removed: removed.length
+});
+
+/**
+ * 按比对结果同步题库题目：新题目批量插入，修改的题目原地更新，按上传顺序设置题目在题库中的顺序，
+ * 移除的题目从题库中移除，不再属于任何题库时标记下线
+ *
+ * 新增、修改、恢复和下线的题目都会写入修订记录，context 标明修改人和来源
+ */
+export const syncQuestions = async (
+  questionSetId: string,
+  questions: ImportedQuestion[],
+  transaction: Transaction,
+  context: RevisionContext
+): Promise<QuestionDiffSummary> => {
+  const existing = await loadExistingQuestions(questionSetId, transaction);
+  const { matches, removed } = matchQuestions(existing, questions);
+
+  const newQuestionRows: QuestionAttributes[] = [];
+  const newOptionRows: Optional<OptionAttributes, 'id'>[] = [];
+  const newTagRows: Optional<QuestionTagAttributes, 'id'>[] = [];
+  const order: QuestionOrderEntry[] = [];
+  const revisions: QuestionRevisionEntry[] = [];
+
+  for (let i = 0; i < matches.length; i++) {
+    const { question, existing: match, change } = matches[i];
+    const orderIndex = question.orderIndex !== undefined ? question.orderIndex : i;
+    const snapshot = toQuestionSnapshot({
+      text: question.text,
+      explanation: question.explanation || '暂无解析',
+      questionType: resolveQuestionType(question),
+      contentFormat: question.contentFormat || (match ? match.contentFormat : undefined),
+      options: resolveOptions(question),
+      tags: question.tags !== undefined ? question.tags : match ? match.tags : []
+    });
+
+    if (!match) {
+      // 上传文件中的ID可能来自其他题库或环境，新题目统一生成ID
+      const questionId = uuidv4();
+      newQuestionRows.push({
+        id: questionId,
+        text: snapshot.text,
+        explanation: snapshot.explanation,
+        questionSetId,
+        questionType: snapshot.questionType,
+        contentFormat: snapshot.contentFormat
+      });
+      snapshot.options.forEach(option => newOptionRows.push({ questionId, ...option }));
+      (snapshot.tags || []).forEach(tag => newTagRows.push({ questionId, tag }));
+      order.push({ questionId, orderIndex });
+      revisions.push({ questionId, questionSetId, action: 'create', before: null, after: snapshot });
+      continue;
+    }
+
+    order.push({ questionId: match.id, orderIndex });
+    if (change === 'unchanged') continue;
+
+    await applyQuestionSnapshot(match, snapshot, transaction);
+    revisions.push({
+      questionId: match.id,
+      questionSetId,
+      action: match.retiredAt ? 'restore' : 'update',
+      before: toQuestionSnapshot(match),
+      after: snapshot
+    });
+  }
+
+  await bulkInsert(newQuestionRows, batch => Question.bulkCreate(batch, { transaction, validate: true }));
+  await bulkInsert(newOptionRows, batch => Option.bulkCreate(batch, { transaction, validate: true }));
+  await bulkInsert(newTagRows, batch => QuestionTag.bulkCreate(batch, { transaction, validate: true }));
+  await setQuestionOrder(questionSetId, order, transaction);
+  await bulkInsert(revisions, batch => recordQuestionRevisions(batch, context, transaction));
+
+  // 其他题库仍在使用的题目只从本题库移除
+  const orphanedIds = await unlinkQuestionsFromSet(questionSetId, removed.map(q => q.id), transaction);
+  await retireQuestions(removed.filter(q => orphanedIds.includes(q.id)), questionSetId, context, transaction);
+
+  return summarizeMatches(matches, removed);
+};
+
+/**
+ * 按题库ID创建或更新题库，提供了题目时按比对结果同步题目
+ *
+ * 每个题库在一个事务中完成，中途失败时题库保持导入前的状态
+ */
+export const importQuestionSet = (
+  data: ImportedQuestionSet,
+  context: RevisionContext = { source: 'import' }
+): Promise<ImportResult> => {
+  const questions = data.questions || [];
+  const pricingTiers = readPricingTiers(data.pricingTiers).value;
+
+  return sequelize.transaction(async transaction => {
+    const existingSet = await QuestionSet.findByPk(data.id, { transaction, lock: transaction.LOCK.UPDATE });
+    const category = data.category
+      ? await resolveCategoryPath(data.category, { create: true, transaction })
+      : null;
+    const categoryFields = category
+      ? { categoryId: category.id, category: getCategoryPath(category.id, await loadCategoryIndex(transaction)) }
+      : {};
+
+    if (existingSet) {
+      // 文件和表单中没有的付费设置保留题库原有的值
+      const isPaid = data.isPaid !== undefined ? data.isPaid : existingSet.isPaid;
+      await existingSet.update({
+        title: data.title || existingSet.title,
+        description: data.description || existingSet.description,
+        ...categoryFields,
+        icon: data.icon || existingSet.icon,
+        isPaid,
+        price: isPaid && data.price !== undefined ? data.price : existingSet.price,
+        ...(pricingTiers !== undefined ? { pricingTiers } : {}),
+        trialQuestions: isPaid && data.trialQuestions !== undefined ? data.trialQuestions : existingSet.trialQuestions,
+        isFeatured: data.isFeatured !== undefined ? data.isFeatured : existingSet.isFeatured,
+        status: data.status || existingSet.status
+      }, { transaction });
+
+      const summary = questions.length > 0
+        ? await syncQuestions(data.id, questions, transaction, context)
+        : undefined;
+
+      return {
+        id: data.id,
+        status: 'updated' as const,
+        message: '题库更新成功',
+        questionCount: questions.length,
+        summary
+      };
+    }
+
+    await QuestionSet.create({
+      id: data.id,
+      title: data.title,
+      description: data.description || '',
+      category: '',
+      ...categoryFields,
+      icon: data.icon || 'book',
+      isPaid: data.isPaid || false,
+      price: data.isPaid && data.price !== undefined ? data.price : 0,
+      pricingTiers: data.isPaid ? pricingTiers || null : null,
+      trialQuestions: data.isPaid && data.trialQuestions !== undefined ? data.trialQuestions : 0,
+      isFeatured: data.isFeatured || false,
+      status: data.status || 'draft'
+    }, { transaction });
+
+    const summary = questions.length > 0
+      ? await syncQuestions(data.id, questions, transaction, context)
+      : undefined;
+
+    return {
+      id: data.id,
+      status: 'created' as const,
+      message: '题库创建成功',
+      questionCount: questions.length,
+      summary
+    };
+  });
+};
+
+/**
+ * 依次导入多个题库，某个题库失败时不影响其他题库，失败原因记录在结果中
+ */
+export const importQuestionSets = async (
+  questionSets: ImportedQuestionSet[],
+  context: RevisionContext = { source: 'import' }
+): Promise<ImportResult[]> => {
+  const results: ImportResult[] = [];
+
+  for (const data of questionSets) {
+    try {
+      results.push(await importQuestionSet(data, context));
+    } catch (error: any) {
+      console.error(`导入题库 ${data.id} 失败:`, error);
+      results.push({
+        id: data.id,
+        status: 'failed',
+        message: error.message || '导入失败',
+        questionCount: 0
+      });
+    }
+  }
+
+  return results;
+};
+
+// 导出 CSV 时为防止公式注入加在单元格开头的 '，见 services/questionSetExport
+const FORMULA_ESCAPE_PATTERN = /^'(?='*[=+\-@\t\r])/;
+
+/**
+ * 去掉导出 CSV 时加在 = + - @ 等开头的单元格前的 '
+ */
+export const unescapeCsvFormulas = (rows: string[][]): string[][] =>
+  rows.map(row => row.map(value => value.replace(FORMULA_ESCAPE_PATTERN, '')));
+
+// 表头别名，统一转成小写后匹配
+const COLUMN_ALIASES: Record<string, 'id' | 'text' | 'answer' | 'explanation' | 'type' | 'format' | 'tags'> = {
+  'id': 'id',
+  '题目id': 'id',
+  'text': 'text',
+  'question': 'text',
+  '题目': 'text',
+  '题干': 'text',
+  'answer': 'answer',
+  'correct': 'answer',
+  'correctanswer': 'answer',
+  '答案': 'answer',
+  '正确答案': 'answer',
+  'explanation': 'explanation',
+  '解析': 'explanation',
+  'type': 'type',
+  'questiontype': 'type',
+  '题型': 'type',
+  'format': 'format',
+  'contentformat': 'format',
+  '格式': 'format',
+  'tags': 'tags',
+  'tag': 'tags',
+  '标签': 'tags'
+};
+
+/**
+ * 把表格（CSV 或 Excel 工作表）转换为题目列表
+ *
+ * 第一行为表头，之后每行一道题：
+ * - 题目/text：题干（必填）
+ * - A-J：选项内容，留空表示没有该选项
+ * - 正确答案/answer：正确选项字母，多选题写成 AC 或 A,C
+ * - 解析/explanation、题型/type（single/multiple 或 单选/多选等，留空时按答案个数判断）、id：可选
+ * - 格式/format：可选，text 或 markdown，留空时保留原有格式，新题目为 text
+ * - 标签/tags：可选，多个标签用逗号、分号或顿号分隔；有此列时留空表示清除标签
+ *
+ * 其他题型：
+ * - 判断题：选项列可以留空（自动生成"正确"、"错误"），正确答案写 对/错、正确/错误、true/false 或选项字母
+ * - 填空题：正确答案列写可接受的答案，多种写法用 | 分隔；填在选项列中的内容也作为可接受的答案
+ * - 排序题：选项列按正确顺序填写；也可以按任意顺序填写，在正确答案列中写出正确顺序，如 CABD
+ * - 匹配题：每个选项写成 "左侧项 => 右侧项"，正确答案列留空
+ *
+ * 行号从 1 开始（表头为第 1 行），与表格软件中显示的行号一致
+ */
+export const rowsToQuestions = (rows: string[][]): { questions: ImportedQuestion[]; errors: ImportIssue[] } => {
+  const questions: ImportedQuestion[] = [];
+  const errors: ImportIssue[] = [];
+  const header = rows[0] || [];
+
+  const columns: Partial<Record<'id' | 'text' | 'answer' | 'explanation' | 'type' | 'format' | 'tags', number>> = {};
+  const optionColumns: { letter: string; index: number }[] = [];
+
+  header.forEach((cell, index) => {
+    const name = cell.trim().toLowerCase();
+    const optionMatch = /^(?:选项)?([a-j])$/.exec(name);
+    if (optionMatch) {
+      optionColumns.push({ letter: optionMatch[1].toUpperCase(), index });
+    } else if (COLUMN_ALIASES[name] && columns[COLUMN_ALIASES[name]] === undefined) {
+      columns[COLUMN_ALIASES[name]] = index;
+    }
+  });
+
+  if (columns.text === undefined) {
+    errors.push({ level: 'error', row: 1, message: '表头缺少"题目"列' });
+  }
+  if (columns.answer === undefined) {
+    errors.push({ level: 'error', row: 1, message: '表头缺少"正确答案"列' });
+  }
+  if (optionColumns.length === 0) {
+    errors.push({ level: 'error', row: 1, message: '表头缺少选项列（A-J）' });
+  }
+  if (errors.length > 0) {
+    return { questions, errors };
+  }
+
+  const cell = (row: string[], index?: number) => (index === undefined ? '' : (row[index] || '').trim());
+
+  for (let r = 1; r < rows.length; r++) {
+    const row = rows[r];
+    const rowNumber = r + 1;
+
+    if (row.every(value => value.trim() === '')) continue;
+
+    // 这里只检查无法转换的内容，题目本身是否完整由 validateQuestionSets 统一检查
+    const rowErrors: string[] = [];
+    let options: ImportedOption[] = optionColumns
+      .map(({ letter, index }) => ({ optionIndex: letter, text: cell(row, index), isCorrect: false }))
+      .filter(option => option.text !== '');
+
+    const answer = cell(row, columns.answer);
+    const answerLetters = [...new Set(answer.toUpperCase().replace(/[\s,，、;；]/g, '').split(''))]
+      .filter(letter => letter !== '');
+
+    const typeValue = cell(row, columns.type);
+    const parsedType = typeValue ? parseQuestionType(typeValue) : undefined;
+    if (typeValue && !parsedType) {
+      rowErrors.push(`无法识别的题型 "${typeValue}"`);
+    }
+    const questionType: ImportedQuestionType = parsedType || (answerLetters.length > 1 ? 'multiple' : 'single');
+
+    const formatValue = cell(row, columns.format);
+    const contentFormat = parseContentFormat(formatValue);
+    if (formatValue && !contentFormat) {
+      rowErrors.push(`无法识别的内容格式 "${formatValue}"，应为 text 或 markdown`);
+    }
+
+    const markCorrectLetters = () => answerLetters.forEach(letter => {
+      const option = options.find(o => o.optionIndex === letter);
+      if (option) {
+        option.isCorrect = true;
+      } else {
+        rowErrors.push(`正确答案 ${letter} 没有对应的选项`);
+      }
+    });
+
+    if (questionType === 'fill') {
+      const accepted = [...options.map(o => o.text), ...answer.split(FILL_ANSWER_SEPARATOR).map(text => text.trim())]
+        .filter((text, i, all) => text !== '' && all.indexOf(text) === i);
+      options = resolveAnswerOptions('fill', [], accepted);
+    } else if (questionType === 'truefalse' && options.length === 0) {
+      options = resolveAnswerOptions('truefalse', [], answer);
+    } else if (questionType === 'truefalse' && options.length === 2 && parseTrueFalse(answer) !== undefined) {
+      options[parseTrueFalse(answer) ? 0 : 1].isCorrect = true;
+    } else if (questionType === 'ordering') {
+      // 正确答案列给出了顺序时按该顺序重新排列选项，字母按新顺序重新编号
+      if (answerLetters.length > 0) {
+        const missing = options.filter(o => !answerLetters.includes(o.optionIndex || ''));
+        markCorrectLetters();
+        if (missing.length > 0) {
+          rowErrors.push(`正确顺序中缺少选项 ${missing.map(o => o.optionIndex).join('、')}`);
+        }
+        options = answerLetters
+          .map(letter => options.find(o => o.optionIndex === letter))
+          .filter((option): option is ImportedOption => !!option);
+      }
+      options = resolveAnswerOptions('ordering', options.map((option, j) => ({ ...option, optionIndex: OPTION_LETTERS[j] })));
+    } else if (questionType === 'matching') {
+      options.forEach(option => {
+        const separator = option.text.indexOf(MATCH_SEPARATOR);
+        if (separator === -1) {
+          rowErrors.push(`选项 ${option.optionIndex} 缺少配对项，格式为 "左侧项 ${MATCH_SEPARATOR} 右侧项"`);
+          return;
+        }
+        option.matchText = option.text.slice(separator + MATCH_SEPARATOR.length).trim();
+        option.text = option.text.slice(0, separator).trim();
+      });
+      options = resolveAnswerOptions('matching', options);
+    } else {
+      markCorrectLetters();
+    }
+
+    if (rowErrors.length > 0) {
+      rowErrors.forEach(message => errors.push({ level: 'error', row: rowNumber, message }));
+      continue;
+    }
+
+    questions.push({
+      id: cell(row, columns.id) || undefined,
+      text: cell(row, columns.text),
+      explanation: cell(row, columns.explanation) || undefined,
+      questionType,
+      contentFormat,
+      orderIndex: questions.length,
+      options,
+      tags: columns.tags !== undefined ? normalizeTags(cell(row, columns.tags)) : undefined,
+      source: { row: rowNumber }
+    });
+  }
+
+  return { questions, errors };
+};
+
+const toText = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+const toNumber = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+};
+
+/**
+ * 标准化 JSON 上传的题库数据
+ *
+ * 兼容前端编辑器的格式（question 字段、选项 id、correctAnswer），
+ * 缺失的内容保持为空，交给 validateQuestionSets 报告，不填充占位内容
+ */
+export const normalizeUploadedQuestionSet = (raw: any): ImportedQuestionSet => {
+  const data = raw && typeof raw === 'object' ? raw : {};
+  const rawQuestions = Array.isArray(data.questions) ? data.questions : [];
+
+  return {
+    id: toText(data.id),
+    title: toText(data.title),
+    description: data.description,
+    category: data.category,
+    icon: data.icon,
+    isPaid: data.isPaid === undefined ? undefined : data.isPaid === true || data.isPaid === 'true',
+    price: toNumber(data.price),
+    // 档位在 validateQuestionSets 中检查，导入时再读取
+    pricingTiers: data.pricingTiers,
+    trialQuestions: toNumber(data.trialQuestions),
+    isFeatured: data.isFeatured,
+    status: ['draft', 'review', 'published'].includes(data.status) ? data.status : undefined,
+    questions: rawQuestions.map((q: any, index: number) => {
+      const question = q && typeof q === 'object' ? q : {};
+      const correctAnswer: string[] = Array.isArray(question.correctAnswer)
+        ? question.correctAnswer.map(String)
+        : question.correctAnswer ? [String(question.correctAnswer)] : [];
+      const rawOptions = Array.isArray(question.options) ? question.options : [];
+
+      const questionType = parseQuestionType(question.questionType);
+      const options: ImportedOption[] = rawOptions.map((opt: any, j: number) => {
+        const option = opt && typeof opt === 'object' ? opt : { text: opt };
+        const optionIndex = toText(option.optionIndex || option.id) || OPTION_LETTERS[j] || String.fromCharCode(65 + j);
+        return {
+          optionIndex,
+          text: toText(option.text),
+          isCorrect: option.isCorrect === true || correctAnswer.includes(optionIndex),
+          ...(toText(option.matchText) ? { matchText: toText(option.matchText) } : {})
+        };
+      });
+
+      return {
+        id: question.id !== undefined && question.id !== null && question.id !== '' ? String(question.id) : undefined,
+        text: toText(question.text !== undefined ? question.text : question.question),
+        explanation: toText(question.explanation) || undefined,
+        questionType,
+        contentFormat: parseContentFormat(question.contentFormat),
+        orderIndex: question.orderIndex !== undefined ? question.orderIndex : index,
+        tags: question.tags !== undefined && question.tags !== null ? normalizeTags(question.tags) : undefined,
+        // 判断题、填空题可以只提供 correctAnswer
+        options: questionType ? resolveAnswerOptions(questionType, options, question.correctAnswer) : options
+      };
+    })
+  };
+};
+
+/**
+ * 校验题库数据，问题追加到 issues 中
+ *
+ * 错误会阻止导入，警告只做提示
+ */
+export const validateQuestionSets = (questionSets: ImportedQuestionSet[], issues: ImportIssue[]) => {
+  const seenSetIds = new Set<string>();
+
+  questionSets.forEach((set, setIndex) => {
+    const setLabel = { questionSetId: set.id || undefined, questionSetTitle: set.title || `第 ${setIndex + 1} 个题库` };
+
+    if (!set.id) {
+      issues.push({ level: 'error', ...setLabel, message: '缺少题库ID' });
+    } else if (seenSetIds.has(set.id)) {
+      issues.push({ level: 'error', ...setLabel, message: `题库ID ${set.id} 重复` });
+    } else {
+      seenSetIds.add(set.id);
+    }
+
+    if (!set.title) {
+      issues.push({ level: 'error', ...setLabel, message: '缺少题库标题' });
+    }
+
+    const pricingTierError = readPricingTiers(set.pricingTiers).error;
+    if (pricingTierError) {
+      issues.push({ level: 'error', ...setLabel, message: pricingTierError });
+    }
+
+    const questions = set.questions || [];
+    if (questions.length === 0) {
+      issues.push({ level: 'warning', ...setLabel, message: '没有题目，只会保存题库信息' });
+    }
+
+    const seenQuestionIds = new Set<string>();
+
+    questions.forEach((question, index) => {
+      const add = (level: ImportIssue['level'], message: string) => issues.push({
+        level,
+        ...setLabel,
+        questionIndex: index + 1,
+        sheet: question.source?.sheet,
+        row: question.source?.row,
+        message
+      });
+      const options = question.options || [];
+      const correctCount = options.filter(option => option.isCorrect).length;
+
+      if (!question.text) {
+        add('error', '题目内容为空');
+      }
+
+      if (question.id) {
+        if (seenQuestionIds.has(question.id)) {
+          add('error', `题目ID ${question.id} 重复`);
+        }
+        seenQuestionIds.add(question.id);
+      }
+
+      const questionType = question.questionType || (correctCount > 1 ? 'multiple' : 'single');
+      const isChoice = questionType === 'single' || questionType === 'multiple';
+
+      if (isChoice && options.length === 0) {
+        add('error', '没有选项');
+      } else if (isChoice && options.length === 1) {
+        add('warning', '只有一个选项');
+      }
+
+      const answerError = validateAnswerOptions(questionType, options);
+      if (answerError) {
+        add('error', answerError);
+      }
+
+      const seenLetters = new Set<string>();
+      options.forEach(option => {
+        const letter = option.optionIndex || '';
+        if (seenLetters.has(letter)) {
+          add('error', `选项字母 ${letter} 重复`);
+        }
+        seenLetters.add(letter);
+
+        if (!option.text) {
+          add('warning', `选项 ${letter} 内容为空`);
+        }
+      });
+
+      if (isChoice && options.length > 0 && correctCount === 0) {
+        add('error', '没有正确选项');
+      }
+
+      const tagError = question.tags ? validateTags(question.tags) : undefined;
+      if (tagError) {
+        add('error', tagError);
+      }
+
+      if (questionType === 'single' && correctCount > 1) {
+        add('error', `单选题有 ${correctCount} 个正确选项`);
+      } else if (questionType === 'multiple' && correctCount === 1) {
+        add('warning', '多选题只有一个正确选项');
+      }
+    });
+  });
+};
+
+/**
+ * 生成导入报告（不写入数据库），parseIssues 为解析文件时发现的问题
+ */
+export const buildImportReport = async (
+  questionSets: ImportedQuestionSet[],
+  parseIssues: ImportIssue[] = []
+): Promise<ImportReport> => {
+  const issues = [...parseIssues];
+  validateQuestionSets(questionSets, issues);
+
+  const previews: ImportPreviewSet[] = [];
+  const newCategories = new Set<string>();
+  for (const set of questionSets) {
+    if (set.category && !newCategories.has(set.category) && !(await resolveCategoryPath(set.category))) {
+      newCategories.add(set.category);
+      issues.push({
+        level: 'warning',
+        message: `分类 "${set.category}" 不存在，导入时将自动创建`,
+        questionSetId: set.id,
+        questionSetTitle: set.title
+      });
+    }
+
+    const existingSet = set.id ? await QuestionSet.findByPk(set.id) : null;
+    const existingQuestions = existingSet ? await loadExistingQuestions(set.id) : [];
+    const questions = set.questions || [];
+
+    // 没有提供题目时保留原有题目，不做比对
+    const { matches, removed } = questions.length > 0
+      ? matchQuestions(existingQuestions, questions)
+      : { matches: [], removed: [] };
+
+    previews.push({
+      id: set.id,
+      title: set.title,
+      category: set.category || existingSet?.category,
+      isPaid: set.isPaid !== undefined ? set.isPaid : existingSet ? existingSet.isPaid : false,
+      price: set.price !== undefined ? set.price : existingSet?.price,
+      action: existingSet ? 'update' : 'create',
+      existingQuestionCount: existingQuestions.filter(q => !q.retiredAt).length,
+      questionCount: questions.length,
+      questions: matches.map(match => ({
+        ...match.question,
+        questionType: resolveQuestionType(match.question),
+        change: match.change,
+        matchedBy: match.matchedBy,
+        existingId: match.existing?.id
+      })),
+      summary: summarizeMatches(matches, removed),
+      removedQuestions: removed.map(q => ({ id: q.id, text: q.text }))
+    });
+  }
+
+  const errorCount = issues.filter(issue => issue.level === 'error').length;
+
+  return {
+    valid: errorCount === 0 && questionSets.length > 0,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    questionSets: previews,
+    issues
+  };
+};
@@ -0,0 +1,189 @@
+/**
+ * 题目标签
+ *
+ * 标签按主题标记题目（如 "子网划分"、"OSPF"），同一标签可以出现在多个题库的题目中，
+ * 按标签练习时从用户可以访问的所有题库中选题。标签比较时不区分大小写
+ */
+import { QueryTypes, Transaction } from 'sequelize';
+import { sequelize } from '../config/db';
+import QuestionTag from '../models/QuestionTag';
+import { PUBLISHED_QUESTION_SET_SQL } from './questionSetAccess';
+import { calculateScore } from './quizGrading';
+
+export const MAX_TAG_LENGTH = 50;
+export const MAX_TAGS_PER_QUESTION = 20;
+
+// 标签之间可以用中英文逗号、分号或顿号分隔
+const TAG_SEPARATORS = /[,，;；、]/;
+
+export interface TagSummary {
+  tag: string;
+  questionCount: number;
+}
+
+// 题目及其所在的题库，题目可能出现在多个题库中
+export interface TaggedQuestionRef {
+  questionId: string;
+  questionSetId: string;
+}
+
+export interface TagAccuracy {
+  tag: string;
+  total: number;
+  answered: number;
+  correct: number;
+  accuracy: number;
+}
+
+/**
+ * 把提交的标签（数组或用分隔符连接的文字）整理为标签列表，去掉空白和重复的标签
+ *
+ * 标签中不能包含分隔符，导出为 CSV 后再导入时标签保持不变
+ */
+export const normalizeTags = (value: unknown): string[] => {
+  const values: unknown[] = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+  const seen = new Set<string>();
+  const tags: string[] = [];
+
+  const parts = values
+    .filter(item => item !== undefined && item !== null)
+    .reduce<string[]>((result, item) => result.concat(String(item).split(TAG_SEPARATORS)), []);
+
+  parts.forEach(part => {
+    const tag = part.replace(/\s+/g, ' ').trim();
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return;
+    seen.add(key);
+    tags.push(tag);
+  });
+
+  return tags;
+};
+
+/**
+ * 检查标签长度和数量，不符合要求时返回错误信息
+ */
+export const validateTags = (tags: string[]): string | undefined => {
+  const tooLong = tags.find(tag => tag.length > MAX_TAG_LENGTH);
+  if (tooLong) {
+    return `标签 "${tooLong}" 超过 ${MAX_TAG_LENGTH} 个字符`;
+  }
+  if (tags.length > MAX_TAGS_PER_QUESTION) {
+    return `每道题最多 ${MAX_TAGS_PER_QUESTION} 个标签`;
+  }
+  return undefined;
+};
+
+export const sortTags = (tags: string[]) => [...tags].sort((a, b) => a.localeCompare(b));
+
+export const isSameTags = (a: string[], b: string[]) =>
+  a.length === b.length && sortTags(a).join('\n') === sortTags(b).join('\n');
+
+/**
+ * 按题目ID加载标签，包括已下线的题目
+ */
+export const loadQuestionTags = async (
+  questionIds: string[],
+  transaction?: Transaction
+): Promise<Map<string, string[]>> => {
+  const tags = new Map<string, string[]>();
+  if (questionIds.length === 0) return tags;
+
+  const rows = await QuestionTag.findAll({
+    where: { questionId: questionIds },
+    attributes: ['questionId', 'tag'],
+    order: [['tag', 'ASC']],
+    transaction
+  });
+
+  rows.forEach(row => tags.set(row.questionId, [...(tags.get(row.questionId) || []), row.tag]));
+  return tags;
+};
+
+/**
+ * 给题目附上标签列表
+ */
+export const attachQuestionTags = async <T extends { id: string }>(
+  questions: T[],
+  transaction?: Transaction
+): Promise<(T & { tags: string[] })[]> => {
+  const tags = await loadQuestionTags(questions.map(q => q.id), transaction);
+  return questions.map(q => ({ ...q, tags: tags.get(q.id) || [] }));
+};
+
+/**
+ * 把题目的标签设置为给定的标签，只删除和新增有变化的标签
+ */
+export const setQuestionTags = async (questionId: string, tags: string[], transaction: Transaction) => {
+  const existing = await QuestionTag.findAll({ where: { questionId }, transaction });
+
+  // 先删除再新增，只改了大小写的标签不会与唯一索引冲突
+  const staleIds = existing.filter(row => !tags.includes(row.tag)).map(row => row.id);
+  if (staleIds.length > 0) {
+    await QuestionTag.destroy({ where: { id: staleIds }, transaction });
+  }
+
+  const newTags = tags.filter(tag => !existing.some(row => row.tag === tag));
+  if (newTags.length > 0) {
+    await QuestionTag.bulkCreate(newTags.map(tag => ({ questionId, tag })), { transaction, validate: true });
+  }
+};
+
+/**
+ * 全部标签及使用该标签的题目数，默认只统计已发布题库中的题目
+ */
+export const listTags = async (includeUnpublished = false): Promise<TagSummary[]> => {
+  const rows = await sequelize.query<{ tag: string; questionCount: number }>(`
+    SELECT qt.tag, COUNT(DISTINCT qt.questionId) AS questionCount
+    FROM question_tags qt
+    JOIN question_set_questions l ON l.questionId = qt.questionId
+    JOIN question_sets qs ON qs.id = l.questionSetId
+    ${includeUnpublished ? '' : `WHERE ${PUBLISHED_QUESTION_SET_SQL}`}
+    GROUP BY qt.tag
+    ORDER BY questionCount DESC, qt.tag ASC
+  `, { type: QueryTypes.SELECT });
+
+  return rows.map(row => ({ tag: row.tag, questionCount: Number(row.questionCount) }));
+};
+
+/**
+ * 带有任一给定标签的题目及其所在题库，默认只查已发布的题库
+ *
+ * 是否有权作答（付费、试用）由调用方再用 filterAccessibleQuestions 过滤
+ */
+export const findTaggedQuestionRefs = (tags: string[], includeUnpublished = false) =>
+  sequelize.query<TaggedQuestionRef>(`
+    SELECT DISTINCT l.questionId, l.questionSetId, l.orderIndex
+    FROM question_tags qt
+    JOIN question_set_questions l ON l.questionId = qt.questionId
+    JOIN question_sets qs ON qs.id = l.questionSetId
+    WHERE qt.tag IN (:tags)${includeUnpublished ? '' : ` AND ${PUBLISHED_QUESTION_SET_SQL}`}
+    ORDER BY l.questionSetId, l.orderIndex
+  `, { replacements: { tags }, type: QueryTypes.SELECT });
+
+/**
+ * 按标签统计答题正确率，未作答的题目计为答错，与总分的计算方式一致
+ *
+ * 正确率低的标签排在前面，方便找出薄弱的主题
+ */
+export const summarizeTagAccuracy = (
+  questions: { id: string; tags?: string[] }[],
+  results: { questionId: string; isCorrect: boolean }[]
+): TagAccuracy[] => {
+  const stats = new Map<string, TagAccuracy>();
+
+  questions.forEach(question => {
+    const result = results.find(r => r.questionId === question.id);
+    (question.tags || []).forEach(tag => {
+      const stat = stats.get(tag) || { tag, total: 0, answered: 0, correct: 0, accuracy: 0 };
+      stat.total++;
+      if (result) stat.answered++;
+      if (result && result.isCorrect) stat.correct++;
+      stats.set(tag, stat);
+    });
+  });
+
+  return Array.from(stats.values())
+    .map(stat => ({ ...stat, accuracy: calculateScore(stat.correct, stat.total) }))
+    .sort((a, b) => a.accuracy - b.accuracy || a.tag.localeCompare(b.tag));
+};
@@ -0,0 +1,185 @@
+/**
+ * 题型
+ *
+ * 所有题型的答案都保存在选项表中：
+ * - single / multiple：选择题，isCorrect 标记正确选项
+ * - truefalse：判断题，两个选项（默认为 "正确"、"错误"），其中一个为正确选项
+ * - fill：填空题，每个选项是一种可以接受的答案写法，比较时忽略大小写、全半角和多余空白
+ * - ordering：排序题，选项按正确顺序保存（optionIndex 为 A、B、C...）
+ * - matching：匹配题，选项为左侧项，matchText 为与之配对的右侧项
+ *
+ * 作答时选择题和排序题提交选项ID（排序题按排列顺序），填空题提交填写的文字，
+ * 匹配题按选项顺序提交每个左侧项选择的右侧项
+ */
+import { QuestionType, QuestionContentFormat } from '../models/Question';
+
+export const QUESTION_TYPES: QuestionType[] = ['single', 'multiple', 'truefalse', 'fill', 'ordering', 'matching'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: '单选题',
+  multiple: '多选题',
+  truefalse: '判断题',
+  fill: '填空题',
+  ordering: '排序题',
+  matching: '匹配题'
+};
+
+// 判断题未提供选项时使用的选项
+export const TRUE_FALSE_OPTIONS = ['正确', '错误'];
+
+// 导入文件中匹配题选项的写法："左侧项 => 右侧项"
+export const MATCH_SEPARATOR = '=>';
+
+// 导入文件中填空题多个可接受答案的分隔符
+export const FILL_ANSWER_SEPARATOR = '|';
+
+export interface AnswerOption {
+  optionIndex?: string;
+  text: string;
+  isCorrect: boolean;
+  matchText?: string | null;
+}
+
+// 题型别名，统一转成小写后匹配，用于导入文件和旧客户端
+const TYPE_ALIASES: Record<string, QuestionType> = {
+  'single': 'single',
+  '单选': 'single',
+  '单选题': 'single',
+  'multiple': 'multiple',
+  'multi': 'multiple',
+  '多选': 'multiple',
+  '多选题': 'multiple',
+  'truefalse': 'truefalse',
+  'true_false': 'truefalse',
+  'true-false': 'truefalse',
+  'judge': 'truefalse',
+  '判断': 'truefalse',
+  '判断题': 'truefalse',
+  'fill': 'fill',
+  'blank': 'fill',
+  '填空': 'fill',
+  '填空题': 'fill',
+  'ordering': 'ordering',
+  'order': 'ordering',
+  'sort': 'ordering',
+  '排序': 'ordering',
+  '排序题': 'ordering',
+  'matching': 'matching',
+  'match': 'matching',
+  '匹配': 'matching',
+  '匹配题': 'matching',
+  '连线': 'matching',
+  '连线题': 'matching'
+};
+
+/**
+ * 识别题型，支持中英文写法，无法识别时返回 undefined
+ */
+export const parseQuestionType = (value: unknown): QuestionType | undefined =>
+  typeof value === 'string' ? TYPE_ALIASES[value.trim().toLowerCase()] : undefined;
+
+/**
+ * 识别题目内容格式（text / markdown），未提供或无法识别时返回 undefined，由调用方决定保留原格式还是按纯文字处理
+ */
+export const parseContentFormat = (value: unknown): QuestionContentFormat | undefined => {
+  const format = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return format === 'text' || format === 'markdown' ? format : undefined;
+};
+
+/**
+ * 选择题（包括判断题）按选项ID作答，isCorrect 标记正确选项
+ */
+export const isChoiceType = (questionType: string) =>
+  questionType === 'single' || questionType === 'multiple' || questionType === 'truefalse';
+
+const TRUE_VALUES = ['true', 't', 'yes', 'y', '1', '对', '正确', '是', '√', '✓'];
+const FALSE_VALUES = ['false', 'f', 'no', 'n', '0', '错', '错误', '否', '×', '✗'];
+
+/**
+ * 识别判断题的答案写法，无法识别时返回 undefined
+ */
+export const parseTrueFalse = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  const text = String(value === undefined || value === null ? '' : value).trim().toLowerCase();
+  if (TRUE_VALUES.includes(text)) return true;
+  if (FALSE_VALUES.includes(text)) return false;
+  return undefined;
+};
+
+/**
+ * 填空题答案的比较形式：全角转半角、合并空白、忽略大小写
+ */
+export const normalizeAnswerText = (value: unknown) =>
+  String(value === undefined || value === null ? '' : value)
+    .normalize('NFKC')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+export const sortOptions = <T extends { optionIndex: string }>(options: T[]) =>
+  [...options].sort((a, b) => a.optionIndex.localeCompare(b.optionIndex));
+
+/**
+ * 按题型整理选项：
+ * - 判断题没有选项时按 correctAnswer 生成 "正确"、"错误" 两个选项
+ * - 填空题没有选项时把 correctAnswer 中的每种写法作为选项
+ * - 填空、排序和匹配题的选项都是答案的一部分，全部标记为正确
+ */
+export const resolveAnswerOptions = <T extends AnswerOption>(
+  questionType: QuestionType,
+  options: T[],
+  correctAnswer?: unknown
+): (T | AnswerOption & { optionIndex: string })[] => {
+  const answers = (Array.isArray(correctAnswer) ? correctAnswer : correctAnswer !== undefined && correctAnswer !== null ? [correctAnswer] : [])
+    .map(value => String(value).trim())
+    .filter(value => value !== '');
+
+  if (questionType === 'truefalse' && options.length === 0) {
+    const answer = answers.length > 0 ? parseTrueFalse(answers[0]) : undefined;
+    const isTrue = answer !== undefined ? answer : answers[0] === 'A' ? true : answers[0] === 'B' ? false : undefined;
+    return TRUE_FALSE_OPTIONS.map((text, j) => ({
+      optionIndex: String.fromCharCode(65 + j),
+      text,
+      isCorrect: isTrue === undefined ? false : j === 0 ? isTrue : !isTrue
+    }));
+  }
+
+  if (questionType === 'fill' && options.length === 0) {
+    return answers.map((text, j) => ({ optionIndex: String.fromCharCode(65 + j), text, isCorrect: true }));
+  }
+
+  if (questionType === 'fill' || questionType === 'ordering' || questionType === 'matching') {
+    return options.map(option => ({ ...option, isCorrect: true }));
+  }
+
+  return options;
+};
+
+/**
+ * 检查选项是否符合题型要求，返回错误信息；单选、多选题的检查由调用方按原有规则处理
+ */
+export const validateAnswerOptions = (questionType: QuestionType, options: AnswerOption[]): string | undefined => {
+  const correctCount = options.filter(option => option.isCorrect).length;
+
+  switch (questionType) {
+    case 'truefalse':
+      if (options.length !== 2) return '判断题必须有两个选项';
+      if (correctCount !== 1) return '判断题必须有且只有一个正确选项';
+      return undefined;
+    case 'fill':
+      if (options.every(option => !option.text.trim())) return '填空题至少需要一个可接受的答案';
+      return undefined;
+    case 'ordering':
+      if (options.length < 2) return '排序题至少需要两个排序项';
+      if (options.some(option => !option.text.trim())) return '排序项内容不能为空';
+      return undefined;
+    case 'matching':
+      if (options.length < 2) return '匹配题至少需要两组配对';
+      if (options.some(option => !option.text.trim() || !(option.matchText || '').trim())) {
+        return '匹配题的每组配对都需要填写左侧项和右侧项';
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+};
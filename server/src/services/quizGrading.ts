@@ -0,0 +1,185 @@
+/**
+ * 服务端判题
+ *
+ * 正确答案只在服务端使用，返回给前端的题目必须先经过 toPublicQuestion 处理。
+ * 各题型的作答格式见 services/questionTypes
+ */
+import crypto from 'crypto';
+import { Op } from 'sequelize';
+import Question from '../models/Question';
+import Option from '../models/Option';
+import { attachQuestionTags } from './questionTags';
+import { normalizeAnswerText, sortOptions } from './questionTypes';
+
+export interface GradableOption {
+  id: string;
+  text: string;
+  isCorrect: boolean;
+  optionIndex: string;
+  matchText?: string | null;
+}
+
+export interface GradableQuestion {
+  id: string;
+  text: string;
+  questionType: string;
+  explanation: string;
+  contentFormat?: string;
+  orderIndex?: number; // 题目在题库中的顺序，按ID加载时没有
+  options?: GradableOption[];
+  tags?: string[];
+}
+
+export interface GradingResult {
+  questionId: string;
+  isCorrect: boolean;
+  selectedOptions: string[];
+  correctOptions: string[];
+  explanation: string;
+}
+
+// 排序题下发时的选项顺序：按题目和选项ID的哈希排列，每次相同，且与正确顺序无关
+const scrambleKey = (questionId: string, optionId: string) =>
+  crypto.createHash('sha1').update(`${questionId}:${optionId}`).digest('hex');
+
+/**
+ * 去掉正确答案，得到可以下发给前端的题目
+ *
+ * - 填空题不下发选项（选项即答案）
+ * - 排序题打乱选项顺序并去掉字母（字母顺序即正确顺序）
+ * - 匹配题另外下发按文字排序的右侧项 matchChoices
+ */
+export const toPublicQuestion = (question: GradableQuestion) => {
+  const options = sortOptions(question.options || []);
+  const publicOptions = question.questionType === 'fill'
+    ? []
+    : question.questionType === 'ordering'
+      ? options
+        .map(o => ({ id: o.id, text: o.text, key: scrambleKey(question.id, o.id) }))
+        .sort((a, b) => a.key.localeCompare(b.key))
+        .map(({ id, text }) => ({ id, text }))
+      : options.map(o => ({
+        id: o.id,
+        text: o.text,
+        optionIndex: o.optionIndex
+      }));
+
+  return {
+    id: question.id,
+    text: question.text,
+    questionType: question.questionType,
+    contentFormat: question.contentFormat || 'text',
+    orderIndex: question.orderIndex,
+    options: publicOptions,
+    ...(question.questionType === 'matching' ? {
+      matchChoices: Array.from(new Set(options.map(o => o.matchText || ''))).sort((a, b) => a.localeCompare(b))
+    } : {}),
+    tags: question.tags || []
+  };
+};
+
+/**
+ * 把前端提交的选项统一为选项ID，兼容按字母（A、B、C）提交的情况
+ */
+const normalizeSelection = (question: GradableQuestion, selected: unknown): string[] => {
+  const values = Array.isArray(selected) ? selected : [selected];
+  const options = question.options || [];
+
+  const ids = values
+    .filter(v => v !== undefined && v !== null && v !== '')
+    .map(v => {
+      const value = String(v);
+      const option = options.find(o => o.id === value || o.optionIndex === value);
+      return option ? option.id : value;
+    });
+
+  return [...new Set(ids)];
+};
+
+const toAnswerList = (selected: unknown) =>
+  (Array.isArray(selected) ? selected : [selected])
+    .map(v => (v === undefined || v === null ? '' : String(v).trim()));
+
+/**
+ * 判定一道题的作答结果：
+ * - 选择题选中的选项必须与正确选项完全一致
+ * - 填空题与任一可接受的答案相同即为正确，correctOptions 为全部可接受的答案
+ * - 排序题按选项ID提交排列顺序，correctOptions 为正确顺序的选项ID
+ * - 匹配题按选项字母顺序提交每个左侧项选择的右侧项，correctOptions 为正确的右侧项
+ */
+export const gradeAnswer = (question: GradableQuestion, selected: unknown): GradingResult => {
+  const options = sortOptions(question.options || []);
+  const grade = (selectedOptions: string[], correctOptions: string[], isCorrect: boolean): GradingResult => ({
+    questionId: question.id,
+    isCorrect,
+    selectedOptions,
+    correctOptions,
+    explanation: question.explanation
+  });
+
+  if (question.questionType === 'fill') {
+    const answer = toAnswerList(selected).find(v => v !== '');
+    const accepted = options.map(o => o.text);
+    return grade(
+      answer ? [answer] : [],
+      accepted,
+      !!answer && accepted.some(text => normalizeAnswerText(text) === normalizeAnswerText(answer))
+    );
+  }
+
+  if (question.questionType === 'matching') {
+    const answers = toAnswerList(selected).slice(0, options.length);
+    const pairs = options.map(o => o.matchText || '');
+    return grade(
+      answers,
+      pairs,
+      pairs.length > 0 && pairs.every((text, i) => normalizeAnswerText(text) === normalizeAnswerText(answers[i]))
+    );
+  }
+
+  const selectedOptions = normalizeSelection(question, selected);
+
+  if (question.questionType === 'ordering') {
+    const sequence = options.map(o => o.id);
+    return grade(
+      selectedOptions,
+      sequence,
+      sequence.length > 0 &&
+        selectedOptions.length === sequence.length &&
+        sequence.every((id, i) => selectedOptions[i] === id)
+    );
+  }
+
+  const correctOptions = options.filter(o => o.isCorrect).map(o => o.id);
+
+  const isCorrect =
+    correctOptions.length > 0 &&
+    selectedOptions.length === correctOptions.length &&
+    selectedOptions.every(id => correctOptions.includes(id));
+
+  return grade(selectedOptions, correctOptions, isCorrect);
+};
+
+/**
+ * 计算百分制得分
+ */
+export const calculateScore = (correctCount: number, totalQuestions: number): number => {
+  if (totalQuestions <= 0) return 0;
+  return Math.round((correctCount / totalQuestions) * 100);
+};
+
+/**
+ * 按ID加载题目及选项、标签（含正确答案，仅供服务端判题使用）
+ *
+ * 包含已下线的题目，错题本和复习计划中的记录仍然可以查看
+ */
+export const loadGradableQuestionsByIds = async (questionIds: string[]): Promise<GradableQuestion[]> => {
+  if (questionIds.length === 0) return [];
+
+  const questions = await Question.unscoped().findAll({
+    where: { id: { [Op.in]: questionIds } },
+    include: [{ model: Option, as: 'options' }]
+  });
+
+  return attachQuestionTags(questions.map(q => q.get({ plain: true }) as unknown as GradableQuestion));
+};
@@ -0,0 +1,105 @@
+/**
+ * 间隔复习（SM-2 算法）
+ *
+ * 每次作答后根据回答质量（0-5）更新难度系数、复习间隔和下次复习日期
+ */
+import ReviewSchedule from '../models/ReviewSchedule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+
+// 答对时默认按"记得"处理，答错为"忘记"
+export const DEFAULT_CORRECT_QUALITY = 4;
+export const DEFAULT_WRONG_QUALITY = 1;
+
+export interface ScheduleState {
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+}
+
+/**
+ * 计算下一次复习状态，quality < 3 视为遗忘，重新从1天开始
+ */
+export const nextSchedule = (state: ScheduleState, quality: number): ScheduleState => {
+  const q = Math.min(5, Math.max(0, Math.round(quality)));
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  );
+
+  if (q < 3) {
+    return {
+      easeFactor,
+      interval: 1,
+      repetitions: 0,
+      lapses: state.lapses + 1
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+  let interval: number;
+  if (repetitions === 1) {
+    interval = 1;
+  } else if (repetitions === 2) {
+    interval = 6;
+  } else {
+    interval = Math.round(state.interval * state.easeFactor);
+  }
+
+  return {
+    easeFactor,
+    interval,
+    repetitions,
+    lapses: state.lapses
+  };
+};
+
+/**
+ * 把回答质量转换为0-5，未指定时按对错取默认值
+ */
+export const resolveQuality = (isCorrect: boolean, quality?: unknown): number => {
+  const value = Number(quality);
+  if (quality !== undefined && quality !== null && !isNaN(value)) {
+    // 答错时不允许自评为"记得"
+    return isCorrect ? Math.min(5, Math.max(3, value)) : Math.min(2, Math.max(0, value));
+  }
+  return isCorrect ? DEFAULT_CORRECT_QUALITY : DEFAULT_WRONG_QUALITY;
+};
+
+/**
+ * 记录一次作答并更新复习计划
+ */
+export const scheduleReview = async (
+  userId: string,
+  questionSetId: string,
+  questionId: string,
+  quality: number
+): Promise<ReviewSchedule> => {
+  const existing = await ReviewSchedule.findOne({ where: { userId, questionId } });
+  const now = new Date();
+
+  const state = nextSchedule(
+    existing || { easeFactor: 2.5, interval: 0, repetitions: 0, lapses: 0 },
+    quality
+  );
+  const dueDate = new Date(now.getTime() + state.interval * DAY_MS);
+
+  if (existing) {
+    return existing.update({
+      ...state,
+      dueDate,
+      lastReviewedAt: now
+    });
+  }
+
+  return ReviewSchedule.create({
+    userId,
+    questionId,
+    questionSetId,
+    ...state,
+    dueDate,
+    lastReviewedAt: now
+  });
+};
@@ -0,0 +1,118 @@
+import stripe, { stripeProvider } from './stripe';
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+
+// Build a webhook request the way Stripe sends it, signed with the test secret
+const signedWebhook = (type: string, object: Record<string, unknown>, secret = WEBHOOK_SECRET) => {
+  const payload = JSON.stringify({
+    id: `evt_${type}`,
+    object: 'event',
+    type,
+    created: Math.floor(Date.now() / 1000),
+    data: { object }
+  });
+  const signature = stripe.webhooks.generateTestHeaderString({ payload, secret });
+  return { payload, headers: { 'stripe-signature': signature } };
+};
+
+const paymentIntent = (overrides: Record<string, unknown> = {}) => ({
+  id: 'pi_test',
+  object: 'payment_intent',
+  amount: 2990,
+  amount_received: 2990,
+  currency: 'cny',
+  status: 'succeeded',
+  ...overrides
+});
+
+const charge = (amountRefunded: number, refunded: boolean) => ({
+  id: 'ch_test',
+  object: 'charge',
+  payment_intent: 'pi_test',
+  amount: 2990,
+  amount_refunded: amountRefunded,
+  refunded
+});
+
+describe('stripeProvider.parseWebhook', () => {
+  const originalSecret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  beforeAll(() => {
+    process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  });
+
+  afterAll(() => {
+    process.env.STRIPE_WEBHOOK_SECRET = originalSecret;
+  });
+
+  it('maps payment_intent.succeeded to succeeded with the amount in yuan', () => {
+    const { payload, headers } = signedWebhook('payment_intent.succeeded', paymentIntent());
+
+    expect(stripeProvider.parseWebhook(payload, headers)).toEqual({
+      type: 'succeeded',
+      eventId: 'evt_payment_intent.succeeded',
+      transactionId: 'pi_test',
+      amountReceived: 29.9
+    });
+  });
+
+  it('ignores payment_intent.payment_failed, since the customer can retry the same intent', () => {
+    const { payload, headers } = signedWebhook(
+      'payment_intent.payment_failed',
+      paymentIntent({ amount_received: 0, status: 'requires_payment_method' })
+    );
+
+    expect(stripeProvider.parseWebhook(payload, headers)).toEqual({
+      type: 'ignored',
+      eventId: 'evt_payment_intent.payment_failed',
+      providerType: 'payment_intent.payment_failed'
+    });
+  });
+
+  it('maps payment_intent.canceled to failed', () => {
+    const { payload, headers } = signedWebhook(
+      'payment_intent.canceled',
+      paymentIntent({ amount_received: 0, status: 'canceled' })
+    );
+
+    expect(stripeProvider.parseWebhook(payload, headers)).toMatchObject({ type: 'failed', transactionId: 'pi_test' });
+  });
+
+  it('maps a full charge.refunded to a full refund', () => {
+    const { payload, headers } = signedWebhook('charge.refunded', charge(2990, true));
+
+    expect(stripeProvider.parseWebhook(payload, headers)).toMatchObject({
+      type: 'refunded',
+      transactionId: 'pi_test',
+      amountRefunded: 29.9,
+      fullyRefunded: true
+    });
+  });
+
+  it('maps a partial charge.refunded to a partial refund', () => {
+    const { payload, headers } = signedWebhook('charge.refunded', charge(1000, false));
+
+    expect(stripeProvider.parseWebhook(payload, headers)).toMatchObject({
+      type: 'refunded',
+      amountRefunded: 10,
+      fullyRefunded: false
+    });
+  });
+
+  it('rejects an event signed with another secret', () => {
+    const { payload, headers } = signedWebhook('payment_intent.succeeded', paymentIntent(), 'whsec_other');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() => stripeProvider.parseWebhook(payload, headers)).toThrow();
+    consoleError.mockRestore();
+  });
+
+  it('rejects a payload changed after signing', () => {
+    const { payload, headers } = signedWebhook('payment_intent.succeeded', paymentIntent({ amount_received: 1 }));
+    const tampered = payload.replace('"amount_received":1', '"amount_received":2990');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() => stripeProvider.parseWebhook(tampered, headers)).toThrow();
+    consoleError.mockRestore();
+  });
+});
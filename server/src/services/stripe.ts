@@ -1,5 +1,6 @@
 import Stripe from 'stripe';
 import dotenv from 'dotenv';
+import { PaymentProvider, PaymentEvent } from './paymentProvider';
 
 dotenv.config();
 
@@ -8,68 +9,124 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
   apiVersion: '2023-10-16', // Use the latest API version
 });
 
-interface PaymentIntentParams {
-  amount: number;
-  currency: string;
-  metadata?: Record<string, string>;
-}
+// Stripe amounts are in the smallest currency unit (fen / cents)
+const toMinorUnits = (amount: number) => Math.round(amount * 100);
+const fromMinorUnits = (amount: number) => amount / 100;
+
+const getPaymentIntentId = (paymentIntent: string | Stripe.PaymentIntent | null) =>
+  !paymentIntent ? '' : typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
 
 /**
- * Create a payment intent with Stripe
+ * Verify the Stripe-Signature header and build the event
+ * The payload must be the raw request body, otherwise the signature check fails
  */
-export const stripePaymentIntent = async (params: PaymentIntentParams) => {
+export const constructEvent = (payload: string | Buffer, signature: string) => {
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!webhookSecret) {
+    throw new Error('Missing Stripe webhook secret');
+  }
+
   try {
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: params.amount,
-      currency: params.currency,
-      metadata: params.metadata,
-      automatic_payment_methods: {
-        enabled: true,
-      },
-    });
-
-    return paymentIntent;
+    return stripe.webhooks.constructEvent(payload, signature, webhookSecret);
   } catch (error) {
-    console.error('Stripe payment intent error:', error);
+    console.error('Stripe webhook construction error:', error);
     throw error;
   }
 };
 
 /**
- * Verify a payment intent status
+ * Map a Stripe event to a provider-independent payment event
  */
-export const verifyPaymentIntent = async (paymentIntentId: string) => {
-  try {
-    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
-    
-    return {
-      status: paymentIntent.status,
-      amount: paymentIntent.amount,
-      metadata: paymentIntent.metadata,
-      isSuccessful: paymentIntent.status === 'succeeded'
-    };
-  } catch (error) {
-    console.error('Stripe verify payment intent error:', error);
-    throw error;
+const toPaymentEvent = (event: Stripe.Event): PaymentEvent => {
+  switch (event.type) {
+    case 'payment_intent.succeeded': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      return {
+        type: 'succeeded',
+        eventId: event.id,
+        transactionId: paymentIntent.id,
+        amountReceived: fromMinorUnits(paymentIntent.amount_received)
+      };
+    }
+    // A declined attempt (payment_intent.payment_failed) is not final: the customer can retry
+    // the same intent with another card, so only cancellation fails the purchase
+    case 'payment_intent.canceled': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      return { type: 'failed', eventId: event.id, transactionId: paymentIntent.id };
+    }
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      return {
+        type: 'refunded',
+        eventId: event.id,
+        transactionId: getPaymentIntentId(charge.payment_intent),
+        amountRefunded: fromMinorUnits(charge.amount_refunded),
+        fullyRefunded: charge.refunded
+      };
+    }
+    default:
+      return { type: 'ignored', eventId: event.id, providerType: event.type };
   }
 };
 
 /**
- * Create a webhook event from payload
+ * Stripe payment provider
+ * Available payment methods (card, Alipay, WeChat Pay) follow the Stripe dashboard settings
  */
-export const constructEvent = (payload: string, signature: string) => {
-  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
-  
-  if (!webhookSecret) {
-    throw new Error('Missing Stripe webhook secret');
-  }
+export const stripeProvider: PaymentProvider = {
+  name: 'stripe',
 
-  try {
-    return stripe.webhooks.constructEvent(payload, signature, webhookSecret);
-  } catch (error) {
-    console.error('Stripe webhook construction error:', error);
-    throw error;
-  }
+  createIntent: async ({ amount, currency, metadata }) => {
+    try {
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: toMinorUnits(amount),
+        currency,
+        metadata,
+        automatic_payment_methods: {
+          enabled: true,
+        },
+      });
+
+      return { id: paymentIntent.id, clientSecret: paymentIntent.client_secret };
+    } catch (error) {
+      console.error('Stripe payment intent error:', error);
+      throw error;
+    }
+  },
+
+  verify: async (transactionId) => {
+    try {
+      const paymentIntent = await stripe.paymentIntents.retrieve(transactionId);
+
+      return {
+        status: paymentIntent.status === 'succeeded'
+          ? 'succeeded'
+          : paymentIntent.status === 'canceled' ? 'failed' : 'pending',
+        amountReceived: fromMinorUnits(paymentIntent.amount_received)
+      };
+    } catch (error) {
+      console.error('Stripe verify payment intent error:', error);
+      throw error;
+    }
+  },
+
+  refund: async (transactionId, amount) => {
+    try {
+      const refund = await stripe.refunds.create({
+        payment_intent: transactionId,
+        ...(amount !== undefined ? { amount: toMinorUnits(amount) } : {})
+      });
+
+      return { id: refund.id, amount: fromMinorUnits(refund.amount) };
+    } catch (error) {
+      console.error('Stripe refund error:', error);
+      throw error;
+    }
+  },
+
+  parseWebhook: (payload, headers) =>
+    toPaymentEvent(constructEvent(payload, headers['stripe-signature'] as string))
 };
 
-export default stripe; 
\ No newline at end of file
+export default stripe;
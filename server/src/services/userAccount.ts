@@ -0,0 +1,95 @@
+/**
+ * 用户账户数据
+ *
+ * 学习进度、购买记录和兑换码分别保存在 user_progress / purchases / redeem_codes 表，
+ * 个人资料和管理员用户列表都从这里汇总，前端拿到的 user 对象结构保持不变
+ */
+import { Op } from 'sequelize';
+import Purchase from '../models/Purchase';
+import Bundle from '../models/Bundle';
+import BundlePurchase from '../models/BundlePurchase';
+import QuestionSet from '../models/QuestionSet';
+import RedeemCode from '../models/RedeemCode';
+import User, { UserAttributes } from '../models/User';
+import UserProgress from '../models/UserProgress';
+
+export interface AccountData {
+  progress: Record<string, ReturnType<typeof formatProgress>>;
+  purchases: Purchase[];
+  redeemCodes: ReturnType<typeof formatRedeemCode>[];
+}
+
+export const formatProgress = (record: UserProgress) => ({
+  completedQuestions: record.completedQuestions,
+  totalQuestions: record.totalQuestions,
+  correctAnswers: record.correctAnswers,
+  lastAccessed: record.lastAccessed
+});
+
+const formatRedeemCode = (code: RedeemCode) => ({
+  code: code.code,
+  questionSetId: code.questionSetId,
+  validityDays: code.validityDays,
+  createdAt: code.createdAt,
+  usedBy: code.usedBy,
+  usedAt: code.usedAt
+});
+
+/**
+ * 批量加载多个用户的进度、购买记录和已使用的兑换码
+ */
+export const loadAccountData = async (userIds: string[]): Promise<Map<string, AccountData>> => {
+  const accounts = new Map<string, AccountData>();
+  userIds.forEach(id => accounts.set(id, { progress: {}, purchases: [], redeemCodes: [] }));
+  if (userIds.length === 0) return accounts;
+
+  const [progressRecords, purchases, redeemCodes] = await Promise.all([
+    UserProgress.findAll({ where: { userId: { [Op.in]: userIds } } }),
+    // 未完成支付（pending、failed）的记录不属于用户的购买
+    Purchase.findAll({
+      where: { userId: { [Op.in]: userIds }, status: { [Op.in]: ['completed', 'refunded'] } },
+      include: [
+        { model: QuestionSet, as: 'questionSet', attributes: ['id', 'title', 'category', 'icon'] },
+        {
+          model: BundlePurchase,
+          as: 'bundlePurchase',
+          attributes: ['id', 'bundleId', 'amount', 'refundedAmount'],
+          include: [{ model: Bundle, as: 'bundle', attributes: ['id', 'title'] }]
+        }
+      ],
+      order: [['purchaseDate', 'DESC']]
+    }),
+    RedeemCode.findAll({
+      where: { usedBy: { [Op.in]: userIds } },
+      order: [['usedAt', 'DESC']]
+    })
+  ]);
+
+  progressRecords.forEach(record => {
+    accounts.get(record.userId)!.progress[record.questionSetId] = formatProgress(record);
+  });
+  purchases.forEach(purchase => {
+    accounts.get(purchase.userId)!.purchases.push(purchase);
+  });
+  redeemCodes.forEach(code => {
+    accounts.get(code.usedBy as string)!.redeemCodes.push(formatRedeemCode(code));
+  });
+
+  return accounts;
+};
+
+/**
+ * 组装返回给前端的用户资料（不含密码）
+ */
+export const buildUserProfiles = async (users: User[]) => {
+  const accounts = await loadAccountData(users.map(user => user.id));
+
+  return users.map(user => {
+    const profile: Partial<UserAttributes> = user.get({ plain: true });
+    delete profile.password;
+    return {
+      ...profile,
+      ...accounts.get(user.id)
+    };
+  });
+};
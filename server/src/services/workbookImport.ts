@@ -0,0 +1,232 @@
+/**
+ * Excel 题库导入
+ *
+ * 两种工作簿结构：
+ * - 每个工作表是一个题库，有多个工作表时以工作表名作为题库标题
+ * - 包含名为"题库信息"（或 metadata）的工作表，每行描述一个题库，"工作表"列指向存放题目的工作表
+ *
+ * 题目工作表的列与 CSV 导入相同，错误按工作表和行号返回
+ */
+import { Workbook } from 'exceljs';
+import { v4 as uuidv4 } from 'uuid';
+import { QuestionSetStatus } from '../models/QuestionSet';
+import { rowsToQuestions, ImportedQuestionSet, ImportIssue } from './questionSetImport';
+
+export interface WorkbookSheet {
+  name: string;
+  rows: string[][];
+}
+
+type QuestionSetFields = Partial<Omit<ImportedQuestionSet, 'questions'>>;
+
+const METADATA_SHEET_NAMES = ['题库信息', 'metadata'];
+
+// 题库信息表头别名，统一转成小写后匹配
+const METADATA_ALIASES: Record<string, keyof QuestionSetFields | 'sheet'> = {
+  'sheet': 'sheet',
+  '工作表': 'sheet',
+  'id': 'id',
+  '题库id': 'id',
+  'title': 'title',
+  '标题': 'title',
+  '题库名称': 'title',
+  'description': 'description',
+  '描述': 'description',
+  '简介': 'description',
+  'category': 'category',
+  '分类': 'category',
+  'icon': 'icon',
+  '图标': 'icon',
+  'ispaid': 'isPaid',
+  '是否付费': 'isPaid',
+  'price': 'price',
+  '价格': 'price',
+  'trialquestions': 'trialQuestions',
+  '试用题数': 'trialQuestions',
+  'pricingtiers': 'pricingTiers',
+  '价格档位': 'pricingTiers',
+  'isfeatured': 'isFeatured',
+  '是否推荐': 'isFeatured',
+  'status': 'status',
+  '状态': 'status'
+};
+
+const TRUE_VALUES = ['true', '1', 'yes', 'y', '是'];
+
+const STATUS_VALUES: Record<string, QuestionSetStatus> = {
+  'draft': 'draft',
+  '草稿': 'draft',
+  'review': 'review',
+  '审核中': 'review',
+  'published': 'published',
+  '已发布': 'published'
+};
+
+// 价格档位单元格为导出时写入的 JSON 数组，内容在导入校验时检查
+const parsePricingTiers = (value: string) => {
+  try {
+    return { value: JSON.parse(value) };
+  } catch {
+    return { error: '价格档位格式不正确，应为 JSON 数组，如 [{"durationDays":30,"price":19.9}]' };
+  }
+};
+
+const isBlankRow = (row: string[]) => row.every(value => value.trim() === '');
+
+/**
+ * 读取 .xlsx 文件中所有工作表的单元格文本，行号与 Excel 中显示的一致
+ */
+export const readWorkbookSheets = async (filePath: string): Promise<WorkbookSheet[]> => {
+  const workbook = new Workbook();
+  await workbook.xlsx.readFile(filePath);
+
+  return workbook.worksheets.map(worksheet => {
+    const rows: string[][] = [];
+    for (let r = 1; r <= worksheet.rowCount; r++) {
+      const row = worksheet.getRow(r);
+      const values: string[] = [];
+      for (let c = 1; c <= worksheet.columnCount; c++) {
+        values.push((row.getCell(c).text || '').replace(/\r\n/g, '\n'));
+      }
+      rows.push(values);
+    }
+    return { name: worksheet.name, rows };
+  });
+};
+
+/**
+ * 读取工作表中的题目，错误带上工作表名
+ */
+const readSheetQuestions = (sheet: WorkbookSheet, errors: ImportIssue[]) => {
+  const result = rowsToQuestions(sheet.rows);
+  result.errors.forEach(error => errors.push({ ...error, sheet: sheet.name }));
+  result.questions.forEach(question => {
+    question.source = { ...question.source, sheet: sheet.name };
+  });
+
+  if (result.errors.length === 0 && result.questions.length === 0) {
+    errors.push({ level: 'error', sheet: sheet.name, message: '工作表中没有题目' });
+  }
+
+  return result.questions;
+};
+
+/**
+ * 解析"题库信息"工作表，每个非空行对应一个题库
+ */
+const readMetadataSheet = (
+  metadataSheet: WorkbookSheet,
+  questionSheets: WorkbookSheet[],
+  defaults: QuestionSetFields,
+  errors: ImportIssue[]
+): ImportedQuestionSet[] => {
+  const questionSets: ImportedQuestionSet[] = [];
+  const header = (metadataSheet.rows[0] || []).map(cell => METADATA_ALIASES[cell.trim().toLowerCase()]);
+
+  if (!header.includes('title')) {
+    errors.push({ level: 'error', sheet: metadataSheet.name, row: 1, message: '表头缺少"标题"列' });
+    return questionSets;
+  }
+
+  for (let r = 1; r < metadataSheet.rows.length; r++) {
+    const row = metadataSheet.rows[r];
+    const rowNumber = r + 1;
+    if (isBlankRow(row)) continue;
+
+    const values: Partial<Record<keyof QuestionSetFields | 'sheet', string>> = {};
+    header.forEach((field, index) => {
+      if (field && values[field] === undefined) {
+        values[field] = (row[index] || '').trim();
+      }
+    });
+
+    if (!values.title) {
+      errors.push({ level: 'error', sheet: metadataSheet.name, row: rowNumber, message: '题库标题为空' });
+      continue;
+    }
+
+    // 只有一个题目工作表时可以不填"工作表"列
+    const sheetName = values.sheet || (questionSheets.length === 1 ? questionSheets[0].name : '');
+    const questionSheet = questionSheets.find(sheet => sheet.name === sheetName);
+    if (!questionSheet) {
+      errors.push({
+        level: 'error',
+        sheet: metadataSheet.name,
+        row: rowNumber,
+        message: sheetName ? `找不到工作表 "${sheetName}"` : '请在"工作表"列中指定题目所在的工作表'
+      });
+      continue;
+    }
+
+    const isPaid = values.isPaid ? TRUE_VALUES.includes(values.isPaid.toLowerCase()) : defaults.isPaid;
+
+    const status = values.status ? STATUS_VALUES[values.status.toLowerCase()] : defaults.status;
+    if (values.status && !status) {
+      errors.push({
+        level: 'error',
+        sheet: metadataSheet.name,
+        row: rowNumber,
+        message: `无法识别的状态 "${values.status}"，应为 草稿/审核中/已发布 或 draft/review/published`
+      });
+      continue;
+    }
+
+    const pricingTiers = values.pricingTiers ? parsePricingTiers(values.pricingTiers) : { value: defaults.pricingTiers };
+    if (pricingTiers.error) {
+      errors.push({ level: 'error', sheet: metadataSheet.name, row: rowNumber, message: pricingTiers.error });
+      continue;
+    }
+
+    questionSets.push({
+      ...defaults,
+      id: values.id || uuidv4(),
+      title: values.title,
+      description: values.description || defaults.description,
+      category: values.category || defaults.category,
+      icon: values.icon || defaults.icon,
+      isPaid,
+      price: values.price ? Number(values.price) : defaults.price,
+      trialQuestions: values.trialQuestions ? Number(values.trialQuestions) : defaults.trialQuestions,
+      pricingTiers: pricingTiers.value,
+      isFeatured: values.isFeatured ? TRUE_VALUES.includes(values.isFeatured.toLowerCase()) : defaults.isFeatured,
+      status,
+      questions: readSheetQuestions(questionSheet, errors)
+    });
+  }
+
+  return questionSets;
+};
+
+/**
+ * 把工作簿转换为题库列表
+ *
+ * defaults 为随文件提交的题库信息，只有一个题库时 id 和 title 也会使用这里的值，
+ * 没有填写标题时使用 defaultTitle（一般为文件名）
+ */
+export const workbookToQuestionSets = (
+  sheets: WorkbookSheet[],
+  defaults: QuestionSetFields,
+  defaultTitle: string
+): { questionSets: ImportedQuestionSet[]; errors: ImportIssue[] } => {
+  const errors: ImportIssue[] = [];
+  const metadataSheet = sheets.find(sheet => METADATA_SHEET_NAMES.includes(sheet.name.trim().toLowerCase()));
+  const questionSheets = sheets.filter(sheet => sheet !== metadataSheet && !sheet.rows.every(isBlankRow));
+  const { id, title, ...sharedFields } = defaults;
+
+  if (metadataSheet) {
+    return {
+      questionSets: readMetadataSheet(metadataSheet, questionSheets, sharedFields, errors),
+      errors
+    };
+  }
+
+  const single = questionSheets.length === 1;
+  const questionSets = questionSheets.map(sheet => ({
+    ...sharedFields,
+    id: (single && id) || uuidv4(),
+    title: single ? title || defaultTitle : sheet.name,
+    questions: readSheetQuestions(sheet, errors)
+  }));
+
+  return { questionSets, errors };
+};
@@ -7,6 +7,8 @@ import ProfilePage from './components/ProfilePage'
 import ProtectedRoute from './components/ProtectedRoute'
 import { UserProvider } from './contexts/UserContext'
 import AdminPanel from './components/AdminPanel'
+import WrongQuestionPractice from './components/WrongQuestionPractice'
+import ReviewPage from './components/ReviewPage'
 
 function App() {
   return (
@@ -26,6 +28,17 @@ function App() {
               </ProtectedRoute>
             } />
             <Route path="/quiz/:questionSetId" element={<QuizPage />} />
+            <Route path="/practice/tags" element={<QuizPage />} />
+            <Route path="/wrong-questions/practice" element={
+              <ProtectedRoute>
+                <WrongQuestionPractice />
+              </ProtectedRoute>
+            } />
+            <Route path="/review" element={
+              <ProtectedRoute>
+                <ReviewPage />
+              </ProtectedRoute>
+            } />
           </Routes>
         </Layout>
       </Router>
@@ -1,6 +1,17 @@
 // @ts-nocheck - 禁用 TypeScript 未使用变量检查
 import React, { useState } from 'react';
-import { Question, Option, QuestionType } from '../data/questions';
+import { Question, Option, QuestionType, QuestionContentFormat } from '../data/questions';
+import { QUESTION_TYPE_LABELS } from '../utils/questionTypes';
+import RichText from './RichText';
+
+// 各题型的初始选项：判断题固定为"正确"、"错误"，填空题从一种答案写法开始
+const createDefaultOptions = (type: QuestionType): Option[] => {
+  if (type === 'truefalse') {
+    return [{ id: 'A', text: '正确' }, { id: 'B', text: '错误' }];
+  }
+  const count = type === 'fill' ? 1 : 4;
+  return Array.from({ length: count }, (_, i) => ({ id: String.fromCharCode(65 + i), text: '' }));
+};
 
 interface AddQuestionProps {
   onAddQuestion: (question: Question) => void;
@@ -11,27 +22,41 @@ interface AddQuestionProps {
 const AddQuestion: React.FC<AddQuestionProps> = ({ onAddQuestion, onCancel, questionCount }) => {
   const [questionText, setQuestionText] = useState('');
   const [questionType, setQuestionType] = useState<QuestionType>('single');
-  const [options, setOptions] = useState<Option[]>([
-    { id: 'A', text: '' },
-    { id: 'B', text: '' },
-    { id: 'C', text: '' },
-    { id: 'D', text: '' },
-  ]);
+  const [options, setOptions] = useState<Option[]>(createDefaultOptions('single'));
   const [selectedOption, setSelectedOption] = useState<string>('');
   const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
   const [explanation, setExplanation] = useState('');
+  const [tagText, setTagText] = useState('');
   const [errorMessage, setErrorMessage] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+  // 新题目默认按 Markdown 显示，关闭后按原文显示
+  const [contentFormat, setContentFormat] = useState<QuestionContentFormat>('markdown');
+
+  // 填空题至少保留一种答案写法，其他题型至少保留两个选项
+  const minOptions = questionType === 'fill' ? 1 : 2;
+  const isChoice = questionType === 'single' || questionType === 'multiple' || questionType === 'truefalse';
+
+  // 切换题型，判断题和填空题的选项结构不同，切换时重置选项
+  const handleQuestionTypeChange = (type: QuestionType) => {
+    const resetOptions = [type, questionType].some(t => t === 'truefalse' || t === 'fill');
+    setQuestionType(type);
+    setSelectedOption('');
+    setSelectedOptions([]);
+    if (resetOptions) {
+      setOptions(createDefaultOptions(type));
+    }
+  };
 
-  // 添加新选项
+  // 添加新选项，选项字母按现有最后一个选项顺延
   const handleAddOption = () => {
-    const nextOptionId = String.fromCharCode('A'.charCodeAt(0) + options.length);
+    const lastId = options.length > 0 ? options[options.length - 1].id : '@';
+    const nextOptionId = String.fromCharCode(lastId.charCodeAt(0) + 1);
     setOptions([...options, { id: nextOptionId, text: '' }]);
   };
 
   // 删除选项
   const handleRemoveOption = (optionId: string) => {
-    // 至少保留两个选项
-    if (options.length <= 2) {
+    if (options.length <= minOptions) {
       return;
     }
     
@@ -56,6 +81,15 @@ const AddQuestion: React.FC<AddQuestionProps> = ({ onAddQuestion, onCancel, ques
     );
   };
 
+  // 更新匹配题的右侧项
+  const handleMatchTextChange = (optionId: string, matchText: string) => {
+    setOptions(
+      options.map(option =>
+        option.id === optionId ? { ...option, matchText } : option
+      )
+    );
+  };
+
   // 切换多选选项
   const handleMultipleOptionToggle = (optionId: string) => {
     setSelectedOptions(prev =>
@@ -77,14 +111,30 @@ const AddQuestion: React.FC<AddQuestionProps> = ({ onAddQuestion, onCancel, ques
       }
       
       // 验证选项 - 确保所有选项都有文本内容
-      const validOptions = options.filter(option => option.text.trim() !== '');
-      if (validOptions.length < 2) {
-        setErrorMessage('请至少添加两个有效选项');
+      const validOptions = options
+        .filter(option => option.text.trim() !== '' || (option.matchText || '').trim() !== '')
+        .map(option => questionType === 'matching'
+          ? { id: option.id, text: option.text.trim(), matchText: (option.matchText || '').trim() }
+          : { id: option.id, text: option.text.trim() });
+      if (questionType === 'fill' && validOptions.length === 0) {
+        setErrorMessage('请至少填写一个可接受的答案');
+        return;
+      }
+      if (questionType === 'matching' && validOptions.some(option => !option.text || !option.matchText)) {
+        setErrorMessage('每组配对都需要填写左侧项和右侧项');
+        return;
+      }
+      if (questionType !== 'fill' && validOptions.length < 2) {
+        setErrorMessage(
+          questionType === 'ordering' ? '请至少添加两个排序项'
+            : questionType === 'matching' ? '请至少添加两组配对'
+              : '请至少添加两个有效选项'
+        );
         return;
       }
       
       // 验证答案
-      if (questionType === 'single' && !selectedOption) {
+      if ((questionType === 'single' || questionType === 'truefalse') && !selectedOption) {
         setErrorMessage('请选择正确答案');
         return;
       }
@@ -106,8 +156,14 @@ const AddQuestion: React.FC<AddQuestionProps> = ({ onAddQuestion, onCancel, ques
         question: questionText.trim(),
         questionType,
         options: validOptions,
-        correctAnswer: questionType === 'single' ? selectedOption : selectedOptions,
+        // 填空、排序和匹配题的每个选项都是答案的一部分
+        correctAnswer: questionType === 'single' || questionType === 'truefalse'
+          ? selectedOption
+          : questionType === 'multiple' ? selectedOptions : validOptions.map(option => option.id),
         explanation: explanation.trim(),
+        contentFormat,
+        // 多个标签用逗号分隔，服务端会去掉重复的标签
+        tags: tagText.split(/[,，]/).map(tag => tag.trim()).filter(Boolean),
       };
       
       // 提交题目
@@ -135,25 +191,18 @@ const AddQuestion: React.FC<AddQuestionProps> = ({ onAddQuestion, onCancel, ques
         {/* 题目类型 */}
         <div className="mb-4">
           <label className="block text-gray-700 mb-2">题目类型</label>
-          <div className="flex space-x-4">
-            <label className="inline-flex items-center">
-              <input
-                type="radio"
-                checked={questionType === 'single'}
-                onChange={() => setQuestionType('single')}
-                className="form-radio"
-              />
-              <span className="ml-2">单选题</span>
-            </label>
-            <label className="inline-flex items-center">
-              <input
-                type="radio"
-                checked={questionType === 'multiple'}
-                onChange={() => setQuestionType('multiple')}
-                className="form-radio"
-              />
-              <span className="ml-2">多选题</span>
-            </label>
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+              <label key={type} className="inline-flex items-center">
+                <input
+                  type="radio"
+                  checked={questionType === type}
+                  onChange={() => handleQuestionTypeChange(type)}
+                  className="form-radio"
+                />
+                <span className="ml-2">{QUESTION_TYPE_LABELS[type]}</span>
+              </label>
+            ))}
           </div>
         </div>
         
@@ -168,65 +217,114 @@ const AddQuestion: React.FC<AddQuestionProps> = ({ onAddQuestion, onCancel, ques
             placeholder="输入题目内容"
             required
           />
+          <label className="inline-flex items-center mt-1 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={contentFormat === 'markdown'}
+              onChange={(e) => setContentFormat(e.target.checked ? 'markdown' : 'text')}
+              className="mr-2"
+            />
+            题干、选项和解析按 Markdown 显示
+          </label>
+          <p className="text-sm text-gray-500 mt-1">
+            {contentFormat === 'markdown'
+              ? '支持 ```代码块```、图片 ![说明](图片地址)、表格和 $$公式$$（单个 $ 按普通字符显示）'
+              : '按原文显示，* _ # $ 等字符不做解释'}
+          </p>
         </div>
         
         {/* 题目选项 */}
         <div className="mb-4">
           <div className="flex justify-between items-center mb-2">
-            <label className="block text-gray-700">选项 *</label>
-            <button
-              type="button"
-              onClick={handleAddOption}
-              className="text-blue-600 hover:text-blue-800 text-sm"
-            >
-              + 添加选项
-            </button>
+            <label className="block text-gray-700">
+              {questionType === 'fill' ? '可接受的答案 *'
+                : questionType === 'ordering' ? '排序项（按正确顺序填写） *'
+                  : questionType === 'matching' ? '配对 *'
+                    : '选项 *'}
+            </label>
+            {questionType !== 'truefalse' && (
+              <button
+                type="button"
+                onClick={handleAddOption}
+                className="text-blue-600 hover:text-blue-800 text-sm"
+              >
+                {questionType === 'fill' ? '+ 添加写法' : questionType === 'matching' ? '+ 添加配对' : '+ 添加选项'}
+              </button>
+            )}
           </div>
           
           <div className="space-y-2">
-            {options.map((option) => (
+            {options.map((option, index) => (
               <div key={option.id} className="flex items-center">
-                <div className="w-8 flex justify-center">
-                  {questionType === 'single' ? (
-                    <input
-                      type="radio"
-                      name="correctAnswer"
-                      checked={selectedOption === option.id}
-                      onChange={() => setSelectedOption(option.id)}
-                      className="form-radio"
-                    />
-                  ) : (
-                    <input
-                      type="checkbox"
-                      checked={selectedOptions.includes(option.id)}
-                      onChange={() => handleMultipleOptionToggle(option.id)}
-                      className="form-checkbox"
-                    />
-                  )}
+                {isChoice && (
+                  <div className="w-8 flex justify-center">
+                    {questionType === 'multiple' ? (
+                      <input
+                        type="checkbox"
+                        checked={selectedOptions.includes(option.id)}
+                        onChange={() => handleMultipleOptionToggle(option.id)}
+                        className="form-checkbox"
+                      />
+                    ) : (
+                      <input
+                        type="radio"
+                        name="correctAnswer"
+                        checked={selectedOption === option.id}
+                        onChange={() => setSelectedOption(option.id)}
+                        className="form-radio"
+                      />
+                    )}
+                  </div>
+                )}
+                <div className="w-8 text-center font-medium">
+                  {questionType === 'ordering' ? `${index + 1}.` : questionType === 'fill' ? '' : `${option.id}.`}
                 </div>
-                <div className="w-8 text-center font-medium">{option.id}.</div>
                 <input
                   type="text"
                   value={option.text}
                   onChange={(e) => handleOptionTextChange(option.id, e.target.value)}
                   className="flex-1 border border-gray-300 rounded px-3 py-2"
-                  placeholder={`选项 ${option.id}`}
+                  placeholder={
+                    questionType === 'fill' ? '答案写法'
+                      : questionType === 'ordering' ? `第 ${index + 1} 项`
+                        : questionType === 'matching' ? '左侧项'
+                          : `选项 ${option.id}`
+                  }
                 />
-                <button
-                  type="button"
-                  onClick={() => handleRemoveOption(option.id)}
-                  className="ml-2 text-red-600 hover:text-red-800"
-                  disabled={options.length <= 2}
-                >
-                  删除
-                </button>
+                {questionType === 'matching' && (
+                  <>
+                    <span className="mx-2 text-gray-500">→</span>
+                    <input
+                      type="text"
+                      value={option.matchText || ''}
+                      onChange={(e) => handleMatchTextChange(option.id, e.target.value)}
+                      className="flex-1 border border-gray-300 rounded px-3 py-2"
+                      placeholder="右侧项"
+                    />
+                  </>
+                )}
+                {questionType !== 'truefalse' && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveOption(option.id)}
+                    className="ml-2 text-red-600 hover:text-red-800"
+                    disabled={options.length <= minOptions}
+                  >
+                    删除
+                  </button>
+                )}
               </div>
             ))}
           </div>
           <p className="text-sm text-gray-500 mt-2">
-            {questionType === 'single' 
-              ? '选择单个正确答案' 
-              : '选择一个或多个正确答案'}
+            {{
+              single: '选择单个正确答案',
+              multiple: '选择一个或多个正确答案',
+              truefalse: '选择正确的判断',
+              fill: '作答与任一写法相同即为正确，忽略大小写、全半角和多余空格',
+              ordering: '答题时各项会打乱顺序，学员需要排出上面的顺序',
+              matching: '答题时学员为每个左侧项选择对应的右侧项'
+            }[questionType]}
           </p>
         </div>
         
@@ -243,6 +341,59 @@ const AddQuestion: React.FC<AddQuestionProps> = ({ onAddQuestion, onCancel, ques
           />
         </div>
         
+        {/* 标签 */}
+        <div className="mb-4">
+          <label className="block text-gray-700 mb-2">标签</label>
+          <input
+            type="text"
+            value={tagText}
+            onChange={(e) => setTagText(e.target.value)}
+            className="w-full border border-gray-300 rounded px-3 py-2"
+            placeholder="如：子网划分, OSPF"
+          />
+          <p className="text-sm text-gray-500 mt-1">多个标签用逗号分隔，用户可以按标签跨题库练习</p>
+        </div>
+        
+        {/* 预览：与答题页面的显示效果相同 */}
+        <div className="mb-4">
+          <button
+            type="button"
+            onClick={() => setShowPreview(!showPreview)}
+            className="text-blue-600 hover:text-blue-800 text-sm"
+          >
+            {showPreview ? '收起预览' : '预览'}
+          </button>
+          {showPreview && (
+            <div className="mt-2 p-4 bg-white border border-gray-200 rounded">
+              <div className="flex items-start gap-2 text-lg font-semibold text-gray-900 mb-4">
+                <RichText content={questionText || '（未填写题目内容）'} format={contentFormat} className="flex-1" />
+                <span className="shrink-0 px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-medium rounded">
+                  {QUESTION_TYPE_LABELS[questionType]}
+                </span>
+              </div>
+              {questionType !== 'fill' && (
+                <div className="space-y-2 mb-4">
+                  {options.map((option, index) => (
+                    <div key={option.id} className="p-3 border border-gray-200 rounded-lg flex items-center gap-3">
+                      <span className="w-6 h-6 shrink-0 flex items-center justify-center rounded-full border border-gray-300 text-sm">
+                        {questionType === 'ordering' ? index + 1 : option.id}
+                      </span>
+                      <RichText content={option.text} format={contentFormat} className="flex-1" />
+                      {questionType === 'matching' && (
+                        <span className="text-gray-500">→ {option.matchText}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="p-3 bg-blue-50 rounded">
+                <h3 className="font-semibold text-blue-800 mb-1">解析</h3>
+                <RichText content={explanation} format={contentFormat} className="text-blue-700" />
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* 按钮组 */}
         <div className="flex justify-end space-x-2 mt-6">
           <button
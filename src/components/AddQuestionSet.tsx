@@ -1,24 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import AddQuestion from './AddQuestion';
+import PricingTierEditor from './PricingTierEditor';
+import ExamSettingsFields from './ExamSettingsFields';
 import { QuestionSet } from '../data/questionSets';
 import { Question } from '../data/questions';
 import axios from 'axios';
 import { useNavigate } from 'react-router-dom';
-
-// 分类选项
-const categoryOptions = [
-  '计算机基础',
-  '编程语言',
-  '网络协议',
-  '安全技术',
-  '数据库',
-  '操作系统',
-  '软件工程',
-  '人工智能',
-  '云计算',
-  '其他'
-];
+import { FlatCategory } from '../types';
+import { categoryApi } from '../utils/api';
+import { getQuestionTypeLabel } from '../utils/questionTypes';
+import { PricingTierDraft, toPricingTiers } from '../utils/pricing';
+import { ExamSettingsDraft, toExamSettingsDraft, readExamSettings } from '../utils/examSettings';
 
 // 图标选项
 const iconOptions = ['📝', '⚙️', '🌐', '🔒', '💻', '📊', '🧩', '🤖', '☁️', '📚'];
@@ -27,11 +20,14 @@ const AddQuestionSet: React.FC = () => {
   // 题库基本信息
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [category, setCategory] = useState(categoryOptions[0]);
+  const [categoryOptions, setCategoryOptions] = useState<FlatCategory[]>([]);
+  const [categoryId, setCategoryId] = useState('');
   const [icon, setIcon] = useState(iconOptions[0]);
   const [isPaid, setIsPaid] = useState(false);
   const [price, setPrice] = useState('');
   const [trialQuestions, setTrialQuestions] = useState('0');
+  const [pricingTiers, setPricingTiers] = useState<PricingTierDraft[]>([]);
+  const [examSettings, setExamSettings] = useState<ExamSettingsDraft>(toExamSettingsDraft());
   
   // 题目管理
   const [questions, setQuestions] = useState<Question[]>([]);
@@ -79,6 +75,21 @@ const AddQuestionSet: React.FC = () => {
     checkServerStatus();
   }, []);
 
+  // 加载分类选项，默认选中第一个分类
+  useEffect(() => {
+    const loadCategories = async () => {
+      const response = await categoryApi.getFlatCategories(true);
+      if (response.success && Array.isArray(response.data)) {
+        setCategoryOptions(response.data);
+        if (response.data.length > 0) {
+          setCategoryId(response.data[0].id);
+        }
+      }
+    };
+
+    loadCategories();
+  }, []);
+
   // 提交题库
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -87,6 +98,12 @@ const AddQuestionSet: React.FC = () => {
       setErrorMessage('请填写题库标题');
       return;
     }
+
+    const exam = readExamSettings(examSettings);
+    if (exam.error || !exam.value) {
+      setErrorMessage(exam.error || '考试设置不正确');
+      return;
+    }
     
     // 不再强制要求添加题目
     // if (questions.length === 0) {
@@ -106,15 +123,18 @@ const AddQuestionSet: React.FC = () => {
         id: uuidv4(),
         title,
         description,
-        category,
+        categoryId: categoryId || null,
         icon,
         isPaid,
+        timeLimit: exam.value.timeLimit,
+        passingScore: exam.value.passingScore,
         questions,
       };
 
       if (isPaid) {
         questionSet.price = parseFloat(price || '0');
         questionSet.trialQuestions = parseInt(trialQuestions || '0');
+        questionSet.pricingTiers = toPricingTiers(pricingTiers);
       }
 
       console.log('题库数据:', JSON.stringify(questionSet));
@@ -134,11 +154,13 @@ const AddQuestionSet: React.FC = () => {
         // 保存成功，重置表单
         setTitle('');
         setDescription('');
-        setCategory(categoryOptions[0]);
+        setCategoryId(categoryOptions.length > 0 ? categoryOptions[0].id : '');
         setIcon(iconOptions[0]);
         setIsPaid(false);
         setPrice('');
         setTrialQuestions('0');
+        setPricingTiers([]);
+        setExamSettings(toExamSettingsDraft());
         setQuestions([]);
         setSuccessMessage('题库创建成功！');
         navigate('/');
@@ -218,13 +240,14 @@ const AddQuestionSet: React.FC = () => {
             <div>
               <label className="block text-gray-700 mb-2">分类</label>
               <select
-                value={category}
-                onChange={(e) => setCategory(e.target.value)}
+                value={categoryId}
+                onChange={(e) => setCategoryId(e.target.value)}
                 className="w-full border border-gray-300 rounded px-3 py-2"
               >
+                <option value="">未分类</option>
                 {categoryOptions.map((cat) => (
-                  <option key={cat} value={cat}>
-                    {cat}
+                  <option key={cat.id} value={cat.id}>
+                    {cat.path}
                   </option>
                 ))}
               </select>
@@ -299,8 +322,16 @@ const AddQuestionSet: React.FC = () => {
                 </div>
               </div>
             )}
+
+            {isPaid && <PricingTierEditor tiers={pricingTiers} onChange={setPricingTiers} />}
           </div>
         </div>
+
+        {/* 考试模式设置 */}
+        <div className="mb-6 pb-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-700 mb-4">考试设置</h3>
+          <ExamSettingsFields settings={examSettings} onChange={setExamSettings} />
+        </div>
         
         {/* 题目管理部分 - 可选 */}
         <div className="mb-6">
@@ -324,6 +355,14 @@ const AddQuestionSet: React.FC = () => {
                       <div>
                         <span className="font-medium text-gray-800">#{index + 1}. </span>
                         <span>{question.question}</span>
+                        <span className="ml-2 text-xs text-gray-500">{getQuestionTypeLabel(question.questionType)}</span>
+                        {question.tags && question.tags.length > 0 && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {question.tags.map(tag => (
+                              <span key={tag} className="px-2 py-0.5 text-xs bg-blue-50 text-blue-700 rounded">{tag}</span>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       <button
                         type="button"
@@ -6,6 +6,8 @@ import AdminQuestionSets from './admin/AdminQuestionSets';
 import AdminHomeContent from './admin/AdminHomeContent';
 import AdminRedeemCodes from './admin/AdminRedeemCodes';
 import AdminFeaturedQuestionSets from './admin/AdminFeaturedQuestionSets';
+import AdminCategories from './admin/AdminCategories';
+import AdminBundles from './admin/AdminBundles';
 
 enum AdminTab {
   USERS = 'users',
@@ -13,7 +15,9 @@ enum AdminTab {
   HOME_CONTENT = 'homeContent',
   REDEEM_CODES = 'redeemCodes',
   DASHBOARD = 'dashboard',
-  FEATURED_QUESTION_SETS = 'featuredQuestionSets'
+  FEATURED_QUESTION_SETS = 'featuredQuestionSets',
+  CATEGORIES = 'categories',
+  BUNDLES = 'bundles'
 }
 
 const AdminPage: React.FC = () => {
@@ -117,6 +121,24 @@ const AdminPage: React.FC = () => {
                   </svg>
                   精选题库管理
                 </button>
+                <button
+                  onClick={() => setActiveTab(AdminTab.CATEGORIES)}
+                  className={`w-full text-left px-3 py-2 rounded-md flex items-center ${activeTab === AdminTab.CATEGORIES ? 'bg-gray-200 text-gray-900' : 'text-gray-600 hover:bg-gray-50'}`}
+                >
+                  <svg className="mr-3 h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+                  </svg>
+                  分类管理
+                </button>
+                <button
+                  onClick={() => setActiveTab(AdminTab.BUNDLES)}
+                  className={`w-full text-left px-3 py-2 rounded-md flex items-center ${activeTab === AdminTab.BUNDLES ? 'bg-gray-200 text-gray-900' : 'text-gray-600 hover:bg-gray-50'}`}
+                >
+                  <svg className="mr-3 h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                  </svg>
+                  套餐管理
+                </button>
               </nav>
             </div>
             
@@ -295,6 +317,8 @@ const AdminPage: React.FC = () => {
                 {activeTab === AdminTab.REDEEM_CODES && <AdminRedeemCodes />}
                 {activeTab === AdminTab.HOME_CONTENT && <AdminHomeContent />}
                 {activeTab === AdminTab.FEATURED_QUESTION_SETS && <AdminFeaturedQuestionSets />}
+                {activeTab === AdminTab.CATEGORIES && <AdminCategories />}
+                {activeTab === AdminTab.BUNDLES && <AdminBundles />}
               </div>
             </div>
           </div>
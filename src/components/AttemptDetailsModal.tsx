@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { AttemptDetails } from '../types';
+import RichText from './RichText';
+import { quizAttemptApi } from '../utils/api';
+import { isChoiceQuestion, formatAnswer } from '../utils/questionTypes';
+
+interface AttemptDetailsModalProps {
+  attemptId: string | null;
+  onClose: () => void;
+}
+
+// 格式化答题用时
+const formatDuration = (seconds?: number | null) => {
+  if (seconds === null || seconds === undefined) return '-';
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes}分${rest}秒` : `${rest}秒`;
+};
+
+const AttemptDetailsModal: React.FC<AttemptDetailsModalProps> = ({ attemptId, onClose }) => {
+  const [details, setDetails] = useState<AttemptDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!attemptId) return;
+
+    const fetchDetails = async () => {
+      setLoading(true);
+      setError('');
+      setDetails(null);
+      try {
+        const response = await quizAttemptApi.getAttemptDetails(attemptId);
+        if (response.success && response.data) {
+          setDetails(response.data);
+        } else {
+          setError(response.message || '无法加载答题详情');
+        }
+      } catch (error) {
+        console.error('获取答题详情失败:', error);
+        setError('获取答题详情失败');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDetails();
+  }, [attemptId]);
+
+  if (!attemptId) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+      <div className="relative mx-auto p-5 border w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-lg rounded-lg bg-white animate-fadeIn">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold text-gray-900">
+            答题详情
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {loading && (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">{error}</div>
+        )}
+
+        {details && (
+          <div>
+            <div className="bg-gray-50 p-4 rounded-md mb-4 text-sm text-gray-700">
+              <p className="font-medium text-base mb-2">
+                {details.tags ? `🏷️ 按标签练习：${details.tags.join('、')}` : `${details.questionSetIcon} ${details.questionSetTitle}`}
+              </p>
+              <div className="flex flex-wrap gap-4">
+                <span>{details.mode === 'exam' ? '考试模式' : '练习模式'}</span>
+                <span>得分: <span className="font-medium">{details.score ?? 0}</span></span>
+                <span>答对: {details.correctCount} / {details.totalQuestions}</span>
+                <span>用时: {formatDuration(details.durationSeconds)}</span>
+                {details.passed !== null && details.passed !== undefined && (
+                  <span className={details.passed ? 'text-green-600' : 'text-red-600'}>
+                    {details.passed ? '已通过' : '未通过'}
+                  </span>
+                )}
+              </div>
+              {details.tagStats && details.tagStats.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {details.tagStats.map(stat => (
+                    <span key={stat.tag} className="px-2 py-0.5 bg-white border rounded text-xs">
+                      {stat.tag}：{stat.correct}/{stat.total}（{stat.accuracy}%）
+                    </span>
+                  ))}
+                </div>
+              )}
+              {details.completedAt && (
+                <p className="text-xs text-gray-500 mt-2">完成于 {new Date(details.completedAt).toLocaleString()}</p>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              {details.items.map((item, index) => (
+                <div key={item.questionId} className="border rounded-lg p-4">
+                  <div className="flex items-start gap-2 font-medium text-gray-900 mb-2">
+                    <span>{index + 1}.</span>
+                    <RichText content={item.question.text} format={item.question.contentFormat} className="flex-1" />
+                    <span className={`shrink-0 text-sm ${item.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+                      {!item.answered ? '未作答' : item.isCorrect ? '正确' : '错误'}
+                    </span>
+                  </div>
+                  {!isChoiceQuestion(item.question) ? (
+                    <div className="text-sm space-y-1 mb-2">
+                      <p className={item.isCorrect ? 'text-green-700' : 'text-red-600'}>
+                        我的答案：{formatAnswer(item.question, item.selectedOptions) || '未作答'}
+                      </p>
+                      {!item.isCorrect && item.correctOptions && (
+                        <p className="text-green-700">正确答案：{formatAnswer(item.question, item.correctOptions)}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="space-y-1 mb-2">
+                      {item.question.options.map(option => {
+                        const isSelected = item.selectedOptions.includes(option.id);
+                        const isCorrectOption = !!item.correctOptions?.includes(option.id);
+                        return (
+                          <div
+                            key={option.id}
+                            className={`flex gap-1 px-3 py-1.5 rounded text-sm border ${
+                              isCorrectOption
+                                ? 'bg-green-50 border-green-300'
+                                : isSelected
+                                  ? 'bg-red-50 border-red-300'
+                                  : 'border-gray-200'
+                            }`}
+                          >
+                            <span>{option.optionIndex || option.id}.</span>
+                            <RichText content={option.text} format={item.question.contentFormat} className="flex-1" />
+                            {isSelected && <span className="shrink-0 ml-2 text-xs text-gray-500">（我的选择）</span>}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {item.explanation && (
+                    <RichText content={item.explanation} format={item.question.contentFormat} className="text-sm text-blue-700 bg-blue-50 p-2 rounded" />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttemptDetailsModal;
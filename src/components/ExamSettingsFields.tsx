@@ -0,0 +1,45 @@
+import React from 'react';
+import { ExamSettingsDraft } from '../utils/examSettings';
+
+interface ExamSettingsFieldsProps {
+  settings: ExamSettingsDraft;
+  onChange: (settings: ExamSettingsDraft) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 考试模式的时间限制和及格分，练习模式不受影响
+ */
+const ExamSettingsFields: React.FC<ExamSettingsFieldsProps> = ({ settings, onChange, disabled }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <div>
+      <label className="block text-gray-700 mb-2">考试时间限制（分钟）</label>
+      <input
+        type="number"
+        value={settings.timeLimit}
+        onChange={(e) => onChange({ ...settings, timeLimit: e.target.value })}
+        className="w-full border border-gray-300 rounded px-3 py-2"
+        step="1"
+        min="0"
+        disabled={disabled}
+      />
+      <p className="text-xs text-gray-500 mt-1">0 表示考试模式不限时</p>
+    </div>
+    <div>
+      <label className="block text-gray-700 mb-2">及格分（%）</label>
+      <input
+        type="number"
+        value={settings.passingScore}
+        onChange={(e) => onChange({ ...settings, passingScore: e.target.value })}
+        className="w-full border border-gray-300 rounded px-3 py-2"
+        step="1"
+        min="0"
+        max="100"
+        disabled={disabled}
+      />
+      <p className="text-xs text-gray-500 mt-1">0 表示不判定是否及格</p>
+    </div>
+  </div>
+);
+
+export default ExamSettingsFields;
@@ -1,16 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import axios from 'axios';
-import { QuestionSet } from '../types';
+import { QuestionSet, Category, FlatCategory, TagSummary, Bundle } from '../types';
+import { tagApi, bundleApi } from '../utils/api';
 import UserMenu from './UserMenu';
 import { useUser } from '../contexts/UserContext';
 import LoginModal from './LoginModal';
+import PaymentModal from './PaymentModal';
 
 // 使用本地接口替代
 interface HomeContentData {
   welcomeTitle: string;
   welcomeDescription: string;
-  featuredCategories: string[];
+  featuredCategories: Category[];
   announcements: string;
   footerText: string;
   bannerImage?: string;
@@ -21,7 +23,7 @@ interface HomeContentData {
 const defaultHomeContent: HomeContentData = {
   welcomeTitle: "ExamTopics 模拟练习",
   welcomeDescription: "选择以下任一题库开始练习，测试您的知识水平",
-  featuredCategories: ["网络协议", "编程语言", "计算机基础"],
+  featuredCategories: [],
   announcements: "欢迎使用在线题库系统，新增题库将定期更新，请持续关注！",
   footerText: "© 2023 ExamTopics 在线题库系统 保留所有权利",
   bannerImage: "https://via.placeholder.com/1500x500/4F46E5/FFFFFF?text=考试练习系统",
@@ -30,6 +32,7 @@ const defaultHomeContent: HomeContentData = {
 
 const HomePage: React.FC = () => {
   const { user, isAdmin } = useUser();
+  const navigate = useNavigate();
   const [questionSets, setQuestionSets] = useState<QuestionSet[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -41,6 +44,14 @@ const HomePage: React.FC = () => {
   const [homeContent, setHomeContent] = useState<HomeContentData>(defaultHomeContent);
   const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
   const [showUserInfo, setShowUserInfo] = useState(false);
+  const [categories, setCategories] = useState<FlatCategory[]>([]);
+  const [selectedCategoryId, setSelectedCategoryId] = useState('');
+  // 按分类筛选时的题库，为空表示未筛选
+  const [categorySets, setCategorySets] = useState<QuestionSet[] | null>(null);
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [bundles, setBundles] = useState<Bundle[]>([]);
+  const [purchasingBundle, setPurchasingBundle] = useState<Bundle | null>(null);
 
   // 获取首页设置和题库列表
   useEffect(() => {
@@ -64,6 +75,12 @@ const HomePage: React.FC = () => {
             // 更新整个首页内容
             setHomeContent(contentData);
           }
+
+          // 获取分类列表，用于按分类浏览
+          const categoryResponse = await axios.get('/api/categories?flat=true');
+          if (categoryResponse.data && categoryResponse.data.success && Array.isArray(categoryResponse.data.data)) {
+            setCategories(categoryResponse.data.data);
+          }
           
           // 获取精选题库列表
           const featuredResponse = await axios.get('/api/homepage/featured-question-sets');
@@ -109,8 +126,77 @@ const HomePage: React.FC = () => {
     fetchData();
   }, []);
 
-  // 按类别分组题库 - 确保questionSets是数组
-  const groupedSets = (Array.isArray(questionSets) ? questionSets : []).reduce((acc, set) => {
+  // 获取标签列表，用于按标签跨题库练习
+  useEffect(() => {
+    const fetchTags = async () => {
+      const response = await tagApi.getTags();
+      if (response.success && Array.isArray(response.data)) {
+        setTags(response.data);
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  // 获取上架的题库套餐
+  useEffect(() => {
+    const fetchBundles = async () => {
+      const response = await bundleApi.getBundles();
+      if (response.success && Array.isArray(response.data)) {
+        setBundles(response.data);
+      }
+    };
+
+    fetchBundles();
+  }, []);
+
+  // 购买套餐需要先登录
+  const buyBundle = (bundle: Bundle) => {
+    if (!user) {
+      setIsLoginModalOpen(true);
+      return;
+    }
+    setPurchasingBundle(bundle);
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const startTagPractice = () => {
+    if (selectedTags.length === 0) return;
+    navigate(`/practice/tags?tags=${encodeURIComponent(selectedTags.join(','))}`);
+  };
+
+  // 选择分类后获取该分类及子分类中的题库
+  useEffect(() => {
+    if (!selectedCategoryId) {
+      setCategorySets(null);
+      return;
+    }
+
+    const fetchCategorySets = async () => {
+      try {
+        const response = await axios.get(`/api/question-sets?categoryId=${encodeURIComponent(selectedCategoryId)}`);
+        if (response.data && response.data.success && Array.isArray(response.data.data)) {
+          setCategorySets(response.data.data);
+        } else {
+          setCategorySets([]);
+        }
+      } catch (err) {
+        console.error('获取分类题库失败:', err);
+        setCategorySets([]);
+      }
+    };
+
+    fetchCategorySets();
+  }, [selectedCategoryId]);
+
+  // 按分类筛选时只显示该分类中的题库
+  const visibleSets = categorySets || (Array.isArray(questionSets) ? questionSets : []);
+
+  // 按类别分组题库
+  const groupedSets = visibleSets.reduce((acc, set) => {
     if (!acc[set.category]) {
       acc[set.category] = [];
     }
@@ -128,12 +214,14 @@ const HomePage: React.FC = () => {
     // 首先创建普通分类列表（包含题库的分类）
     const regularCategories = Object.keys(groupedSets);
     
-    // 如果有精选分类，检查哪些分类包含精选题库
-    if (homeContent.featuredCategories?.length > 0) {
+    // 如果有精选分类（按分类筛选时不显示），检查哪些分类包含精选题库
+    if (!categorySets && homeContent.featuredCategories?.length > 0) {
       // 找出所有包含精选题库的分类
-      const featuredCategories = homeContent.featuredCategories.filter(category => 
-        questionSets.some(set => set.isFeatured && set.featuredCategory === category)
-      );
+      const featuredCategories = homeContent.featuredCategories
+        .filter(category => 
+          questionSets.some(set => set.isFeatured && set.featuredCategoryId === category.id)
+        )
+        .map(category => category.path);
       
       // 如果有包含精选题库的分类，优先显示这些分类，然后是其他普通分类
       if (featuredCategories.length > 0) {
@@ -149,9 +237,10 @@ const HomePage: React.FC = () => {
   // 按分类或精选分类获取题库
   const getQuestionSetsByCategory = (category: string): QuestionSet[] => {
     // 如果是精选分类，优先返回这个分类的精选题库
-    if (homeContent.featuredCategories?.includes(category)) {
+    const featuredCategory = categorySets ? undefined : homeContent.featuredCategories?.find(c => c.path === category);
+    if (featuredCategory) {
       const featuredInCategory = questionSets.filter(
-        set => set.isFeatured && set.featuredCategory === category
+        set => set.isFeatured && set.featuredCategoryId === featuredCategory.id
       );
       
       // 如果有精选题库，返回这些题库
@@ -161,7 +250,7 @@ const HomePage: React.FC = () => {
     }
     
     // 如果不是精选分类，或者精选分类没有精选题库，返回普通分类下的题库
-    return questionSets.filter(set => set.category === category);
+    return visibleSets.filter(set => set.category === category);
   };
 
   // 检查当前获取的题库数据是否完整
@@ -297,6 +386,106 @@ const HomePage: React.FC = () => {
             </div>
           )}
           
+          {/* 按标签练习：从所有题库中抽取带有所选标签的题目 */}
+          {tags.length > 0 && (
+            <div className={`mb-6 rounded-lg p-4 shadow-sm ${homeContent.theme === 'dark' ? 'bg-gray-700' : 'bg-white'}`}>
+              <div className="flex justify-between items-center mb-3">
+                <h3 className={`text-lg font-medium ${homeContent.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>按标签练习</h3>
+                <button
+                  onClick={startTagPractice}
+                  disabled={selectedTags.length === 0}
+                  className="px-4 py-1.5 rounded text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                  开始练习{selectedTags.length > 0 ? `（${selectedTags.length} 个标签）` : ''}
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {tags.map(({ tag, questionCount }) => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    className={`px-3 py-1 rounded-full text-sm border ${
+                      selectedTags.includes(tag)
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400'
+                    }`}
+                  >
+                    {tag}（{questionCount}）
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 题库套餐：一次购买多个题库 */}
+          {bundles.length > 0 && (
+            <div className={`mb-6 rounded-lg p-4 shadow-sm ${homeContent.theme === 'dark' ? 'bg-gray-700' : 'bg-white'}`}>
+              <h3 className={`text-lg font-medium mb-3 ${homeContent.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>题库套餐</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {bundles.map(bundle => (
+                  <div
+                    key={bundle.id}
+                    className={`border rounded-lg p-4 flex flex-col ${homeContent.theme === 'dark' ? 'border-gray-600 text-white' : 'border-gray-200'}`}
+                  >
+                    <div className="flex justify-between items-start mb-2">
+                      <h4 className="text-lg font-semibold">{bundle.title}</h4>
+                      <span className="text-right whitespace-nowrap ml-2">
+                        <span className="text-lg font-bold text-red-600">¥{bundle.price}</span>
+                        {bundle.originalPrice > bundle.price && (
+                          <span className={`block text-xs line-through ${homeContent.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                            ¥{bundle.originalPrice}
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                    {bundle.description && (
+                      <p className={`text-sm mb-2 ${homeContent.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>{bundle.description}</p>
+                    )}
+                    <ul className={`text-sm mb-3 flex-1 ${homeContent.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>
+                      {bundle.questionSets.map(set => (
+                        <li key={set.id}>
+                          <Link to={`/practice/${set.id}`} className="hover:underline">
+                            {set.icon ? `${set.icon} ` : ''}{set.title}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex items-center justify-between">
+                      <span className={`text-xs ${homeContent.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {bundle.accessDays === null ? '永久有效' : `有效期 ${bundle.accessDays} 天`}
+                      </span>
+                      <button
+                        onClick={() => buyBundle(bundle)}
+                        className="px-4 py-1.5 rounded text-sm font-medium text-white bg-green-600 hover:bg-green-700"
+                      >
+                        购买套餐
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 按分类浏览 */}
+          {categories.length > 0 && (
+            <div className="flex items-center justify-end mb-4">
+              <label className={`mr-2 text-sm ${homeContent.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>按分类浏览</label>
+              <select
+                value={selectedCategoryId}
+                onChange={(e) => setSelectedCategoryId(e.target.value)}
+                className="border border-gray-300 rounded-md p-2 text-sm text-gray-900"
+              >
+                <option value="">全部分类</option>
+                {categories.filter(category => category.questionSetCount > 0).map(category => (
+                  <option key={category.id} value={category.id}>
+                    {'　'.repeat(category.depth)}{category.icon ? `${category.icon} ` : ''}{category.name}（{category.questionSetCount}）
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* 题库列表 */}
           {!loading && Object.keys(groupedSets).length === 0 && (
             <div className="text-center py-12 bg-white rounded-lg shadow">
@@ -340,7 +529,7 @@ const HomePage: React.FC = () => {
                         </span>
                         {set.isPaid && (
                           <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded">
-                            ¥{set.price}
+                            ¥{set.price}{set.pricingTiers && set.pricingTiers.length > 1 ? ' 起' : ''}
                           </span>
                         )}
                       </div>
@@ -381,6 +570,15 @@ const HomePage: React.FC = () => {
       
       {/* 登录弹窗 */}
       <LoginModal isOpen={isLoginModalOpen} onClose={() => setIsLoginModalOpen(false)} />
+
+      {/* 套餐购买弹窗 */}
+      {purchasingBundle && (
+        <PaymentModal
+          isOpen={!!purchasingBundle}
+          onClose={() => setPurchasingBundle(null)}
+          bundle={purchasingBundle}
+        />
+      )}
     </div>
   );
 };
@@ -3,6 +3,8 @@ import React, { useState, useEffect } from 'react';
 import { QuestionSet } from '../data/questionSets';
 import { Question } from '../data/questions';
 import AddQuestion from './AddQuestion';
+import ExamSettingsFields from './ExamSettingsFields';
+import { ExamSettingsDraft, toExamSettingsDraft, readExamSettings } from '../utils/examSettings';
 import axios from 'axios';
 
 const ManageQuestionSets: React.FC = () => {
@@ -16,6 +18,11 @@ const ManageQuestionSets: React.FC = () => {
   const [isAddingQuestion, setIsAddingQuestion] = useState(false);
   const [isSavingQuestion, setIsSavingQuestion] = useState(false);
 
+  // 考试设置相关状态
+  const [examQuestionSet, setExamQuestionSet] = useState<QuestionSet | null>(null);
+  const [examSettings, setExamSettings] = useState<ExamSettingsDraft>(toExamSettingsDraft());
+  const [isSavingExam, setIsSavingExam] = useState(false);
+
   // 加载题库列表
   useEffect(() => {
     const fetchQuestionSets = async () => {
@@ -141,6 +148,54 @@ const ManageQuestionSets: React.FC = () => {
     setIsAddingQuestion(false);
   };
 
+  // 开始编辑考试设置
+  const handleEditExamSettings = (questionSet: QuestionSet) => {
+    setExamQuestionSet(questionSet);
+    setExamSettings(toExamSettingsDraft(questionSet));
+    setError(null);
+  };
+
+  // 保存考试设置，只提交时间限制和及格分
+  const handleSaveExamSettings = async () => {
+    if (!examQuestionSet) return;
+
+    const exam = readExamSettings(examSettings);
+    if (exam.error) {
+      setError(exam.error);
+      return;
+    }
+
+    setIsSavingExam(true);
+    setError(null);
+
+    try {
+      await axios.put(`/api/question-sets/${examQuestionSet.id}`, exam.value, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+
+      setQuestionSets(prev =>
+        prev.map(set =>
+          set.id === examQuestionSet.id ? { ...set, ...exam.value } : set
+        )
+      );
+      setExamQuestionSet(null);
+      setSuccessMessage('考试设置已保存');
+
+      // 3秒后清除成功消息
+      setTimeout(() => {
+        setSuccessMessage(null);
+      }, 3000);
+    } catch (err) {
+      console.error('保存考试设置失败:', err);
+      setError(err.response?.data?.message || '保存考试设置失败，请稍后重试');
+    } finally {
+      setIsSavingExam(false);
+    }
+  };
+
   // 根据题库类型获取颜色
   const getCategoryColor = (category: string) => {
     const colors: Record<string, string> = {
@@ -199,6 +254,12 @@ const ManageQuestionSets: React.FC = () => {
                 >
                   添加题目
                 </button>
+                <button
+                  onClick={() => handleEditExamSettings(set)}
+                  className="px-2 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                >
+                  考试设置
+                </button>
                 <button
                   onClick={() => handleDelete(set.id)}
                   className="text-red-600 hover:text-red-800 text-sm"
@@ -219,6 +280,10 @@ const ManageQuestionSets: React.FC = () => {
                   <span className="text-gray-500">
                     {set.isPaid ? `付费: ${set.price}元` : '免费'}
                   </span>
+                  <span className="text-gray-500">
+                    考试: {set.timeLimit ? `${set.timeLimit}分钟` : '不限时'}
+                    {set.passingScore ? `，${set.passingScore}分及格` : ''}
+                  </span>
                 </div>
               </div>
             </div>
@@ -268,6 +333,35 @@ const ManageQuestionSets: React.FC = () => {
         </div>
       )}
       
+      {/* 考试设置 */}
+      {examQuestionSet && (
+        <div className="mb-6 p-6 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium">
+              考试设置: <span className="text-blue-600">{examQuestionSet.title}</span>
+            </h3>
+            <button
+              onClick={() => setExamQuestionSet(null)}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              关闭
+            </button>
+          </div>
+
+          <ExamSettingsFields settings={examSettings} onChange={setExamSettings} disabled={isSavingExam} />
+
+          <div className="flex justify-end mt-4">
+            <button
+              onClick={handleSaveExamSettings}
+              disabled={isSavingExam}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-75"
+            >
+              {isSavingExam ? '保存中...' : '保存'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 题库列表 */}
       {renderQuestionSets()}
     </div>
@@ -1,32 +1,102 @@
 import React, { useState, useEffect } from 'react';
 import { useUser } from '../contexts/UserContext';
-import { QuestionSet } from '../types';
+import { QuestionSet, Purchase, PurchaseIntent, PaymentConfig, PricingTier, Bundle } from '../types';
+import { purchaseApi, bundleApi } from '../utils/api';
+import { getPricingTiers, isLifetimeExpiry } from '../utils/pricing';
 
 interface PaymentModalProps {
   isOpen: boolean;
   onClose: () => void;
-  questionSet: QuestionSet;
+  // 传入题库时可以选择它的价格档位或包含它的套餐；只传入套餐时直接购买套餐
+  questionSet?: QuestionSet;
+  bundle?: Bundle;
   onSuccess?: () => void;
 }
 
-// Stripe公钥 - 在生产环境应该使用环境变量
-// 理想情况下，应该使用import.meta.env.VITE_STRIPE_PUBLIC_KEY等环境变量
+// 没有从服务端取得公钥时使用的 Stripe 测试公钥
 const STRIPE_PUBLIC_KEY = import.meta.env.VITE_STRIPE_PUBLIC_KEY || 
   'pk_test_51RHMVW4ec3wxfwe9vME773VFyquoIP1bVWbsCDZgrgerfzp8YMs0rLS4ZSleICEcIf9gmLIEftwXvPygbLp1LEkv00r5M3rCIV';
 
-const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, questionSet, onSuccess }) => {
-  const { user, addPurchase } = useUser();
+// 等待支付结果：每 2 秒查询一次，最多约 30 秒
+const STATUS_POLL_INTERVAL = 2000;
+const STATUS_POLL_ATTEMPTS = 15;
+
+const CURRENCY_SYMBOLS: Record<string, string> = { cny: '¥', usd: '$', hkd: 'HK$', eur: '€' };
+
+const formatPrice = (amount: number | undefined, currency = 'cny') =>
+  CURRENCY_SYMBOLS[currency] ? `${CURRENCY_SYMBOLS[currency]}${amount ?? 0}` : `${amount ?? 0} ${currency.toUpperCase()}`;
+
+// 可购买的选项：题库的一个价格档位，或一个套餐
+type PurchaseOption =
+  | { key: string; kind: 'tier'; price: number; tier: PricingTier }
+  | { key: string; kind: 'bundle'; price: number; bundle: Bundle };
+
+/**
+ * 购买题库或套餐
+ *
+ * 题库设置了多个价格档位时先选择有效期，所选档位决定支付金额和到期时间。
+ * 包含该题库的上架套餐也会列为选项，购买套餐即获得其中所有题库的访问权限。
+ * 支付渠道由服务端配置（/purchases/config）：
+ * - stripe：打开时创建支付，用 Stripe Payment Element 付款（银行卡、支付宝、微信支付取决于 Stripe 后台设置）
+ * - mock：开发环境的模拟支付，点击按钮即完成
+ * 两种方式都要等服务端收到支付平台的确认后购买才生效
+ */
+const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, questionSet, bundle, onSuccess }) => {
+  const { user, refreshUser } = useUser();
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState('');
   const [successMessage, setSuccessMessage] = useState('');
+  const [config, setConfig] = useState<PaymentConfig | null>(null);
   const [stripeLoaded, setStripeLoaded] = useState(false);
   const [stripe, setStripe] = useState<any>(null);
-  const [cardElement, setCardElement] = useState<any>(null);
+  const [elements, setElements] = useState<any>(null);
+  const [intent, setIntent] = useState<PurchaseIntent | null>(null);
 
-  // 加载Stripe
+  const [bundles, setBundles] = useState<Bundle[]>([]);
+
+  const options: PurchaseOption[] = [
+    ...(questionSet
+      ? getPricingTiers(questionSet).map(tier => ({ key: `tier:${tier.id}`, kind: 'tier' as const, price: tier.price, tier }))
+      : []),
+    ...(bundle ? [bundle] : bundles).map(item => ({ key: `bundle:${item.id}`, kind: 'bundle' as const, price: item.price, bundle: item }))
+  ];
+  const [optionKey, setOptionKey] = useState('');
+  const selected = options.find(option => option.key === optionKey) || options[0];
+  const title = questionSet ? questionSet.title : bundle?.title;
+  const questionSetId = questionSet?.id;
+
+  const isStripe = config?.provider === 'stripe';
+  const isReady = !!config && (!isStripe || (!!stripe && !!elements && !!intent));
+
+  // 读取支付渠道
   useEffect(() => {
     if (!isOpen) return;
 
+    setError('');
+    setSuccessMessage('');
+    setIntent(null);
+    purchaseApi.getPaymentConfig().then(response => {
+      if (response.success && response.data) {
+        setConfig(response.data);
+      } else {
+        setError(response.message || '支付暂不可用，请稍后重试');
+      }
+    });
+  }, [isOpen]);
+
+  // 读取包含该题库的套餐
+  useEffect(() => {
+    if (!isOpen || !questionSetId || bundle) return;
+
+    bundleApi.getBundles({ questionSetId }).then(response => {
+      setBundles(response.success && response.data ? response.data : []);
+    });
+  }, [isOpen, questionSetId, bundle]);
+
+  // 加载Stripe
+  useEffect(() => {
+    if (!isOpen || !isStripe) return;
+
     // 动态加载Stripe.js
     const script = document.createElement('script');
     script.src = 'https://js.stripe.com/v3/';
@@ -39,56 +109,106 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, questionSe
     return () => {
       // 清理
       document.body.removeChild(script);
+      setStripeLoaded(false);
     };
-  }, [isOpen]);
+  }, [isOpen, isStripe]);
+
+  // 按所选档位或套餐创建支付
+  const createIntent = () => selected.kind === 'bundle'
+    ? purchaseApi.createBundlePurchase(selected.bundle.id)
+    : purchaseApi.createPurchase(questionSet!.id, selected.tier.id);
 
-  // 初始化Stripe
+  // Stripe 的支付表单需要先创建支付，金额随选项变化，切换档位或套餐后重新创建
   useEffect(() => {
-    if (!stripeLoaded || !isOpen) return;
-
-    const stripeInstance = (window as any).Stripe(STRIPE_PUBLIC_KEY);
-    setStripe(stripeInstance);
-
-    const elements = stripeInstance.elements();
-    const card = elements.create('card', {
-      style: {
-        base: {
-          fontSize: '16px',
-          color: '#32325d',
-          fontFamily: '"Helvetica Neue", Helvetica, sans-serif',
-          fontSmoothing: 'antialiased',
-          '::placeholder': {
-            color: '#aab7c4'
-          }
-        },
-        invalid: {
-          color: '#fa755a',
-          iconColor: '#fa755a'
-        }
-      }
-    });
+    if (!stripeLoaded || !isOpen || !config || !selected) return;
+
+    let paymentElement: { mount: (selector: string) => void; unmount: () => void } | null = null;
+    let cancelled = false;
 
-    // 等待下一个渲染周期挂载DOM
-    setTimeout(() => {
-      const cardContainer = document.getElementById('card-element');
-      if (cardContainer) {
-        card.mount('#card-element');
-        setCardElement(card);
+    setIntent(null);
+    createIntent().then(response => {
+      if (cancelled) return;
+      if (!response.success || !response.data) {
+        setError(response.message || '创建支付失败，请重试');
+        return;
       }
-    }, 100);
+
+      const stripeInstance = (window as any).Stripe(config.publishableKey || STRIPE_PUBLIC_KEY);
+      const stripeElements = stripeInstance.elements({ clientSecret: response.data.clientSecret });
+      const element = stripeElements.create('payment');
+      paymentElement = element;
+
+      setStripe(stripeInstance);
+      setElements(stripeElements);
+      setIntent(response.data);
+
+      // 等待下一个渲染周期挂载DOM
+      setTimeout(() => {
+        if (!cancelled && document.getElementById('payment-element')) {
+          element.mount('#payment-element');
+        }
+      }, 100);
+    });
 
     return () => {
-      if (card) {
-        card.unmount();
+      cancelled = true;
+      if (paymentElement) {
+        paymentElement.unmount();
       }
     };
-  }, [stripeLoaded, isOpen]);
+    // createIntent 只取决于所选选项
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stripeLoaded, isOpen, config, selected?.key]);
+
+  // 轮询购买状态，直到 webhook 把记录改为已完成或失败
+  const waitForPurchase = async (paymentIntentId: string): Promise<Purchase | null> => {
+    for (let i = 0; i < STATUS_POLL_ATTEMPTS; i++) {
+      const response = await purchaseApi.getPurchaseStatus(paymentIntentId);
+      const purchase = response.success && response.data ? response.data.purchase : null;
+      if (purchase && purchase.status !== 'pending') {
+        return purchase;
+      }
+      if (response.data?.paymentStatus === 'failed') {
+        return { ...purchase, status: 'failed' } as Purchase;
+      }
+      await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL));
+    }
+    return null;
+  };
+
+  // 按支付渠道完成付款，返回支付ID
+  const pay = async (): Promise<string | null> => {
+    if (isStripe) {
+      const { error: paymentError } = await stripe.confirmPayment({
+        elements,
+        redirect: 'if_required',
+        confirmParams: { return_url: window.location.href }
+      });
+      if (paymentError) {
+        setError(paymentError.message || '支付失败，请检查支付信息后重试');
+        return null;
+      }
+      return intent!.paymentIntentId;
+    }
+
+    const intentResponse = await createIntent();
+    if (!intentResponse.success || !intentResponse.data) {
+      setError(intentResponse.message || '创建支付失败，请重试');
+      return null;
+    }
+    const confirmResponse = await purchaseApi.confirmMockPayment(intentResponse.data.paymentIntentId);
+    if (!confirmResponse.success) {
+      setError(confirmResponse.message || '模拟支付失败，请重试');
+      return null;
+    }
+    return intentResponse.data.paymentIntentId;
+  };
 
   // 处理支付提交
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!stripe || !cardElement || !user) {
+    if (!isReady || !user || !selected) {
       return;
     }
 
@@ -96,34 +216,27 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, questionSe
     setError('');
 
     try {
-      // 在实际应用中，这里应该向服务器发送请求创建支付意向
-      // 为了演示，我们模拟一个成功的支付过程
-
-      // 模拟支付处理延迟
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      const paymentIntentId = await pay();
+      if (!paymentIntentId) {
+        return;
+      }
 
-      // 模拟交易ID
-      const transactionId = `tr_${Math.random().toString(36).substring(2, 12)}`;
-      
-      // 计算过期时间（6个月后）
-      const now = new Date();
-      const expiryDate = new Date(now);
-      expiryDate.setMonth(expiryDate.getMonth() + 6);
-      
-      // 创建购买记录
-      const purchase = {
-        questionSetId: questionSet.id,
-        purchaseDate: now.toISOString(),
-        expiryDate: expiryDate.toISOString(),
-        transactionId: transactionId,
-        amount: questionSet.price || 0
-      };
-      
-      // 添加购买记录
-      addPurchase(purchase);
+      // 购买记录由支付平台的 webhook 确认后才会生效，有效期也以服务端为准
+      const purchase = await waitForPurchase(paymentIntentId);
+      if (!purchase || purchase.status !== 'completed') {
+        setError(purchase?.status === 'failed'
+          ? '支付未成功，请重试'
+          : '支付已提交，正在确认中，请稍后刷新页面查看');
+        return;
+      }
+      await refreshUser();
       
-      // 总是显示成功消息
-      setSuccessMessage(`支付成功！您现在可以访问《${questionSet.title}》题库的所有内容，有效期至 ${expiryDate.toLocaleDateString()}`);
+      const validity = isLifetimeExpiry(purchase.expiryDate)
+        ? '永久有效'
+        : `有效期至 ${new Date(purchase.expiryDate).toLocaleDateString()}`;
+      setSuccessMessage(selected.kind === 'bundle'
+        ? `支付成功！您现在可以访问套餐《${selected.bundle.title}》中 ${selected.bundle.questionSets.length} 个题库的所有内容，${validity}`
+        : `支付成功！您现在可以访问《${questionSet!.title}》题库的所有内容，${validity}`);
       
       // 如果提供了成功回调，则立即调用而不是延迟
       if (onSuccess) {
@@ -138,14 +251,16 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, questionSe
     }
   };
 
-  if (!isOpen) return null;
+  if (!isOpen || !selected) return null;
+
+  const selectedDuration = selected.kind === 'bundle' ? selected.bundle.accessDays : selected.tier.durationDays;
 
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
       <div className="relative mx-auto p-5 border w-full max-w-md shadow-lg rounded-lg bg-white animate-fadeIn">
         <div className="flex justify-between items-center mb-6">
           <h3 className="text-xl font-semibold text-gray-900">
-            购买题库
+            {questionSet ? '购买题库' : '购买套餐'}
           </h3>
           <button 
             onClick={onClose}
@@ -159,13 +274,59 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, questionSe
         </div>
         
         <div className="mb-6">
-          <h4 className="font-medium text-lg mb-2">{questionSet.title}</h4>
-          <p className="text-gray-600 mb-3">{questionSet.description}</p>
-          <div className="flex items-center justify-between bg-gray-50 p-3 rounded-md">
-            <span className="text-gray-700">付费内容</span>
-            <span className="font-medium text-lg text-green-600">¥{questionSet.price}</span>
-          </div>
-          <p className="text-sm text-gray-500 mt-2">购买后有效期为6个月</p>
+          <h4 className="font-medium text-lg mb-2">{title}</h4>
+          <p className="text-gray-600 mb-3">{questionSet ? questionSet.description : bundle?.description}</p>
+          {options.length > 1 ? (
+            <div className="space-y-2">
+              {options.map(option => (
+                <label
+                  key={option.key}
+                  className={`flex items-center justify-between p-3 rounded-md border cursor-pointer ${
+                    option.key === selected.key ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-gray-50'
+                  }`}
+                >
+                  <span className="flex items-center text-gray-700">
+                    <input
+                      type="radio"
+                      name="purchase-option"
+                      value={option.key}
+                      checked={option.key === selected.key}
+                      onChange={() => setOptionKey(option.key)}
+                      disabled={isProcessing || !!successMessage}
+                      className="mr-2"
+                    />
+                    {option.kind === 'bundle' ? `套餐：${option.bundle.title}` : option.tier.label}
+                  </span>
+                  <span className="font-medium text-lg text-green-600">{formatPrice(option.price, config?.currency)}</span>
+                </label>
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center justify-between bg-gray-50 p-3 rounded-md">
+              <span className="text-gray-700">{selected.kind === 'bundle' ? '套餐价格' : '付费内容'}</span>
+              <span className="font-medium text-lg text-green-600">{formatPrice(selected.price, config?.currency)}</span>
+            </div>
+          )}
+          {selected.kind === 'bundle' && (
+            <div className="mt-3 text-sm text-gray-600">
+              <p>
+                包含 {selected.bundle.questionSets.length} 个题库：
+                {selected.bundle.questionSets.map(item => `《${item.title}》`).join('')}
+              </p>
+              {selected.bundle.originalPrice > selected.bundle.price && (
+                <p className="mt-1">
+                  单独购买合计 <span className="line-through">{formatPrice(selected.bundle.originalPrice, config?.currency)}</span>
+                </p>
+              )}
+            </div>
+          )}
+          <p className="text-sm text-gray-500 mt-2">
+            {selectedDuration === null
+              ? '购买后永久有效'
+              : selected.kind === 'bundle'
+                ? `购买后套餐中的题库有效期为${selectedDuration}天`
+                : `购买后有效期为${selectedDuration}天（${selected.tier.label}）`}
+          </p>
         </div>
         
         {successMessage ? (
@@ -193,20 +354,21 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, questionSe
           </div>
         ) : (
           <form onSubmit={handleSubmit} className="space-y-4">
-            {stripeLoaded && (
+            {isStripe && (
               <div className="mb-4">
-                <label htmlFor="card-element" className="block text-sm font-medium text-gray-700 mb-2">
-                  信用卡信息
+                <label htmlFor="payment-element" className="block text-sm font-medium text-gray-700 mb-2">
+                  支付方式
                 </label>
-                <div 
-                  id="card-element" 
-                  className="p-3 border border-gray-300 rounded-md shadow-sm"
-                >
-                  {/* Stripe 卡元素将挂载在这里 */}
+                <div id="payment-element">
+                  {/* Stripe 支付表单将挂载在这里 */}
                 </div>
-                <p className="mt-1 text-xs text-gray-500">
-                  这是一个测试环境，您可以使用测试卡号：4242 4242 4242 4242，有效期：任意未来日期，CVV：任意3位数
-                </p>
+                {!intent && !error && <p className="text-sm text-gray-500">正在加载支付表单...</p>}
+              </div>
+            )}
+
+            {config?.provider === 'mock' && (
+              <div className="mb-4 bg-yellow-50 p-3 rounded-md text-sm text-yellow-800">
+                当前为开发环境的模拟支付，不会产生实际扣款
               </div>
             )}
             
@@ -229,7 +391,7 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, questionSe
             
             <button
               type="submit"
-              disabled={isProcessing || !stripeLoaded}
+              disabled={isProcessing || !isReady}
               className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${isProcessing ? 'opacity-70 cursor-not-allowed' : ''}`}
             >
               {isProcessing ? (
@@ -238,7 +400,7 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, questionSe
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
               ) : null}
-              {isProcessing ? '处理中...' : `支付 ¥${questionSet.price}`}
+              {isProcessing ? '处理中...' : `支付 ${formatPrice(selected.price, config?.currency)}`}
             </button>
           </form>
         )}
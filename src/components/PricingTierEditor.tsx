@@ -0,0 +1,87 @@
+import React from 'react';
+import { PricingTierDraft } from '../utils/pricing';
+
+interface PricingTierEditorProps {
+  tiers: PricingTierDraft[];
+  onChange: (tiers: PricingTierDraft[]) => void;
+}
+
+// 常用的档位，添加时依次使用
+const SUGGESTED_DURATIONS = ['30', '180', ''];
+
+/**
+ * 付费题库的价格档位
+ *
+ * 没有档位时按题库价格购买 6 个月；设置档位后学员购买时选择有效期，题库价格显示为最低的档位价格
+ */
+const PricingTierEditor: React.FC<PricingTierEditorProps> = ({ tiers, onChange }) => {
+  const updateTier = (index: number, field: keyof PricingTierDraft, value: string) => {
+    onChange(tiers.map((tier, i) => i === index ? { ...tier, [field]: value } : tier));
+  };
+
+  const addTier = () => {
+    const durationDays = SUGGESTED_DURATIONS.find(days => !tiers.some(tier => tier.durationDays === days));
+    onChange([...tiers, { label: '', durationDays: durationDays ?? '', price: '' }]);
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="flex justify-between items-center mb-2">
+        <label className="block text-gray-700">价格档位</label>
+        <button
+          type="button"
+          onClick={addTier}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + 添加档位
+        </button>
+      </div>
+
+      {tiers.length === 0 ? (
+        <p className="text-sm text-gray-500">未设置档位，按上面的价格购买，有效期6个月</p>
+      ) : (
+        <div className="space-y-2">
+          {tiers.map((tier, index) => (
+            <div key={index} className="flex flex-col sm:flex-row gap-2 items-start sm:items-center">
+              <input
+                type="number"
+                value={tier.durationDays}
+                onChange={(e) => updateTier(index, 'durationDays', e.target.value)}
+                className="w-full sm:w-32 border border-gray-300 rounded px-3 py-2"
+                placeholder="天数，空为永久"
+                step="1"
+                min="1"
+              />
+              <input
+                type="text"
+                value={tier.label}
+                onChange={(e) => updateTier(index, 'label', e.target.value)}
+                className="w-full sm:flex-1 border border-gray-300 rounded px-3 py-2"
+                placeholder="名称（选填，默认按有效期显示）"
+                maxLength={50}
+              />
+              <input
+                type="number"
+                value={tier.price}
+                onChange={(e) => updateTier(index, 'price', e.target.value)}
+                className="w-full sm:w-32 border border-gray-300 rounded px-3 py-2"
+                placeholder="价格 (¥)"
+                step="0.1"
+                min="0"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                删除
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PricingTierEditor;
@@ -1,12 +1,19 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useUser } from '../contexts/UserContext';
 import { questionSets } from '../data/questionSets';
+import { WrongQuestionNotebook, AttemptHistory } from '../types';
+import { wrongQuestionApi, quizAttemptApi } from '../utils/api';
+import { formatAnswer } from '../utils/questionTypes';
+import { isLifetimeExpiry } from '../utils/pricing';
+import AttemptDetailsModal from './AttemptDetailsModal';
 
 // 定义标签页枚举
 enum ProfileTab {
   PROGRESS = 'progress',
+  HISTORY = 'history',
   PURCHASES = 'purchases',
+  WRONG_QUESTIONS = 'wrongQuestions',
   REDEEM_CODES = 'redeemCodes',
   SETTINGS = 'settings'
 }
@@ -15,6 +22,61 @@ const ProfilePage: React.FC = () => {
   const { user, logout } = useUser();
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState<ProfileTab>(ProfileTab.PROGRESS);
+  const [notebook, setNotebook] = useState<WrongQuestionNotebook | null>(null);
+  const [loadingNotebook, setLoadingNotebook] = useState(false);
+  const [history, setHistory] = useState<AttemptHistory | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [detailAttemptId, setDetailAttemptId] = useState<string | null>(null);
+  
+  // 切换到答题记录标签页时加载历史成绩
+  useEffect(() => {
+    if (activeTab !== ProfileTab.HISTORY) return;
+    
+    const fetchHistory = async () => {
+      setLoadingHistory(true);
+      try {
+        const response = await quizAttemptApi.getHistory();
+        if (response.success && response.data) {
+          setHistory(response.data);
+        }
+      } catch (error) {
+        console.error('获取答题历史失败:', error);
+      } finally {
+        setLoadingHistory(false);
+      }
+    };
+    
+    fetchHistory();
+  }, [activeTab]);
+  
+  // 切换到错题本标签页时加载错题
+  useEffect(() => {
+    if (activeTab !== ProfileTab.WRONG_QUESTIONS) return;
+    
+    const fetchNotebook = async () => {
+      setLoadingNotebook(true);
+      try {
+        const response = await wrongQuestionApi.getWrongQuestions();
+        if (response.success && response.data) {
+          setNotebook(response.data);
+        }
+      } catch (error) {
+        console.error('获取错题本失败:', error);
+      } finally {
+        setLoadingNotebook(false);
+      }
+    };
+    
+    fetchNotebook();
+  }, [activeTab]);
+  
+  // 从错题本移除
+  const handleRemoveWrongQuestion = async (questionId: string) => {
+    const response = await wrongQuestionApi.removeWrongQuestion(questionId);
+    if (response.success) {
+      setNotebook(prev => prev ? { ...prev, items: prev.items.filter(item => item.questionId !== questionId) } : prev);
+    }
+  };
   
   if (!user) {
     // 已经在 ProtectedRoute 中处理，但为了类型安全添加此检查
@@ -38,13 +100,13 @@ const ProfilePage: React.FC = () => {
 
   // 整理用户购买记录
   const purchaseData = user.purchases ? user.purchases.map(purchase => {
-    const quizSet = questionSets.find(set => set.id === purchase.questionSetId);
+    const quizSet = purchase.questionSet || questionSets.find(set => set.id === purchase.questionSetId);
     return {
       ...purchase,
       title: quizSet ? quizSet.title : `题库 ${purchase.questionSetId}`,
       category: quizSet ? quizSet.category : '未知分类',
       icon: quizSet ? quizSet.icon : '📝',
-      isActive: new Date(purchase.expiryDate) > new Date()
+      isActive: purchase.status === 'completed' && new Date(purchase.expiryDate) > new Date()
     };
   }) : [];
 
@@ -81,6 +143,13 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  // 格式化答题用时
+  const formatDuration = (seconds?: number | null) => {
+    if (seconds === null || seconds === undefined) return '-';
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0 ? `${minutes}分${seconds % 60}秒` : `${seconds}秒`;
+  };
+
   // 计算剩余天数
   const calculateRemainingDays = (dateString: string | null) => {
     if (!dateString) return 0;
@@ -161,6 +230,16 @@ const ProfilePage: React.FC = () => {
             >
               学习进度
             </button>
+            <button
+              onClick={() => setActiveTab(ProfileTab.HISTORY)}
+              className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === ProfileTab.HISTORY
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              答题记录
+            </button>
             <button
               onClick={() => setActiveTab(ProfileTab.PURCHASES)}
               className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${
@@ -176,6 +255,21 @@ const ProfilePage: React.FC = () => {
                 </span>
               )}
             </button>
+            <button
+              onClick={() => setActiveTab(ProfileTab.WRONG_QUESTIONS)}
+              className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === ProfileTab.WRONG_QUESTIONS
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              错题本
+              {notebook && notebook.items.length > 0 && (
+                <span className="ml-2 py-0.5 px-2 text-xs rounded-full bg-red-100 text-red-800">
+                  {notebook.items.length}
+                </span>
+              )}
+            </button>
             <button
               onClick={() => setActiveTab(ProfileTab.REDEEM_CODES)}
               className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${
@@ -342,24 +436,50 @@ const ProfilePage: React.FC = () => {
                             </div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm text-gray-900">¥{purchase.amount}</div>
+                            {purchase.bundlePurchase ? (
+                              <div className="text-sm text-gray-900">
+                                来自套餐《{purchase.bundlePurchase.bundle?.title || '已删除的套餐'}》
+                              </div>
+                            ) : (
+                              <div className="text-sm text-gray-900">¥{purchase.amount}</div>
+                            )}
                             <div className="text-sm text-gray-500">{formatDate(purchase.purchaseDate)}</div>
                             <div className="text-xs text-gray-500 mt-1">
                               订单号: {purchase.transactionId}
                             </div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            {purchase.isActive ? (
+                            {purchase.status === 'refunded' ? (
+                              <div className="whitespace-normal max-w-xs">
+                                <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                                  已退款
+                                </span>
+                                <div className="text-xs text-gray-500 mt-1">
+                                  退款 ¥{purchase.refundedAmount}
+                                  {Number(purchase.refundedAmount) < Number(purchase.amount) ? '（部分退款）' : ''}
+                                  {purchase.refundedAt ? `，${formatDate(purchase.refundedAt)}` : ''}
+                                </div>
+                                {purchase.refundReason && (
+                                  <div className="text-xs text-gray-500">原因: {purchase.refundReason}</div>
+                                )}
+                              </div>
+                            ) : purchase.isActive ? (
                               <div>
                                 <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
                                   有效
                                 </span>
-                                <div className="text-xs text-gray-500 mt-1">
-                                  剩余 {calculateRemainingDays(purchase.expiryDate)} 天
-                                </div>
-                                <div className="text-xs text-gray-500">
-                                  到期: {formatDate(purchase.expiryDate)}
-                                </div>
+                                {isLifetimeExpiry(purchase.expiryDate) ? (
+                                  <div className="text-xs text-gray-500 mt-1">永久有效</div>
+                                ) : (
+                                  <>
+                                    <div className="text-xs text-gray-500 mt-1">
+                                      剩余 {calculateRemainingDays(purchase.expiryDate)} 天
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                      到期: {formatDate(purchase.expiryDate)}
+                                    </div>
+                                  </>
+                                )}
                               </div>
                             ) : (
                               <div>
@@ -373,12 +493,14 @@ const ProfilePage: React.FC = () => {
                             )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                            <Link
-                              to={`/quiz/${purchase.questionSetId}`}
-                              className="text-blue-600 hover:text-blue-900"
-                            >
-                              开始学习
-                            </Link>
+                            {purchase.status !== 'refunded' && (
+                              <Link
+                                to={`/quiz/${purchase.questionSetId}`}
+                                className="text-blue-600 hover:text-blue-900"
+                              >
+                                开始学习
+                              </Link>
+                            )}
                           </td>
                         </tr>
                       ))}
@@ -389,6 +511,183 @@ const ProfilePage: React.FC = () => {
             </div>
           )}
 
+          {/* 答题记录标签页 */}
+          {activeTab === ProfileTab.HISTORY && (
+            <div>
+              <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">
+                答题记录
+              </h3>
+              
+              {loadingHistory && !history ? (
+                <div className="flex justify-center py-10">
+                  <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+                </div>
+              ) : !history || history.attempts.length === 0 ? (
+                <div className="text-center py-10">
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">暂无答题记录</h3>
+                  <p className="mt-1 text-sm text-gray-500">完成一次答题后会在这里显示成绩</p>
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  {/* 各题库成绩趋势 */}
+                  <div className="space-y-4">
+                    {history.sets.map(set => (
+                      <div key={set.questionSetId} className="border rounded-lg p-4">
+                        <div className="flex items-start justify-between mb-3">
+                          <div className="flex items-center">
+                            <div className="text-2xl mr-3">{set.questionSetIcon}</div>
+                            <div>
+                              <h4 className="text-base font-medium text-gray-900">{set.questionSetTitle}</h4>
+                              <p className="text-xs text-gray-500">
+                                共 {set.attemptCount} 次 · 最高 {set.bestScore} 分 · 平均 {set.averageScore} 分 · 最近 {set.lastScore} 分
+                              </p>
+                            </div>
+                          </div>
+                          <Link
+                            to={`/quiz/${set.questionSetId}`}
+                            className="text-sm text-blue-600 hover:text-blue-900 whitespace-nowrap"
+                          >
+                            再做一次
+                          </Link>
+                        </div>
+                        <div className="flex items-end h-24 gap-1 border-b border-gray-200">
+                          {set.trend.map(point => (
+                            <button
+                              key={point.attemptId}
+                              onClick={() => setDetailAttemptId(point.attemptId)}
+                              title={`${formatDate(point.completedAt)} · ${point.score ?? 0}分`}
+                              className={`flex-1 max-w-[2rem] rounded-t ${
+                                point.mode === 'exam'
+                                  ? point.passed === false ? 'bg-red-400 hover:bg-red-500' : 'bg-purple-400 hover:bg-purple-500'
+                                  : 'bg-blue-400 hover:bg-blue-500'
+                              }`}
+                              style={{ height: `${Math.max(4, point.score ?? 0)}%` }}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* 最近答题列表 */}
+                  <div className="overflow-hidden rounded-lg border border-gray-200">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            题库
+                          </th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            得分
+                          </th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            用时
+                          </th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            完成时间
+                          </th>
+                          <th scope="col" className="relative px-6 py-3">
+                            <span className="sr-only">操作</span>
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {history.attempts.map(attempt => (
+                          <tr key={attempt.id}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {attempt.tags ? `🏷️ 按标签练习：${attempt.tags.join('、')}` : `${attempt.questionSetIcon} ${attempt.questionSetTitle}`}
+                              <span className="ml-2 text-xs text-gray-500">{attempt.mode === 'exam' ? '考试' : '练习'}</span>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {attempt.score ?? 0}
+                              <span className="ml-1 text-xs text-gray-500">({attempt.correctCount}/{attempt.totalQuestions})</span>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {formatDuration(attempt.durationSeconds)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {attempt.completedAt ? formatDate(attempt.completedAt) : '-'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                              <button
+                                onClick={() => setDetailAttemptId(attempt.id)}
+                                className="text-blue-600 hover:text-blue-900"
+                              >
+                                查看详情
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 错题本标签页 */}
+          {activeTab === ProfileTab.WRONG_QUESTIONS && (
+            <div>
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  错题本
+                </h3>
+                {notebook && notebook.items.length > 0 && (
+                  <Link
+                    to="/wrong-questions/practice"
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+                  >
+                    开始错题练习
+                  </Link>
+                )}
+              </div>
+              
+              {loadingNotebook && !notebook ? (
+                <div className="flex justify-center py-10">
+                  <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+                </div>
+              ) : !notebook || notebook.items.length === 0 ? (
+                <div className="text-center py-10">
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">错题本是空的</h3>
+                  <p className="mt-1 text-sm text-gray-500">答错的题目会自动收录到这里</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-500">
+                    共 {notebook.items.length} 道错题，同一道题连续答对 {notebook.masteryStreak} 次后自动移出。
+                  </p>
+                  {notebook.items.map(item => (
+                    <div key={item.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <p className="text-xs text-gray-500 mb-1">{item.questionSetIcon} {item.questionSetTitle}</p>
+                          <h4 className="text-base font-medium text-gray-900">{item.question?.text || '题目已删除'}</h4>
+                        </div>
+                        <button
+                          onClick={() => handleRemoveWrongQuestion(item.questionId)}
+                          className="text-sm text-red-600 hover:text-red-800 ml-4 whitespace-nowrap"
+                        >
+                          移除
+                        </button>
+                      </div>
+                      {item.question && (
+                        <p className="mt-2 text-sm text-red-600">
+                          我的答案：{formatAnswer(item.question, item.selectedOptions) || '未选择'}
+                        </p>
+                      )}
+                      <div className="mt-2 flex flex-wrap gap-4 text-xs text-gray-500">
+                        <span>答错 {item.wrongCount} 次</span>
+                        <span>连续答对 {item.correctStreak} / {notebook.masteryStreak}</span>
+                        <span>最近答错 {formatDate(item.lastWrongAt)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* 兑换码记录标签页 */}
           {activeTab === ProfileTab.REDEEM_CODES && (
             <div>
@@ -511,6 +810,11 @@ const ProfilePage: React.FC = () => {
           )}
         </div>
       </div>
+
+      <AttemptDetailsModal
+        attemptId={detailAttemptId}
+        onClose={() => setDetailAttemptId(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Question, AnswerResult } from '../types';
+import RichText from './RichText';
+import { formatAnswer, toSubmittedAnswer } from '../utils/questionTypes';
+
+interface QuestionAnswerInputProps {
+  question: Question;
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  // 判题后传入结果，显示对错并不能再修改答案
+  result?: Pick<AnswerResult, 'isCorrect' | 'correctOptions'> | null;
+}
+
+const CorrectIcon = () => (
+  <svg className="h-5 w-5 text-green-500 ml-2" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+  </svg>
+);
+
+const WrongIcon = () => (
+  <svg className="h-5 w-5 text-red-500 ml-2" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+  </svg>
+);
+
+// 判题后每一项的底色
+const resultClass = (isCorrect: boolean) => isCorrect ? 'bg-green-50 border-green-300' : 'bg-red-50 border-red-300';
+
+/**
+ * 按题型显示作答区域：
+ * - 单选、多选、判断题点击选项
+ * - 填空题输入答案
+ * - 排序题拖动或用上下按钮调整顺序
+ * - 匹配题为每个左侧项选择右侧项
+ */
+const QuestionAnswerInput: React.FC<QuestionAnswerInputProps> = ({ question, selected, onChange, result }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const locked = !!result;
+  const correctOptions = result?.correctOptions || [];
+
+  if (question.questionType === 'fill') {
+    return (
+      <div className="mb-6">
+        <input
+          type="text"
+          value={selected[0] || ''}
+          onChange={e => onChange([e.target.value])}
+          disabled={locked}
+          placeholder="请输入答案"
+          className={`w-full p-3 border rounded-lg ${locked ? resultClass(!!result?.isCorrect) : 'border-gray-300'}`}
+        />
+        {locked && !result?.isCorrect && correctOptions.length > 0 && (
+          <p className="text-sm text-green-700 mt-2">参考答案：{correctOptions.join(' / ')}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (question.questionType === 'ordering') {
+    const order = toSubmittedAnswer(question, selected);
+    const move = (from: number, to: number) => {
+      if (locked || to < 0 || to >= order.length || from === to) return;
+      const next = [...order];
+      const [item] = next.splice(from, 1);
+      next.splice(to, 0, item);
+      onChange(next);
+    };
+
+    return (
+      <div className="mb-6">
+        {!locked && <p className="text-sm text-gray-500 mb-2">拖动或使用箭头调整顺序</p>}
+        <div className="space-y-2">
+          {order.map((optionId, index) => {
+            const option = question.options.find(o => o.id === optionId);
+            return (
+              <div
+                key={optionId}
+                draggable={!locked}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={e => e.preventDefault()}
+                onDrop={() => {
+                  if (dragIndex !== null) move(dragIndex, index);
+                  setDragIndex(null);
+                }}
+                className={`p-3 border rounded-lg flex items-center ${
+                  locked ? resultClass(correctOptions[index] === optionId) : 'border-gray-200 bg-white cursor-move'
+                }`}
+              >
+                <span className="w-6 h-6 shrink-0 flex items-center justify-center rounded-full border border-gray-300 mr-3 text-sm">
+                  {index + 1}
+                </span>
+                <RichText content={option ? option.text : optionId} format={question.contentFormat} className="flex-1" />
+                {!locked && (
+                  <span className="flex gap-1">
+                    <button
+                      type="button"
+                      onClick={() => move(index, index - 1)}
+                      disabled={index === 0}
+                      className="px-2 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(index, index + 1)}
+                      disabled={index === order.length - 1}
+                      className="px-2 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {locked && !result?.isCorrect && correctOptions.length > 0 && (
+          <p className="text-sm text-green-700 mt-2">正确顺序：{formatAnswer(question, correctOptions)}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (question.questionType === 'matching') {
+    return (
+      <div className="space-y-3 mb-6">
+        {question.options.map((option, index) => (
+          <div
+            key={option.id}
+            className={`p-3 border rounded-lg flex flex-col md:flex-row md:items-center gap-2 ${
+              locked ? resultClass(!!selected[index] && selected[index] === correctOptions[index]) : 'border-gray-200'
+            }`}
+          >
+            <RichText content={option.text} format={question.contentFormat} className="flex-1" />
+            <select
+              value={selected[index] || ''}
+              onChange={e => {
+                const next = question.options.map((_, i) => selected[i] || '');
+                next[index] = e.target.value;
+                onChange(next);
+              }}
+              disabled={locked}
+              className="p-2 border rounded md:w-1/2"
+            >
+              <option value="">请选择</option>
+              {(question.matchChoices || []).map(choice => (
+                <option key={choice} value={choice}>{choice}</option>
+              ))}
+            </select>
+            {locked && selected[index] !== correctOptions[index] && correctOptions[index] && (
+              <span className="text-sm text-green-700">正确：{correctOptions[index]}</span>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  // 单选、多选和判断题
+  const handleOptionSelect = (optionId: string) => {
+    if (locked) return;
+
+    if (question.questionType === 'multiple') {
+      onChange(selected.includes(optionId) ? selected.filter(id => id !== optionId) : [...selected, optionId]);
+    } else {
+      onChange([optionId]);
+    }
+  };
+
+  return (
+    <div className="space-y-3 mb-6">
+      {question.options.map(option => {
+        const isSelected = selected.includes(option.id);
+        const isCorrectOption = correctOptions.includes(option.id);
+        return (
+          <div
+            key={option.id}
+            onClick={() => handleOptionSelect(option.id)}
+            className={`p-3 border rounded-lg cursor-pointer flex justify-between items-center ${
+              locked
+                ? isCorrectOption
+                  ? 'bg-green-50 border-green-300'
+                  : isSelected
+                    ? 'bg-red-50 border-red-300'
+                    : 'border-gray-200'
+                : isSelected
+                  ? 'bg-blue-50 border-blue-300'
+                  : 'border-gray-200 hover:border-blue-200 hover:bg-blue-50'
+            }`}
+          >
+            <div className="flex items-center min-w-0">
+              <span className={`w-6 h-6 shrink-0 flex items-center justify-center rounded-full border mr-3 ${
+                isSelected ? 'bg-blue-500 text-white border-blue-500' : 'border-gray-300'
+              }`}>
+                {option.optionIndex || option.id}
+              </span>
+              <RichText content={option.text} format={question.contentFormat} />
+            </div>
+
+            {/* 正确/错误标记（只在判题后） */}
+            {locked && (isCorrectOption ? <CorrectIcon /> : isSelected ? <WrongIcon /> : null)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QuestionAnswerInput;
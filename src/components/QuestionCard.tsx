@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Question } from '../data/questions';
 import QuestionOption from './QuestionOption';
+import RichText from './RichText';
 
 interface QuestionCardProps {
   question: Question;
@@ -126,7 +127,7 @@ const QuestionCard = ({
 
       {/* 问题内容 */}
       <div className="mb-6">
-        <p className="text-gray-700 text-lg mb-4">{question.question}</p>
+        <RichText content={question.question} format={question.contentFormat} className="text-gray-700 text-lg mb-4" />
       </div>
 
       {/* 选项 */}
@@ -135,6 +136,7 @@ const QuestionCard = ({
           <QuestionOption
             key={option.id}
             option={option}
+            format={question.contentFormat}
             isSelected={
               question.questionType === 'single' 
                 ? selectedOption === option.id 
@@ -181,7 +183,7 @@ const QuestionCard = ({
           {showExplanation && (
             <div className="bg-gray-50 p-4 rounded-md mt-2">
               <h3 className="font-semibold text-gray-700 mb-2">解析:</h3>
-              <p className="text-gray-600">{question.explanation}</p>
+              <RichText content={question.explanation} format={question.contentFormat} className="text-gray-600" />
             </div>
           )}
         </div>
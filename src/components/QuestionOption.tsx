@@ -1,8 +1,10 @@
 import React from 'react';
-import { Option } from '../data/questions';
+import { Option, QuestionContentFormat } from '../data/questions';
+import RichText from './RichText';
 
 interface QuestionOptionProps {
   option: Option;
+  format?: QuestionContentFormat;
   isSelected: boolean;
   isCorrect: string | null;
   isSubmitted: boolean;
@@ -12,6 +14,7 @@ interface QuestionOptionProps {
 
 const QuestionOption: React.FC<QuestionOptionProps> = ({
   option,
+  format,
   isSelected,
   isCorrect,
   isSubmitted,
@@ -68,7 +71,7 @@ const QuestionOption: React.FC<QuestionOptionProps> = ({
         {isMultiple && !isSelected && option.id}
       </div>
       <div className="flex-1">
-        <p className="text-gray-800">{option.text}</p>
+        <RichText content={option.text} format={format} className="text-gray-800" />
         {isMultiple && (
           <p className="text-gray-500 text-xs mt-1">
             {isSubmitted ? 
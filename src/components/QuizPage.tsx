@@ -1,14 +1,26 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { QuestionSet, Question } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { QuestionSet, Question, AnswerResult, QuizAttempt, QuizMode } from '../types';
 import { useUser } from '../contexts/UserContext';
 import PaymentModal from './PaymentModal';
-import { questionSetApi } from '../utils/api';
+import QuestionAnswerInput from './QuestionAnswerInput';
+import RichText from './RichText';
+import { questionSetApi, quizAttemptApi } from '../utils/api';
+import { getPricingTiers } from '../utils/pricing';
+import { getQuestionTypeLabel, isChoiceQuestion, isAnswerComplete, toSubmittedAnswer, formatAnswer } from '../utils/questionTypes';
+
+// 倒计时显示为 mm:ss
+const formatCountdown = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(rest).padStart(2, '0')}`;
+};
 
 const QuizPage: React.FC = () => {
   const { questionSetId } = useParams<{ questionSetId: string }>();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
-  const { user, addProgress, hasAccessToQuestionSet, getRemainingAccessDays } = useUser();
+  const { user, addProgress } = useUser();
   
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
@@ -23,155 +35,271 @@ const QuizPage: React.FC = () => {
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [hasAccessToFullQuiz, setHasAccessToFullQuiz] = useState(false);
   const [trialEnded, setTrialEnded] = useState(false);
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [answerResults, setAnswerResults] = useState<Record<string, AnswerResult>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [mode, setMode] = useState<QuizMode>('practice');
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
+  const [attemptSummary, setAttemptSummary] = useState<QuizAttempt | null>(null);
+  const completingRef = useRef(false);
+  const [availableQuestions, setAvailableQuestions] = useState<number | null>(null);
+  const completeQuizRef = useRef<() => void>(() => {});
   
-  useEffect(() => {
-    const fetchQuestionSet = async () => {
-      if (!questionSetId) {
-        setError('无效的题库ID');
-        setLoading(false);
-        return;
-      }
-      
-      try {
-        setLoading(true);
-        // 尝试从API获取题库详情
-        const response = await questionSetApi.getQuestionSetById(questionSetId);
-        
-        if (response.success && response.data) {
-          setQuestionSet(response.data);
-          
-          if (response.data.questions && response.data.questions.length > 0) {
-            setQuestions(response.data.questions);
-          } else {
-            setError('此题库不包含任何题目');
-          }
-        } else {
-          // 如果API请求失败，我们无法使用本地数据，只能显示错误
-          setError('无法加载题库数据');
-        }
-      } catch (error) {
-        console.error('获取题库详情失败:', error);
-        setError('获取题库数据失败');
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    fetchQuestionSet();
-  }, [questionSetId]);
+  const isExam = mode === 'exam';
   
-  // 检查用户访问权限
-  useEffect(() => {
-    if (!questionSet || !user) return;
+  // 按标签练习时没有题库，题目从所选标签下可以访问的题目中抽取
+  const tagParam = questionSetId ? '' : searchParams.get('tags') || '';
+  const practiceTags = tagParam.split(',').map(tag => tag.trim()).filter(Boolean);
+  const isTagPractice = practiceTags.length > 0;
+  const quizTitle = questionSet ? questionSet.title : `按标签练习：${practiceTags.join('、')}`;
+  
+  // 加载新开始的答题，题目从答题接口获取（不含正确答案）
+  // 考试模式下如果有未交卷的考试，服务端会返回原来的记录和截止时间
+  const loadAttempt = async (attemptResponse: Awaited<ReturnType<typeof quizAttemptApi.startAttempt>>): Promise<boolean> => {
+    if (!attemptResponse.success || !attemptResponse.data) {
+      setError(attemptResponse.message || attemptResponse.error || '无法开始答题');
+      return false;
+    }
     
-    // 检查用户是否有权限访问此题库
-    const hasAccess = hasAccessToQuestionSet(questionSet.id);
-    setHasAccessToFullQuiz(hasAccess);
+    const attempt = attemptResponse.data;
+    const questionsResponse = await quizAttemptApi.getQuestions(attempt.id);
+    if (!questionsResponse.success || !questionsResponse.data) {
+      setError('无法加载题目');
+      return false;
+    }
     
-    // 获取剩余天数，但不需要存储
-    // const days = getRemainingAccessDays(questionSet.id);
+    const attemptQuestions = questionsResponse.data;
+    const savedResults = attempt.results || [];
+    const answeredIndexes = attemptQuestions
+      .map((q, index) => (savedResults.some(r => r.questionId === q.id) ? index : -1))
+      .filter(index => index >= 0);
+    const firstUnanswered = attemptQuestions.findIndex((_, index) => !answeredIndexes.includes(index));
     
-    // 如果是免费题库，直接授权访问
-    if (!questionSet.isPaid) {
-      setHasAccessToFullQuiz(true);
+    // 截止时间按服务器时间换算到本地时钟，避免本地时间不准导致倒计时偏差
+    if (attempt.deadline && attempt.serverTime) {
+      const clockOffset = new Date(attempt.serverTime).getTime() - Date.now();
+      setDeadline(new Date(attempt.deadline).getTime() - clockOffset);
+    } else {
+      setDeadline(null);
     }
-  }, [questionSet, user, hasAccessToQuestionSet, getRemainingAccessDays]);
+    
+    completingRef.current = false;
+    setMode(attempt.mode);
+    setAttemptId(attempt.id);
+    setAvailableQuestions(attempt.availableQuestions ?? null);
+    setAttemptSummary(null);
+    setRemainingSeconds(null);
+    setAnswerResults(Object.fromEntries(savedResults.map(r => [r.questionId, r])));
+    setAnsweredQuestions(answeredIndexes);
+    setCorrectAnswers(0);
+    setCurrentQuestionIndex(firstUnanswered >= 0 ? firstUnanswered : 0);
+    setSelectedOptions([]);
+    setShowExplanation(false);
+    setQuizComplete(false);
+    setQuestions(attemptQuestions);
+    return true;
+  };
   
-  // 处理试用题目限制
-  useEffect(() => {
-    if (!questionSet || !questions.length || hasAccessToFullQuiz) return;
+  const startNewAttempt = async (setId: string, attemptMode: QuizMode = 'practice'): Promise<boolean> =>
+    loadAttempt(await quizAttemptApi.startAttempt(setId, attemptMode));
+  
+  // 每次都重新随机抽题
+  const startTagPractice = async (): Promise<boolean> =>
+    loadAttempt(await quizAttemptApi.startTagAttempt(practiceTags));
+  
+  // 切换练习/考试模式，会开始一次新的答题
+  const switchMode = async (nextMode: QuizMode) => {
+    if (!questionSet || nextMode === mode) return;
     
-    // 如果用户已回答的题目数量超过试用题数限制，显示付费提示
-    if (
-      questionSet.isPaid && 
-      questionSet.trialQuestions && 
-      answeredQuestions.length >= questionSet.trialQuestions &&
-      !hasAccessToFullQuiz
-    ) {
-      setTrialEnded(true);
+    if (answeredQuestions.length > 0 && !quizComplete) {
+      const message = isExam
+        ? '考试仍在计时，切换后可以稍后返回继续作答。确定切换吗？'
+        : '切换模式会重新开始答题，确定切换吗？';
+      if (!window.confirm(message)) return;
     }
-  }, [answeredQuestions, questionSet, hasAccessToFullQuiz, questions]);
+    
+    setLoading(true);
+    await startNewAttempt(questionSet.id, nextMode);
+    setLoading(false);
+  };
   
-  // 处理选择选项
-  const handleOptionSelect = (optionId: string) => {
-    const currentQuestion = questions[currentQuestionIndex];
+  const fetchQuestionSet = async () => {
+    if (isTagPractice) {
+      setLoading(true);
+      setQuestionSet(null);
+      await startTagPractice();
+      setLoading(false);
+      return;
+    }
     
-    if (currentQuestion.questionType === 'single') {
-      setSelectedOptions([optionId]);
-    } else {
-      // 多选题，切换选中状态
-      if (selectedOptions.includes(optionId)) {
-        setSelectedOptions(selectedOptions.filter(id => id !== optionId));
+    if (!questionSetId) {
+      setError('无效的题库ID');
+      setLoading(false);
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      // 尝试从API获取题库详情，付费题库未购买时服务端只返回试用题
+      const response = await questionSetApi.getQuestionSetById(questionSetId);
+      
+      if (response.success && response.data) {
+        setQuestionSet(response.data);
+        setHasAccessToFullQuiz(response.data.hasFullAccess !== false);
+        
+        if (response.data.questions && response.data.questions.length > 0) {
+          await startNewAttempt(response.data.id);
+        } else if (response.data.lockedQuestions) {
+          // 没有试用题的付费题库，直接显示购买提示
+          setTrialEnded(true);
+        } else {
+          setError('此题库不包含任何题目');
+        }
       } else {
-        setSelectedOptions([...selectedOptions, optionId]);
+        // 如果API请求失败，我们无法使用本地数据，只能显示错误
+        setError('无法加载题库数据');
       }
+    } catch (error) {
+      console.error('获取题库详情失败:', error);
+      setError('获取题库数据失败');
+    } finally {
+      setLoading(false);
     }
   };
   
-  // 提交答案检查
-  const checkAnswer = () => {
-    if (selectedOptions.length === 0) return;
-    
-    const currentQuestion = questions[currentQuestionIndex];
-    let isCorrect = false;
+  useEffect(() => {
+    fetchQuestionSet();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [questionSetId, tagParam]);
+  
+  // 试用题全部答完后，如果还有未解锁的题目，显示付费提示
+  useEffect(() => {
+    if (!questionSet || hasAccessToFullQuiz || !questionSet.lockedQuestions) return;
     
-    if (currentQuestion.questionType === 'single') {
-      // 单选题
-      isCorrect = selectedOptions[0] === currentQuestion.correctAnswer;
-    } else {
-      // 多选题 - 所有选项需要完全匹配
-      const correctOptions = Array.isArray(currentQuestion.correctAnswer) 
-        ? currentQuestion.correctAnswer 
-        : [currentQuestion.correctAnswer];
-      
-      isCorrect = 
-        selectedOptions.length === correctOptions.length && 
-        selectedOptions.every(option => correctOptions.includes(option));
+    if (quizComplete) {
+      setTrialEnded(true);
     }
+  }, [quizComplete, questionSet, hasAccessToFullQuiz]);
+  
+  // 购买成功后重新加载完整题库并重新开始答题
+  const handlePurchaseSuccess = async () => {
+    setShowPaymentModal(false);
+    setTrialEnded(false);
+    await fetchQuestionSet();
+  };
+  
+  // 考试倒计时，时间到自动交卷
+  useEffect(() => {
+    if (!isExam || !deadline || quizComplete) return;
     
-    setShowExplanation(true);
+    const tick = () => {
+      const seconds = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+      setRemainingSeconds(seconds);
+      if (seconds === 0) {
+        completeQuizRef.current();
+      }
+    };
+    
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [isExam, deadline, quizComplete, attemptId]);
+  
+  // 提交答案，由服务端判题并返回解析
+  const checkAnswer = async () => {
+    const currentQuestion = questions[currentQuestionIndex];
+    if (!isAnswerComplete(currentQuestion, selectedOptions) || !attemptId || submitting) return;
     
-    // 更新已回答的题目和正确答案数
-    if (!answeredQuestions.includes(currentQuestionIndex)) {
-      setAnsweredQuestions([...answeredQuestions, currentQuestionIndex]);
-      if (isCorrect) {
-        setCorrectAnswers(correctAnswers + 1);
+    setSubmitting(true);
+    try {
+      const response = await quizAttemptApi.submitAnswer(
+        attemptId,
+        currentQuestion.id,
+        toSubmittedAnswer(currentQuestion, selectedOptions)
+      );
+      if (!response.success || !response.data) {
+        setError(response.error || '提交答案失败');
+        return;
+      }
+      
+      const result = response.data;
+      setAnswerResults(prev => ({ ...prev, [currentQuestion.id]: result }));
+      
+      // 更新已回答的题目和正确答案数
+      if (!answeredQuestions.includes(currentQuestionIndex)) {
+        setAnsweredQuestions([...answeredQuestions, currentQuestionIndex]);
+        if (result.isCorrect) {
+          setCorrectAnswers(correctAnswers + 1);
+        }
       }
+      
+      // 考试模式不显示解析，直接进入下一题
+      if (isExam) {
+        goToNextQuestion();
+      } else {
+        setShowExplanation(true);
+      }
+    } finally {
+      setSubmitting(false);
     }
   };
   
+  // 跳转到指定题目，考试模式下恢复已保存的选择以便修改
+  const goToQuestion = (index: number) => {
+    const target = questions[index];
+    setSelectedOptions(isExam && target ? answerResults[target.id]?.selectedOptions || [] : []);
+    setShowExplanation(false);
+    setCurrentQuestionIndex(index);
+  };
+  
   // 进入下一题
   const goToNextQuestion = () => {
-    setSelectedOptions([]);
-    setShowExplanation(false);
-    
     if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(currentQuestionIndex + 1);
+      goToQuestion(currentQuestionIndex + 1);
     } else {
       // 完成测试
       completeQuiz();
     }
   };
   
-  // 完成测试
+  // 完成测试（考试模式下即交卷）
   const completeQuiz = async () => {
-    if (!user || !questionSet) return;
+    if ((!questionSet && !isTagPractice) || !attemptId || completingRef.current) return;
+    completingRef.current = true;
     
     setQuizComplete(true);
     
-    // 保存进度
     try {
-      await addProgress({
-        questionSetId: questionSet.id,
-        completedQuestions: answeredQuestions.length,
-        totalQuestions: questions.length,
-        correctAnswers: correctAnswers
-      });
+      // 考试交卷时保存当前题目尚未提交的选择
+      const currentQuestion = questions[currentQuestionIndex];
+      const savedSelection = currentQuestion ? answerResults[currentQuestion.id]?.selectedOptions : undefined;
+      if (isExam && currentQuestion && selectedOptions.length > 0 && selectedOptions.join() !== savedSelection?.join()) {
+        await quizAttemptApi.submitAnswer(attemptId, currentQuestion.id, selectedOptions);
+      }
+      
+      // 以服务端计算的成绩为准
+      const response = await quizAttemptApi.completeAttempt(attemptId);
+      if (response.success && response.data) {
+        setAttemptSummary(response.data);
+        setCorrectAnswers(response.data.correctCount);
+        setAnswerResults(Object.fromEntries((response.data.results || []).map(r => [r.questionId, r])));
+      }
+      
+      // 保存进度，按标签练习的进度由服务端按题目所在的题库记录
+      if (user && questionSet) {
+        await addProgress({
+          questionSetId: questionSet.id,
+          attemptId
+        });
+      }
     } catch (error) {
       console.error('保存进度失败:', error);
     }
   };
   
+  completeQuizRef.current = completeQuiz;
+  
   if (loading) {
     return (
       <div className="flex justify-center items-center h-96">
@@ -180,75 +308,9 @@ const QuizPage: React.FC = () => {
     );
   }
   
-  if (error || !questionSet || questions.length === 0) {
-    return (
-      <div className="container mx-auto px-4 py-8">
-        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative">
-          <span className="block sm:inline">{error || '无法加载题库数据'}</span>
-        </div>
-        <button
-          onClick={() => navigate('/')}
-          className="mt-4 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
-        >
-          返回首页
-        </button>
-      </div>
-    );
-  }
-  
-  const currentQuestion = questions[currentQuestionIndex];
-  
-  if (quizComplete) {
-    const score = Math.round((correctAnswers / questions.length) * 100);
-    
-    return (
-      <div className="container mx-auto px-4 py-8">
-        <h1 className="text-2xl font-bold text-center mb-8">测试完成！</h1>
-        
-        <div className="bg-white rounded-lg shadow p-6 mb-8">
-          <h2 className="text-xl font-semibold mb-4">{questionSet.title}</h2>
-          
-          <div className="flex flex-col md:flex-row md:items-center justify-between mb-6">
-            <div className="mb-4 md:mb-0">
-              <p className="text-gray-600">总题数: <span className="font-medium">{questions.length}</span></p>
-              <p className="text-gray-600">正确答案: <span className="font-medium">{correctAnswers}</span></p>
-            </div>
-            
-            <div className="text-center bg-blue-50 p-4 rounded-lg">
-              <p className="text-lg text-gray-700">得分</p>
-              <p className="text-3xl font-bold text-blue-600">{score}%</p>
-            </div>
-          </div>
-          
-          <div className="flex flex-wrap gap-3 mt-6">
-            <button
-              onClick={() => {
-                setCurrentQuestionIndex(0);
-                setSelectedOptions([]);
-                setShowExplanation(false);
-                setAnsweredQuestions([]);
-                setCorrectAnswers(0);
-                setQuizComplete(false);
-              }}
-              className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
-            >
-              重新测试
-            </button>
-            
-            <button
-              onClick={() => navigate('/')}
-              className="bg-gray-100 text-gray-800 px-4 py-2 rounded hover:bg-gray-200"
-            >
-              返回首页
-            </button>
-          </div>
-        </div>
-      </div>
-    );
-  }
-  
   // 如果达到试用上限并且没有购买，显示购买提示
-  if (trialEnded && !hasAccessToFullQuiz) {
+  if (questionSet && trialEnded && !hasAccessToFullQuiz) {
+    const pricingTiers = getPricingTiers(questionSet);
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="bg-white rounded-lg shadow p-6">
@@ -262,8 +324,10 @@ const QuizPage: React.FC = () => {
               </div>
               <div className="ml-3">
                 <p className="text-sm text-yellow-700">
-                  您已完成免费试用的 {questionSet.trialQuestions} 道题目。
-                  要继续访问完整题库，请购买完整版。
+                  {questions.length > 0
+                    ? `您已完成免费试用的 ${questions.length} 道题目。`
+                    : '此题库没有免费试用题目。'}
+                  还有 {questionSet.lockedQuestions} 道题目需购买完整版后解锁。
                 </p>
               </div>
             </div>
@@ -272,9 +336,16 @@ const QuizPage: React.FC = () => {
           <div className="bg-white border rounded-lg p-4 mb-6">
             <div className="flex justify-between items-center mb-2">
               <h3 className="text-lg font-medium">完整题库访问</h3>
-              <span className="text-xl font-bold text-green-600">¥{questionSet.price}</span>
+              <span className="text-xl font-bold text-green-600">
+                ¥{Math.min(...pricingTiers.map(tier => tier.price))}{pricingTiers.length > 1 ? ' 起' : ''}
+              </span>
             </div>
-            <p className="text-gray-600 mb-4">购买后可访问全部 {questions.length} 道题目，有效期6个月。</p>
+            <p className="text-gray-600 mb-4">
+              购买后可访问全部 {questionSet.totalQuestions ?? questions.length} 道题目，
+              {pricingTiers.length > 1
+                ? `可选有效期：${pricingTiers.map(tier => tier.label).join('、')}。`
+                : pricingTiers[0].durationDays === null ? '永久有效。' : `有效期${pricingTiers[0].label}。`}
+            </p>
             <button 
               onClick={() => setShowPaymentModal(true)}
               className="w-full bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700"
@@ -307,36 +378,235 @@ const QuizPage: React.FC = () => {
             isOpen={showPaymentModal}
             questionSet={questionSet}
             onClose={() => setShowPaymentModal(false)}
-            onSuccess={() => {
-              setHasAccessToFullQuiz(true);
-              setTrialEnded(false);
-            }}
+            onSuccess={handlePurchaseSuccess}
           />
         )}
       </div>
     );
   }
   
+  if (error || (!questionSet && !isTagPractice) || questions.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative">
+          <span className="block sm:inline">{error || '无法加载题库数据'}</span>
+        </div>
+        <button
+          onClick={() => navigate('/')}
+          className="mt-4 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+        >
+          返回首页
+        </button>
+      </div>
+    );
+  }
+  
+  const currentQuestion = questions[currentQuestionIndex];
+  const currentResult: AnswerResult | undefined = answerResults[currentQuestion.id];
+  const canSubmit = isAnswerComplete(currentQuestion, selectedOptions);
+  
+  if (quizComplete) {
+    const score = attemptSummary?.score ?? Math.round((correctAnswers / questions.length) * 100);
+    
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-2xl font-bold text-center mb-8">{isExam ? '考试结束！' : '测试完成！'}</h1>
+        
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <h2 className="text-xl font-semibold mb-4">{quizTitle}</h2>
+          
+          <div className="flex flex-col md:flex-row md:items-center justify-between mb-6">
+            <div className="mb-4 md:mb-0">
+              <p className="text-gray-600">总题数: <span className="font-medium">{questions.length}</span></p>
+              <p className="text-gray-600">正确答案: <span className="font-medium">{correctAnswers}</span></p>
+            </div>
+            
+            <div className="text-center bg-blue-50 p-4 rounded-lg">
+              <p className="text-lg text-gray-700">得分</p>
+              <p className="text-3xl font-bold text-blue-600">{score}%</p>
+              {attemptSummary && attemptSummary.passed !== null && attemptSummary.passed !== undefined && (
+                <p className={`text-sm font-medium mt-1 ${attemptSummary.passed ? 'text-green-600' : 'text-red-600'}`}>
+                  {attemptSummary.passed ? '已通过' : '未通过'}（及格线 {questionSet?.passingScore}%）
+                </p>
+              )}
+            </div>
+          </div>
+          
+          {/* 按标签统计正确率，正确率低的标签排在前面 */}
+          {attemptSummary?.tagStats && attemptSummary.tagStats.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-md font-medium mb-2">各标签正确率</h3>
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">标签</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">题数</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">答对</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">正确率</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {attemptSummary.tagStats.map(stat => (
+                    <tr key={stat.tag}>
+                      <td className="px-3 py-2">{stat.tag}</td>
+                      <td className="px-3 py-2 text-gray-600">{stat.total}</td>
+                      <td className="px-3 py-2 text-gray-600">{stat.correct}</td>
+                      <td className={`px-3 py-2 font-medium ${stat.accuracy >= 60 ? 'text-green-600' : 'text-red-600'}`}>
+                        {stat.accuracy}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          
+          {/* 考试结束后统一公布答案和解析 */}
+          {isExam && (
+            <div className="space-y-4 mb-6">
+              {questions.map((question, index) => {
+                const result = answerResults[question.id];
+                return (
+                  <div key={question.id} className="border rounded-lg p-4">
+                    <div className="flex items-start gap-2 font-medium mb-2">
+                      <span>{index + 1}.</span>
+                      <RichText content={question.text} format={question.contentFormat} className="flex-1" />
+                      <span className={`shrink-0 text-sm ${result?.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+                        {!result ? '未作答' : result.isCorrect ? '回答正确' : '回答错误'}
+                      </span>
+                    </div>
+                    {!isChoiceQuestion(question) ? (
+                      <div className="text-sm space-y-1 mb-2">
+                        <p className={result?.isCorrect ? 'text-green-700' : 'text-red-600'}>
+                          我的答案：{formatAnswer(question, result?.selectedOptions) || '未作答'}
+                        </p>
+                        {!result?.isCorrect && result?.correctOptions && (
+                          <p className="text-green-700">正确答案：{formatAnswer(question, result.correctOptions)}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <ul className="text-sm space-y-1 mb-2">
+                        {question.options.map(option => (
+                          <li
+                            key={option.id}
+                            className={`flex gap-1 ${
+                              result?.correctOptions?.includes(option.id)
+                                ? 'text-green-700'
+                                : result?.selectedOptions.includes(option.id)
+                                  ? 'text-red-600'
+                                  : 'text-gray-600'
+                            }`}
+                          >
+                            <span>{option.optionIndex || option.id}.</span>
+                            <RichText content={option.text} format={question.contentFormat} className="flex-1" />
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {result?.explanation && (
+                      <RichText content={result.explanation} format={question.contentFormat} className="text-sm text-blue-700 bg-blue-50 p-2 rounded" />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          
+          <div className="flex flex-wrap gap-3 mt-6">
+            <button
+              onClick={async () => {
+                if (questionSet) {
+                  await startNewAttempt(questionSet.id, mode);
+                } else {
+                  await startTagPractice();
+                }
+              }}
+              className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+            >
+              重新测试
+            </button>
+            
+            <button
+              onClick={() => navigate('/')}
+              className="bg-gray-100 text-gray-800 px-4 py-2 rounded hover:bg-gray-200"
+            >
+              返回首页
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+  
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-6">
         <div className="flex justify-between items-center mb-4">
-          <h1 className="text-2xl font-bold">{questionSet.title}</h1>
-          <button
-            onClick={() => navigate('/')}
-            className="bg-gray-100 text-gray-800 px-3 py-1.5 rounded text-sm hover:bg-gray-200"
-          >
-            返回首页
-          </button>
+          <h1 className="text-2xl font-bold">{quizTitle}</h1>
+          <div className="flex items-center gap-2">
+            {questionSet && (
+              <div className="flex rounded border overflow-hidden text-sm">
+                <button
+                  onClick={() => switchMode('practice')}
+                  className={`px-3 py-1.5 ${!isExam ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  练习模式
+                </button>
+                <button
+                  onClick={() => switchMode('exam')}
+                  disabled={!user}
+                  title={user ? undefined : '登录后可参加考试'}
+                  className={`px-3 py-1.5 ${isExam ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'} ${
+                    !user ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
+                >
+                  考试模式
+                </button>
+              </div>
+            )}
+            <button
+              onClick={() => navigate('/')}
+              className="bg-gray-100 text-gray-800 px-3 py-1.5 rounded text-sm hover:bg-gray-200"
+            >
+              返回首页
+            </button>
+          </div>
         </div>
         
-        {!questionSet.isPaid ? (
+        {questionSet?.isPublished === false && (
+          <div className="bg-purple-50 border-l-4 border-purple-400 p-3 mb-4">
+            <p className="text-sm text-purple-700">预览模式：此题库尚未发布，学员暂时无法看到</p>
+          </div>
+        )}
+
+        {isExam && (
+          <div className="flex justify-between items-center bg-gray-50 border rounded-lg p-3 mb-4">
+            <span className="text-sm text-gray-600">
+              考试模式：交卷后公布答案和解析
+              {questionSet?.passingScore !== null && questionSet?.passingScore !== undefined && `，及格线 ${questionSet.passingScore}%`}
+            </span>
+            {remainingSeconds !== null ? (
+              <span className={`font-mono text-lg font-semibold ${remainingSeconds <= 60 ? 'text-red-600' : 'text-gray-800'}`}>
+                剩余 {formatCountdown(remainingSeconds)}
+              </span>
+            ) : (
+              <span className="text-sm text-gray-500">不限时</span>
+            )}
+          </div>
+        )}
+        
+        {!questionSet ? (
+          <p className="text-sm text-gray-600 mb-2">
+            从所选标签下可以练习的 {availableQuestions ?? questions.length} 道题目中随机抽取了 {questions.length} 道
+          </p>
+        ) : !questionSet.isPaid ? (
           <p className="text-sm text-gray-600 mb-2">此题库为免费访问，包含 {questions.length} 道题目</p>
-        ) : !hasAccessToFullQuiz && questionSet.trialQuestions && questionSet.trialQuestions > 0 ? (
+        ) : !hasAccessToFullQuiz ? (
           <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-4">
             <p className="text-sm text-yellow-700">
-              您正在试用此题库，可免费回答 {questionSet.trialQuestions} 道题目
-              （当前已回答 {answeredQuestions.length} / {questionSet.trialQuestions}）
+              您正在试用此题库，可免费回答 {questions.length} 道题目
+              （当前已回答 {answeredQuestions.length} / {questions.length}），
+              另有 {questionSet.lockedQuestions} 道题目需购买后解锁
             </p>
           </div>
         ) : null}
@@ -357,82 +627,87 @@ const QuizPage: React.FC = () => {
       
       {/* 当前题目 */}
       <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <h2 className="text-lg font-semibold mb-4">
-          {currentQuestionIndex + 1}. {currentQuestion.text}
-          <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-medium rounded">
-            {currentQuestion.questionType === 'single' ? '单选题' : '多选题'}
+        <div className="flex items-start gap-2 text-lg font-semibold text-gray-900 mb-4">
+          <span>{currentQuestionIndex + 1}.</span>
+          <RichText content={currentQuestion.text} format={currentQuestion.contentFormat} className="flex-1" />
+          <span className="shrink-0 px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-medium rounded">
+            {getQuestionTypeLabel(currentQuestion.questionType)}
           </span>
-        </h2>
-        
-        {/* 选项列表 */}
-        <div className="space-y-3 mb-6">
-          {currentQuestion.options.map((option) => {
-            const isSelected = selectedOptions.includes(option.id);
-            return (
-              <div 
-                key={option.id}
-                onClick={() => {
-                  if (!showExplanation) {
-                    handleOptionSelect(option.id);
-                  }
-                }}
-                className={`p-3 border rounded-lg cursor-pointer flex justify-between items-center ${
-                  showExplanation
-                    ? option.isCorrect
-                      ? 'bg-green-50 border-green-300'
-                      : isSelected
-                        ? 'bg-red-50 border-red-300'
-                        : 'border-gray-200'
-                    : isSelected
-                      ? 'bg-blue-50 border-blue-300'
-                      : 'border-gray-200 hover:border-blue-200 hover:bg-blue-50'
-                }`}
-              >
-                <div className="flex items-center">
-                  <span className={`w-6 h-6 flex items-center justify-center rounded-full border mr-3 ${
-                    isSelected ? 'bg-blue-500 text-white border-blue-500' : 'border-gray-300'
-                  }`}>
-                    {option.id}
-                  </span>
-                  <span>{option.text}</span>
-                </div>
-                
-                {/* 正确/错误标记（只在显示解析时） */}
-                {showExplanation && (
-                  option.isCorrect ? (
-                    <svg className="h-5 w-5 text-green-500 ml-2" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                    </svg>
-                  ) : isSelected ? (
-                    <svg className="h-5 w-5 text-red-500 ml-2" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                    </svg>
-                  ) : null
-                )}
-              </div>
-            );
-          })}
         </div>
+        {currentQuestion.tags && currentQuestion.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 -mt-2 mb-4">
+            {currentQuestion.tags.map(tag => (
+              <span key={tag} className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded">{tag}</span>
+            ))}
+          </div>
+        )}
+        
+        {/* 作答区域 */}
+        <QuestionAnswerInput
+          key={currentQuestion.id}
+          question={currentQuestion}
+          selected={selectedOptions}
+          onChange={setSelectedOptions}
+          result={showExplanation ? currentResult : null}
+        />
         
         {/* 题目解析 */}
-        {showExplanation && (
+        {showExplanation && currentResult && (
           <div className="bg-blue-50 p-4 rounded-lg mb-6">
-            <h3 className="text-md font-medium text-blue-800 mb-2">解析</h3>
-            <p className="text-blue-700">{currentQuestion.explanation}</p>
+            <h3 className="text-md font-medium text-blue-800 mb-2">
+              解析
+              <span className={`ml-2 text-sm ${currentResult.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+                {currentResult.isCorrect ? '回答正确' : '回答错误'}
+              </span>
+            </h3>
+            <RichText content={currentResult.explanation} format={currentQuestion.contentFormat} className="text-blue-700" />
           </div>
         )}
         
         {/* 按钮区域 */}
         <div className="flex justify-between">
-          {!showExplanation ? (
+          {isExam ? (
+            <>
+              <button
+                onClick={() => goToQuestion(currentQuestionIndex - 1)}
+                disabled={currentQuestionIndex === 0}
+                className={`bg-gray-100 text-gray-800 px-4 py-2 rounded hover:bg-gray-200 ${
+                  currentQuestionIndex === 0 ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                上一题
+              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    if (window.confirm(`已作答 ${answeredQuestions.length} / ${questions.length} 题，确定交卷吗？`)) {
+                      completeQuiz();
+                    }
+                  }}
+                  className="bg-gray-100 text-gray-800 px-4 py-2 rounded hover:bg-gray-200"
+                >
+                  交卷
+                </button>
+                <button
+                  onClick={checkAnswer}
+                  disabled={!canSubmit || submitting}
+                  className={`bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 ${
+                    !canSubmit || submitting ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
+                >
+                  {submitting ? '保存中...' : currentQuestionIndex < questions.length - 1 ? '保存并下一题' : '保存并交卷'}
+                </button>
+              </div>
+            </>
+          ) : !showExplanation ? (
             <button
               onClick={checkAnswer}
-              disabled={selectedOptions.length === 0}
+              disabled={!canSubmit || submitting}
               className={`bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 ${
-                selectedOptions.length === 0 ? 'opacity-50 cursor-not-allowed' : ''
+                !canSubmit || submitting ? 'opacity-50 cursor-not-allowed' : ''
               }`}
             >
-              提交答案
+              {submitting ? '判题中...' : '提交答案'}
             </button>
           ) : (
             <button
@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ReviewItem, ReviewAnswerResult } from '../types';
+import QuestionAnswerInput from './QuestionAnswerInput';
+import RichText from './RichText';
+import { reviewApi } from '../utils/api';
+import { getQuestionTypeLabel, isAnswerComplete, toSubmittedAnswer } from '../utils/questionTypes';
+
+// 答对时的把握程度，对应 SM-2 的回答质量
+const CONFIDENCE_LEVELS = [
+  { quality: 3, label: '模糊' },
+  { quality: 4, label: '一般' },
+  { quality: 5, label: '熟练' }
+];
+
+const formatInterval = (days: number) => (days <= 1 ? '明天' : `${days} 天后`);
+
+const ReviewPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [dueCount, setDueCount] = useState(0);
+  const [scheduledCount, setScheduledCount] = useState(0);
+  const [nextDueDate, setNextDueDate] = useState<string | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+  const [quality, setQuality] = useState(4);
+  const [result, setResult] = useState<ReviewAnswerResult | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [finished, setFinished] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchQueue = async () => {
+      try {
+        setLoading(true);
+        const response = await reviewApi.getDueReviews();
+        if (response.success && response.data) {
+          setItems(response.data.items);
+          setDueCount(response.data.dueCount);
+          setScheduledCount(response.data.scheduledCount);
+          setNextDueDate(response.data.nextDueDate);
+        } else {
+          setError(response.message || '无法加载复习队列');
+        }
+      } catch (error) {
+        console.error('获取复习队列失败:', error);
+        setError('获取复习队列失败');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchQueue();
+  }, []);
+
+  const currentItem = items[currentIndex];
+  const currentQuestion = currentItem?.question;
+
+  // 提交答案，由服务端判题并计算下次复习时间
+  const checkAnswer = async () => {
+    if (!currentItem || !currentQuestion || !isAnswerComplete(currentQuestion, selectedOptions) || submitting) return;
+
+    setSubmitting(true);
+    try {
+      const response = await reviewApi.submitAnswer(currentItem.questionId, toSubmittedAnswer(currentQuestion, selectedOptions), quality);
+      if (!response.success || !response.data) {
+        setError(response.message || '提交答案失败');
+        return;
+      }
+
+      setResult(response.data);
+      if (response.data.isCorrect) setCorrectCount(count => count + 1);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const goToNext = () => {
+    setSelectedOptions([]);
+    setQuality(4);
+    setResult(null);
+
+    if (currentIndex < items.length - 1) {
+      setCurrentIndex(currentIndex + 1);
+    } else {
+      setFinished(true);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error || items.length === 0 || !currentQuestion) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className={`${error ? 'bg-red-100 border-red-400 text-red-700' : 'bg-green-50 border-green-300 text-green-700'} border px-4 py-3 rounded`}>
+          {error || (scheduledCount > 0
+            ? `今天没有需要复习的题目。${nextDueDate ? `下次复习：${new Date(nextDueDate).toLocaleDateString()}` : ''}`
+            : '还没有复习计划，做题后会自动加入复习队列。')}
+        </div>
+        <button
+          onClick={() => navigate('/')}
+          className="mt-4 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+        >
+          返回首页
+        </button>
+      </div>
+    );
+  }
+
+  if (finished) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-2xl font-bold text-center mb-8">今日复习完成！</h1>
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <p className="text-gray-600">复习题数: <span className="font-medium">{items.length}</span></p>
+          <p className="text-gray-600">答对: <span className="font-medium">{correctCount}</span></p>
+          {dueCount > items.length && (
+            <p className="text-gray-600">剩余待复习: <span className="font-medium">{dueCount - items.length}</span></p>
+          )}
+          <p className="text-sm text-gray-500 mt-4">答对的题目会逐渐拉长复习间隔，答错的题目明天会再次出现。</p>
+          <div className="flex gap-3 mt-6">
+            {dueCount > items.length && (
+              <button
+                onClick={() => window.location.reload()}
+                className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+              >
+                继续复习
+              </button>
+            )}
+            <button
+              onClick={() => navigate('/')}
+              className="bg-gray-100 text-gray-800 px-4 py-2 rounded hover:bg-gray-200"
+            >
+              返回首页
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-2xl font-bold">今日复习</h1>
+          <button
+            onClick={() => navigate('/')}
+            className="bg-gray-100 text-gray-800 px-3 py-1.5 rounded text-sm hover:bg-gray-200"
+          >
+            退出复习
+          </button>
+        </div>
+
+        {/* 进度条 */}
+        <div className="w-full bg-gray-200 rounded-full h-2.5 mb-4">
+          <div
+            className="bg-blue-600 h-2.5 rounded-full"
+            style={{ width: `${(currentIndex / items.length) * 100}%` }}
+          />
+        </div>
+
+        <div className="flex justify-between text-sm text-gray-500">
+          <span>题目 {currentIndex + 1} / {items.length}（今日共 {dueCount} 题）</span>
+          <span>{currentItem.questionSetIcon} {currentItem.questionSetTitle}</span>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex items-start gap-2 text-lg font-semibold text-gray-900 mb-2">
+          <RichText content={currentQuestion.text} format={currentQuestion.contentFormat} className="flex-1" />
+          <span className="shrink-0 px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-medium rounded">
+            {getQuestionTypeLabel(currentQuestion.questionType)}
+          </span>
+        </div>
+        <p className="text-xs text-gray-500 mb-4">
+          已复习 {currentItem.schedule.repetitions} 次 · 遗忘 {currentItem.schedule.lapses} 次
+        </p>
+
+        {/* 作答区域 */}
+        <QuestionAnswerInput
+          key={currentQuestion.id}
+          question={currentQuestion}
+          selected={selectedOptions}
+          onChange={setSelectedOptions}
+          result={result}
+        />
+
+        {/* 判题结果、解析和下次复习时间 */}
+        {result && (
+          <div className="bg-blue-50 p-4 rounded-lg mb-6">
+            <h3 className="text-md font-medium text-blue-800 mb-2">
+              解析
+              <span className={`ml-2 text-sm ${result.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+                {result.isCorrect ? '回答正确' : '回答错误'}
+              </span>
+            </h3>
+            <RichText content={result.explanation} format={currentQuestion.contentFormat} className="text-blue-700" />
+            <p className="text-sm text-gray-600 mt-2">下次复习：{formatInterval(result.schedule.interval)}</p>
+          </div>
+        )}
+
+        <div className="flex justify-between items-center">
+          {!result ? (
+            <>
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <span>把握程度:</span>
+                {CONFIDENCE_LEVELS.map(level => (
+                  <button
+                    key={level.quality}
+                    onClick={() => setQuality(level.quality)}
+                    className={`px-2 py-1 rounded border ${
+                      quality === level.quality ? 'bg-blue-100 border-blue-300 text-blue-800' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    {level.label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={checkAnswer}
+                disabled={!isAnswerComplete(currentQuestion, selectedOptions) || submitting}
+                className={`bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 ${
+                  !isAnswerComplete(currentQuestion, selectedOptions) || submitting ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                {submitting ? '判题中...' : '提交答案'}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={goToNext}
+              className="bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700"
+            >
+              {currentIndex < items.length - 1 ? '下一题' : '完成复习'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPage;
@@ -0,0 +1,61 @@
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import remarkBreaks from 'remark-breaks';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+import { QuestionContentFormat } from '../types';
+
+interface RichTextProps {
+  content?: string | null;
+  format?: QuestionContentFormat;
+  className?: string;
+}
+
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+}
+
+// 题目中的 HTML 按原文显示（如 "<div> 标签的作用"），不会被当作标签渲染或丢弃
+const remarkHtmlAsText = () => (tree: MarkdownNode) => {
+  const walk = (node: MarkdownNode) => {
+    if (node.type === 'html') node.type = 'text';
+    (node.children || []).forEach(walk);
+  };
+  walk(tree);
+};
+
+const components: Components = {
+  a: ({ href, title, children }) => (
+    <a href={href} title={title} target="_blank" rel="noopener noreferrer">{children}</a>
+  ),
+  img: ({ src, alt, title }) => <img src={src} alt={alt || ''} title={title} loading="lazy" />
+};
+
+/**
+ * 显示题干、选项和解析
+ *
+ * 题目的 contentFormat 为 markdown 时按 Markdown 渲染，支持代码高亮、图片、表格和 $$公式$$（单个 $ 不是公式）；
+ * 其他内容（包括没有格式的旧题目）按原文显示，换行照常显示。
+ * 不渲染 HTML，链接和图片地址只允许 http(s) 等安全协议，公式不执行 \href 等命令
+ */
+const RichText: React.FC<RichTextProps> = ({ content, format, className }) => format !== 'markdown' ? (
+  <div className={`whitespace-pre-wrap break-words ${className || ''}`}>{content || ''}</div>
+) : (
+  <div className={`rich-text ${className || ''}`}>
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, [remarkMath, { singleDollarTextMath: false }], remarkBreaks, remarkHtmlAsText]}
+      rehypePlugins={[[rehypeKatex, { throwOnError: false }], rehypeHighlight]}
+      components={components}
+    >
+      {content || ''}
+    </ReactMarkdown>
+  </div>
+);
+
+export default RichText;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { WrongQuestionEntry, WrongQuestionAnswerResult } from '../types';
+import QuestionAnswerInput from './QuestionAnswerInput';
+import RichText from './RichText';
+import { wrongQuestionApi } from '../utils/api';
+import { getQuestionTypeLabel, isAnswerComplete, toSubmittedAnswer } from '../utils/questionTypes';
+
+const WrongQuestionPractice: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const questionSetId = searchParams.get('questionSetId') || undefined;
+
+  const [items, setItems] = useState<WrongQuestionEntry[]>([]);
+  const [masteryStreak, setMasteryStreak] = useState(3);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+  const [result, setResult] = useState<WrongQuestionAnswerResult | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [removedCount, setRemovedCount] = useState(0);
+  const [finished, setFinished] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPractice = async () => {
+      try {
+        setLoading(true);
+        const response = await wrongQuestionApi.getPracticeQuestions(questionSetId);
+        if (response.success && response.data) {
+          setItems(response.data.items);
+          setMasteryStreak(response.data.masteryStreak);
+        } else {
+          setError(response.message || '无法加载错题');
+        }
+      } catch (error) {
+        console.error('获取错题练习失败:', error);
+        setError('获取错题练习失败');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPractice();
+  }, [questionSetId]);
+
+  const currentItem = items[currentIndex];
+  const currentQuestion = currentItem?.question;
+
+  // 提交答案，由服务端判题并更新连续答对次数
+  const checkAnswer = async () => {
+    if (!currentItem || !currentQuestion || !isAnswerComplete(currentQuestion, selectedOptions) || submitting) return;
+
+    setSubmitting(true);
+    try {
+      const response = await wrongQuestionApi.submitAnswer(currentItem.questionId, toSubmittedAnswer(currentQuestion, selectedOptions));
+      if (!response.success || !response.data) {
+        setError(response.message || '提交答案失败');
+        return;
+      }
+
+      setResult(response.data);
+      if (response.data.isCorrect) setCorrectCount(count => count + 1);
+      if (response.data.removed) setRemovedCount(count => count + 1);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const goToNext = () => {
+    setSelectedOptions([]);
+    setResult(null);
+
+    if (currentIndex < items.length - 1) {
+      setCurrentIndex(currentIndex + 1);
+    } else {
+      setFinished(true);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error || items.length === 0 || !currentQuestion) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className={`${error ? 'bg-red-100 border-red-400 text-red-700' : 'bg-green-50 border-green-300 text-green-700'} border px-4 py-3 rounded`}>
+          {error || '错题本是空的，继续保持！'}
+        </div>
+        <button
+          onClick={() => navigate('/profile')}
+          className="mt-4 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+        >
+          返回个人中心
+        </button>
+      </div>
+    );
+  }
+
+  if (finished) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-2xl font-bold text-center mb-8">错题练习完成！</h1>
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <p className="text-gray-600">练习题数: <span className="font-medium">{items.length}</span></p>
+          <p className="text-gray-600">答对: <span className="font-medium">{correctCount}</span></p>
+          <p className="text-gray-600">移出错题本: <span className="font-medium">{removedCount}</span></p>
+          <p className="text-sm text-gray-500 mt-4">同一道题连续答对 {masteryStreak} 次后会自动移出错题本。</p>
+          <div className="flex gap-3 mt-6">
+            <button
+              onClick={() => navigate('/profile')}
+              className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+            >
+              返回错题本
+            </button>
+            <button
+              onClick={() => navigate('/')}
+              className="bg-gray-100 text-gray-800 px-4 py-2 rounded hover:bg-gray-200"
+            >
+              返回首页
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-2xl font-bold">错题练习</h1>
+          <button
+            onClick={() => navigate('/profile')}
+            className="bg-gray-100 text-gray-800 px-3 py-1.5 rounded text-sm hover:bg-gray-200"
+          >
+            退出练习
+          </button>
+        </div>
+
+        {/* 进度条 */}
+        <div className="w-full bg-gray-200 rounded-full h-2.5 mb-4">
+          <div
+            className="bg-blue-600 h-2.5 rounded-full"
+            style={{ width: `${(currentIndex / items.length) * 100}%` }}
+          />
+        </div>
+
+        <div className="flex justify-between text-sm text-gray-500">
+          <span>题目 {currentIndex + 1} / {items.length}</span>
+          <span>{currentItem.questionSetIcon} {currentItem.questionSetTitle}</span>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex items-start gap-2 text-lg font-semibold text-gray-900 mb-2">
+          <RichText content={currentQuestion.text} format={currentQuestion.contentFormat} className="flex-1" />
+          <span className="shrink-0 px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-medium rounded">
+            {getQuestionTypeLabel(currentQuestion.questionType)}
+          </span>
+        </div>
+        <p className="text-xs text-gray-500 mb-4">
+          已答错 {currentItem.wrongCount} 次 · 连续答对 {result ? result.correctStreak : currentItem.correctStreak} / {masteryStreak}
+        </p>
+
+        {/* 作答区域 */}
+        <QuestionAnswerInput
+          key={currentQuestion.id}
+          question={currentQuestion}
+          selected={selectedOptions}
+          onChange={setSelectedOptions}
+          result={result}
+        />
+
+        {/* 判题结果和解析 */}
+        {result && (
+          <div className="bg-blue-50 p-4 rounded-lg mb-6">
+            <h3 className="text-md font-medium text-blue-800 mb-2">
+              解析
+              <span className={`ml-2 text-sm ${result.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+                {result.isCorrect ? '回答正确' : '回答错误'}
+              </span>
+            </h3>
+            <RichText content={result.explanation} format={currentQuestion.contentFormat} className="text-blue-700" />
+            {result.removed && (
+              <p className="text-sm text-green-700 mt-2">已连续答对 {masteryStreak} 次，此题已移出错题本。</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          {!result ? (
+            <button
+              onClick={checkAnswer}
+              disabled={!isAnswerComplete(currentQuestion, selectedOptions) || submitting}
+              className={`bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 ${
+                !isAnswerComplete(currentQuestion, selectedOptions) || submitting ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {submitting ? '判题中...' : '提交答案'}
+            </button>
+          ) : (
+            <button
+              onClick={goToNext}
+              className="bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700"
+            >
+              {currentIndex < items.length - 1 ? '下一题' : '完成练习'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WrongQuestionPractice;
@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Bundle, QuestionSet } from '../../types';
+import { bundleApi, questionSetApi } from '../../utils/api';
+
+interface BundleForm {
+  title: string;
+  description: string;
+  price: string;
+  accessDays: string;
+  isActive: boolean;
+  sortOrder: number;
+  questionSetIds: string[];
+}
+
+const emptyForm: BundleForm = {
+  title: '',
+  description: '',
+  price: '',
+  accessDays: '180',
+  isActive: true,
+  sortOrder: 0,
+  questionSetIds: []
+};
+
+const AdminBundles: React.FC = () => {
+  const [bundles, setBundles] = useState<Bundle[]>([]);
+  const [questionSets, setQuestionSets] = useState<QuestionSet[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [form, setForm] = useState<BundleForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const loadBundles = useCallback(async () => {
+    setLoading(true);
+    const response = await bundleApi.getBundles({ includeInactive: true });
+    if (response.success && response.data) {
+      setBundles(response.data);
+    } else {
+      setMessage({ type: 'error', text: response.error || response.message || '加载套餐失败' });
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadBundles();
+  }, [loadBundles]);
+
+  // 只有付费题库可以加入套餐
+  useEffect(() => {
+    questionSetApi.getAllQuestionSets(true).then(response => {
+      if (response.success && Array.isArray(response.data)) {
+        setQuestionSets(response.data.filter(set => set.isPaid));
+      }
+    });
+  }, []);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({
+      ...prev,
+      [name]: name === 'sortOrder' ? parseInt(value, 10) || 0 : value
+    }));
+  };
+
+  const toggleQuestionSet = (questionSetId: string) => {
+    setForm(prev => ({
+      ...prev,
+      questionSetIds: prev.questionSetIds.includes(questionSetId)
+        ? prev.questionSetIds.filter(id => id !== questionSetId)
+        : [...prev.questionSetIds, questionSetId]
+    }));
+  };
+
+  const handleEdit = (bundle: Bundle) => {
+    setEditingId(bundle.id);
+    setForm({
+      title: bundle.title,
+      description: bundle.description || '',
+      price: String(bundle.price),
+      accessDays: bundle.accessDays === null ? '' : String(bundle.accessDays),
+      isActive: bundle.isActive,
+      sortOrder: bundle.sortOrder,
+      questionSetIds: bundle.questionSets.map(set => set.id)
+    });
+    setMessage(null);
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.title.trim()) {
+      setMessage({ type: 'error', text: '套餐名称不能为空' });
+      return;
+    }
+    if (!(Number(form.price) > 0)) {
+      setMessage({ type: 'error', text: '套餐价格应大于 0' });
+      return;
+    }
+
+    const data = {
+      title: form.title.trim(),
+      description: form.description.trim(),
+      price: Number(form.price),
+      // 留空表示永久有效
+      accessDays: form.accessDays.trim() ? Number(form.accessDays) : null,
+      isActive: form.isActive,
+      sortOrder: form.sortOrder,
+      questionSetIds: form.questionSetIds
+    };
+
+    setSaving(true);
+    const response = editingId
+      ? await bundleApi.updateBundle(editingId, data)
+      : await bundleApi.createBundle(data);
+    setSaving(false);
+
+    if (response.success) {
+      setMessage({ type: 'success', text: response.message || (editingId ? '套餐更新成功' : '套餐创建成功') });
+      handleCancel();
+      loadBundles();
+    } else {
+      setMessage({ type: 'error', text: response.message || response.error || '保存套餐失败' });
+    }
+  };
+
+  const handleDelete = async (bundle: Bundle) => {
+    if (!window.confirm(`确定要删除套餐"${bundle.title}"吗？`)) {
+      return;
+    }
+
+    const response = await bundleApi.deleteBundle(bundle.id);
+    if (response.success) {
+      setMessage({ type: 'success', text: response.message || '套餐已删除' });
+      if (editingId === bundle.id) handleCancel();
+      loadBundles();
+    } else {
+      setMessage({ type: 'error', text: response.message || response.error || '删除套餐失败' });
+    }
+  };
+
+  const selectedOriginalPrice = questionSets
+    .filter(set => form.questionSetIds.includes(set.id))
+    .reduce((sum, set) => sum + (Number(set.price) || 0), 0);
+
+  return (
+    <div className="p-6">
+      <h2 className="text-2xl font-semibold mb-2">套餐管理</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        套餐把多个付费题库打包出售，购买后获得其中每个题库的访问权限。修改套餐不影响已购买的用户；已有购买记录的套餐不能删除，可以下架。
+      </p>
+
+      {message && (
+        <div className={`p-3 mb-4 rounded text-sm ${message.type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="mb-6 p-4 border rounded-lg bg-gray-50">
+        <h3 className="font-medium mb-3">{editingId ? '编辑套餐' : '新建套餐'}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <input
+            type="text"
+            name="title"
+            value={form.title}
+            onChange={handleInputChange}
+            placeholder="套餐名称"
+            className="p-2 border rounded"
+          />
+          <input
+            type="number"
+            name="price"
+            value={form.price}
+            onChange={handleInputChange}
+            placeholder="价格"
+            min="0.01"
+            step="0.01"
+            className="p-2 border rounded"
+          />
+          <input
+            type="number"
+            name="accessDays"
+            value={form.accessDays}
+            onChange={handleInputChange}
+            placeholder="有效天数（留空为永久）"
+            min="1"
+            className="p-2 border rounded"
+          />
+          <input
+            type="number"
+            name="sortOrder"
+            value={form.sortOrder}
+            onChange={handleInputChange}
+            placeholder="排序"
+            className="p-2 border rounded"
+          />
+        </div>
+        <textarea
+          name="description"
+          value={form.description}
+          onChange={handleInputChange}
+          placeholder="套餐介绍"
+          rows={2}
+          className="mt-3 w-full p-2 border rounded"
+        />
+        <label className="mt-2 inline-flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.isActive}
+            onChange={(e) => setForm(prev => ({ ...prev, isActive: e.target.checked }))}
+            className="mr-2"
+          />
+          上架
+        </label>
+
+        <div className="mt-3">
+          <p className="text-sm text-gray-700 mb-2">
+            包含的题库（已选 {form.questionSetIds.length} 个，单独购买合计 ¥{Math.round(selectedOriginalPrice * 100) / 100}）
+          </p>
+          {questionSets.length === 0 ? (
+            <p className="text-sm text-gray-500">暂无付费题库</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-1 max-h-48 overflow-y-auto p-2 border rounded bg-white">
+              {questionSets.map(set => (
+                <label key={set.id} className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.questionSetIds.includes(set.id)}
+                    onChange={() => toggleQuestionSet(set.id)}
+                    className="mr-2"
+                  />
+                  {set.title}（¥{set.price}）
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-3 space-x-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {saving ? '保存中...' : editingId ? '保存修改' : '创建套餐'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={handleCancel} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300">
+              取消
+            </button>
+          )}
+        </div>
+      </form>
+
+      {loading ? (
+        <p className="text-gray-500">正在加载...</p>
+      ) : bundles.length === 0 ? (
+        <p className="text-gray-500">暂无套餐</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">名称</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">题库</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">价格</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">有效期</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">状态</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-500">操作</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {bundles.map(bundle => (
+              <tr key={bundle.id} className={editingId === bundle.id ? 'bg-blue-50' : ''}>
+                <td className="px-4 py-2">{bundle.title}</td>
+                <td className="px-4 py-2 text-gray-500">
+                  {bundle.questionSets.map(set => set.title).join('、')}
+                </td>
+                <td className="px-4 py-2 text-gray-500">
+                  ¥{bundle.price}
+                  {bundle.originalPrice > bundle.price && (
+                    <span className="ml-1 line-through text-gray-400">¥{bundle.originalPrice}</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-gray-500">
+                  {bundle.accessDays === null ? '永久' : `${bundle.accessDays} 天`}
+                </td>
+                <td className="px-4 py-2">
+                  {bundle.isActive
+                    ? <span className="text-green-600">上架</span>
+                    : <span className="text-gray-400">下架</span>}
+                </td>
+                <td className="px-4 py-2 text-right space-x-3">
+                  <button onClick={() => handleEdit(bundle)} className="text-blue-600 hover:text-blue-900">
+                    编辑
+                  </button>
+                  <button onClick={() => handleDelete(bundle)} className="text-red-600 hover:text-red-900">
+                    删除
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default AdminBundles;
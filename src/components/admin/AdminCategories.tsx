@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FlatCategory } from '../../types';
+import { categoryApi } from '../../utils/api';
+
+interface CategoryForm {
+  name: string;
+  slug: string;
+  parentId: string;
+  icon: string;
+  sortOrder: number;
+}
+
+const emptyForm: CategoryForm = {
+  name: '',
+  slug: '',
+  parentId: '',
+  icon: '',
+  sortOrder: 0
+};
+
+const AdminCategories: React.FC = () => {
+  const [categories, setCategories] = useState<FlatCategory[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [form, setForm] = useState<CategoryForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const loadCategories = useCallback(async () => {
+    setLoading(true);
+    const response = await categoryApi.getFlatCategories(true);
+    if (response.success && response.data) {
+      setCategories(response.data);
+    } else {
+      setMessage({ type: 'error', text: response.error || response.message || '加载分类失败' });
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  // 编辑时不能选择自己或自己的子分类作为上级分类
+  const getExcludedParentIds = (categoryId: string | null) => {
+    if (!categoryId) return [];
+    const start = categories.findIndex(category => category.id === categoryId);
+    if (start === -1) return [];
+
+    const excluded = [categoryId];
+    for (let i = start + 1; i < categories.length && categories[i].depth > categories[start].depth; i++) {
+      excluded.push(categories[i].id);
+    }
+    return excluded;
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({
+      ...prev,
+      [name]: name === 'sortOrder' ? parseInt(value, 10) || 0 : value
+    }));
+  };
+
+  const handleEdit = (category: FlatCategory) => {
+    setEditingId(category.id);
+    setForm({
+      name: category.name,
+      slug: category.slug,
+      parentId: category.parentId || '',
+      icon: category.icon || '',
+      sortOrder: category.sortOrder
+    });
+    setMessage(null);
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      setMessage({ type: 'error', text: '分类名称不能为空' });
+      return;
+    }
+
+    const data = {
+      name: form.name.trim(),
+      slug: form.slug.trim() || undefined,
+      parentId: form.parentId || null,
+      icon: form.icon.trim() || null,
+      sortOrder: form.sortOrder
+    };
+
+    setSaving(true);
+    const response = editingId
+      ? await categoryApi.updateCategory(editingId, data)
+      : await categoryApi.createCategory(data);
+    setSaving(false);
+
+    if (response.success) {
+      setMessage({ type: 'success', text: response.message || (editingId ? '分类更新成功' : '分类创建成功') });
+      handleCancel();
+      loadCategories();
+    } else {
+      setMessage({ type: 'error', text: response.message || response.error || '保存分类失败' });
+    }
+  };
+
+  const handleDelete = async (category: FlatCategory) => {
+    if (!window.confirm(`确定要删除分类"${category.path}"吗？`)) {
+      return;
+    }
+
+    const response = await categoryApi.deleteCategory(category.id);
+    if (response.success) {
+      setMessage({ type: 'success', text: response.message || '分类已删除' });
+      if (editingId === category.id) handleCancel();
+      loadCategories();
+    } else {
+      setMessage({ type: 'error', text: response.message || response.error || '删除分类失败' });
+    }
+  };
+
+  const excludedParentIds = getExcludedParentIds(editingId);
+
+  return (
+    <div className="p-6">
+      <h2 className="text-2xl font-semibold mb-2">分类管理</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        分类可以多级嵌套，题库筛选和首页精选分类都使用这里的分类。修改分类名称或上级分类后，题库中显示的分类路径会自动更新。
+      </p>
+
+      {message && (
+        <div className={`p-3 mb-4 rounded text-sm ${message.type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="mb-6 p-4 border rounded-lg bg-gray-50">
+        <h3 className="font-medium mb-3">{editingId ? '编辑分类' : '新建分类'}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <input
+            type="text"
+            name="name"
+            value={form.name}
+            onChange={handleInputChange}
+            placeholder="分类名称"
+            className="p-2 border rounded"
+          />
+          <input
+            type="text"
+            name="slug"
+            value={form.slug}
+            onChange={handleInputChange}
+            placeholder="slug（留空自动生成）"
+            className="p-2 border rounded"
+          />
+          <select
+            name="parentId"
+            value={form.parentId}
+            onChange={handleInputChange}
+            className="p-2 border rounded"
+          >
+            <option value="">顶级分类</option>
+            {categories
+              .filter(category => !excludedParentIds.includes(category.id))
+              .map(category => (
+                <option key={category.id} value={category.id}>{category.path}</option>
+              ))}
+          </select>
+          <input
+            type="text"
+            name="icon"
+            value={form.icon}
+            onChange={handleInputChange}
+            placeholder="图标（如 🌐）"
+            className="p-2 border rounded"
+          />
+          <input
+            type="number"
+            name="sortOrder"
+            value={form.sortOrder}
+            onChange={handleInputChange}
+            placeholder="排序"
+            className="p-2 border rounded"
+          />
+        </div>
+        <div className="mt-3 space-x-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {saving ? '保存中...' : editingId ? '保存修改' : '创建分类'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={handleCancel} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300">
+              取消
+            </button>
+          )}
+        </div>
+      </form>
+
+      {loading ? (
+        <p className="text-gray-500">正在加载...</p>
+      ) : categories.length === 0 ? (
+        <p className="text-gray-500">暂无分类</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">名称</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">slug</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">排序</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">题库数</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-500">操作</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {categories.map(category => (
+              <tr key={category.id} className={editingId === category.id ? 'bg-blue-50' : ''}>
+                <td className="px-4 py-2" style={{ paddingLeft: `${1 + category.depth * 1.5}rem` }}>
+                  {category.icon && <span className="mr-1">{category.icon}</span>}
+                  {category.name}
+                </td>
+                <td className="px-4 py-2 text-gray-500">{category.slug}</td>
+                <td className="px-4 py-2 text-gray-500">{category.sortOrder}</td>
+                <td className="px-4 py-2 text-gray-500">{category.questionSetCount}</td>
+                <td className="px-4 py-2 text-right space-x-3">
+                  <button onClick={() => handleEdit(category)} className="text-blue-600 hover:text-blue-900">
+                    编辑
+                  </button>
+                  <button onClick={() => handleDelete(category)} className="text-red-600 hover:text-red-900">
+                    删除
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default AdminCategories;
@@ -1,11 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useUser } from '../../contexts/UserContext';
-import { fetchWithAuth } from '../../utils/api';
-import { QuestionSet } from '../../types';
+import { fetchWithAuth, categoryApi } from '../../utils/api';
+import { QuestionSet, Category, FlatCategory } from '../../types';
 
 interface FeaturedQuestionSet extends QuestionSet {
   isFeatured: boolean;
-  featuredCategory?: string;
 }
 
 const AdminFeaturedQuestionSets: React.FC = () => {
@@ -14,8 +13,9 @@ const AdminFeaturedQuestionSets: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
-  const [featuredCategories, setFeaturedCategories] = useState<string[]>([]);
-  const [newCategory, setNewCategory] = useState<string>('');
+  const [featuredCategories, setFeaturedCategories] = useState<Category[]>([]);
+  const [allCategories, setAllCategories] = useState<FlatCategory[]>([]);
+  const [newCategoryId, setNewCategoryId] = useState<string>('');
   const [showCategoryManagement, setShowCategoryManagement] = useState<boolean>(false);
   const [filterCategory, setFilterCategory] = useState<string>('all');
   const [sortBy, setSortBy] = useState<'title' | 'category' | 'featured'>('title');
@@ -27,11 +27,12 @@ const AdminFeaturedQuestionSets: React.FC = () => {
     const loadData = async () => {
       setLoading(true);
       try {
-        // 获取所有题库
-        const qsResponse = await fetchWithAuth<QuestionSet[]>('/question-sets');
+        // 获取所有题库（包括未发布的）
+        const qsResponse = await fetchWithAuth<QuestionSet[]>('/question-sets?includeUnpublished=true');
         
-        // 获取精选分类
-        const fcResponse = await fetchWithAuth<string[]>('/homepage/featured-categories');
+        // 获取精选分类和全部分类
+        const fcResponse = await fetchWithAuth<Category[]>('/homepage/featured-categories');
+        const categoryResponse = await categoryApi.getFlatCategories(true);
         
         if (qsResponse.success && qsResponse.data) {
           setQuestionSets(qsResponse.data as FeaturedQuestionSet[]);
@@ -42,6 +43,10 @@ const AdminFeaturedQuestionSets: React.FC = () => {
         if (fcResponse.success && fcResponse.data) {
           setFeaturedCategories(fcResponse.data);
         }
+
+        if (categoryResponse.success && categoryResponse.data) {
+          setAllCategories(categoryResponse.data);
+        }
       } catch (err) {
         setError('加载数据时发生错误');
       } finally {
@@ -89,19 +94,22 @@ const AdminFeaturedQuestionSets: React.FC = () => {
   };
 
   // 更新题库的精选分类
-  const handleFeaturedCategoryChange = async (id: string, featuredCategory: string) => {
+  const handleFeaturedCategoryChange = async (id: string, featuredCategoryId: string) => {
     setSaveInProgress(true);
     try {
       const response = await fetchWithAuth(`/homepage/featured-question-sets/${id}`, {
         method: 'PUT',
-        body: JSON.stringify({ featuredCategory })
+        body: JSON.stringify({ featuredCategoryId: featuredCategoryId || null })
       });
 
       if (response.success) {
+        const category = featuredCategories.find(c => c.id === featuredCategoryId);
         // 更新本地状态
         setQuestionSets(prev => 
           prev.map(qs => 
-            qs.id === id ? { ...qs, featuredCategory } : qs
+            qs.id === id
+              ? { ...qs, featuredCategoryId: featuredCategoryId || null, featuredCategory: category ? category.path : null }
+              : qs
           )
         );
         
@@ -121,12 +129,13 @@ const AdminFeaturedQuestionSets: React.FC = () => {
 
   // 添加新的精选分类
   const handleAddCategory = async () => {
-    if (!newCategory.trim()) {
-      setMessage({ type: 'error', text: '分类名称不能为空' });
+    const newCategory = allCategories.find(c => c.id === newCategoryId);
+    if (!newCategory) {
+      setMessage({ type: 'error', text: '请选择分类' });
       return;
     }
 
-    if (featuredCategories.includes(newCategory)) {
+    if (featuredCategories.some(c => c.id === newCategory.id)) {
       setMessage({ type: 'error', text: '分类已存在' });
       return;
     }
@@ -136,18 +145,18 @@ const AdminFeaturedQuestionSets: React.FC = () => {
       const updatedCategories = [...featuredCategories, newCategory];
       const response = await fetchWithAuth('/homepage/featured-categories', {
         method: 'PUT',
-        body: JSON.stringify({ featuredCategories: updatedCategories })
+        body: JSON.stringify({ featuredCategories: updatedCategories.map(c => c.id) })
       });
 
       if (response.success) {
         setFeaturedCategories(updatedCategories);
-        setNewCategory('');
+        setNewCategoryId('');
         setMessage({ type: 'success', text: '分类添加成功' });
         setCategoryUpdateSuccess(true);
         // 2秒后重置成功状态
         setTimeout(() => setCategoryUpdateSuccess(false), 2000);
       } else {
-        setMessage({ type: 'error', text: response.error || '添加分类失败' });
+        setMessage({ type: 'error', text: response.message || response.error || '添加分类失败' });
       }
     } catch (err) {
       setMessage({ type: 'error', text: '添加分类时发生错误' });
@@ -157,10 +166,10 @@ const AdminFeaturedQuestionSets: React.FC = () => {
   };
 
   // 删除精选分类
-  const handleDeleteCategory = async (category: string) => {
+  const handleDeleteCategory = async (category: Category) => {
     try {
       // 检查是否有题库使用该分类
-      const hasQuestionSets = questionSets.some(qs => qs.featuredCategory === category);
+      const hasQuestionSets = questionSets.some(qs => qs.featuredCategoryId === category.id);
       if (hasQuestionSets) {
         // 提示用户有题库使用该分类
         if (!window.confirm(`有题库正在使用该分类，删除将会清除这些题库的分类设置。确定删除？`)) {
@@ -168,27 +177,25 @@ const AdminFeaturedQuestionSets: React.FC = () => {
         }
 
         // 清除使用该分类的题库分类设置
-        const updatedQuestionSets = questionSets.map(qs => 
-          qs.featuredCategory === category ? { ...qs, featuredCategory: '' } : qs
-        );
-        setQuestionSets(updatedQuestionSets);
+        const affectedSets = questionSets.filter(qs => qs.featuredCategoryId === category.id);
+        setQuestionSets(prev => prev.map(qs => 
+          qs.featuredCategoryId === category.id ? { ...qs, featuredCategoryId: null, featuredCategory: null } : qs
+        ));
         
         // 同步更新后端数据
-        updatedQuestionSets
-          .filter(qs => qs.featuredCategory === '' && qs.isFeatured)
-          .forEach(async (qs) => {
-            await fetchWithAuth(`/homepage/featured-question-sets/${qs.id}`, {
-              method: 'PUT',
-              body: JSON.stringify({ featuredCategory: '' })
-            });
+        affectedSets.forEach(async (qs) => {
+          await fetchWithAuth(`/homepage/featured-question-sets/${qs.id}`, {
+            method: 'PUT',
+            body: JSON.stringify({ featuredCategoryId: null })
           });
+        });
       }
 
       setSaveInProgress(true);
-      const updatedCategories = featuredCategories.filter(c => c !== category);
+      const updatedCategories = featuredCategories.filter(c => c.id !== category.id);
       const response = await fetchWithAuth('/homepage/featured-categories', {
         method: 'PUT',
-        body: JSON.stringify({ featuredCategories: updatedCategories })
+        body: JSON.stringify({ featuredCategories: updatedCategories.map(c => c.id) })
       });
 
       if (response.success) {
@@ -219,7 +226,7 @@ const AdminFeaturedQuestionSets: React.FC = () => {
         filteredSets = filteredSets.filter(qs => !qs.isFeatured);
       } else {
         filteredSets = filteredSets.filter(qs => 
-          qs.featuredCategory === filterCategory && qs.isFeatured
+          qs.featuredCategoryId === filterCategory && qs.isFeatured
         );
       }
     }
@@ -295,13 +302,18 @@ const AdminFeaturedQuestionSets: React.FC = () => {
             <h3 className="text-lg font-medium mb-3">精选分类管理</h3>
             
             <div className="flex mb-4">
-              <input
-                type="text"
-                value={newCategory}
-                onChange={(e) => setNewCategory(e.target.value)}
-                placeholder="输入新分类名称"
+              <select
+                value={newCategoryId}
+                onChange={(e) => setNewCategoryId(e.target.value)}
                 className={`flex-1 border rounded-l-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 ${categoryUpdateSuccess ? 'border-green-500 bg-green-50' : ''}`}
-              />
+              >
+                <option value="">选择要精选的分类</option>
+                {allCategories
+                  .filter(category => !featuredCategories.some(featured => featured.id === category.id))
+                  .map(category => (
+                    <option key={category.id} value={category.id}>{category.path}</option>
+                  ))}
+              </select>
               <button
                 onClick={handleAddCategory}
                 disabled={saveInProgress}
@@ -318,8 +330,8 @@ const AdminFeaturedQuestionSets: React.FC = () => {
 
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
               {featuredCategories.map(category => (
-                <div key={category} className="flex justify-between items-center p-2 bg-white rounded border">
-                  <span>{category}</span>
+                <div key={category.id} className="flex justify-between items-center p-2 bg-white rounded border">
+                  <span>{category.icon && <span className="mr-1">{category.icon}</span>}{category.path}</span>
                   <button
                     onClick={() => handleDeleteCategory(category)}
                     disabled={saveInProgress}
@@ -350,7 +362,7 @@ const AdminFeaturedQuestionSets: React.FC = () => {
             <option value="featured">所有精选题库</option>
             <option value="not-featured">非精选题库</option>
             {featuredCategories.map(category => (
-              <option key={category} value={category}>精选分类：{category}</option>
+              <option key={category.id} value={category.id}>精选分类：{category.path}</option>
             ))}
           </select>
         </div>
@@ -403,14 +415,14 @@ const AdminFeaturedQuestionSets: React.FC = () => {
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   <select
-                    value={questionSet.featuredCategory || ''}
+                    value={questionSet.featuredCategoryId || ''}
                     onChange={(e) => handleFeaturedCategoryChange(questionSet.id, e.target.value)}
                     disabled={!questionSet.isFeatured || saveInProgress}
                     className={`border rounded p-1 ${!questionSet.isFeatured ? 'bg-gray-100 cursor-not-allowed' : ''}`}
                   >
                     <option value="">选择分类</option>
                     {featuredCategories.map(category => (
-                      <option key={category} value={category}>{category}</option>
+                      <option key={category.id} value={category.id}>{category.path}</option>
                     ))}
                   </select>
                 </td>
@@ -1,13 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useUser } from '../../contexts/UserContext';
 import { useNavigate } from 'react-router-dom';
-import { fetchWithAuth } from '../../utils/api';
+import { fetchWithAuth, categoryApi } from '../../utils/api';
+import { Category, FlatCategory } from '../../types';
 
 // 首页内容接口
 interface HomeContent {
   welcomeTitle: string;
   welcomeDescription: string;
-  featuredCategories: string[];
+  featuredCategories: Category[];
   announcements: string;
   footerText: string;
   bannerImage?: string;
@@ -18,7 +19,7 @@ interface HomeContent {
 const defaultHomeContent: HomeContent = {
   welcomeTitle: "ExamTopics 模拟练习",
   welcomeDescription: "选择以下任一题库开始练习，测试您的知识水平",
-  featuredCategories: ["网络协议", "编程语言", "计算机基础"],
+  featuredCategories: [],
   announcements: "欢迎使用在线题库系统，新增题库将定期更新，请持续关注！",
   footerText: "© 2023 ExamTopics 在线题库系统 保留所有权利",
   bannerImage: "/images/banner.jpg",
@@ -32,7 +33,8 @@ const AdminHomeContent: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
-  const [newCategory, setNewCategory] = useState<string>('');
+  const [categories, setCategories] = useState<FlatCategory[]>([]);
+  const [newCategoryId, setNewCategoryId] = useState<string>('');
 
   // 管理员检查
   useEffect(() => {
@@ -46,7 +48,13 @@ const AdminHomeContent: React.FC = () => {
     const loadHomeContent = async () => {
       setLoading(true);
       try {
-        const response = await fetchWithAuth<HomeContent>('/homepage/content');
+        const [response, categoryResponse] = await Promise.all([
+          fetchWithAuth<HomeContent>('/homepage/content'),
+          categoryApi.getFlatCategories(true)
+        ]);
+        if (categoryResponse.success && categoryResponse.data) {
+          setCategories(categoryResponse.data);
+        }
         if (response.success && response.data) {
           setHomeContent(response.data);
         } else {
@@ -71,14 +79,15 @@ const AdminHomeContent: React.FC = () => {
     }));
   };
 
-  // 添加新分类
+  // 添加精选分类
   const handleAddCategory = () => {
-    if (newCategory.trim()) {
+    const category = categories.find(c => c.id === newCategoryId);
+    if (category) {
       setHomeContent(prev => ({
         ...prev,
-        featuredCategories: [...prev.featuredCategories, newCategory.trim()]
+        featuredCategories: [...prev.featuredCategories, category]
       }));
-      setNewCategory('');
+      setNewCategoryId('');
     }
   };
 
@@ -90,10 +99,11 @@ const AdminHomeContent: React.FC = () => {
     }));
   };
 
-  // 更新分类
-  const handleUpdateCategory = (index: number, value: string) => {
+  // 上移分类，首页按列表顺序显示
+  const handleMoveCategoryUp = (index: number) => {
+    if (index === 0) return;
     const updatedCategories = [...homeContent.featuredCategories];
-    updatedCategories[index] = value;
+    [updatedCategories[index - 1], updatedCategories[index]] = [updatedCategories[index], updatedCategories[index - 1]];
     setHomeContent(prev => ({
       ...prev,
       featuredCategories: updatedCategories
@@ -105,13 +115,16 @@ const AdminHomeContent: React.FC = () => {
     try {
       const response = await fetchWithAuth('/homepage/content', {
         method: 'PUT',
-        body: JSON.stringify(homeContent)
+        body: JSON.stringify({
+          ...homeContent,
+          featuredCategories: homeContent.featuredCategories.map(category => category.id)
+        })
       });
 
       if (response.success) {
         setMessage({ type: 'success', text: '首页内容保存成功！' });
       } else {
-        setMessage({ type: 'error', text: response.error || '保存失败' });
+        setMessage({ type: 'error', text: response.message || response.error || '保存失败' });
       }
     } catch (err) {
       setMessage({ type: 'error', text: '保存过程中发生错误' });
@@ -243,19 +256,25 @@ const AdminHomeContent: React.FC = () => {
         {/* 精选分类管理 */}
         <div className="mt-6">
           <h3 className="font-medium text-lg mb-3">精选分类管理</h3>
-          <p className="text-sm text-gray-500 mb-2">精选分类将显示在首页，作为题库的主要分组方式。</p>
+          <p className="text-sm text-gray-500 mb-2">精选分类将显示在首页，作为题库的主要分组方式。分类在"分类管理"中维护。</p>
           
           <div className="mb-4 flex">
-            <input
-              type="text"
-              value={newCategory}
-              onChange={(e) => setNewCategory(e.target.value)}
+            <select
+              value={newCategoryId}
+              onChange={(e) => setNewCategoryId(e.target.value)}
               className="flex-1 p-2 border rounded-l"
-              placeholder="输入新分类名称"
-            />
+            >
+              <option value="">选择分类</option>
+              {categories
+                .filter(category => !homeContent.featuredCategories.some(featured => featured.id === category.id))
+                .map(category => (
+                  <option key={category.id} value={category.id}>{category.path}</option>
+                ))}
+            </select>
             <button
               onClick={handleAddCategory}
-              className="bg-blue-600 text-white px-4 py-2 rounded-r hover:bg-blue-700"
+              disabled={!newCategoryId}
+              className="bg-blue-600 text-white px-4 py-2 rounded-r hover:bg-blue-700 disabled:bg-gray-400"
             >
               添加分类
             </button>
@@ -263,13 +282,18 @@ const AdminHomeContent: React.FC = () => {
 
           <div className="space-y-2">
             {homeContent.featuredCategories.map((category, index) => (
-              <div key={index} className="flex items-center">
-                <input
-                  type="text"
-                  value={category}
-                  onChange={(e) => handleUpdateCategory(index, e.target.value)}
-                  className="flex-1 p-2 border rounded-l"
-                />
+              <div key={category.id} className="flex items-center">
+                <div className="flex-1 p-2 border rounded-l bg-gray-50">
+                  {category.icon && <span className="mr-1">{category.icon}</span>}
+                  {category.path}
+                </div>
+                <button
+                  onClick={() => handleMoveCategoryUp(index)}
+                  disabled={index === 0}
+                  className="bg-gray-200 text-gray-700 px-3 py-2 hover:bg-gray-300 disabled:opacity-50"
+                >
+                  上移
+                </button>
                 <button
                   onClick={() => handleRemoveCategory(index)}
                   className="bg-red-600 text-white px-3 py-2 rounded-r hover:bg-red-700"
@@ -3,10 +3,18 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { questionSets as defaultQuestionSets } from '../../data/questionSets';
 import { Question as ClientQuestion, Option, QuestionType } from '../../data/questions';
 import { QuestionSet as ClientQuestionSet } from '../../data/questionSets';
-import { RedeemCode, QuestionSet as ApiQuestionSet } from '../../types';
+import { RedeemCode, QuestionSet as ApiQuestionSet, Question as ApiQuestion, ImportReport, QuestionSetStatus, FlatCategory } from '../../types';
 import { useUser } from '../../contexts/UserContext';
-import { questionSetApi } from '../../utils/api';
-import axios from 'axios';  // 添加axios导入
+import { questionSetApi, categoryApi } from '../../utils/api';
+import ImportPreview from './ImportPreview';
+import QuestionRevisionHistory from './QuestionRevisionHistory';
+import QuestionBankPicker from './QuestionBankPicker';
+
+// 管理员接口按选项返回 isCorrect，单选、判断题转为单个选项ID，其他题型转为选项ID数组
+const toCorrectAnswer = (q: ApiQuestion): string | string[] => {
+  const correctIds = (q.options || []).filter(o => o.isCorrect).map(o => o.id);
+  return q.questionType === 'single' || q.questionType === 'truefalse' ? correctIds[0] || '' : correctIds;
+};
 
 // Function to convert API question sets to client format
 const mapApiToClientQuestionSet = (apiSet: ApiQuestionSet): ClientQuestionSet => {
@@ -15,20 +23,29 @@ const mapApiToClientQuestionSet = (apiSet: ApiQuestionSet): ClientQuestionSet =>
     title: apiSet.title,
     description: apiSet.description || '',
     category: apiSet.category,
+    categoryId: apiSet.categoryId || null,
     icon: apiSet.icon || '📝',
     isPaid: apiSet.isPaid || false,
     price: apiSet.price || 0,
+    pricingTiers: apiSet.pricingTiers || null,
     trialQuestions: apiSet.trialQuestions || 0,
+    timeLimit: apiSet.timeLimit || 0,
+    passingScore: apiSet.passingScore || 0,
+    status: apiSet.status || 'published',
+    publishAt: apiSet.publishAt || null,
     questions: (apiSet.questions || []).map(q => ({
       id: typeof q.id === 'string' ? parseInt(q.id.replace(/\D/g, '')) || Date.now() : q.id || Date.now(),
       question: q.text || '',
       questionType: (q as any).questionType as QuestionType || 'single',
       options: (q.options || []).map(o => ({
         id: o.id || '',
-        text: o.text
+        text: o.text,
+        ...(o.matchText ? { matchText: o.matchText } : {})
       })),
-      correctAnswer: (q as any).correctAnswer || '',
-      explanation: q.explanation || ''
+      correctAnswer: q.correctAnswer || toCorrectAnswer(q),
+      explanation: q.explanation || '',
+      contentFormat: q.contentFormat,
+      tags: q.tags || []
     }))
   };
 };
@@ -40,18 +57,26 @@ const mapClientToApiQuestionSet = (clientSet: ClientQuestionSet): Partial<ApiQue
     title: clientSet.title,
     description: clientSet.description,
     category: clientSet.category,
+    categoryId: clientSet.categoryId,
     icon: clientSet.icon,
     isPaid: clientSet.isPaid,
     price: clientSet.isPaid ? clientSet.price : undefined,
+    pricingTiers: clientSet.isPaid ? clientSet.pricingTiers : undefined,
     trialQuestions: clientSet.isPaid ? clientSet.trialQuestions : undefined,
+    // 0 表示不限时 / 不设及格线
+    timeLimit: clientSet.timeLimit || null,
+    passingScore: clientSet.passingScore || null,
     questions: clientSet.questions.map(q => ({
       id: q.id.toString(),
       text: q.question,
       questionType: q.questionType,
       explanation: q.explanation,
+      contentFormat: q.contentFormat,
+      tags: q.tags,
       options: q.options.map(opt => ({
         id: opt.id,
         text: opt.text,
+        matchText: opt.matchText,
         isCorrect: Array.isArray(q.correctAnswer) 
           ? q.correctAnswer.includes(opt.id)
           : q.correctAnswer === opt.id
@@ -60,6 +85,18 @@ const mapClientToApiQuestionSet = (clientSet: ClientQuestionSet): Partial<ApiQue
   };
 };
 
+// 把下载的文件保存到本地
+const saveFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
 const AdminQuestionSets = () => {
   const { generateRedeemCode, getRedeemCodes } = useUser();
   const [searchTerm, setSearchTerm] = useState('');
@@ -73,10 +110,13 @@ const AdminQuestionSets = () => {
     title: '',
     description: '',
     category: '',
+    categoryId: '',
     icon: '📝',
     isPaid: false,
     price: 29.9,
     trialQuestions: 0,
+    timeLimit: 0,
+    passingScore: 0,
     questions: [] as ClientQuestion[]
   });
   const [loading, setLoading] = useState(false);
@@ -117,7 +157,27 @@ const AdminQuestionSets = () => {
   // 新增状态 - 文件上传相关
   const [uploadFile, setUploadFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [importFields, setImportFields] = useState({ id: '', title: '', category: '' });
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+
+  // 导出相关状态
+  const [exportFormat, setExportFormat] = useState<'json' | 'csv' | 'xlsx'>('json');
+  const [exportSetId, setExportSetId] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  // 查看修改记录的题库
+  const [revisionSetId, setRevisionSetId] = useState('');
+
+  // 从题目库选题的目标题库
+  const [bankSetId, setBankSetId] = useState('');
+
+  // 分类列表，以及按分类筛选题库（包含子分类）
+  const [categories, setCategories] = useState<FlatCategory[]>([]);
+  const [filterCategoryId, setFilterCategoryId] = useState('');
+
+  // 发布状态编辑中的值，按题库ID保存
+  const [publishDrafts, setPublishDrafts] = useState<Record<string, { status: QuestionSetStatus; publishAt: string }>>({});
+  const [savingStatusId, setSavingStatusId] = useState<string | null>(null);
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
   // 加载所有兑换码
@@ -134,13 +194,37 @@ const AdminQuestionSets = () => {
     loadRedeemCodes();
   }, [getRedeemCodes]);
 
+  // 加载分类
+  useEffect(() => {
+    const loadCategories = async () => {
+      const response = await categoryApi.getFlatCategories(true);
+      if (response.success && Array.isArray(response.data)) {
+        setCategories(response.data);
+      }
+    };
+
+    loadCategories();
+  }, []);
+
+  // 分类及其子分类的ID，分类列表按树的顺序展开，子分类紧跟在父分类之后
+  const getCategoryFilterIds = (categoryId: string) => {
+    const start = categories.findIndex(category => category.id === categoryId);
+    if (start === -1) return [categoryId];
+
+    const ids = [categoryId];
+    for (let i = start + 1; i < categories.length && categories[i].depth > categories[start].depth; i++) {
+      ids.push(categories[i].id);
+    }
+    return ids;
+  };
+
   // 从API加载题库数据
   useEffect(() => {
     const loadQuestionSets = async () => {
       setLoadingQuestionSets(true);
       try {
         // console.log("正在从API加载题库...");
-        const response = await questionSetApi.getAllQuestionSets();
+        const response = await questionSetApi.getAllQuestionSets(true);
         // console.log("API响应:", response);
         
         if (response.success && response.data) {
@@ -176,10 +260,13 @@ const AdminQuestionSets = () => {
   }, []);
 
   // 搜索过滤题库
+  const filterCategoryIds = filterCategoryId ? getCategoryFilterIds(filterCategoryId) : null;
   const filteredQuestionSets = localQuestionSets.filter(set => 
-    set.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
-    set.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    set.description.toLowerCase().includes(searchTerm.toLowerCase())
+    (!filterCategoryIds || filterCategoryIds.includes(set.categoryId)) && (
+      set.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
+      set.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      set.description.toLowerCase().includes(searchTerm.toLowerCase())
+    )
   );
 
   // 显示状态消息
@@ -222,7 +309,7 @@ const AdminQuestionSets = () => {
   // 处理创建题库提交 - 使用API
   const handleCreateSubmit = async () => {
     // 验证表单
-    if (!formData.id || !formData.title || !formData.category) {
+    if (!formData.id || !formData.title || !formData.categoryId) {
       showStatusMessage('error', '请填写所有必填字段');
       return;
     }
@@ -239,6 +326,11 @@ const AdminQuestionSets = () => {
       return;
     }
 
+    if (formData.passingScore < 0 || formData.passingScore > 100) {
+      showStatusMessage('error', '及格分需在0到100之间');
+      return;
+    }
+
     // 准备API格式的问题数据
     const questionSetData = mapClientToApiQuestionSet({
       ...formData,
@@ -308,10 +400,13 @@ const AdminQuestionSets = () => {
       title: questionSet.title,
       description: questionSet.description,
       category: questionSet.category,
+      categoryId: questionSet.categoryId || '',
       icon: questionSet.icon,
       isPaid: questionSet.isPaid || false,
       price: questionSet.price || 29.9,
       trialQuestions: questionSet.trialQuestions || 0,
+      timeLimit: questionSet.timeLimit || 0,
+      passingScore: questionSet.passingScore || 0,
       questions: questionSet.questions
     });
     setShowEditForm(true);
@@ -322,7 +417,7 @@ const AdminQuestionSets = () => {
     if (!currentQuestionSet) return;
     
     // 验证表单
-    if (!formData.title || !formData.category) {
+    if (!formData.title || !formData.categoryId) {
       showStatusMessage('error', '请填写所有必填字段');
       return;
     }
@@ -333,6 +428,11 @@ const AdminQuestionSets = () => {
       return;
     }
 
+    if (formData.passingScore < 0 || formData.passingScore > 100) {
+      showStatusMessage('error', '及格分需在0到100之间');
+      return;
+    }
+
     // 转换为API格式
     const questionSetData = mapClientToApiQuestionSet({
       ...formData,
@@ -404,7 +504,7 @@ const AdminQuestionSets = () => {
   const iconOptions = ['📝', '📚', '🧠', '🔍', '💻', '🌐', '🔐', '📊', '⚙️', '🗄️', '📡', '🧮'];
   
   // 可用的分类选项
-  const categoryOptions = ['网络协议', '编程语言', '计算机基础', '数据库', '操作系统', '安全技术', '云计算', '人工智能'];
+  const categoryOptions = categories.map(category => ({ value: category.id, label: category.path }));
 
   // 重新添加弹窗显示函数，并在按钮点击处调用
   const handleShowGenerateCodeModal = (questionSet: ClientQuestionSet) => {
@@ -672,6 +772,7 @@ const AdminQuestionSets = () => {
         title: currentQuestionSet.title,
         description: currentQuestionSet.description || '',
         category: currentQuestionSet.category,
+        categoryId: currentQuestionSet.categoryId,
         icon: currentQuestionSet.icon || '📝',
         isPaid: currentQuestionSet.isPaid || false,
         price: currentQuestionSet.price || 0,
@@ -746,7 +847,7 @@ const AdminQuestionSets = () => {
     
     try {
       // 先获取最新的题库列表，以确保数据是完整的
-      const questionSetsResponse = await questionSetApi.getAllQuestionSets();
+      const questionSetsResponse = await questionSetApi.getAllQuestionSets(true);
       
       // 合并远程数据和本地数据，确保保留问题数据
       let mergedQuestionSets = [...localQuestionSets];
@@ -800,57 +901,435 @@ const AdminQuestionSets = () => {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       setUploadFile(e.target.files[0]);
+      setImportReport(null);
+    }
+  };
+
+  // CSV 和单个工作表的 Excel 文件使用表单中填写的题库信息
+  const getImportFields = () => {
+    const fields: Record<string, string> = {};
+    Object.entries(importFields).forEach(([key, value]) => {
+      if (value.trim()) fields[key] = value.trim();
+    });
+    return fields;
+  };
+
+  const resetImport = () => {
+    setUploadFile(null);
+    setImportReport(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
 
-  // 处理文件上传
+  // 先校验文件，生成导入预览
   const handleFileUpload = async () => {
     if (!uploadFile) {
       showStatusMessage('error', '请先选择文件');
       return;
     }
 
-    const formData = new FormData();
-    formData.append('file', uploadFile);
-
     setIsUploading(true);
-    setUploadProgress(0);
+    try {
+      const response = await questionSetApi.uploadQuestionSetFile(uploadFile, getImportFields(), true);
+      if (response.success && response.data) {
+        setImportReport(response.data as ImportReport);
+      } else {
+        showStatusMessage('error', `校验失败：${response.error || response.message || '未知错误'}`);
+      }
+    } catch (error) {
+      console.error('文件校验错误:', error);
+      showStatusMessage('error', `校验失败：${(error instanceof Error && error.message) || '服务器错误'}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // 确认预览后正式导入
+  const handleConfirmImport = async () => {
+    if (!uploadFile) return;
 
+    setIsUploading(true);
     try {
-      const response = await axios.post('/api/question-sets/upload/file', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data'
-        },
-        onUploadProgress: (progressEvent) => {
-          const percentCompleted = Math.round((progressEvent.loaded * 100) / (progressEvent.total || 1));
-          setUploadProgress(percentCompleted);
-        }
-      });
+      const response = await questionSetApi.uploadQuestionSetFile(uploadFile, getImportFields());
 
-      if (response.data.success) {
-        showStatusMessage('success', '题库文件上传成功');
+      if (response.success) {
+        showStatusMessage('success', response.message || '题库文件上传成功');
         // 重新加载题库列表
-        const questionSetsResponse = await questionSetApi.getAllQuestionSets();
+        const questionSetsResponse = await questionSetApi.getAllQuestionSets(true);
         if (questionSetsResponse.success && questionSetsResponse.data) {
           const clientQuestionSets = questionSetsResponse.data.map(mapApiToClientQuestionSet);
           setLocalQuestionSets(clientQuestionSets);
         }
-        // 清除文件选择
-        setUploadFile(null);
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
+        resetImport();
       } else {
-        showStatusMessage('error', `上传失败：${response.data.message || '未知错误'}`);
+        showStatusMessage('error', `上传失败：${response.error || response.message || '未知错误'}`);
       }
     } catch (error: any) {
       console.error('文件上传错误:', error);
-      showStatusMessage('error', `上传失败：${error.response?.data?.message || error.message || '服务器错误'}`);
+      showStatusMessage('error', `上传失败：${error.message || '服务器错误'}`);
     } finally {
       setIsUploading(false);
     }
   };
 
+  // 导出单个题库，不传ID时导出全部题库（zip）
+  const handleExport = async (id?: string) => {
+    setExporting(true);
+    try {
+      const response = id
+        ? await questionSetApi.exportQuestionSet(id, exportFormat)
+        : await questionSetApi.exportAllQuestionSets(exportFormat);
+
+      if (response.success && response.data) {
+        saveFile(response.data.blob, response.data.filename);
+      } else {
+        showStatusMessage('error', `导出失败：${response.error || response.message || '未知错误'}`);
+      }
+    } catch (error) {
+      console.error('导出题库错误:', error);
+      showStatusMessage('error', `导出失败：${(error instanceof Error && error.message) || '服务器错误'}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // 导出面板
+  const renderExport = () => (
+    <div className="bg-white p-6 rounded-lg shadow-md mb-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">导出题库</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        导出的文件与导入格式一致，修改后可直接重新导入；导出全部题库时每个题库一个文件，打包为 zip。
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">题库</label>
+          <select
+            value={exportSetId}
+            onChange={(e) => setExportSetId(e.target.value)}
+            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+            disabled={exporting}
+          >
+            <option value="">请选择题库</option>
+            {localQuestionSets.map(set => (
+              <option key={set.id} value={set.id}>{set.title}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">格式</label>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as 'json' | 'csv' | 'xlsx')}
+            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+            disabled={exporting}
+          >
+            <option value="json">JSON</option>
+            <option value="csv">CSV</option>
+            <option value="xlsx">Excel（.xlsx）</option>
+          </select>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => handleExport(exportSetId)}
+            className="flex-1 bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+            disabled={!exportSetId || exporting}
+          >
+            导出
+          </button>
+          <button
+            onClick={() => handleExport()}
+            className="flex-1 border border-indigo-600 text-indigo-600 py-2 px-4 rounded-md hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={exporting}
+          >
+            {exporting ? '导出中...' : '导出全部'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  // datetime-local 输入框使用本地时间，格式为 YYYY-MM-DDTHH:mm
+  const toLocalInputValue = (value?: string | null) => {
+    if (!value) return '';
+    const date = new Date(value);
+    const offset = date.getTimezoneOffset() * 60000;
+    return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+  };
+
+  const getPublishDraft = (set: ClientQuestionSet) =>
+    publishDrafts[set.id] || { status: set.status || 'published', publishAt: toLocalInputValue(set.publishAt) };
+
+  const updatePublishDraft = (set: ClientQuestionSet, changes: Partial<{ status: QuestionSetStatus; publishAt: string }>) => {
+    setPublishDrafts(prev => ({ ...prev, [set.id]: { ...getPublishDraft(set), ...changes } }));
+  };
+
+  const handleSaveStatus = async (set: ClientQuestionSet) => {
+    const draft = getPublishDraft(set);
+    const publishAt = draft.status === 'published' && draft.publishAt ? new Date(draft.publishAt).toISOString() : null;
+
+    setSavingStatusId(set.id);
+    try {
+      const response = await questionSetApi.updateQuestionSetStatus(set.id, draft.status, publishAt);
+      if (response.success && response.data) {
+        setLocalQuestionSets(prev => prev.map(item => item.id === set.id
+          ? { ...item, status: response.data.status, publishAt: response.data.publishAt }
+          : item));
+        setPublishDrafts(prev => {
+          const next = { ...prev };
+          delete next[set.id];
+          return next;
+        });
+        showStatusMessage('success', response.message || '发布状态已更新');
+      } else {
+        showStatusMessage('error', `更新发布状态失败：${response.error || response.message || '未知错误'}`);
+      }
+    } catch (error) {
+      console.error('更新发布状态错误:', error);
+      showStatusMessage('error', `更新发布状态失败：${(error instanceof Error && error.message) || '服务器错误'}`);
+    } finally {
+      setSavingStatusId(null);
+    }
+  };
+
+  // 当前对学员的可见状态
+  const renderPublishBadge = (set: ClientQuestionSet) => {
+    if (set.status === 'draft') {
+      return <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">草稿</span>;
+    }
+    if (set.status === 'review') {
+      return <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">审核中</span>;
+    }
+    if (set.publishAt && new Date(set.publishAt) > new Date()) {
+      return (
+        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+          定时发布 {new Date(set.publishAt).toLocaleString()}
+        </span>
+      );
+    }
+    return <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">已发布</span>;
+  };
+
+  // 发布管理面板
+  const renderPublishing = () => (
+    <div className="bg-white p-6 rounded-lg shadow-md mb-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">发布管理</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        新建和导入的题库默认为草稿，只有已发布的题库会出现在首页和题库列表中。设置发布时间后，到时间才对学员公开。
+        未发布的题库可以点击“预览”，以学员的视角答题。
+      </p>
+      {categories.length > 0 && (
+        <div className="mb-3">
+          <select
+            value={filterCategoryId}
+            onChange={(e) => setFilterCategoryId(e.target.value)}
+            className="border-gray-300 rounded-md shadow-sm text-sm"
+          >
+            <option value="">全部分类</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>{category.path}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      {filteredQuestionSets.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无题库</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">题库</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">分类</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">当前状态</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">修改为</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">发布时间（可选）</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredQuestionSets.map(set => {
+                const draft = getPublishDraft(set);
+                return (
+                  <tr key={set.id}>
+                    <td className="px-4 py-2 text-gray-900">{set.title}</td>
+                    <td className="px-4 py-2 text-gray-500">{set.category || '未分类'}</td>
+                    <td className="px-4 py-2">{renderPublishBadge(set)}</td>
+                    <td className="px-4 py-2">
+                      <select
+                        value={draft.status}
+                        onChange={(e) => updatePublishDraft(set, { status: e.target.value as QuestionSetStatus })}
+                        className="border-gray-300 rounded-md shadow-sm text-sm"
+                        disabled={savingStatusId === set.id}
+                      >
+                        <option value="draft">草稿</option>
+                        <option value="review">审核中</option>
+                        <option value="published">发布</option>
+                      </select>
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="datetime-local"
+                        value={draft.publishAt}
+                        onChange={(e) => updatePublishDraft(set, { publishAt: e.target.value })}
+                        className="border-gray-300 rounded-md shadow-sm text-sm"
+                        disabled={draft.status !== 'published' || savingStatusId === set.id}
+                        title="留空表示立即发布"
+                      />
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-right space-x-3">
+                      <a
+                        href={`/quiz/${set.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        预览
+                      </a>
+                      <button
+                        onClick={() => handleSaveStatus(set)}
+                        className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                        disabled={savingStatusId === set.id}
+                      >
+                        {savingStatusId === set.id ? '保存中...' : '保存'}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  // 题目库面板：把已有题目加入其他题库，不复制题目
+  const renderQuestionBank = () => (
+    <div className="bg-white p-6 rounded-lg shadow-md mb-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">题目库</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        同一道题可以加入多个题库，修改题目后所有使用它的题库都会更新。例如从各章节题库中选题组成一套模拟考试。
+      </p>
+      <select
+        value={bankSetId}
+        onChange={(e) => setBankSetId(e.target.value)}
+        className="w-full md:w-1/2 mb-4 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+      >
+        <option value="">请选择要加入题目的题库</option>
+        {localQuestionSets.map(set => (
+          <option key={set.id} value={set.id}>{set.title}</option>
+        ))}
+      </select>
+      {bankSetId && (
+        <QuestionBankPicker
+          key={bankSetId}
+          questionSetId={bankSetId}
+          questionSets={localQuestionSets.map(set => ({ id: set.id, title: set.title }))}
+        />
+      )}
+    </div>
+  );
+
+  // 题目修改记录面板
+  const renderRevisionHistory = () => (
+    <div className="bg-white p-6 rounded-lg shadow-md mb-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">题目修改记录</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        记录后台编辑和文件导入对题目的每次修改，可以对比两个版本或把题目恢复到旧版本。
+      </p>
+      <select
+        value={revisionSetId}
+        onChange={(e) => setRevisionSetId(e.target.value)}
+        className="w-full md:w-1/2 mb-4 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+      >
+        <option value="">请选择题库</option>
+        {localQuestionSets.map(set => (
+          <option key={set.id} value={set.id}>{set.title}</option>
+        ))}
+      </select>
+      {revisionSetId && <QuestionRevisionHistory key={revisionSetId} questionSetId={revisionSetId} />}
+    </div>
+  );
+
+  // 文件导入面板
+  const renderFileImport = () => (
+    <div className="bg-white p-6 rounded-lg shadow-md mb-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">导入题库文件</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        支持 JSON、CSV、Excel（.xlsx）。上传后先校验并预览，确认无误后再导入。
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="md:col-span-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,.xlsx"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-gray-700"
+            disabled={isUploading}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">题库ID（可选）</label>
+          <input
+            type="text"
+            value={importFields.id}
+            onChange={(e) => setImportFields(prev => ({ ...prev, id: e.target.value }))}
+            placeholder="填写已有ID则更新该题库"
+            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+            disabled={isUploading}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">标题（可选）</label>
+          <input
+            type="text"
+            value={importFields.title}
+            onChange={(e) => setImportFields(prev => ({ ...prev, title: e.target.value }))}
+            placeholder="默认使用文件名"
+            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+            disabled={isUploading}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">分类（可选）</label>
+          <select
+            value={importFields.category}
+            onChange={(e) => setImportFields(prev => ({ ...prev, category: e.target.value }))}
+            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+            disabled={isUploading}
+          >
+            <option value="">使用文件中的分类</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.path}>{category.path}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={handleFileUpload}
+            className="w-full bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+            disabled={!uploadFile || isUploading}
+          >
+            {isUploading && !importReport ? '校验中...' : '校验并预览'}
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-400 mt-2">题库ID和标题只用于 CSV 和单个工作表的 Excel 文件，分类用于文件中未填写分类的题库；JSON 文件以文件内容为准。</p>
+
+      {importReport && (
+        <ImportPreview
+          report={importReport}
+          confirming={isUploading}
+          onConfirm={handleConfirmImport}
+          onCancel={resetImport}
+        />
+      )}
+    </div>
+  );
+
+  // 考试设置字段，创建和编辑表单共用
   // 在renderQuestionSets函数中添加添加题目按钮
   const renderQuestionSets = () => {
     if (filteredQuestionSets.length === 0) {
@@ -905,6 +1384,19 @@ const AdminQuestionSets = () => {
                   >
                     添加题目
                   </button>
+                  <button
+                    className="text-gray-600 hover:text-gray-900"
+                    onClick={() => handleExport(set.id)}
+                    disabled={exporting}
+                  >
+                    导出
+                  </button>
+                  <button
+                    className="text-gray-600 hover:text-gray-900"
+                    onClick={() => setRevisionSetId(set.id)}
+                  >
+                    修改记录
+                  </button>
                   <button
                     className="text-red-600 hover:text-red-900"
                     onClick={() => handleDeleteQuestionSet(set.id)}
@@ -930,7 +1422,27 @@ const AdminQuestionSets = () => {
 
   // 组件的返回语句 - 实际 UI 部分
   return (
-    <div>
+    <div className="p-6">
+      {statusMessage.message && (
+        <div className={`mb-4 p-3 rounded-md ${
+          statusMessage.type === 'success'
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {statusMessage.message}
+        </div>
+      )}
+
+      {renderPublishing()}
+
+      {renderFileImport()}
+
+      {renderExport()}
+
+      {renderQuestionBank()}
+
+      {renderRevisionHistory()}
+
       {/* 组件 UI 内容... */}
     </div>
   );
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useUser } from '../../contexts/UserContext';
-import { User } from '../../types';
+import { User, Purchase } from '../../types';
+import UserPurchasesModal from './UserPurchasesModal';
 
 const AdminUserManagement: React.FC = () => {
   const { getAllUsers, deleteUser, updateUser, adminRegister } = useUser();
@@ -17,6 +18,7 @@ const AdminUserManagement: React.FC = () => {
     isAdmin: false
   });
   const [formErrors, setFormErrors] = useState<{[key: string]: string}>({});
+  const [purchasesUserId, setPurchasesUserId] = useState<string | null>(null);
 
   // 加载用户列表
   useEffect(() => {
@@ -62,6 +64,17 @@ const AdminUserManagement: React.FC = () => {
     }
   };
 
+  // 退款后更新该用户的购买记录
+  // 退款套餐时一次返回套餐中所有题库的购买记录
+  const handlePurchaseRefunded = (refunded: Purchase[]) => {
+    setUsers(users.map(user => user.id === refunded[0]?.userId
+      ? { ...user, purchases: (user.purchases || []).map(p => refunded.find(r => r.id === p.id) || p) }
+      : user
+    ));
+    setStatusMessage({ type: 'success', message: refunded.length > 1 ? '退款成功，用户已无法访问套餐中的题库' : '退款成功，用户已无法访问该题库' });
+    setTimeout(() => setStatusMessage({ type: '', message: '' }), 3000);
+  };
+
   // 编辑用户处理
   const handleUpdateUser = async (userId: string, updates: Partial<User>) => {
     try {
@@ -377,7 +390,14 @@ const AdminUserManagement: React.FC = () => {
                       )}
                     </td>
                     <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
-                      {user.purchases?.length || 0}
+                      {user.purchases?.length ? (
+                        <button
+                          onClick={() => setPurchasesUserId(user.id)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          {user.purchases.length}
+                        </button>
+                      ) : 0}
                     </td>
                     <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
                       {Object.keys(user.progress || {}).length}
@@ -418,6 +438,12 @@ const AdminUserManagement: React.FC = () => {
       <div className="mt-4 text-sm text-gray-500">
         共 {filteredUsers.length} 个用户
       </div>
+
+      <UserPurchasesModal
+        user={users.find(user => user.id === purchasesUserId) || null}
+        onClose={() => setPurchasesUserId(null)}
+        onRefunded={handlePurchaseRefunded}
+      />
     </div>
   );
 };
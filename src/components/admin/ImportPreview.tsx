@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { ImportIssue, ImportReport, ImportedQuestion } from '../../types';
+import { getQuestionTypeLabel } from '../../utils/questionTypes';
+
+interface ImportPreviewProps {
+  report: ImportReport;
+  confirming: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// 问题所在位置，例如 "题库A · 第3题 · Sheet1 第4行"
+const describeLocation = (issue: ImportIssue) => {
+  const parts: string[] = [];
+  if (issue.questionSetTitle) parts.push(issue.questionSetTitle);
+  if (issue.questionIndex) parts.push(`第${issue.questionIndex}题`);
+  if (issue.sheet || issue.row) {
+    parts.push(`${issue.sheet ? `${issue.sheet} ` : ''}${issue.row ? `第${issue.row}行` : ''}`.trim());
+  }
+  return parts.join(' · ');
+};
+
+const CHANGE_LABELS: Record<NonNullable<ImportedQuestion['change']>, { label: string; className: string }> = {
+  added: { label: '新增', className: 'bg-green-100 text-green-800' },
+  changed: { label: '修改', className: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: '未变', className: 'bg-gray-100 text-gray-600' }
+};
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({ report, confirming, onConfirm, onCancel }) => {
+  const [expandedSetId, setExpandedSetId] = useState<string | null>(null);
+  const errors = report.issues.filter(issue => issue.level === 'error');
+  const warnings = report.issues.filter(issue => issue.level === 'warning');
+
+  return (
+    <div className="mt-6 border-t pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-md font-medium text-gray-900">导入预览</h4>
+        <div className="space-x-2 text-sm">
+          <span className={`px-2 py-1 rounded-full ${report.errorCount > 0 ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-600'}`}>
+            错误 {report.errorCount}
+          </span>
+          <span className={`px-2 py-1 rounded-full ${report.warningCount > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-600'}`}>
+            警告 {report.warningCount}
+          </span>
+        </div>
+      </div>
+
+      {report.questionSets.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">文件中没有可导入的题库</p>
+      ) : (
+        <div className="overflow-x-auto mb-4">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">题库</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">操作</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">题目数</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {report.questionSets.map(set => (
+                <React.Fragment key={set.id}>
+                  <tr>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      <div className="font-medium">{set.title || '（未命名）'}</div>
+                      <div className="text-xs text-gray-500">
+                        {set.id}{set.category ? ` · ${set.category}` : ''}{set.isPaid ? ` · 付费 ¥${set.price ?? 0}` : ' · 免费'}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      {set.action === 'create' ? (
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">新建</span>
+                      ) : (
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">更新</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500">
+                      <div>{set.questionCount}</div>
+                      {set.action === 'update' && set.questionCount > 0 && (
+                        <div className="text-xs space-x-2">
+                          <span className="text-green-700">新增 {set.summary.added}</span>
+                          <span className="text-blue-700">修改 {set.summary.changed}</span>
+                          <span className="text-gray-500">未变 {set.summary.unchanged}</span>
+                          <span className={set.summary.removed > 0 ? 'text-orange-600' : 'text-gray-500'}>移除 {set.summary.removed}</span>
+                        </div>
+                      )}
+                      {set.action === 'update' && set.questionCount === 0 && (
+                        <div className="text-xs text-gray-500">保留原有 {set.existingQuestionCount} 题</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      {(set.questionCount > 0 || set.removedQuestions.length > 0) && (
+                        <button
+                          className="text-indigo-600 hover:text-indigo-900"
+                          onClick={() => setExpandedSetId(expandedSetId === set.id ? null : set.id)}
+                        >
+                          {expandedSetId === set.id ? '收起' : '查看题目'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedSetId === set.id && (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-2 bg-gray-50">
+                        <ol className="max-h-80 overflow-y-auto space-y-3 text-sm list-decimal list-inside">
+                          {set.questions.map((question, index) => (
+                            <li key={index} className="text-gray-800">
+                              <span className="whitespace-pre-wrap">{question.text || <span className="text-red-600">（题目内容为空）</span>}</span>
+                              <span className="ml-2 text-xs text-gray-500">
+                                {getQuestionTypeLabel(question.questionType)}
+                              </span>
+                              {set.action === 'update' && question.change && (
+                                <span className={`ml-2 px-1.5 text-xs rounded ${CHANGE_LABELS[question.change].className}`}>
+                                  {CHANGE_LABELS[question.change].label}
+                                </span>
+                              )}
+                              <ul className="ml-6 mt-1 space-y-0.5">
+                                {question.options.map((option, j) => (
+                                  <li key={j} className={option.isCorrect ? 'text-green-700 font-medium' : 'text-gray-600'}>
+                                    {option.optionIndex}. {option.text}{option.matchText ? ` → ${option.matchText}` : ''}{option.isCorrect ? ' ✓' : ''}
+                                  </li>
+                                ))}
+                              </ul>
+                            </li>
+                          ))}
+                        </ol>
+                        {set.removedQuestions.length > 0 && (
+                          <div className="mt-4">
+                            <p className="text-sm font-medium text-orange-700 mb-1">
+                              以下 {set.removedQuestions.length} 道题不在文件中，导入后将从题库移除，不再被其他题库使用的题目会下线（保留答题记录）
+                            </p>
+                            <ul className="max-h-40 overflow-y-auto space-y-1 text-sm text-gray-600 list-disc list-inside">
+                              {set.removedQuestions.map(question => (
+                                <li key={question.id} className="whitespace-pre-wrap">{question.text}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {report.issues.length > 0 && (
+        <ul className="mb-4 max-h-60 overflow-y-auto space-y-1 text-sm">
+          {[...errors, ...warnings].map((issue, index) => (
+            <li
+              key={index}
+              className={`px-3 py-2 rounded-md ${issue.level === 'error' ? 'bg-red-50 text-red-800' : 'bg-yellow-50 text-yellow-800'}`}
+            >
+              <span className="font-medium">{issue.level === 'error' ? '错误' : '警告'}</span>
+              {describeLocation(issue) && <span className="ml-2 text-gray-600">{describeLocation(issue)}</span>}
+              <span className="ml-2">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          disabled={confirming}
+        >
+          取消
+        </button>
+        <button
+          onClick={onConfirm}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+          disabled={!report.valid || confirming}
+          title={report.valid ? '' : '请先修正文件中的错误'}
+        >
+          {confirming ? '导入中...' : '确认导入'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreview;
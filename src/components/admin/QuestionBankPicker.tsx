@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { QuestionBankItem, Question } from '../../types';
+import { questionSetApi } from '../../utils/api';
+import { getQuestionTypeLabel } from '../../utils/questionTypes';
+
+interface QuestionBankPickerProps {
+  questionSetId: string;
+  questionSets: { id: string; title: string }[];
+}
+
+const PAGE_SIZE = 20;
+
+const QuestionBankPicker: React.FC<QuestionBankPickerProps> = ({ questionSetId, questionSets }) => {
+  const [setQuestions, setSetQuestions] = useState<Question[]>([]);
+  const [items, setItems] = useState<QuestionBankItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [keyword, setKeyword] = useState('');
+  const [fromSetId, setFromSetId] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadSetQuestions = useCallback(async () => {
+    const response = await questionSetApi.getQuestionSetById(questionSetId);
+    if (response.success && response.data) {
+      setSetQuestions(response.data.questions || []);
+    }
+  }, [questionSetId]);
+
+  const loadBank = useCallback(async () => {
+    setLoading(true);
+    const response = await questionSetApi.searchQuestionBank({
+      search: keyword,
+      fromSetId,
+      targetSetId: questionSetId,
+      page,
+      limit: PAGE_SIZE
+    });
+    if (response.success && response.data) {
+      setItems(response.data.items);
+      setTotal(response.data.total);
+    } else {
+      setMessage({ type: 'error', text: response.error || response.message || '搜索题目库失败' });
+    }
+    setLoading(false);
+  }, [keyword, fromSetId, questionSetId, page]);
+
+  useEffect(() => {
+    setSelectedIds([]);
+    setMessage(null);
+    loadSetQuestions();
+  }, [loadSetQuestions]);
+
+  useEffect(() => {
+    loadBank();
+  }, [loadBank]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setKeyword(search.trim());
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    const response = await questionSetApi.addQuestionsToSet(questionSetId, selectedIds);
+    setSaving(false);
+
+    if (response.success) {
+      setMessage({ type: 'success', text: response.message || '题目已加入题库' });
+      setSelectedIds([]);
+      loadSetQuestions();
+      loadBank();
+    } else {
+      setMessage({ type: 'error', text: response.error || response.message || '加入题目失败' });
+    }
+  };
+
+  const handleRemove = async (question: Question) => {
+    if (!window.confirm('确定要把这道题从题库中移除吗？其他题库中的这道题不受影响。')) {
+      return;
+    }
+
+    const response = await questionSetApi.removeQuestionFromSet(questionSetId, question.id);
+    if (response.success) {
+      setMessage({ type: 'success', text: response.message || '题目已从题库中移除' });
+      loadSetQuestions();
+      loadBank();
+    } else {
+      setMessage({ type: 'error', text: response.error || response.message || '移除题目失败' });
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div>
+      {message && (
+        <div className={`mb-3 p-2 rounded-md text-sm ${message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">题库中的题目（{setQuestions.length}）</h4>
+          {setQuestions.length === 0 ? (
+            <p className="text-sm text-gray-500">题库中还没有题目</p>
+          ) : (
+            <ol className="max-h-96 overflow-y-auto divide-y divide-gray-100 border rounded-md text-sm">
+              {setQuestions.map((question, index) => (
+                <li key={question.id} className="flex items-start justify-between px-3 py-2">
+                  <span className="text-gray-700 mr-2">
+                    <span className="text-gray-400 mr-1">{index + 1}.</span>
+                    {question.text}
+                  </span>
+                  <button
+                    className="text-red-600 hover:text-red-900 whitespace-nowrap"
+                    onClick={() => handleRemove(question)}
+                  >
+                    移除
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">从题目库中选择</h4>
+          <form onSubmit={handleSearch} className="flex gap-2 mb-3">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="搜索题干"
+              className="flex-1 border-gray-300 rounded-md shadow-sm text-sm"
+            />
+            <select
+              value={fromSetId}
+              onChange={(e) => { setPage(1); setFromSetId(e.target.value); }}
+              className="border-gray-300 rounded-md shadow-sm text-sm"
+            >
+              <option value="">全部题库</option>
+              {questionSets.filter(set => set.id !== questionSetId).map(set => (
+                <option key={set.id} value={set.id}>{set.title}</option>
+              ))}
+            </select>
+            <button type="submit" className="px-3 py-1 text-sm bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200">
+              搜索
+            </button>
+          </form>
+
+          {loading ? (
+            <p className="text-sm text-gray-500">加载中...</p>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-gray-500">没有找到题目</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 border rounded-md text-sm">
+              {items.map(item => (
+                <li key={item.id} className="flex items-start px-3 py-2">
+                  <input
+                    type="checkbox"
+                    className="mt-1 mr-2"
+                    checked={item.inTargetSet || selectedIds.includes(item.id)}
+                    disabled={item.inTargetSet}
+                    onChange={() => toggleSelected(item.id)}
+                  />
+                  <div className="flex-1">
+                    <div className="text-gray-800">{item.text}</div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      {getQuestionTypeLabel(item.questionType)} · 来自 {item.questionSetTitle} · 用于 {item.setCount} 个题库
+                      {item.inTargetSet && <span className="ml-1 text-green-600">已在题库中</span>}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-center justify-between mt-3 text-sm">
+            <div className="space-x-2">
+              <button
+                className="text-indigo-600 hover:text-indigo-900 disabled:text-gray-400"
+                disabled={page <= 1}
+                onClick={() => setPage(page - 1)}
+              >
+                上一页
+              </button>
+              <span className="text-gray-500">{page} / {totalPages}（共 {total} 题）</span>
+              <button
+                className="text-indigo-600 hover:text-indigo-900 disabled:text-gray-400"
+                disabled={page >= totalPages}
+                onClick={() => setPage(page + 1)}
+              >
+                下一页
+              </button>
+            </div>
+            <button
+              className="px-3 py-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+              disabled={selectedIds.length === 0 || saving}
+              onClick={handleAdd}
+            >
+              {saving ? '加入中...' : `加入所选（${selectedIds.length}）`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBankPicker;
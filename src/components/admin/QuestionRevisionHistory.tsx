@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { QuestionRevision, QuestionRevisionDiff } from '../../types';
+import { questionSetApi } from '../../utils/api';
+
+interface QuestionRevisionHistoryProps {
+  questionSetId: string;
+}
+
+const ACTION_LABELS: Record<QuestionRevision['action'], string> = {
+  create: '新增',
+  update: '修改',
+  retire: '下线',
+  restore: '恢复上线',
+  rollback: '回滚'
+};
+
+const SOURCE_LABELS: Record<QuestionRevision['source'], string> = {
+  create: '新建题库',
+  editor: '后台编辑',
+  import: '文件导入',
+  rollback: '版本恢复'
+};
+
+const OPTION_CHANGE_STYLES = {
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through',
+  changed: 'bg-yellow-50 text-yellow-800',
+  unchanged: 'text-gray-600'
+};
+
+const describeOption = (option: { text: string; isCorrect: boolean; matchText?: string } | null) =>
+  option ? `${option.text}${option.matchText ? ` → ${option.matchText}` : ''}${option.isCorrect ? ' ✓' : ''}` : '（无）';
+
+// 修订记录对应的题干，下线记录取下线前的内容
+const revisionText = (revision: QuestionRevision) =>
+  (revision.after || revision.before)?.text || '';
+
+const FieldChange: React.FC<{ label: string; before: string | null; after: string | null; changed: boolean }> = ({ label, before, after, changed }) => (
+  <div className="mb-3">
+    <div className="text-xs font-medium text-gray-500 mb-1">{label}{changed ? '（已修改）' : ''}</div>
+    {changed ? (
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="p-2 rounded bg-red-50 text-red-800 whitespace-pre-wrap">{before ?? '（无）'}</div>
+        <div className="p-2 rounded bg-green-50 text-green-800 whitespace-pre-wrap">{after ?? '（无）'}</div>
+      </div>
+    ) : (
+      <div className="p-2 text-sm text-gray-700 whitespace-pre-wrap">{after ?? '（无）'}</div>
+    )}
+  </div>
+);
+
+const QuestionRevisionHistory: React.FC<QuestionRevisionHistoryProps> = ({ questionSetId }) => {
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [questionId, setQuestionId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [diff, setDiff] = useState<QuestionRevisionDiff | null>(null);
+  const [diffTitle, setDiffTitle] = useState('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    const response = await questionSetApi.getQuestionRevisions(questionSetId, questionId || undefined);
+    if (response.success && response.data) {
+      setRevisions(response.data);
+    } else {
+      setError(response.error || response.message || '获取修改记录失败');
+    }
+    setLoading(false);
+  }, [questionSetId, questionId]);
+
+  useEffect(() => {
+    setSelectedIds([]);
+    setDiff(null);
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const showDiff = async (title: string, from: string, to?: string) => {
+    const response = await questionSetApi.getQuestionRevisionDiff(questionSetId, from, to);
+    if (response.success && response.data) {
+      setDiff(response.data);
+      setDiffTitle(title);
+    } else {
+      setError(response.error || response.message || '对比失败');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id)
+      ? prev.filter(selected => selected !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const compareSelected = () => {
+    // 按时间先后对比，列表是倒序的
+    const [older, newer] = revisions
+      .filter(revision => selectedIds.includes(revision.id))
+      .reverse()
+      .map(revision => revision.id);
+    showDiff('对比所选版本', older, newer);
+  };
+
+  const handleRestore = async (revision: QuestionRevision) => {
+    if (!window.confirm('确定要把题目恢复到这个版本吗？当前内容会记录为一条新的修改记录。')) {
+      return;
+    }
+
+    setRestoringId(revision.id);
+    const response = await questionSetApi.rollbackQuestionRevision(questionSetId, revision.id);
+    setRestoringId(null);
+
+    if (response.success) {
+      setDiff(null);
+      loadRevisions();
+    } else {
+      setError(response.error || response.message || '恢复失败');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm text-gray-600">
+          {questionId ? (
+            <>
+              只显示一道题的记录
+              <button className="ml-2 text-indigo-600 hover:text-indigo-900" onClick={() => setQuestionId(null)}>
+                显示全部
+              </button>
+            </>
+          ) : '最近的题目修改记录'}
+        </div>
+        {questionId && (
+          <button
+            className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+            disabled={selectedIds.length !== 2}
+            onClick={compareSelected}
+          >
+            对比所选（{selectedIds.length}/2）
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mb-3 p-2 rounded-md bg-red-50 text-red-800 text-sm">{error}</div>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">加载中...</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无修改记录</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {questionId && <th className="px-3 py-2"></th>}
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">时间</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">修改人</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">操作</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">题目</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {revisions.map(revision => (
+                <tr key={revision.id}>
+                  {questionId && (
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(revision.id)}
+                        onChange={() => toggleSelected(revision.id)}
+                        disabled={!revision.after}
+                      />
+                    </td>
+                  )}
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-500">{new Date(revision.createdAt).toLocaleString()}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-700">{revision.user?.username || '系统'}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <span className="font-medium text-gray-800">{ACTION_LABELS[revision.action]}</span>
+                    <span className="ml-1 text-xs text-gray-500">{SOURCE_LABELS[revision.source]}</span>
+                  </td>
+                  <td className="px-3 py-2 text-gray-700 max-w-xs truncate" title={revisionText(revision)}>
+                    {revisionText(revision)}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right space-x-2">
+                    <button className="text-indigo-600 hover:text-indigo-900" onClick={() => showDiff('本次修改', revision.id)}>
+                      查看修改
+                    </button>
+                    {revision.after && (
+                      <button className="text-indigo-600 hover:text-indigo-900" onClick={() => showDiff('与当前内容对比', revision.id, 'current')}>
+                        与当前对比
+                      </button>
+                    )}
+                    {!questionId && (
+                      <button className="text-gray-600 hover:text-gray-900" onClick={() => setQuestionId(revision.questionId)}>
+                        只看此题
+                      </button>
+                    )}
+                    {revision.after && (
+                      <button
+                        className="text-orange-600 hover:text-orange-900 disabled:opacity-50"
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringId !== null}
+                      >
+                        {restoringId === revision.id ? '恢复中...' : '恢复此版本'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {diff && (
+        <div className="mt-4 border rounded-md p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-md font-medium text-gray-900">{diffTitle}</h4>
+            <button className="text-sm text-gray-500 hover:text-gray-700" onClick={() => setDiff(null)}>关闭</button>
+          </div>
+          {!diff.diff.changed && <p className="text-sm text-gray-500 mb-3">两个版本内容相同</p>}
+          <div className="grid grid-cols-2 gap-2 text-xs text-gray-500 mb-2">
+            <div>修改前{diff.before ? '' : '（题目不存在）'}</div>
+            <div>修改后{diff.after ? '' : '（题目已下线）'}</div>
+          </div>
+          <FieldChange label="题干" {...diff.diff.text} />
+          <FieldChange label="题型" {...diff.diff.questionType} />
+          <FieldChange label="内容格式" {...diff.diff.contentFormat} />
+          <div className="mb-3">
+            <div className="text-xs font-medium text-gray-500 mb-1">选项（✓ 为正确答案）</div>
+            <ul className="space-y-1 text-sm">
+              {diff.diff.options.map(option => (
+                <li key={option.optionIndex} className={`px-2 py-1 rounded ${OPTION_CHANGE_STYLES[option.change]}`}>
+                  <span className="font-medium mr-1">{option.optionIndex}.</span>
+                  {option.change === 'changed'
+                    ? `${describeOption(option.before)} → ${describeOption(option.after)}`
+                    : describeOption(option.after || option.before)}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <FieldChange label="解析" {...diff.diff.explanation} />
+          <FieldChange label="标签" {...diff.diff.tags} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionRevisionHistory;
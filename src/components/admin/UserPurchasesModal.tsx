@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { User, Purchase } from '../../types';
+import { purchaseApi } from '../../utils/api';
+import { isLifetimeExpiry } from '../../utils/pricing';
+
+interface UserPurchasesModalProps {
+  user: User | null;
+  onClose: () => void;
+  onRefunded: (purchases: Purchase[]) => void;
+}
+
+const formatDate = (value?: string | null) => value ? new Date(value).toLocaleDateString() : '-';
+
+const isActive = (purchase: Purchase) =>
+  purchase.status === 'completed' && new Date(purchase.expiryDate) > new Date();
+
+// 套餐中的题库没有单独付款，退款金额以套餐的支付金额为准
+const getPaidAmount = (purchase: Purchase) =>
+  purchase.bundlePurchase ? Number(purchase.bundlePurchase.amount) : Number(purchase.amount);
+
+/**
+ * 查看用户的购买记录并退款
+ *
+ * 退款通过购买时的支付渠道进行，金额留空为全额退款；部分退款同样会立即收回该题库的访问权限。
+ * 通过套餐获得的题库只能退款整个套餐，套餐中所有题库的访问权限一并收回
+ */
+const UserPurchasesModal: React.FC<UserPurchasesModalProps> = ({ user, onClose, onRefunded }) => {
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!user) return null;
+
+  const purchases = user.purchases || [];
+
+  const startRefund = (purchaseId: string) => {
+    setRefundingId(purchaseId);
+    setAmount('');
+    setReason('');
+    setError('');
+  };
+
+  const handleRefund = async (purchase: Purchase) => {
+    if (!purchase.id) return;
+    if (reason.trim() === '') {
+      setError('请填写退款原因');
+      return;
+    }
+
+    const paidAmount = getPaidAmount(purchase);
+    const refundAmount = amount.trim() === '' ? undefined : Number(amount);
+    if (refundAmount !== undefined && (!Number.isFinite(refundAmount) || refundAmount <= 0 || refundAmount > paidAmount)) {
+      setError(`退款金额应大于 0 且不超过 ¥${paidAmount}`);
+      return;
+    }
+
+    const label = refundAmount === undefined ? `全额 ¥${paidAmount}` : `¥${refundAmount}`;
+    const target = purchase.bundlePurchase ? '套餐中的所有题库' : '该题库';
+    if (!window.confirm(`确定退款 ${label} 吗？退款后用户将立即无法访问${target}，此操作不可撤销。`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      if (purchase.bundlePurchase) {
+        const bundlePurchase = purchase.bundlePurchase;
+        const response = await purchaseApi.refundBundlePurchase(bundlePurchase.id, reason.trim(), refundAmount);
+        if (response.success && response.data) {
+          const refundedBundle = { ...bundlePurchase, refundedAmount: response.data.bundlePurchase.refundedAmount };
+          onRefunded(response.data.purchases.map(refunded => {
+            const existing = purchases.find(p => p.id === refunded.id);
+            return { ...existing, ...refunded, questionSet: existing?.questionSet, bundlePurchase: refundedBundle };
+          }));
+          setRefundingId(null);
+        } else {
+          setError(response.message || '退款失败');
+        }
+        return;
+      }
+
+      const response = await purchaseApi.refundPurchase(purchase.id, reason.trim(), refundAmount);
+      if (response.success && response.data) {
+        onRefunded([{ ...purchase, ...response.data, questionSet: purchase.questionSet }]);
+        setRefundingId(null);
+      } else {
+        setError(response.message || '退款失败');
+      }
+    } catch (err) {
+      console.error('退款失败:', err);
+      setError('退款失败');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+      <div className="relative mx-auto p-5 border w-full max-w-3xl max-h-[90vh] overflow-y-auto shadow-lg rounded-lg bg-white animate-fadeIn">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold text-gray-900">
+            {user.username} 的购买记录
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+            disabled={isSubmitting}
+          >
+            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {purchases.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-6">没有购买记录</p>
+        ) : (
+          <div className="space-y-3">
+            {purchases.map(purchase => (
+              <div key={purchase.id || purchase.transactionId} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex justify-between items-start gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900">
+                      {purchase.questionSet?.title || `题库 ${purchase.questionSetId}`}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {purchase.bundlePurchase
+                        ? `套餐《${purchase.bundlePurchase.bundle?.title || '已删除的套餐'}》¥${purchase.bundlePurchase.amount}`
+                        : `¥${purchase.amount}`} · {formatDate(purchase.purchaseDate)} 购买 · {isLifetimeExpiry(purchase.expiryDate) ? '永久有效' : `到期 ${formatDate(purchase.expiryDate)}`}
+                    </div>
+                    <div className="text-xs text-gray-400 break-all">
+                      {purchase.paymentMethod} · {purchase.transactionId}
+                    </div>
+                    {purchase.status === 'refunded' && (
+                      <div className="text-sm text-gray-600 mt-1">
+                        {purchase.bundlePurchase
+                          ? `随套餐退款 ¥${purchase.bundlePurchase.refundedAmount ?? 0}`
+                          : `已退款 ¥${purchase.refundedAmount}`}（{formatDate(purchase.refundedAt)}）
+                        {purchase.refundReason ? `：${purchase.refundReason}` : ''}
+                      </div>
+                    )}
+                  </div>
+                  <div className="shrink-0 text-right">
+                    <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      purchase.status === 'refunded'
+                        ? 'bg-gray-100 text-gray-800'
+                        : isActive(purchase) ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {purchase.status === 'refunded' ? '已退款' : isActive(purchase) ? '有效' : '已过期'}
+                    </span>
+                    {purchase.status === 'completed' && refundingId !== purchase.id && (
+                      <button
+                        onClick={() => startRefund(purchase.id as string)}
+                        className="block mt-2 text-sm text-red-600 hover:text-red-800"
+                      >
+                        {purchase.bundlePurchase ? '退款整个套餐' : '退款'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {refundingId === purchase.id && (
+                  <div className="mt-3 bg-gray-50 p-3 rounded space-y-2">
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={amount}
+                        onChange={e => setAmount(e.target.value)}
+                        placeholder={`退款金额，留空全额退款（¥${getPaidAmount(purchase)}）`}
+                        className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm"
+                      />
+                      <input
+                        type="text"
+                        value={reason}
+                        onChange={e => setReason(e.target.value)}
+                        maxLength={500}
+                        placeholder="退款原因（用户可见）"
+                        className="flex-[2] border border-gray-300 rounded px-3 py-2 text-sm"
+                      />
+                    </div>
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setRefundingId(null)}
+                        disabled={isSubmitting}
+                        className="px-3 py-1.5 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-100"
+                      >
+                        取消
+                      </button>
+                      <button
+                        onClick={() => handleRefund(purchase)}
+                        disabled={isSubmitting}
+                        className="px-3 py-1.5 bg-red-600 text-white rounded text-sm hover:bg-red-700 disabled:opacity-50"
+                      >
+                        {isSubmitting ? '退款中...' : '确认退款'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserPurchasesModal;
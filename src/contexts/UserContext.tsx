@@ -1,9 +1,10 @@
 import React, { createContext, useState, useContext, useEffect, ReactNode, useCallback } from 'react';
 import { User, Purchase, RedeemCode, UserProgress } from '../types';
-import { userApi, redeemCodeApi } from '../utils/api';
+import { userApi, redeemCodeApi, progressApi } from '../utils/api';
 
 export interface QuizProgress {
   questionSetId: string;
+  attemptId?: string; // 服务端判分的答题记录，进度以此为准
   answeredQuestions?: {
     questionId: string;
     selectedOptionId: string;
@@ -16,6 +17,10 @@ export interface QuizProgress {
   lastAttemptDate?: Date;
 }
 
+// 与服务端 findActivePurchase 相同的规则：购买已完成且未过期
+const isActivePurchase = (purchase: Purchase) =>
+  purchase.status === 'completed' && new Date(purchase.expiryDate) > new Date();
+
 interface UserContextType {
   user: User | null;
   loading: boolean;
@@ -25,7 +30,7 @@ interface UserContextType {
   register: (userData: Partial<User>) => Promise<boolean>;
   updateUser: (userData: Partial<User>) => Promise<void>;
   addProgress: (progress: QuizProgress) => Promise<void>;
-  addPurchase: (purchase: Purchase) => Promise<void>;
+  refreshUser: () => Promise<void>;
   hasAccessToQuestionSet: (questionSetId: string) => boolean;
   getRemainingAccessDays: (questionSetId: string) => number | null;
   isQuizCompleted: (questionSetId: string) => boolean;
@@ -154,48 +159,44 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       return;
     }
 
+    if (!progress.attemptId) {
+      console.error('Progress can only be saved from a completed quiz attempt');
+      return;
+    }
+
     try {
-      const userProgress: UserProgress = {
-        completedQuestions: progress.completedQuestions || progress.answeredQuestions?.length || 0,
-        totalQuestions: progress.totalQuestions || progress.answeredQuestions?.length || 0,
-        correctAnswers: progress.correctAnswers || progress.answeredQuestions?.filter(a => a.isCorrect).length || 0,
-        lastAccessed: progress.lastAttemptDate ? progress.lastAttemptDate.toISOString() : new Date().toISOString()
-      };
-      const updatedProgress = { ...(user.progress || {}) };
-      updatedProgress[progress.questionSetId] = userProgress;
-      await updateUser({ progress: updatedProgress });
+      // 得分由服务端根据答题记录计算，客户端不再上报分数
+      const response = await progressApi.saveProgress(progress.questionSetId, progress.attemptId);
+      if (response.success && response.data) {
+        const userProgress: UserProgress = response.data;
+        setUser(prev => prev ? {
+          ...prev,
+          progress: { ...(prev.progress || {}), [progress.questionSetId]: userProgress }
+        } : prev);
+      } else {
+        console.error('Failed to add progress:', response.error || response.message);
+      }
     } catch (error) {
       console.error('Failed to add progress:', error);
     }
   };
 
-  const addPurchase = async (purchase: Purchase) => {
+  // 购买记录由服务端写入 purchases 表，支付或兑换成功后重新拉取用户资料
+  const refreshUser = async () => {
     if (!user) return;
-    try {
-      const updatedPurchases = [...(user.purchases || [])];
-      updatedPurchases.push(purchase);
-      await updateUser({ purchases: updatedPurchases });
-    } catch (error) {
-      console.error('Failed to add purchase:', error);
-    }
+    await fetchCurrentUser();
   };
 
   const hasAccessToQuestionSet = useCallback((questionSetId: string): boolean => {
     if (!user || !user.purchases) return false;
 
-    return user.purchases.some(p => 
-      p.questionSetId === questionSetId && 
-      (new Date(p.expiryDate) > new Date() || !p.expiryDate)
-    );
+    return user.purchases.some(p => p.questionSetId === questionSetId && isActivePurchase(p));
   }, [user]);
 
   const getRemainingAccessDays = useCallback((questionSetId: string): number | null => {
     if (!user || !user.purchases) return null;
 
-    const purchase = user.purchases.find(p => 
-      p.questionSetId === questionSetId && 
-      new Date(p.expiryDate) > new Date()
-    );
+    const purchase = user.purchases.find(p => p.questionSetId === questionSetId && isActivePurchase(p));
 
     if (purchase) {
       const expiryDate = new Date(purchase.expiryDate);
@@ -329,7 +330,7 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       register,
       updateUser,
       addProgress,
-      addPurchase,
+      refreshUser,
       hasAccessToQuestionSet,
       getRemainingAccessDays,
       isQuizCompleted,
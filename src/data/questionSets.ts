@@ -1,17 +1,25 @@
 import { Question } from './questions';
+import { PricingTier } from '../types';
 
 export interface QuestionSet {
   id: string;
   title: string;
   description: string;
-  category: string;
+  category: string; // 分类路径
+  categoryId?: string | null;
   questions: Question[];
   icon: string; // 使用简单的图标名称，可以是emoji或图标类名
   isPaid: boolean; // 是否为付费题库
   price?: number; // 价格（元），只有isPaid为true时才有意义
+  pricingTiers?: PricingTier[] | null; // 价格档位，为空时按 price 购买6个月
   trialQuestions?: number; // 免费试用的题目数量，默认为0
   isFeatured?: boolean; // 是否为精选题库
-  featuredCategory?: string; // 精选分类
+  featuredCategory?: string | null; // 精选分类路径
+  featuredCategoryId?: string | null; // 精选分类ID
+  timeLimit?: number; // 考试时间限制（分钟），0表示不限时
+  passingScore?: number; // 及格分（百分制），0表示不判定
+  status?: 'draft' | 'review' | 'published'; // 发布状态
+  publishAt?: string | null; // 定时发布时间
 }
 
 export const questionSets: QuestionSet[] = [
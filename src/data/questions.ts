@@ -1,17 +1,23 @@
 export interface Option {
   id: string;
   text: string;
+  matchText?: string; // 匹配题中配对的右侧项
 }
 
-export type QuestionType = 'single' | 'multiple';
+export type QuestionType = 'single' | 'multiple' | 'truefalse' | 'fill' | 'ordering' | 'matching';
+
+// 题干、选项和解析的格式：text 按原文显示，markdown 按 Markdown 渲染
+export type QuestionContentFormat = 'text' | 'markdown';
 
 export interface Question {
   id: number;
   question: string;
   options: Option[];
   questionType: QuestionType;
-  correctAnswer: string | string[]; // 单选题为字符串，多选题为字符串数组
+  correctAnswer: string | string[]; // 单选、判断题为字符串，其他题型为字符串数组（填空、排序和匹配题的每个选项都是答案）
   explanation: string;
+  contentFormat?: QuestionContentFormat;
+  tags?: string[]; // 题目标签，如 "子网划分"
 }
 
 export const questions: Question[] = [
@@ -16,34 +16,383 @@ export interface UserProgress {
   lastAccessed: string;
 }
 
+export interface UserProgressRecord extends UserProgress {
+  id: string;
+  questionSetId: string;
+  questionSetTitle: string;
+  questionSetIcon: string;
+}
+
 export interface QuestionSet {
   id: string;
   title: string;
   description: string;
-  category: string;
+  category: string; // 分类路径，如 "网络 > CCNA"
+  categoryId?: string | null;
   icon: string;
   questions?: Question[];
   isPaid?: boolean;
-  price?: number;
+  price?: number; // 设置了价格档位时为最低的档位价格
+  pricingTiers?: PricingTier[] | null;
   trialQuestions?: number;
   isFeatured?: boolean;
-  featuredCategory?: string;
+  featuredCategory?: string | null;
+  featuredCategoryId?: string | null;
   questionCount?: number;
+  // 以下字段由题库详情接口根据当前用户的购买情况返回
+  totalQuestions?: number;
+  hasFullAccess?: boolean;
+  lockedQuestions?: number;
+  accessExpiryDate?: string;
+  timeLimit?: number | null; // 考试时间限制（分钟）
+  passingScore?: number | null; // 及格分（百分制）
+  status?: QuestionSetStatus;
+  publishAt?: string | null; // 定时发布时间
+  isPublished?: boolean; // 题库详情接口返回，是否已对学员公开
+}
+
+// 付费题库的价格档位，durationDays 为 null 表示永久有效
+export interface PricingTier {
+  id: string;
+  label: string;
+  durationDays: number | null;
+  price: number;
+}
+
+// 题库分类，parentId 为空表示顶级分类
+export interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  icon: string | null;
+  sortOrder: number;
+  path: string; // 如 "网络 > CCNA"
+}
+
+// 分类树节点，questionSetCount 包含子分类中的题库
+export interface CategoryNode extends Category {
+  questionSetCount: number;
+  children: CategoryNode[];
+}
+
+// 展开的分类列表（?flat=true），depth 从 0 开始
+export interface FlatCategory extends Category {
+  questionSetCount: number;
+  depth: number;
+}
+
+export interface CategoryDetail extends Category {
+  questionSetCount: number;
+  ancestors: Category[];
+  children: (Category & { questionSetCount: number })[];
+  questionSets: QuestionSet[];
 }
 
+// 发布状态：草稿、审核中、已发布
+export type QuestionSetStatus = 'draft' | 'review' | 'published';
+
+// 题型：单选、多选、判断、填空、排序、匹配
+export type QuestionType = 'single' | 'multiple' | 'truefalse' | 'fill' | 'ordering' | 'matching';
+
+// 题干、选项和解析的格式：text 按原文显示，markdown 按 Markdown 渲染
+export type QuestionContentFormat = 'text' | 'markdown';
+
 export interface Question {
   id: string;
   text: string;
   options: Option[];
-  explanation: string;
-  questionType?: 'single' | 'multiple';
+  explanation?: string; // 答题时由服务端判题后返回
+  questionType?: QuestionType;
+  contentFormat?: QuestionContentFormat;
   correctAnswer?: string | string[];
+  tags?: string[];
+  matchChoices?: string[]; // 匹配题可选的右侧项
 }
 
 export interface Option {
   id: string;
   text: string;
-  isCorrect: boolean;
+  isCorrect?: boolean; // 仅管理员接口返回
+  optionIndex?: string;
+  matchText?: string | null; // 匹配题的右侧项，仅管理员接口返回
+}
+
+// 服务端判题结果
+// 考试模式交卷前只返回 questionId 和 selectedOptions
+// 选择题和排序题为选项ID，填空题为填写的答案，匹配题为各左侧项选择的右侧项；correctOptions 同理
+export interface AnswerResult {
+  questionId: string;
+  selectedOptions: string[];
+  isCorrect?: boolean;
+  correctOptions?: string[];
+  explanation?: string;
+}
+
+// 题库导入校验报告（上传时带 dryRun 返回）
+export interface ImportIssue {
+  level: 'error' | 'warning';
+  message: string;
+  questionSetId?: string;
+  questionSetTitle?: string;
+  questionIndex?: number; // 从 1 开始
+  sheet?: string; // Excel 工作表
+  row?: number; // CSV / Excel 行号
+}
+
+export interface ImportedQuestion {
+  id?: string;
+  text: string;
+  explanation?: string;
+  questionType?: QuestionType;
+  contentFormat?: QuestionContentFormat;
+  options: { optionIndex: string; text: string; isCorrect: boolean; matchText?: string | null }[];
+  tags?: string[];
+  // 与题库现有题目的比对结果
+  change?: 'added' | 'changed' | 'unchanged';
+  matchedBy?: 'id' | 'hash';
+  existingId?: string;
+}
+
+export interface QuestionDiffSummary {
+  added: number;
+  changed: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface ImportPreviewSet {
+  id: string;
+  title: string;
+  category?: string;
+  isPaid: boolean;
+  price?: number;
+  action: 'create' | 'update';
+  existingQuestionCount: number;
+  questionCount: number;
+  questions: ImportedQuestion[];
+  summary: QuestionDiffSummary;
+  removedQuestions: { id: string; text: string }[];
+}
+
+export interface ImportReport {
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  questionSets: ImportPreviewSet[];
+  issues: ImportIssue[];
+}
+
+export interface ImportResult {
+  id: string;
+  status: 'created' | 'updated' | 'failed';
+  message: string;
+  questionCount: number;
+  summary?: QuestionDiffSummary;
+}
+
+// 题目内容快照
+export interface QuestionSnapshot {
+  text: string;
+  explanation: string;
+  questionType: QuestionType;
+  contentFormat?: QuestionContentFormat;
+  options: { optionIndex: string; text: string; isCorrect: boolean; matchText?: string }[];
+  tags?: string[];
+}
+
+export interface QuestionRevision {
+  id: string;
+  questionId: string;
+  questionSetId: string;
+  userId: string | null;
+  user?: { id: string; username: string } | null;
+  action: 'create' | 'update' | 'retire' | 'restore' | 'rollback';
+  source: 'create' | 'editor' | 'import' | 'rollback';
+  before: QuestionSnapshot | null;
+  after: QuestionSnapshot | null;
+  rolledBackFrom?: string | null;
+  createdAt: string;
+}
+
+export interface RevisionFieldDiff {
+  before: string | null;
+  after: string | null;
+  changed: boolean;
+}
+
+export interface QuestionRevisionDiff {
+  questionId: string;
+  before: QuestionSnapshot | null;
+  after: QuestionSnapshot | null;
+  diff: {
+    changed: boolean;
+    text: RevisionFieldDiff;
+    explanation: RevisionFieldDiff;
+    questionType: RevisionFieldDiff;
+    contentFormat: RevisionFieldDiff;
+    tags: RevisionFieldDiff;
+    options: {
+      optionIndex: string;
+      change: 'added' | 'removed' | 'changed' | 'unchanged';
+      before: { text: string; isCorrect: boolean; matchText?: string } | null;
+      after: { text: string; isCorrect: boolean; matchText?: string } | null;
+    }[];
+  };
+}
+
+// 题目库中的题目，一道题可以被多个题库使用
+export interface QuestionBankItem {
+  id: string;
+  text: string;
+  questionType: string;
+  questionSetId: string; // 创建题目的题库
+  questionSetTitle: string;
+  setCount: number; // 使用这道题的题库数
+  inTargetSet: boolean;
+}
+
+export interface QuestionBankPage {
+  items: QuestionBankItem[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export type QuizMode = 'practice' | 'exam';
+
+// 题目标签及使用该标签的题目数
+export interface TagSummary {
+  tag: string;
+  questionCount: number;
+}
+
+// 按标签统计的答题正确率，未作答的题目计为答错
+export interface TagAccuracy {
+  tag: string;
+  total: number;
+  answered: number;
+  correct: number;
+  accuracy: number;
+}
+
+// 按标签练习的答题记录 questionSetId 为空，tags 为所选标签
+export interface QuizAttempt {
+  id: string;
+  questionSetId: string | null;
+  tags?: string[] | null;
+  mode: QuizMode;
+  status: 'in_progress' | 'completed';
+  totalQuestions: number;
+  correctCount: number;
+  score?: number | null;
+  passed?: boolean | null;
+  startedAt: string;
+  deadline?: string | null;
+  completedAt?: string | null;
+  durationSeconds?: number | null; // 答题用时（秒）
+  serverTime?: string;
+  resumed?: boolean;
+  answeredQuestions?: number;
+  availableQuestions?: number; // 按标签练习时符合条件的题目总数
+  tagStats?: TagAccuracy[];
+  results?: AnswerResult[];
+}
+
+// 答题历史
+export interface AttemptHistoryEntry extends QuizAttempt {
+  questionSetTitle: string;
+  questionSetIcon: string;
+}
+
+export interface ScoreTrendPoint {
+  attemptId: string;
+  mode: QuizMode;
+  score: number | null;
+  passed: boolean | null;
+  completedAt: string;
+}
+
+// 单个题库的成绩汇总，trend 按完成时间从早到晚排列
+export interface QuestionSetScoreSummary {
+  questionSetId: string;
+  questionSetTitle: string;
+  questionSetIcon: string;
+  attemptCount: number;
+  bestScore: number;
+  averageScore: number;
+  lastScore: number;
+  trend: ScoreTrendPoint[];
+}
+
+export interface AttemptHistory {
+  attempts: AttemptHistoryEntry[];
+  sets: QuestionSetScoreSummary[];
+}
+
+export interface AttemptDetailItem extends AnswerResult {
+  answered: boolean;
+  question: Question;
+}
+
+export interface AttemptDetails extends AttemptHistoryEntry {
+  items: AttemptDetailItem[];
+}
+
+// 错题本记录
+export interface WrongQuestionEntry {
+  id: string;
+  questionId: string;
+  questionSetId: string;
+  questionSetTitle: string;
+  questionSetIcon: string;
+  selectedOptions: string[];
+  wrongCount: number;
+  correctStreak: number;
+  lastWrongAt: string;
+  question: Question | null;
+}
+
+export interface WrongQuestionNotebook {
+  masteryStreak: number; // 连续答对多少次后移出错题本
+  items: WrongQuestionEntry[];
+}
+
+export interface WrongQuestionAnswerResult extends AnswerResult {
+  inNotebook: boolean;
+  correctStreak: number;
+  removed: boolean;
+  masteryStreak: number;
+}
+
+// 间隔复习（SM-2）计划
+export interface ReviewSchedule {
+  easeFactor: number;
+  interval: number; // 复习间隔（天）
+  repetitions: number;
+  lapses: number;
+  dueDate: string;
+  lastReviewedAt: string;
+}
+
+export interface ReviewItem {
+  questionId: string;
+  questionSetId: string;
+  questionSetTitle: string;
+  questionSetIcon: string;
+  schedule: ReviewSchedule;
+  question: Question;
+}
+
+export interface ReviewQueue {
+  dueCount: number;
+  scheduledCount: number;
+  nextDueDate: string | null;
+  items: ReviewItem[];
+}
+
+export interface ReviewAnswerResult extends AnswerResult {
+  schedule: ReviewSchedule;
 }
 
 export interface Purchase {
@@ -54,11 +403,55 @@ export interface Purchase {
   expiryDate: string;
   transactionId: string;
   amount: number;
-  status?: string;
+  status?: 'pending' | 'completed' | 'failed' | 'refunded';
   paymentMethod?: string;
+  pricingTierId?: string | null;
+  accessDays?: number | null; // 购买的有效天数，null 为永久
+  bundlePurchaseId?: string | null; // 通过套餐获得时为套餐购买记录ID，金额为 0
+  bundlePurchase?: { id: string; bundleId: string; amount: number; refundedAmount?: number; bundle?: { id: string; title: string } } | null;
+  refundedAmount?: number;
+  refundReason?: string | null;
+  refundedAt?: string | null;
   questionSet?: QuestionSet;
 }
 
+export type PaymentProviderName = 'stripe' | 'mock';
+
+// 服务端配置的支付渠道，金额以元为单位，币种如 cny
+export interface PaymentConfig {
+  provider: PaymentProviderName;
+  currency: string;
+  publishableKey: string | null;
+}
+
+// 创建支付后返回的信息，购买记录在支付平台确认前为 pending；购买套餐时返回 bundleId 而不是题库和档位
+export interface PurchaseIntent {
+  purchaseId: string;
+  paymentIntentId: string;
+  clientSecret: string;
+  provider: PaymentProviderName;
+  amount: number;
+  currency: string;
+  pricingTier?: PricingTier;
+  questionSetId?: string;
+  questionSetTitle?: string;
+  bundleId?: string;
+  bundleTitle?: string;
+}
+
+// 题库套餐，购买后获得其中每个题库的访问权限
+export interface Bundle {
+  id: string;
+  title: string;
+  description: string;
+  price: number;
+  accessDays: number | null; // 购买后的有效天数，null 为永久
+  isActive: boolean;
+  sortOrder: number;
+  questionSets: { id: string; title: string; icon: string; price: number }[];
+  originalPrice: number; // 其中的题库单独购买的价格合计
+}
+
 export interface RedeemCode {
   code: string;
   questionSetId: string;
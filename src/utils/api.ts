@@ -1,5 +1,5 @@
 // @ts-nocheck - 禁用 TypeScript 未使用变量检查
-import { User, Purchase, RedeemCode, QuestionSet } from '../types';
+import { User, QuestionSetStatus, UserProgress, UserProgressRecord, Purchase, PurchaseIntent, PaymentConfig, Bundle, RedeemCode, QuestionSet, Question, QuizAttempt, QuizMode, AnswerResult, AttemptHistory, AttemptDetails, WrongQuestionNotebook, WrongQuestionAnswerResult, ReviewQueue, ReviewAnswerResult, ImportReport, ImportResult, QuestionRevision, QuestionRevisionDiff, QuestionBankPage, Category, CategoryNode, FlatCategory, CategoryDetail, TagSummary } from '../types';
 import { logger } from './logger';
 
 // API基础URL，可以从环境变量读取
@@ -20,7 +20,8 @@ export async function fetchWithAuth<T>(
   const token = localStorage.getItem('token');
   
   const headers = {
-    'Content-Type': 'application/json',
+    // 上传文件时由浏览器设置 multipart 边界
+    ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
     ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
     ...options.headers,
   };
@@ -85,6 +86,53 @@ export async function fetchWithAuth<T>(
   }
 }
 
+export interface DownloadedFile {
+  blob: Blob;
+  filename: string;
+}
+
+// 从 Content-Disposition 中取出文件名，优先使用 UTF-8 编码的 filename*
+const parseFilename = (disposition: string | null, fallback: string) => {
+  if (!disposition) return fallback;
+  const encoded = disposition.match(/filename\*=UTF-8''([^;]+)/i);
+  if (encoded) return decodeURIComponent(encoded[1]);
+  const plain = disposition.match(/filename="?([^";]+)"?/i);
+  return plain ? plain[1] : fallback;
+};
+
+// 辅助函数：带授权token下载文件，失败时服务端返回的是 JSON 错误信息
+export async function downloadWithAuth(endpoint: string, fallbackName: string): Promise<ApiResponse<DownloadedFile>> {
+  const token = localStorage.getItem('token');
+
+  try {
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+    });
+
+    if (!response.ok) {
+      const responseData = await response.json().catch(() => ({}));
+      return {
+        success: false,
+        error: responseData.message || responseData.error || `下载失败（${response.status}）`,
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        blob: await response.blob(),
+        filename: parseFilename(response.headers.get('Content-Disposition'), fallbackName),
+      },
+    };
+  } catch (error) {
+    console.error('下载文件失败:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
 // User related API calls
 export const userApi = {
   login: async (username: string, password: string): Promise<ApiResponse<{ user: User; token: string }>> => {
@@ -125,8 +173,14 @@ export const userApi = {
 
 // Question set related API calls
 export const questionSetApi = {
-  getAllQuestionSets: async (): Promise<ApiResponse<QuestionSet[]>> => {
-    return fetchWithAuth<QuestionSet[]>('/question-sets');
+  // 默认只返回已发布的题库，管理员可以传 includeUnpublished 获取全部
+  getAllQuestionSets: async (includeUnpublished = false): Promise<ApiResponse<QuestionSet[]>> => {
+    return fetchWithAuth<QuestionSet[]>(`/question-sets${includeUnpublished ? '?includeUnpublished=true' : ''}`);
+  },
+
+  // 某个分类（包含子分类）中已发布的题库，categoryId 可以是分类ID或 slug
+  getQuestionSetsByCategory: async (categoryId: string): Promise<ApiResponse<QuestionSet[]>> => {
+    return fetchWithAuth<QuestionSet[]>(`/question-sets?categoryId=${encodeURIComponent(categoryId)}`);
   },
 
   getQuestionSetById: async (questionSetId: string): Promise<ApiResponse<QuestionSet>> => {
@@ -153,20 +207,341 @@ export const questionSetApi = {
     });
   },
   
-  uploadQuestionSets: async (questionSets: Partial<QuestionSet>[]): Promise<ApiResponse<any>> => {
-    return fetchWithAuth<any>('/question-sets/upload', {
+  uploadQuestionSets: async (questionSets: Partial<QuestionSet>[]): Promise<ApiResponse<ImportResult[]>> => {
+    return fetchWithAuth<ImportResult[]>('/question-sets/upload', {
+      method: 'POST',
+      body: JSON.stringify({ questionSets }),
+    });
+  },
+
+  // 只校验不保存，返回导入报告
+  previewQuestionSets: async (questionSets: Partial<QuestionSet>[]): Promise<ApiResponse<ImportReport>> => {
+    return fetchWithAuth<ImportReport>('/question-sets/upload?dryRun=true', {
       method: 'POST',
       body: JSON.stringify({ questionSets }),
     });
+  },
+
+  // 上传 JSON / CSV / Excel 文件，dryRun 为 true 时只返回导入报告
+  uploadQuestionSetFile: async (
+    file: File,
+    fields: Record<string, string> = {},
+    dryRun = false
+  ): Promise<ApiResponse<ImportReport | ImportResult[]>> => {
+    const formData = new FormData();
+    Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+    formData.append('file', file);
+
+    return fetchWithAuth<ImportReport | ImportResult[]>(`/question-sets/upload/file${dryRun ? '?dryRun=true' : ''}`, {
+      method: 'POST',
+      body: formData,
+    });
+  },
+
+  // 导出题库，格式与上传文件一致
+  exportQuestionSet: async (id: string, format: 'json' | 'csv' | 'xlsx'): Promise<ApiResponse<DownloadedFile>> => {
+    return downloadWithAuth(`/question-sets/${id}/export?format=${format}`, `${id}.${format}`);
+  },
+
+  // 导出全部题库（zip）
+  exportAllQuestionSets: async (format: 'json' | 'csv' | 'xlsx'): Promise<ApiResponse<DownloadedFile>> => {
+    return downloadWithAuth(`/question-sets/export?format=${format}`, `question-sets-${format}.zip`);
+  },
+
+  // 更新发布状态，publishAt 为定时发布时间
+  updateQuestionSetStatus: async (
+    questionSetId: string,
+    status: QuestionSetStatus,
+    publishAt: string | null = null
+  ): Promise<ApiResponse<Pick<QuestionSet, 'id' | 'status' | 'publishAt' | 'isPublished'>>> => {
+    return fetchWithAuth<Pick<QuestionSet, 'id' | 'status' | 'publishAt' | 'isPublished'>>(`/question-sets/${questionSetId}/status`, {
+      method: 'PUT',
+      body: JSON.stringify({ status, publishAt }),
+    });
+  },
+
+  // 题目修订记录，传 questionId 时只查该题
+  getQuestionRevisions: async (questionSetId: string, questionId?: string): Promise<ApiResponse<QuestionRevision[]>> => {
+    const query = questionId ? `?questionId=${encodeURIComponent(questionId)}` : '';
+    return fetchWithAuth<QuestionRevision[]>(`/question-sets/${questionSetId}/revisions${query}`);
+  },
+
+  // 对比修订记录，to 为另一条记录ID或 'current'，不传时对比该次修改前后
+  getQuestionRevisionDiff: async (questionSetId: string, from: string, to?: string): Promise<ApiResponse<QuestionRevisionDiff>> => {
+    const query = `from=${encodeURIComponent(from)}${to ? `&to=${encodeURIComponent(to)}` : ''}`;
+    return fetchWithAuth<QuestionRevisionDiff>(`/question-sets/${questionSetId}/revisions/diff?${query}`);
+  },
+
+  rollbackQuestionRevision: async (questionSetId: string, revisionId: string): Promise<ApiResponse<QuestionRevision>> => {
+    return fetchWithAuth<QuestionRevision>(`/question-sets/${questionSetId}/revisions/${revisionId}/rollback`, {
+      method: 'POST',
+    });
+  },
+
+  // 搜索题目库，targetSetId 用于标出已在该题库中的题目
+  searchQuestionBank: async (params: {
+    search?: string;
+    fromSetId?: string;
+    targetSetId?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<ApiResponse<QuestionBankPage>> => {
+    const query = Object.entries(params)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+      .join('&');
+    return fetchWithAuth<QuestionBankPage>(`/question-sets/bank${query ? `?${query}` : ''}`);
+  },
+
+  addQuestionsToSet: async (questionSetId: string, questionIds: string[]): Promise<ApiResponse<{ added: number; skipped: number }>> => {
+    return fetchWithAuth<{ added: number; skipped: number }>(`/question-sets/${questionSetId}/questions`, {
+      method: 'POST',
+      body: JSON.stringify({ questionIds }),
+    });
+  },
+
+  removeQuestionFromSet: async (questionSetId: string, questionId: string): Promise<ApiResponse<{ retired: boolean }>> => {
+    return fetchWithAuth<{ retired: boolean }>(`/question-sets/${questionSetId}/questions/${questionId}`, {
+      method: 'DELETE',
+    });
+  }
+};
+
+// 题库分类
+export const categoryApi = {
+  getCategoryTree: async (): Promise<ApiResponse<CategoryNode[]>> => {
+    return fetchWithAuth<CategoryNode[]>('/categories');
+  },
+
+  // 按树的顺序展开的分类列表，用于下拉选择；管理员可以传 includeUnpublished 统计全部题库
+  getFlatCategories: async (includeUnpublished = false): Promise<ApiResponse<FlatCategory[]>> => {
+    return fetchWithAuth<FlatCategory[]>(`/categories?flat=true${includeUnpublished ? '&includeUnpublished=true' : ''}`);
+  },
+
+  getCategory: async (idOrSlug: string): Promise<ApiResponse<CategoryDetail>> => {
+    return fetchWithAuth<CategoryDetail>(`/categories/${encodeURIComponent(idOrSlug)}`);
+  },
+
+  createCategory: async (data: Partial<Category>): Promise<ApiResponse<Category>> => {
+    return fetchWithAuth<Category>('/categories', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  updateCategory: async (categoryId: string, data: Partial<Category>): Promise<ApiResponse<Category>> => {
+    return fetchWithAuth<Category>(`/categories/${categoryId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  deleteCategory: async (categoryId: string): Promise<ApiResponse<void>> => {
+    return fetchWithAuth<void>(`/categories/${categoryId}`, {
+      method: 'DELETE',
+    });
+  }
+};
+
+// 题库套餐，管理员可以传 includeInactive 获取下架的套餐
+export const bundleApi = {
+  getBundles: async (options: { questionSetId?: string; includeInactive?: boolean } = {}): Promise<ApiResponse<Bundle[]>> => {
+    const params = new URLSearchParams();
+    if (options.questionSetId) params.set('questionSetId', options.questionSetId);
+    if (options.includeInactive) params.set('includeInactive', 'true');
+    const query = params.toString();
+    return fetchWithAuth<Bundle[]>(`/bundles${query ? `?${query}` : ''}`);
+  },
+
+  createBundle: async (data: Partial<Bundle> & { questionSetIds?: string[] }): Promise<ApiResponse<Bundle>> => {
+    return fetchWithAuth<Bundle>('/bundles', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  updateBundle: async (bundleId: string, data: Partial<Bundle> & { questionSetIds?: string[] }): Promise<ApiResponse<Bundle>> => {
+    return fetchWithAuth<Bundle>(`/bundles/${bundleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  deleteBundle: async (bundleId: string): Promise<ApiResponse<void>> => {
+    return fetchWithAuth<void>(`/bundles/${bundleId}`, {
+      method: 'DELETE',
+    });
+  }
+};
+
+// 题目标签
+export const tagApi = {
+  // 管理员可以传 includeUnpublished 统计全部题库中的题目
+  getTags: async (includeUnpublished = false): Promise<ApiResponse<TagSummary[]>> => {
+    return fetchWithAuth<TagSummary[]>(`/tags${includeUnpublished ? '?includeUnpublished=true' : ''}`);
+  }
+};
+
+// 学习进度（由服务端根据已完成的答题记录计算）
+export const progressApi = {
+  getProgress: async (): Promise<ApiResponse<UserProgressRecord[]>> => {
+    return fetchWithAuth<UserProgressRecord[]>('/progress');
+  },
+
+  saveProgress: async (questionSetId: string, attemptId: string): Promise<ApiResponse<UserProgress>> => {
+    return fetchWithAuth<UserProgress>('/progress', {
+      method: 'POST',
+      body: JSON.stringify({ questionSetId, attemptId }),
+    });
+  }
+};
+
+// Quiz attempt related API calls (answers are graded on the server)
+export const quizAttemptApi = {
+  startAttempt: async (questionSetId: string, mode: QuizMode = 'practice'): Promise<ApiResponse<QuizAttempt>> => {
+    return fetchWithAuth<QuizAttempt>('/quiz-attempts', {
+      method: 'POST',
+      body: JSON.stringify({ questionSetId, mode }),
+    });
+  },
+
+  // 按标签练习：从所有可以访问的题库中随机抽取带有所选标签的题目
+  startTagAttempt: async (tags: string[], limit?: number): Promise<ApiResponse<QuizAttempt>> => {
+    return fetchWithAuth<QuizAttempt>('/quiz-attempts/tags', {
+      method: 'POST',
+      body: JSON.stringify({ tags, limit }),
+    });
+  },
+
+  getAttempt: async (attemptId: string): Promise<ApiResponse<QuizAttempt>> => {
+    return fetchWithAuth<QuizAttempt>(`/quiz-attempts/${attemptId}`);
+  },
+
+  getQuestions: async (attemptId: string): Promise<ApiResponse<Question[]>> => {
+    return fetchWithAuth<Question[]>(`/quiz-attempts/${attemptId}/questions`);
+  },
+
+  submitAnswer: async (attemptId: string, questionId: string, selectedOptions: string[]): Promise<ApiResponse<AnswerResult>> => {
+    return fetchWithAuth<AnswerResult>(`/quiz-attempts/${attemptId}/answers`, {
+      method: 'POST',
+      body: JSON.stringify({ questionId, selectedOptions }),
+    });
+  },
+
+  submitAnswers: async (
+    attemptId: string,
+    answers: { questionId: string; selectedOptions: string[] }[]
+  ): Promise<ApiResponse<AnswerResult[]>> => {
+    return fetchWithAuth<AnswerResult[]>(`/quiz-attempts/${attemptId}/answers/bulk`, {
+      method: 'POST',
+      body: JSON.stringify({ answers }),
+    });
+  },
+
+  completeAttempt: async (attemptId: string): Promise<ApiResponse<QuizAttempt>> => {
+    return fetchWithAuth<QuizAttempt>(`/quiz-attempts/${attemptId}/complete`, {
+      method: 'POST',
+    });
+  },
+
+  getHistory: async (questionSetId?: string): Promise<ApiResponse<AttemptHistory>> => {
+    const query = questionSetId ? `?questionSetId=${encodeURIComponent(questionSetId)}` : '';
+    return fetchWithAuth<AttemptHistory>(`/quiz-attempts/history${query}`);
+  },
+
+  getAttemptDetails: async (attemptId: string): Promise<ApiResponse<AttemptDetails>> => {
+    return fetchWithAuth<AttemptDetails>(`/quiz-attempts/${attemptId}/details`);
+  }
+};
+
+// 错题本 API
+export const wrongQuestionApi = {
+  getWrongQuestions: async (questionSetId?: string): Promise<ApiResponse<WrongQuestionNotebook>> => {
+    const query = questionSetId ? `?questionSetId=${encodeURIComponent(questionSetId)}` : '';
+    return fetchWithAuth<WrongQuestionNotebook>(`/wrong-questions${query}`);
+  },
+
+  getPracticeQuestions: async (questionSetId?: string): Promise<ApiResponse<WrongQuestionNotebook>> => {
+    const query = questionSetId ? `?questionSetId=${encodeURIComponent(questionSetId)}` : '';
+    return fetchWithAuth<WrongQuestionNotebook>(`/wrong-questions/practice${query}`);
+  },
+
+  submitAnswer: async (questionId: string, selectedOptions: string[]): Promise<ApiResponse<WrongQuestionAnswerResult>> => {
+    return fetchWithAuth<WrongQuestionAnswerResult>(`/wrong-questions/${questionId}/answer`, {
+      method: 'POST',
+      body: JSON.stringify({ selectedOptions }),
+    });
+  },
+
+  removeWrongQuestion: async (questionId: string): Promise<ApiResponse<void>> => {
+    return fetchWithAuth<void>(`/wrong-questions/${questionId}`, {
+      method: 'DELETE',
+    });
+  }
+};
+
+export const reviewApi = {
+  getDueReviews: async (limit?: number): Promise<ApiResponse<ReviewQueue>> => {
+    const query = limit ? `?limit=${limit}` : '';
+    return fetchWithAuth<ReviewQueue>(`/reviews/due${query}`);
+  },
+
+  submitAnswer: async (questionId: string, selectedOptions: string[], quality?: number): Promise<ApiResponse<ReviewAnswerResult>> => {
+    return fetchWithAuth<ReviewAnswerResult>(`/reviews/${questionId}/answer`, {
+      method: 'POST',
+      body: JSON.stringify({ selectedOptions, quality }),
+    });
   }
 };
 
 // Purchase related API calls
 export const purchaseApi = {
-  createPurchase: async (purchaseData: Partial<Purchase>): Promise<ApiResponse<Purchase>> => {
-    return fetchWithAuth<Purchase>('/purchases', {
+  // 不传 pricingTierId 时按题库的第一个价格档位购买
+  createPurchase: async (questionSetId: string, pricingTierId?: string): Promise<ApiResponse<PurchaseIntent>> => {
+    return fetchWithAuth<PurchaseIntent>('/purchases', {
+      method: 'POST',
+      body: JSON.stringify({ questionSetId, pricingTierId }),
+    });
+  },
+
+  // 购买套餐，支付成功后获得套餐中每个题库的访问权限
+  createBundlePurchase: async (bundleId: string): Promise<ApiResponse<PurchaseIntent>> => {
+    return fetchWithAuth<PurchaseIntent>('/purchases/bundle', {
+      method: 'POST',
+      body: JSON.stringify({ bundleId }),
+    });
+  },
+
+  getPaymentConfig: async (): Promise<ApiResponse<PaymentConfig>> => {
+    return fetchWithAuth<PaymentConfig>('/purchases/config');
+  },
+
+  // 购买状态由支付平台的 webhook 更新，支付完成后轮询这里确认
+  getPurchaseStatus: async (paymentIntentId: string): Promise<ApiResponse<{ purchase: Purchase; paymentStatus: string | null }>> => {
+    return fetchWithAuth<{ purchase: Purchase; paymentStatus: string | null }>(`/purchases/status/${paymentIntentId}`);
+  },
+
+  // 仅在服务端使用模拟支付时可用
+  confirmMockPayment: async (paymentIntentId: string, outcome: 'succeeded' | 'failed' = 'succeeded'): Promise<ApiResponse<{ result: string }>> => {
+    return fetchWithAuth<{ result: string }>(`/purchases/mock/${paymentIntentId}/confirm`, {
+      method: 'POST',
+      body: JSON.stringify({ outcome }),
+    });
+  },
+
+  // 管理员退款，不传金额时全额退款
+  refundPurchase: async (purchaseId: string, reason: string, amount?: number): Promise<ApiResponse<Purchase>> => {
+    return fetchWithAuth<Purchase>(`/purchases/${purchaseId}/refund`, {
+      method: 'POST',
+      body: JSON.stringify({ reason, amount }),
+    });
+  },
+
+  // 管理员退款整个套餐，返回套餐中所有题库的购买记录
+  refundBundlePurchase: async (bundlePurchaseId: string, reason: string, amount?: number): Promise<ApiResponse<{ bundlePurchase: { id: string; refundedAmount: number }; purchases: Purchase[] }>> => {
+    return fetchWithAuth<{ bundlePurchase: { id: string; refundedAmount: number }; purchases: Purchase[] }>(`/purchases/bundle/${bundlePurchaseId}/refund`, {
       method: 'POST',
-      body: JSON.stringify(purchaseData),
+      body: JSON.stringify({ reason, amount }),
     });
   },
 
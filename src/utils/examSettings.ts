@@ -0,0 +1,28 @@
+import { QuestionSet } from '../types';
+
+// 表单中编辑的考试设置，0 表示不限时 / 不判定是否及格
+export interface ExamSettingsDraft {
+  timeLimit: string;
+  passingScore: string;
+}
+
+export const toExamSettingsDraft = (questionSet?: Pick<QuestionSet, 'timeLimit' | 'passingScore'>): ExamSettingsDraft => ({
+  timeLimit: String(questionSet?.timeLimit || 0),
+  passingScore: String(questionSet?.passingScore || 0)
+});
+
+/**
+ * 校验并转为提交给服务端的考试设置，格式不正确时返回错误信息
+ */
+export const readExamSettings = (draft: ExamSettingsDraft): { value?: { timeLimit: number; passingScore: number }; error?: string } => {
+  const timeLimit = Number(draft.timeLimit.trim() || 0);
+  const passingScore = Number(draft.passingScore.trim() || 0);
+
+  if (!Number.isInteger(timeLimit) || timeLimit < 0) {
+    return { error: '考试时间限制应为不小于0的整数（分钟）' };
+  }
+  if (!Number.isInteger(passingScore) || passingScore < 0 || passingScore > 100) {
+    return { error: '及格分需在0到100之间' };
+  }
+  return { value: { timeLimit, passingScore } };
+};
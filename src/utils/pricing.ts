@@ -0,0 +1,48 @@
+import { PricingTier, QuestionSet } from '../types';
+
+// 与服务端一致：没有设置价格档位的题库按 price 购买 6 个月
+const DEFAULT_ACCESS_DAYS = 180;
+
+// 永久有效的购买记录到期时间为 9999-12-31
+const LIFETIME_EXPIRY_YEAR = 9999;
+
+export const formatAccessDuration = (durationDays: number | null) => {
+  if (durationDays === null) return '永久';
+  if (durationDays % 365 === 0) return `${durationDays / 365}年`;
+  if (durationDays >= 60 && durationDays % 30 === 0) return `${durationDays / 30}个月`;
+  return `${durationDays}天`;
+};
+
+/**
+ * 题库可以购买的档位，未设置时为默认的 6 个月档位
+ */
+export const getPricingTiers = (questionSet: Pick<QuestionSet, 'price' | 'pricingTiers'>): PricingTier[] =>
+  questionSet.pricingTiers && questionSet.pricingTiers.length > 0
+    ? questionSet.pricingTiers
+    : [{
+      id: 'default',
+      label: formatAccessDuration(DEFAULT_ACCESS_DAYS),
+      durationDays: DEFAULT_ACCESS_DAYS,
+      price: Number(questionSet.price) || 0
+    }];
+
+export const isLifetimeExpiry = (expiryDate: string | Date) =>
+  new Date(expiryDate).getFullYear() >= LIFETIME_EXPIRY_YEAR;
+
+// 表单中编辑的档位，有效天数留空表示永久
+export interface PricingTierDraft {
+  label: string;
+  durationDays: string;
+  price: string;
+}
+
+/**
+ * 转为提交给服务端的档位，ID 和留空的名称由服务端按有效期生成
+ */
+export const toPricingTiers = (drafts: PricingTierDraft[]): PricingTier[] =>
+  drafts.map(draft => ({
+    id: '',
+    label: draft.label.trim(),
+    durationDays: draft.durationDays.trim() === '' ? null : Number(draft.durationDays),
+    price: Number(draft.price)
+  }));
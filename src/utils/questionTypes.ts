@@ -0,0 +1,68 @@
+import { Question, QuestionType } from '../types';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: '单选题',
+  multiple: '多选题',
+  truefalse: '判断题',
+  fill: '填空题',
+  ordering: '排序题',
+  matching: '匹配题'
+};
+
+export const getQuestionTypeLabel = (questionType?: string) =>
+  QUESTION_TYPE_LABELS[(questionType || 'single') as QuestionType] || questionType || '';
+
+// 单选、多选和判断题按选项ID作答
+export const isChoiceQuestion = (question: Pick<Question, 'questionType'>) =>
+  !question.questionType || question.questionType === 'single' ||
+  question.questionType === 'multiple' || question.questionType === 'truefalse';
+
+/**
+ * 实际提交的答案：排序题没有调整过顺序时按当前显示的顺序提交
+ */
+export const toSubmittedAnswer = (question: Question, selected: string[]): string[] =>
+  question.questionType === 'ordering' && selected.length === 0
+    ? question.options.map(option => option.id)
+    : selected;
+
+/**
+ * 是否已经可以提交：填空题需要填写答案，匹配题的每一项都需要选择
+ */
+export const isAnswerComplete = (question: Question, selected: string[]) => {
+  switch (question.questionType) {
+    case 'ordering':
+      return question.options.length > 0;
+    case 'fill':
+      return !!selected[0] && selected[0].trim() !== '';
+    case 'matching':
+      return question.options.length > 0 && question.options.every((_, i) => !!selected[i]);
+    default:
+      return selected.length > 0;
+  }
+};
+
+/**
+ * 把提交的答案或正确答案显示为文字
+ */
+export const formatAnswer = (question: Question, values: string[] = []) => {
+  const findText = (id: string) => {
+    const option = question.options.find(o => o.id === id);
+    return option ? option.text : id;
+  };
+
+  switch (question.questionType) {
+    case 'fill':
+      return values.filter(value => value !== '').join(' / ');
+    case 'ordering':
+      return values.map(findText).join(' → ');
+    case 'matching':
+      return question.options
+        .map((option, i) => `${option.text} → ${values[i] || '未选择'}`)
+        .join('；');
+    default:
+      return question.options
+        .filter(option => values.includes(option.id))
+        .map(option => `${option.optionIndex || ''} ${option.text}`.trim())
+        .join('；');
+  }
+};